@@ -1,9 +1,18 @@
 import type { Metadata } from 'next';
+import { getBranding } from '@/shared/lib/config/branding';
+import { getRequestCentro } from '@/shared/lib/config/branding-server';
+import { MESSAGES } from '@/shared/lib/i18n';
+import { getRequestLocale } from '@/shared/lib/i18n/server';
+import { translate } from '@/shared/lib/i18n/translate';
 
-export const metadata: Metadata = {
-  title: 'Autenticación - Academia Multi-Centro',
-  description: 'Inicia sesión en Academia Multi-Centro',
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { appName } = getBranding(await getRequestCentro());
+  const messages = MESSAGES[await getRequestLocale()];
+  return {
+    title: translate(messages, 'meta.authTitle', { appName }),
+    description: translate(messages, 'meta.authDescription', { appName }),
+  };
+}
 
 /**
  * Layout para rutas de autenticación (login, register)
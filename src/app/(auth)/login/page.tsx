@@ -2,6 +2,7 @@
 
 import { Container, Box, Typography, Paper } from '@mui/material';
 import { LoginForm } from '@/features/auth/components/login-form';
+import { useTranslation } from '@/shared/contexts/i18n-context';
 
 /**
  * Página de login
@@ -9,6 +10,8 @@ import { LoginForm } from '@/features/auth/components/login-form';
  * El layout (auth) maneja la metadata y estructura básica
  */
 export default function LoginPage() {
+  const { t } = useTranslation();
+
   return (
     <Container component="main" maxWidth="xs">
       <Box
@@ -31,10 +34,10 @@ export default function LoginPage() {
           }}
         >
           <Typography component="h1" variant="h5" gutterBottom>
-            Iniciar Sesión
+            {t('auth.login.title')}
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-            Ingresa tus credenciales para acceder
+            {t('auth.login.subtitle')}
           </Typography>
           <LoginForm />
         </Paper>
@@ -0,0 +1,14 @@
+import type { NextRequest } from 'next/server';
+import { handleMockRequest } from '@/shared/lib/mocks/handler';
+
+/**
+ * Backend mock para desarrollo y tests sin el servidor Spring
+ * Solo responde con NEXT_PUBLIC_USE_MOCKS=true (ver src/shared/lib/mocks)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+  return handleMockRequest(request, path);
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Box, Button } from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { AlumnoDetail } from '@/features/alumnos/components/alumno-detail';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function AlumnoDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Button
+        component={Link}
+        href="/dashboard/alumno"
+        startIcon={<ArrowBackIcon />}
+        sx={{ mb: 2 }}
+      >
+        {t('alumnos.backToList')}
+      </Button>
+      <AlumnoDetail idAlumno={id} />
+    </Box>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import PersonAddIcon from '@mui/icons-material/PersonAdd';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { AlumnoForm } from '@/features/alumnos/components/alumno-form';
+import { AlumnoImportDialog } from '@/features/alumnos/components/alumno-import-dialog';
+import { AlumnoList } from '@/features/alumnos/components/alumno-list';
+import {
+  useCreateAlumno,
+  useUpdateAlumno,
+} from '@/features/alumnos/hooks/use-alumno-mutations';
+import type {
+  Alumno,
+  AlumnoInput,
+} from '@/features/alumnos/types/alumno.types';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function AlumnoPage() {
+  const { t } = useTranslation();
+  const [isDialogOpen, setDialogOpen] = useState(false);
+  const [editingAlumno, setEditingAlumno] = useState<Alumno | null>(null);
+  const [isImportOpen, setImportOpen] = useState(false);
+
+  const createAlumnoMutation = useCreateAlumno();
+  const updateAlumnoMutation = useUpdateAlumno();
+
+  const handleClose = () => {
+    setDialogOpen(false);
+    setEditingAlumno(null);
+    // Sin esto el formulario volvería a mostrar los errores del servidor
+    createAlumnoMutation.reset();
+    updateAlumnoMutation.reset();
+  };
+
+  const handleSubmit = (input: AlumnoInput) => {
+    if (editingAlumno) {
+      updateAlumnoMutation.mutate(
+        { id: editingAlumno.idUsuario, input },
+        { onSuccess: handleClose }
+      );
+    } else {
+      createAlumnoMutation.mutate(input, { onSuccess: handleClose });
+    }
+  };
+
+  const handleEdit = (alumno: Alumno) => {
+    setEditingAlumno(alumno);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb={3}
+      >
+        <Typography variant="h4">{t('alumnos.title')}</Typography>
+        <Box display="flex" gap={1}>
+          <Button
+            variant="outlined"
+            startIcon={<UploadFileIcon />}
+            onClick={() => setImportOpen(true)}
+          >
+            {t('alumnos.importCsv')}
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<PersonAddIcon />}
+            onClick={() => setDialogOpen(true)}
+          >
+            {t('alumnos.new')}
+          </Button>
+        </Box>
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <AlumnoList onEdit={handleEdit} />
+      </Paper>
+
+      <Dialog open={isDialogOpen} onClose={handleClose} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {editingAlumno ? t('alumnos.editTitle') : t('alumnos.createTitle')}
+        </DialogTitle>
+        <DialogContent>
+          <AlumnoForm
+            key={editingAlumno?.idUsuario ?? 'nuevo'}
+            initialData={
+              editingAlumno
+                ? {
+                    email: editingAlumno.email,
+                    nombre: editingAlumno.datosPersonales?.nombre ?? '',
+                    apellidos: editingAlumno.datosPersonales?.apellidos ?? '',
+                    dni: editingAlumno.datosPersonales?.dni ?? '',
+                    telefono: editingAlumno.datosPersonales?.telefono ?? '',
+                    direccion: editingAlumno.datosPersonales?.direccion ?? '',
+                    activo: editingAlumno.activo,
+                  }
+                : undefined
+            }
+            onSubmit={handleSubmit}
+            isLoading={
+              createAlumnoMutation.isPending || updateAlumnoMutation.isPending
+            }
+            error={
+              editingAlumno
+                ? updateAlumnoMutation.error
+                : createAlumnoMutation.error
+            }
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlumnoImportDialog
+        open={isImportOpen}
+        onClose={() => setImportOpen(false)}
+      />
+    </Box>
+  );
+}
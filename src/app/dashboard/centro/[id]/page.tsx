@@ -0,0 +1,27 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Box, Button } from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { CentroDetail } from '@/features/centros/components/centro-detail';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function CentroDetailPage() {
+  const { t } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Button
+        component={Link}
+        href="/dashboard/centro"
+        startIcon={<ArrowBackIcon />}
+        sx={{ mb: 2 }}
+      >
+        {t('centros.backToList')}
+      </Button>
+      <CentroDetail idCentro={id} />
+    </Box>
+  );
+}
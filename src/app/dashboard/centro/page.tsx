@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { CentroForm } from '@/features/centros/components/centro-form';
+import { CentroList } from '@/features/centros/components/centro-list';
+import {
+  useCreateCentro,
+  useUpdateCentro,
+} from '@/features/centros/hooks/use-centro-mutations';
+import { toCentroInput } from '@/features/centros/utils';
+import type {
+  Centro,
+  CentroInput,
+} from '@/features/centros/types/centro.types';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function CentroPage() {
+  const { t } = useTranslation();
+  const [isDialogOpen, setDialogOpen] = useState(false);
+  const [editingCentro, setEditingCentro] = useState<Centro | null>(null);
+
+  const createCentroMutation = useCreateCentro();
+  const updateCentroMutation = useUpdateCentro();
+
+  const handleClose = () => {
+    setDialogOpen(false);
+    setEditingCentro(null);
+    // Sin esto el formulario volvería a mostrar los errores del servidor
+    createCentroMutation.reset();
+    updateCentroMutation.reset();
+  };
+
+  const handleSubmit = (input: CentroInput) => {
+    if (editingCentro) {
+      updateCentroMutation.mutate(
+        { id: editingCentro.idCentro, input },
+        { onSuccess: handleClose }
+      );
+    } else {
+      createCentroMutation.mutate(input, { onSuccess: handleClose });
+    }
+  };
+
+  const handleEdit = (centro: Centro) => {
+    setEditingCentro(centro);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb={3}
+      >
+        <Typography variant="h4">{t('centros.title')}</Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setDialogOpen(true)}
+        >
+          {t('centros.new')}
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <CentroList onEdit={handleEdit} />
+      </Paper>
+
+      <Dialog open={isDialogOpen} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingCentro ? t('centros.editTitle') : t('centros.new')}
+        </DialogTitle>
+        <DialogContent>
+          <CentroForm
+            key={editingCentro?.idCentro ?? 'nuevo'}
+            initialData={
+              editingCentro ? toCentroInput(editingCentro) : undefined
+            }
+            onSubmit={handleSubmit}
+            isLoading={
+              createCentroMutation.isPending || updateCentroMutation.isPending
+            }
+            error={
+              editingCentro
+                ? updateCentroMutation.error
+                : createCentroMutation.error
+            }
+          />
+        </DialogContent>
+      </Dialog>
+    </Box>
+  );
+}
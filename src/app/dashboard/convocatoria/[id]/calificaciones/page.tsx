@@ -0,0 +1,27 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Box, Button } from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { CuadernoCalificaciones } from '@/features/calificaciones/components/cuaderno-calificaciones';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function ConvocatoriaCalificacionesPage() {
+  const { t } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Button
+        component={Link}
+        href={`/dashboard/convocatoria/${id}`}
+        startIcon={<ArrowBackIcon />}
+        sx={{ mb: 2 }}
+      >
+        {t('convocatorias.backToDetail')}
+      </Button>
+      <CuadernoCalificaciones idConvocatoria={id} />
+    </Box>
+  );
+}
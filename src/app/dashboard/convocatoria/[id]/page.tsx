@@ -0,0 +1,37 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Box, Button } from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import GradingIcon from '@mui/icons-material/Grading';
+import { ConvocatoriaDetail } from '@/features/convocatorias/components/convocatoria-detail';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function ConvocatoriaDetailPage() {
+  const { t } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" mb={2}>
+        <Button
+          component={Link}
+          href="/dashboard/convocatoria"
+          startIcon={<ArrowBackIcon />}
+        >
+          {t('convocatorias.backToList')}
+        </Button>
+        <Button
+          variant="outlined"
+          component={Link}
+          href={`/dashboard/convocatoria/${id}/calificaciones`}
+          startIcon={<GradingIcon />}
+        >
+          {t('convocatorias.calificaciones')}
+        </Button>
+      </Box>
+      <ConvocatoriaDetail idConvocatoria={id} />
+    </Box>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { ConvocatoriaForm } from '@/features/convocatorias/components/convocatoria-form';
+import { ConvocatoriaList } from '@/features/convocatorias/components/convocatoria-list';
+import {
+  useCreateConvocatoria,
+  useUpdateConvocatoria,
+} from '@/features/convocatorias/hooks/use-convocatoria-mutations';
+import { toConvocatoriaInput } from '@/features/convocatorias/utils';
+import type {
+  Convocatoria,
+  ConvocatoriaInput,
+} from '@/features/convocatorias/types/convocatoria.types';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function ConvocatoriaPage() {
+  const { t } = useTranslation();
+  const [isDialogOpen, setDialogOpen] = useState(false);
+  const [editingConvocatoria, setEditingConvocatoria] =
+    useState<Convocatoria | null>(null);
+
+  const createConvocatoriaMutation = useCreateConvocatoria();
+  const updateConvocatoriaMutation = useUpdateConvocatoria();
+
+  const handleClose = () => {
+    setDialogOpen(false);
+    setEditingConvocatoria(null);
+    // Sin esto el formulario volvería a mostrar los errores del servidor
+    createConvocatoriaMutation.reset();
+    updateConvocatoriaMutation.reset();
+  };
+
+  const handleSubmit = (input: ConvocatoriaInput) => {
+    if (editingConvocatoria) {
+      updateConvocatoriaMutation.mutate(
+        { id: editingConvocatoria.idConvocatoria, input },
+        { onSuccess: handleClose }
+      );
+    } else {
+      createConvocatoriaMutation.mutate(input, { onSuccess: handleClose });
+    }
+  };
+
+  const handleEdit = (convocatoria: Convocatoria) => {
+    setEditingConvocatoria(convocatoria);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb={3}
+      >
+        <Typography variant="h4">{t('convocatorias.title')}</Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setDialogOpen(true)}
+        >
+          {t('convocatorias.new')}
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <ConvocatoriaList onEdit={handleEdit} />
+      </Paper>
+
+      <Dialog open={isDialogOpen} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingConvocatoria
+            ? t('convocatorias.editTitle', {
+                codigo: editingConvocatoria.codigo,
+              })
+            : t('convocatorias.new')}
+        </DialogTitle>
+        <DialogContent>
+          <ConvocatoriaForm
+            key={editingConvocatoria?.idConvocatoria ?? 'nueva'}
+            initialData={
+              editingConvocatoria
+                ? toConvocatoriaInput(editingConvocatoria)
+                : undefined
+            }
+            onSubmit={handleSubmit}
+            isLoading={
+              createConvocatoriaMutation.isPending ||
+              updateConvocatoriaMutation.isPending
+            }
+            error={
+              editingConvocatoria
+                ? updateConvocatoriaMutation.error
+                : createConvocatoriaMutation.error
+            }
+          />
+        </DialogContent>
+      </Dialog>
+    </Box>
+  );
+}
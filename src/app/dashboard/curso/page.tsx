@@ -1,12 +1,17 @@
 'use client';
 
+import { Suspense, useState } from 'react';
 import { CursoForm } from '@/features/cursos/components/curso-form';
 import { CursoList } from '@/features/cursos/components/curso-list';
+import { CursoEditDialog } from '@/features/cursos/components/curso-edit-dialog';
 import { useCreateCurso } from '@/features/cursos/hooks/use-curso-mutations';
-import { Box, Typography, Paper } from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { Box, Typography, Paper, CircularProgress } from '@mui/material';
 
 export default function CursoPage() {
+  const { t } = useTranslation();
   const createCursoMutation = useCreateCurso();
+  const [editingCursoId, setEditingCursoId] = useState<string | null>(null);
 
   const handleSubmit = async (data: Parameters<typeof createCursoMutation.mutate>[0]) => {
     createCursoMutation.mutate(data);
@@ -15,25 +20,34 @@ export default function CursoPage() {
   return (
     <Box sx={{ p: 3 }}>
       <Typography variant="h4" gutterBottom>
-        Gestión de Cursos
+        {t('cursos.title')}
       </Typography>
 
       <Paper sx={{ p: 3, mb: 3 }}>
         <Typography variant="h6" gutterBottom>
-          Crear Nuevo Curso
+          {t('cursos.createTitle')}
         </Typography>
         <CursoForm
           onSubmit={handleSubmit}
           isLoading={createCursoMutation.isPending}
+          error={createCursoMutation.error}
         />
       </Paper>
 
       <Paper sx={{ p: 3 }}>
         <Typography variant="h6" gutterBottom>
-          Lista de Cursos
+          {t('cursos.listTitle')}
         </Typography>
-        <CursoList />
+        {/* CursoList lee filtros y página de la URL (useSearchParams) */}
+        <Suspense fallback={<CircularProgress />}>
+          <CursoList onEdit={(curso) => setEditingCursoId(curso.idCurso)} />
+        </Suspense>
       </Paper>
+
+      <CursoEditDialog
+        cursoId={editingCursoId}
+        onClose={() => setEditingCursoId(null)}
+      />
     </Box>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Box, Button } from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { EmpresaDetail } from '@/features/empresas/components/empresa-detail';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function EmpresaDetailPage() {
+  const { t } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Button
+        component={Link}
+        href="/dashboard/empresa"
+        startIcon={<ArrowBackIcon />}
+        sx={{ mb: 2 }}
+      >
+        {t('empresas.backToList')}
+      </Button>
+      <EmpresaDetail idEmpresa={id} />
+    </Box>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { EmpresaForm } from '@/features/empresas/components/empresa-form';
+import { EmpresaList } from '@/features/empresas/components/empresa-list';
+import {
+  useCreateEmpresa,
+  useUpdateEmpresa,
+} from '@/features/empresas/hooks/use-empresa-mutations';
+import type {
+  Empresa,
+  EmpresaInput,
+} from '@/features/empresas/types/empresa.types';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function EmpresaPage() {
+  const { t } = useTranslation();
+  const [isDialogOpen, setDialogOpen] = useState(false);
+  const [editingEmpresa, setEditingEmpresa] = useState<Empresa | null>(null);
+
+  const createEmpresaMutation = useCreateEmpresa();
+  const updateEmpresaMutation = useUpdateEmpresa();
+
+  const handleClose = () => {
+    setDialogOpen(false);
+    setEditingEmpresa(null);
+    // Sin esto el formulario volvería a mostrar los errores del servidor
+    createEmpresaMutation.reset();
+    updateEmpresaMutation.reset();
+  };
+
+  const handleSubmit = (input: EmpresaInput) => {
+    if (editingEmpresa) {
+      updateEmpresaMutation.mutate(
+        { id: editingEmpresa.idEmpresa, input },
+        { onSuccess: handleClose }
+      );
+    } else {
+      createEmpresaMutation.mutate(input, { onSuccess: handleClose });
+    }
+  };
+
+  const handleEdit = (empresa: Empresa) => {
+    setEditingEmpresa(empresa);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb={3}
+      >
+        <Typography variant="h4">{t('empresas.title')}</Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setDialogOpen(true)}
+        >
+          {t('empresas.new')}
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <EmpresaList onEdit={handleEdit} />
+      </Paper>
+
+      <Dialog open={isDialogOpen} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingEmpresa ? t('empresas.editTitle') : t('empresas.new')}
+        </DialogTitle>
+        <DialogContent>
+          <EmpresaForm
+            key={editingEmpresa?.idEmpresa ?? 'nuevo'}
+            initialData={
+              editingEmpresa
+                ? {
+                    cif: editingEmpresa.cif,
+                    nombreLegal: editingEmpresa.nombreLegal,
+                    direccionFiscal: editingEmpresa.direccionFiscal,
+                    activo: editingEmpresa.activo,
+                  }
+                : undefined
+            }
+            onSubmit={handleSubmit}
+            isLoading={
+              createEmpresaMutation.isPending || updateEmpresaMutation.isPending
+            }
+            error={
+              editingEmpresa
+                ? updateEmpresaMutation.error
+                : createEmpresaMutation.error
+            }
+          />
+        </DialogContent>
+      </Dialog>
+    </Box>
+  );
+}
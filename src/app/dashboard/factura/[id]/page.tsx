@@ -0,0 +1,27 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Box, Button } from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { FacturaDetail } from '@/features/facturas/components/factura-detail';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function FacturaDetailPage() {
+  const { t } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Button
+        component={Link}
+        href="/dashboard/factura"
+        startIcon={<ArrowBackIcon />}
+        sx={{ mb: 2, displayPrint: 'none' }}
+      >
+        {t('facturas.backToList')}
+      </Button>
+      <FacturaDetail idFactura={id} />
+    </Box>
+  );
+}
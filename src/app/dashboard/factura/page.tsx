@@ -0,0 +1,21 @@
+'use client';
+
+import { Box, Paper, Typography } from '@mui/material';
+import { FacturaList } from '@/features/facturas/components/factura-list';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function FacturaPage() {
+  const { t } = useTranslation();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Typography variant="h4" mb={3}>
+        {t('facturas.title')}
+      </Typography>
+
+      <Paper sx={{ p: 3 }}>
+        <FacturaList />
+      </Paper>
+    </Box>
+  );
+}
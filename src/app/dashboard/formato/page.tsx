@@ -0,0 +1,127 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { CatalogoForm } from '@/features/catalogos/components/catalogo-form';
+import { CatalogoList } from '@/features/catalogos/components/catalogo-list';
+import { useFormatos } from '@/features/catalogos/hooks/use-catalogos';
+import {
+  useCreateFormato,
+  useUpdateFormato,
+} from '@/features/catalogos/hooks/use-catalogo-mutations';
+import {
+  formatoToCatalogoItem,
+  toCatalogoInput,
+} from '@/features/catalogos/utils';
+import type {
+  CatalogoInput,
+  CatalogoItem,
+} from '@/features/catalogos/types/catalogo.types';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function FormatoPage() {
+  const { t } = useTranslation();
+  const [isDialogOpen, setDialogOpen] = useState(false);
+  const [editingFormato, setEditingFormato] = useState<CatalogoItem | null>(
+    null
+  );
+
+  const { data: formatos, isLoading, error } = useFormatos();
+  const createFormatoMutation = useCreateFormato();
+  const updateFormatoMutation = useUpdateFormato();
+
+  const items = useMemo(() => formatos?.map(formatoToCatalogoItem), [formatos]);
+
+  const handleClose = () => {
+    setDialogOpen(false);
+    setEditingFormato(null);
+  };
+
+  const handleSubmit = (input: CatalogoInput) => {
+    if (editingFormato) {
+      updateFormatoMutation.mutate(
+        { id: editingFormato.id, input },
+        { onSuccess: handleClose }
+      );
+    } else {
+      createFormatoMutation.mutate(input, { onSuccess: handleClose });
+    }
+  };
+
+  const handleEdit = (formato: CatalogoItem) => {
+    setEditingFormato(formato);
+    setDialogOpen(true);
+  };
+
+  const handleToggleActivo = (formato: CatalogoItem, onDone: () => void) => {
+    updateFormatoMutation.mutate(
+      {
+        id: formato.id,
+        input: { ...toCatalogoInput(formato), activo: !formato.activo },
+      },
+      { onSettled: onDone }
+    );
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb={3}
+      >
+        <Typography variant="h4">{t('catalogos.formato.title')}</Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setDialogOpen(true)}
+        >
+          {t('catalogos.formato.new')}
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <CatalogoList
+          items={items}
+          isLoading={isLoading}
+          error={error}
+          tipo="formato"
+          isToggling={updateFormatoMutation.isPending}
+          onEdit={handleEdit}
+          onToggleActivo={handleToggleActivo}
+        />
+      </Paper>
+
+      <Dialog open={isDialogOpen} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingFormato
+            ? t('catalogos.formato.editTitle')
+            : t('catalogos.formato.new')}
+        </DialogTitle>
+        <DialogContent>
+          <CatalogoForm
+            key={editingFormato?.id ?? 'nuevo'}
+            tipo="formato"
+            initialData={
+              editingFormato ? toCatalogoInput(editingFormato) : undefined
+            }
+            onSubmit={handleSubmit}
+            isLoading={
+              createFormatoMutation.isPending || updateFormatoMutation.isPending
+            }
+          />
+        </DialogContent>
+      </Dialog>
+    </Box>
+  );
+}
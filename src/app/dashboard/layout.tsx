@@ -2,9 +2,29 @@
 
 import { Navbar } from '@/shared/components/layout/navbar';
 import { Sidebar } from '@/shared/components/layout/sidebar';
+import { SessionExpiryDialog } from '@/features/auth/components/session-expiry-dialog';
+import { OfflineBanner } from '@/shared/components/offline/offline-banner';
+import { useOfflineSync } from '@/shared/hooks/use-offline-sync';
+import type { OfflineMutationHandlers } from '@/shared/lib/offline/mutation-queue';
+import {
+  CREATE_CURSO_OFFLINE,
+  createCursoOfflineHandler,
+} from '@/features/cursos/hooks/use-curso-mutations';
+import {
+  CREATE_MATRICULA_OFFLINE,
+  createMatriculaOfflineHandler,
+} from '@/features/matriculas/hooks/use-matricula-mutations';
 import { Box, useMediaQuery, useTheme } from '@mui/material';
 import { useState } from 'react';
 
+/**
+ * Operaciones que se pueden hacer sin conexión y cómo reenviarlas
+ */
+const OFFLINE_HANDLERS: OfflineMutationHandlers = {
+  [CREATE_CURSO_OFFLINE]: createCursoOfflineHandler,
+  [CREATE_MATRICULA_OFFLINE]: createMatriculaOfflineHandler,
+};
+
 export default function DashboardLayout({
   children,
 }: {
@@ -12,6 +32,7 @@ export default function DashboardLayout({
 }) {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  useOfflineSync(OFFLINE_HANDLERS);
 
   return (
     <>
@@ -25,8 +46,10 @@ export default function DashboardLayout({
           ml: {md: "240px"},
         }}
       >
+        <OfflineBanner />
         {children}
       </Box>
+      <SessionExpiryDialog />
     </>
   );
 }
@@ -0,0 +1,127 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { CatalogoForm } from '@/features/catalogos/components/catalogo-form';
+import { CatalogoList } from '@/features/catalogos/components/catalogo-list';
+import { useMaterias } from '@/features/catalogos/hooks/use-catalogos';
+import {
+  useCreateMateria,
+  useUpdateMateria,
+} from '@/features/catalogos/hooks/use-catalogo-mutations';
+import {
+  materiaToCatalogoItem,
+  toCatalogoInput,
+} from '@/features/catalogos/utils';
+import type {
+  CatalogoInput,
+  CatalogoItem,
+} from '@/features/catalogos/types/catalogo.types';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function MateriaPage() {
+  const { t } = useTranslation();
+  const [isDialogOpen, setDialogOpen] = useState(false);
+  const [editingMateria, setEditingMateria] = useState<CatalogoItem | null>(
+    null
+  );
+
+  const { data: materias, isLoading, error } = useMaterias();
+  const createMateriaMutation = useCreateMateria();
+  const updateMateriaMutation = useUpdateMateria();
+
+  const items = useMemo(() => materias?.map(materiaToCatalogoItem), [materias]);
+
+  const handleClose = () => {
+    setDialogOpen(false);
+    setEditingMateria(null);
+  };
+
+  const handleSubmit = (input: CatalogoInput) => {
+    if (editingMateria) {
+      updateMateriaMutation.mutate(
+        { id: editingMateria.id, input },
+        { onSuccess: handleClose }
+      );
+    } else {
+      createMateriaMutation.mutate(input, { onSuccess: handleClose });
+    }
+  };
+
+  const handleEdit = (materia: CatalogoItem) => {
+    setEditingMateria(materia);
+    setDialogOpen(true);
+  };
+
+  const handleToggleActivo = (materia: CatalogoItem, onDone: () => void) => {
+    updateMateriaMutation.mutate(
+      {
+        id: materia.id,
+        input: { ...toCatalogoInput(materia), activo: !materia.activo },
+      },
+      { onSettled: onDone }
+    );
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb={3}
+      >
+        <Typography variant="h4">{t('catalogos.materia.title')}</Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setDialogOpen(true)}
+        >
+          {t('catalogos.materia.new')}
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <CatalogoList
+          items={items}
+          isLoading={isLoading}
+          error={error}
+          tipo="materia"
+          isToggling={updateMateriaMutation.isPending}
+          onEdit={handleEdit}
+          onToggleActivo={handleToggleActivo}
+        />
+      </Paper>
+
+      <Dialog open={isDialogOpen} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {editingMateria
+            ? t('catalogos.materia.editTitle')
+            : t('catalogos.materia.new')}
+        </DialogTitle>
+        <DialogContent>
+          <CatalogoForm
+            key={editingMateria?.id ?? 'nuevo'}
+            tipo="materia"
+            initialData={
+              editingMateria ? toCatalogoInput(editingMateria) : undefined
+            }
+            onSubmit={handleSubmit}
+            isLoading={
+              createMateriaMutation.isPending || updateMateriaMutation.isPending
+            }
+          />
+        </DialogContent>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { MatriculaForm } from '@/features/matriculas/components/matricula-form';
+import { MatriculaList } from '@/features/matriculas/components/matricula-list';
+import { useCreateMatricula } from '@/features/matriculas/hooks/use-matricula-mutations';
+import type { MatriculaInput } from '@/features/matriculas/types/matricula.types';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function MatriculaPage() {
+  const { t } = useTranslation();
+  const [isDialogOpen, setDialogOpen] = useState(false);
+  const createMatriculaMutation = useCreateMatricula();
+
+  const handleClose = () => {
+    setDialogOpen(false);
+    // Sin esto el formulario volvería a mostrar los errores del servidor
+    createMatriculaMutation.reset();
+  };
+
+  const handleSubmit = (input: MatriculaInput) => {
+    createMatriculaMutation.mutate(input, { onSuccess: handleClose });
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb={3}
+      >
+        <Typography variant="h4">{t('matriculas.title')}</Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setDialogOpen(true)}
+        >
+          {t('matriculas.new')}
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <MatriculaList />
+      </Paper>
+
+      <Dialog open={isDialogOpen} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('matriculas.new')}</DialogTitle>
+        <DialogContent>
+          <MatriculaForm
+            onSubmit={handleSubmit}
+            isLoading={createMatriculaMutation.isPending}
+            error={createMatriculaMutation.error}
+          />
+        </DialogContent>
+      </Dialog>
+    </Box>
+  );
+}
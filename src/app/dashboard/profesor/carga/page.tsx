@@ -0,0 +1,30 @@
+'use client';
+
+import Link from 'next/link';
+import { Box, Button, Paper, Typography } from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { ProfesorCarga } from '@/features/profesores/components/profesor-carga';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function ProfesorCargaPage() {
+  const { t } = useTranslation();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Button
+        component={Link}
+        href="/dashboard/profesor"
+        startIcon={<ArrowBackIcon />}
+        sx={{ mb: 2 }}
+      >
+        {t('profesores.backToList')}
+      </Button>
+      <Typography variant="h4" mb={3}>
+        {t('profesores.carga')}
+      </Typography>
+      <Paper sx={{ p: 3 }}>
+        <ProfesorCarga />
+      </Paper>
+    </Box>
+  );
+}
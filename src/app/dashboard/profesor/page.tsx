@@ -0,0 +1,36 @@
+'use client';
+
+import Link from 'next/link';
+import { Box, Button, Paper, Typography } from '@mui/material';
+import AssessmentIcon from '@mui/icons-material/Assessment';
+import { ProfesorList } from '@/features/profesores/components/profesor-list';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+export default function ProfesorPage() {
+  const { t } = useTranslation();
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb={3}
+      >
+        <Typography variant="h4">{t('profesores.title')}</Typography>
+        <Button
+          variant="outlined"
+          startIcon={<AssessmentIcon />}
+          component={Link}
+          href="/dashboard/profesor/carga"
+        >
+          {t('profesores.carga')}
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 3 }}>
+        <ProfesorList />
+      </Paper>
+    </Box>
+  );
+}
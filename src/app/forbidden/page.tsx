@@ -0,0 +1,37 @@
+'use client';
+
+import Link from 'next/link';
+import { Box, Button, Paper, Typography } from '@mui/material';
+import LockIcon from '@mui/icons-material/Lock';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+/**
+ * Página 403: el middleware la sirve en lugar de la ruta solicitada cuando
+ * el rol del usuario no tiene acceso
+ */
+export default function ForbiddenPage() {
+  const { t } = useTranslation();
+
+  return (
+    <Box
+      display="flex"
+      justifyContent="center"
+      alignItems="center"
+      minHeight="100vh"
+      p={2}
+    >
+      <Paper sx={{ p: 4, maxWidth: 480, textAlign: 'center' }}>
+        <LockIcon color="error" sx={{ fontSize: 64, mb: 2 }} />
+        <Typography variant="h4" component="h1" gutterBottom>
+          {t('forbidden.title')}
+        </Typography>
+        <Typography color="text.secondary" mb={3}>
+          {t('forbidden.message')}
+        </Typography>
+        <Button variant="contained" component={Link} href="/dashboard">
+          {t('forbidden.back')}
+        </Button>
+      </Paper>
+    </Box>
+  );
+}
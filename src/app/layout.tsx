@@ -4,6 +4,14 @@ import { AuthProvider } from '@/shared/contexts/auth-context';
 import { ReactQueryProvider } from '@/shared/lib/react-query/provider';
 import { MaterialUIProvider } from '@/shared/providers/material-ui-provider';
 import { NotificationContainer } from '@/shared/components/notification/notification-container';
+import { I18nProvider } from '@/shared/contexts/i18n-context';
+import { getRequestLocale } from '@/shared/lib/i18n/server';
+import { BrandingProvider } from '@/shared/contexts/branding-context';
+import { getBranding } from '@/shared/lib/config/branding';
+import { getRequestCentro } from '@/shared/lib/config/branding-server';
+import { MESSAGES } from '@/shared/lib/i18n';
+import { translate } from '@/shared/lib/i18n/translate';
+import { ThemeModeScript } from '@/shared/lib/theme/theme-mode-script';
 import "./globals.css";
 
 const geistSans = Geist({
@@ -16,30 +24,48 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
-};
+/**
+ * Título e icono con la marca del centro de la cookie, en el idioma de la petición
+ */
+export async function generateMetadata(): Promise<Metadata> {
+  const branding = getBranding(await getRequestCentro());
+  const locale = await getRequestLocale();
+  return {
+    title: branding.appName,
+    description: translate(MESSAGES[locale], 'meta.description'),
+    ...(branding.logoUrl && { icons: { icon: branding.logoUrl } }),
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getRequestLocale();
+  const idCentro = await getRequestCentro();
+
   return (
-    <html lang="en" suppressHydrationWarning>
+    <html lang={locale} suppressHydrationWarning>
+      <head>
+        <ThemeModeScript />
+      </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
         suppressHydrationWarning
       >
-        <MaterialUIProvider>
+        <I18nProvider locale={locale}>
           <ReactQueryProvider>
             <AuthProvider>
-              {children}
-              <NotificationContainer />
+              <BrandingProvider idCentro={idCentro}>
+                <MaterialUIProvider>
+                  {children}
+                  <NotificationContainer />
+                </MaterialUIProvider>
+              </BrandingProvider>
             </AuthProvider>
           </ReactQueryProvider>
-        </MaterialUIProvider>
+        </I18nProvider>
       </body>
     </html>
   );
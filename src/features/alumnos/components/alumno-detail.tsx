@@ -0,0 +1,149 @@
+'use client';
+
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import {
+  formatCurrency,
+  formatDate,
+  getNombreUsuario,
+} from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useAlumno, useAlumnoMatriculas } from '../hooks/use-alumnos';
+import { EstadoPagoChip } from '@/features/matriculas/components/estado-pago-chip';
+
+interface AlumnoDetailProps {
+  idAlumno: string;
+}
+
+/**
+ * Ficha del alumno: datos personales y matrículas
+ */
+export function AlumnoDetail({ idAlumno }: AlumnoDetailProps) {
+  const { t, locale } = useTranslation();
+  const { data: alumno, isLoading, error } = useAlumno(idAlumno);
+  const {
+    data: matriculas,
+    isLoading: loadingMatriculas,
+    error: matriculasError,
+  } = useAlumnoMatriculas(idAlumno);
+
+  if (isLoading) return <CircularProgress />;
+  if (error || !alumno) {
+    return <Alert severity="error">{t('alumnos.loadError')}</Alert>;
+  }
+
+  const datos = [
+    { label: t('alumnos.fields.email'), value: alumno.email },
+    { label: t('alumnos.fields.dni'), value: alumno.datosPersonales?.dni },
+    {
+      label: t('alumnos.fields.telefono'),
+      value: alumno.datosPersonales?.telefono,
+    },
+    {
+      label: t('alumnos.fields.direccion'),
+      value: alumno.datosPersonales?.direccion,
+    },
+    {
+      label: t('alumnos.fields.alta'),
+      value: formatDate(alumno.fechaCreacion, locale),
+    },
+  ];
+
+  return (
+    <>
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box display="flex" alignItems="center" gap={2} mb={2}>
+          <Typography variant="h5" component="h2">
+            {getNombreUsuario(alumno)}
+          </Typography>
+          <Chip
+            label={alumno.activo ? t('common.active') : t('common.inactive')}
+            color={alumno.activo ? 'success' : 'default'}
+            size="small"
+          />
+        </Box>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)' },
+            gap: 2,
+          }}
+        >
+          {datos.map((dato) => (
+            <Box key={dato.label}>
+              <Typography variant="body2" color="text.secondary">
+                {dato.label}
+              </Typography>
+              <Typography>{dato.value || '-'}</Typography>
+            </Box>
+          ))}
+        </Box>
+      </Paper>
+
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          {t('alumnos.detail.matriculas')}
+        </Typography>
+        {loadingMatriculas && <CircularProgress />}
+        {matriculasError && (
+          <Alert severity="error">{t('alumnos.detail.matriculasError')}</Alert>
+        )}
+        {matriculas && matriculas.length === 0 && (
+          <Alert severity="info">{t('alumnos.detail.noMatriculas')}</Alert>
+        )}
+        {matriculas && matriculas.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('alumnos.detail.codigo')}</TableCell>
+                  <TableCell>{t('alumnos.detail.curso')}</TableCell>
+                  <TableCell>{t('alumnos.detail.convocatoria')}</TableCell>
+                  <TableCell>{t('alumnos.detail.fechaMatricula')}</TableCell>
+                  <TableCell align="right">
+                    {t('alumnos.detail.precioFinal')}
+                  </TableCell>
+                  <TableCell>{t('alumnos.detail.estadoPago')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {matriculas.map((matricula) => (
+                  <TableRow key={matricula.idMatricula}>
+                    <TableCell>{matricula.codigo}</TableCell>
+                    <TableCell>{matricula.convocatoria.curso.nombre}</TableCell>
+                    <TableCell>
+                      {matricula.convocatoria.codigo} (
+                      {formatDate(matricula.convocatoria.fechaInicio, locale)} -{' '}
+                      {formatDate(matricula.convocatoria.fechaFin, locale)})
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(matricula.fechaMatricula, locale)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(matricula.precioFinal, locale)}
+                    </TableCell>
+                    <TableCell>
+                      <EstadoPagoChip estadoPago={matricula.estadoPago} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+    </>
+  );
+}
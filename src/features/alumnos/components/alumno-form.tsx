@@ -0,0 +1,171 @@
+'use client';
+
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  TextField,
+  Button,
+  Box,
+  Switch,
+  FormControlLabel,
+  Typography,
+} from '@mui/material';
+import { useServerFieldErrors } from '@/shared/hooks/use-server-field-errors';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { alumnoSchema, type AlumnoFormData } from '../schemas/alumno-schema';
+import type { AlumnoInput } from '../types/alumno.types';
+
+const ALUMNO_FIELDS = alumnoSchema.keyof().options;
+
+interface AlumnoFormProps {
+  initialData?: AlumnoFormData;
+  onSubmit: (data: AlumnoInput) => void;
+  isLoading?: boolean;
+  /** Error de la última mutation: los errores de validación se marcan en su campo */
+  error?: unknown;
+}
+
+export function AlumnoForm({
+  initialData,
+  onSubmit,
+  isLoading,
+  error,
+}: AlumnoFormProps) {
+  const { t } = useTranslation();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    control,
+    setValue,
+    setError,
+  } = useForm<AlumnoFormData>({
+    resolver: zodResolver(alumnoSchema),
+    defaultValues: {
+      activo: true,
+      telefono: '',
+      direccion: '',
+      ...initialData,
+    },
+  });
+
+  useServerFieldErrors(error, setError, ALUMNO_FIELDS);
+
+  const activo = useWatch({ control, name: 'activo', defaultValue: true });
+
+  const handleFormSubmit = (data: AlumnoFormData) => {
+    const alumnoInput: AlumnoInput = {
+      email: data.email,
+      nombre: data.nombre,
+      apellidos: data.apellidos,
+      dni: data.dni,
+      telefono: data.telefono || undefined,
+      direccion: data.direccion || undefined,
+      activo: data.activo ?? true,
+    };
+    onSubmit(alumnoInput);
+  };
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit(handleFormSubmit)}
+      sx={{ mt: 1 }}
+    >
+      <Typography variant="subtitle2" color="text.secondary" sx={{ mt: 1 }}>
+        {t('alumnos.form.personalData')}
+      </Typography>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', md: 'repeat(2, 1fr)' },
+          columnGap: 2,
+        }}
+      >
+        <TextField
+          fullWidth
+          label={t('alumnos.fields.nombre')}
+          autoComplete="given-name"
+          {...register('nombre')}
+          error={!!errors.nombre}
+          helperText={errors.nombre?.message}
+          margin="normal"
+          required
+        />
+        <TextField
+          fullWidth
+          label={t('alumnos.fields.apellidos')}
+          autoComplete="family-name"
+          {...register('apellidos')}
+          error={!!errors.apellidos}
+          helperText={errors.apellidos?.message}
+          margin="normal"
+          required
+        />
+        <TextField
+          fullWidth
+          label={t('alumnos.fields.dni')}
+          {...register('dni')}
+          error={!!errors.dni}
+          helperText={errors.dni?.message}
+          margin="normal"
+          required
+        />
+        <TextField
+          fullWidth
+          label={t('alumnos.fields.telefono')}
+          type="tel"
+          autoComplete="tel"
+          {...register('telefono')}
+          error={!!errors.telefono}
+          helperText={errors.telefono?.message}
+          margin="normal"
+        />
+      </Box>
+
+      <TextField
+        fullWidth
+        label={t('alumnos.fields.email')}
+        type="email"
+        autoComplete="email"
+        {...register('email')}
+        error={!!errors.email}
+        helperText={errors.email?.message}
+        margin="normal"
+        required
+      />
+
+      <TextField
+        fullWidth
+        label={t('alumnos.fields.direccion')}
+        multiline
+        rows={2}
+        {...register('direccion')}
+        error={!!errors.direccion}
+        helperText={errors.direccion?.message}
+        margin="normal"
+      />
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={activo}
+            onChange={(e) => setValue('activo', e.target.checked)}
+          />
+        }
+        label={t('alumnos.fields.activo')}
+        sx={{ mt: 2 }}
+      />
+
+      <Button
+        type="submit"
+        variant="contained"
+        disabled={isLoading}
+        fullWidth
+        sx={{ mt: 3 }}
+      >
+        {isLoading ? t('common.saving') : t('alumnos.form.submit')}
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,468 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  LinearProgress,
+  MenuItem,
+  Step,
+  StepLabel,
+  Stepper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { exportRows, type ExportColumn } from '@/shared/lib/export';
+import type { MessageKey } from '@/shared/lib/i18n';
+import {
+  parseCsv,
+  readTextFile,
+  type ParsedCsv,
+} from '@/shared/lib/import/csv';
+import { useAlumnos } from '../hooks/use-alumnos';
+import { useImportAlumnos } from '../hooks/use-alumno-import';
+import {
+  ALUMNO_IMPORT_FIELDS,
+  guessAlumnoMapping,
+  validateAlumnoImport,
+  type AlumnoImportMapping,
+  type AlumnoImportRow,
+} from '../utils/alumno-import';
+
+const STEPS: MessageKey[] = [
+  'alumnos.import.steps.file',
+  'alumnos.import.steps.columns',
+  'alumnos.import.steps.review',
+  'alumnos.import.steps.result',
+];
+const MAX_ROWS = 2000;
+const PREVIEW_PAGE_SIZE = 25;
+
+type RejectedRow = { row: AlumnoImportRow; reason: string };
+
+interface AlumnoImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Asistente de alta masiva de alumnos desde CSV:
+ * subir fichero, asignar columnas, revisar errores por fila e importar en lotes
+ */
+export function AlumnoImportDialog({ open, onClose }: AlumnoImportDialogProps) {
+  const { t } = useTranslation();
+  const { data: alumnos } = useAlumnos();
+  const importMutation = useImportAlumnos();
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<AlumnoImportMapping | null>(null);
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [page, setPage] = useState(0);
+  // Al importar se congela la validación: al refrescar la lista de alumnos
+  // las filas recién creadas pasarían a marcarse como duplicadas
+  const [importedRows, setImportedRows] = useState<AlumnoImportRow[] | null>(
+    null
+  );
+
+  const validatedRows = useMemo(
+    () =>
+      csv && mapping ? validateAlumnoImport(csv.rows, mapping, alumnos) : [],
+    [csv, mapping, alumnos]
+  );
+  const rows = importedRows ?? validatedRows;
+  const validRows = rows.filter((row) => row.input);
+  const invalidRows = rows.filter((row) => !row.input);
+  const previewRows = onlyErrors ? invalidRows : rows;
+  const missingRequired = ALUMNO_IMPORT_FIELDS.filter(
+    ({ field, required }) => required && !mapping?.[field]
+  );
+  const mappedFields = ALUMNO_IMPORT_FIELDS.filter(
+    ({ field }) => mapping?.[field]
+  );
+
+  const rejected: RejectedRow[] = [
+    ...invalidRows.map((row) => ({ row, reason: row.errors.join('; ') })),
+    ...(importMutation.data?.failed.map(({ row, error }) => ({
+      row,
+      reason: error,
+    })) ?? []),
+  ].sort((a, b) => a.row.line - b.row.line);
+
+  const reset = () => {
+    setStep(0);
+    setFileName('');
+    setCsv(null);
+    setFileError(null);
+    setMapping(null);
+    setOnlyErrors(false);
+    setPage(0);
+    setImportedRows(null);
+    importMutation.reset();
+  };
+
+  const handleClose = () => {
+    if (importMutation.isPending) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    setFileError(null);
+    try {
+      const parsed = parseCsv(await readTextFile(file));
+      if (parsed.rows.length === 0) {
+        setFileError(t('alumnos.import.emptyFile'));
+        return;
+      }
+      if (parsed.rows.length > MAX_ROWS) {
+        setFileError(
+          t('alumnos.import.tooManyRows', {
+            count: parsed.rows.length,
+            max: MAX_ROWS,
+          })
+        );
+        return;
+      }
+      setFileName(file.name);
+      setCsv(parsed);
+      setMapping(guessAlumnoMapping(parsed.headers));
+      setStep(1);
+    } catch {
+      setFileError(t('alumnos.import.readError'));
+    }
+  };
+
+  const handleImport = () => {
+    setImportedRows(validatedRows);
+    setStep(3);
+    importMutation.mutate(validRows);
+  };
+
+  const downloadReport = () => {
+    const columns: ExportColumn<RejectedRow>[] = [
+      {
+        id: 'fila',
+        header: t('alumnos.import.row'),
+        value: ({ row }) => row.line,
+      },
+      ...(csv?.headers ?? []).map(
+        (header): ExportColumn<RejectedRow> => ({
+          id: header,
+          header,
+          value: ({ row }) => row.raw[header],
+        })
+      ),
+      {
+        id: 'motivo',
+        header: t('alumnos.import.reason'),
+        value: ({ reason }) => reason,
+      },
+    ];
+    exportRows({
+      rows: rejected,
+      columns,
+      format: 'csv',
+      fileName: t('alumnos.import.rejectedFileName'),
+    });
+  };
+
+  const renderStep = () => {
+    switch (step) {
+      case 0:
+        return (
+          <Box sx={{ textAlign: 'center', py: 4 }}>
+            <Typography color="text.secondary" sx={{ mb: 3 }}>
+              {t('alumnos.import.fileHelp', { max: MAX_ROWS })}
+            </Typography>
+            <Button
+              variant="contained"
+              component="label"
+              startIcon={<UploadFileIcon />}
+            >
+              {t('alumnos.import.selectFile')}
+              <input
+                hidden
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleFile(file);
+                }}
+              />
+            </Button>
+            {fileError && (
+              <Alert severity="error" sx={{ mt: 3, textAlign: 'left' }}>
+                {fileError}
+              </Alert>
+            )}
+          </Box>
+        );
+      case 1:
+        return (
+          <>
+            <Typography color="text.secondary" sx={{ mb: 2 }}>
+              {t('alumnos.import.mappingHelp', {
+                fileName,
+                count: csv?.rows.length ?? 0,
+              })}
+            </Typography>
+            <Box
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)' },
+                gap: 2,
+              }}
+            >
+              {ALUMNO_IMPORT_FIELDS.map(({ field, label, required }) => (
+                <TextField
+                  key={field}
+                  select
+                  size="small"
+                  label={required ? `${t(label)} *` : t(label)}
+                  value={mapping?.[field] ?? ''}
+                  onChange={(e) =>
+                    setMapping(
+                      (prev) =>
+                        prev && { ...prev, [field]: e.target.value || null }
+                    )
+                  }
+                >
+                  <MenuItem value="">
+                    <em>{t('alumnos.import.notImported')}</em>
+                  </MenuItem>
+                  {csv?.headers.map((header) => (
+                    <MenuItem key={header} value={header}>
+                      {header}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              ))}
+            </Box>
+            {missingRequired.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                {t('alumnos.import.missing', {
+                  fields: missingRequired
+                    .map(({ label }) => t(label))
+                    .join(', '),
+                })}
+              </Alert>
+            )}
+          </>
+        );
+      case 2:
+        return (
+          <>
+            <Box
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1,
+                mb: 2,
+                flexWrap: 'wrap',
+              }}
+            >
+              <Chip
+                color="success"
+                label={t('alumnos.import.valid', { count: validRows.length })}
+              />
+              <Chip
+                color={invalidRows.length > 0 ? 'error' : 'default'}
+                label={t('alumnos.import.invalid', {
+                  count: invalidRows.length,
+                })}
+              />
+              <Box sx={{ flexGrow: 1 }} />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={onlyErrors}
+                    onChange={(e) => {
+                      setOnlyErrors(e.target.checked);
+                      setPage(0);
+                    }}
+                  />
+                }
+                label={t('alumnos.import.onlyErrors')}
+              />
+            </Box>
+            <TableContainer sx={{ maxHeight: 420 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('alumnos.import.row')}</TableCell>
+                    {mappedFields.map(({ field, label }) => (
+                      <TableCell key={field}>{t(label)}</TableCell>
+                    ))}
+                    <TableCell>{t('alumnos.import.errors')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {previewRows
+                    .slice(
+                      page * PREVIEW_PAGE_SIZE,
+                      (page + 1) * PREVIEW_PAGE_SIZE
+                    )
+                    .map((row) => (
+                      <TableRow
+                        key={row.line}
+                        sx={
+                          row.input
+                            ? undefined
+                            : {
+                                bgcolor: (theme) =>
+                                  alpha(theme.palette.error.main, 0.08),
+                              }
+                        }
+                      >
+                        <TableCell>{row.line}</TableCell>
+                        {mappedFields.map(({ field }) => (
+                          <TableCell key={field}>
+                            {row.raw[mapping![field]!]}
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          {row.errors.map((error) => (
+                            <Typography
+                              key={error}
+                              variant="caption"
+                              component="div"
+                            >
+                              {error}
+                            </Typography>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <TablePagination
+              component="div"
+              count={previewRows.length}
+              page={page}
+              rowsPerPage={PREVIEW_PAGE_SIZE}
+              rowsPerPageOptions={[PREVIEW_PAGE_SIZE]}
+              onPageChange={(_, next) => setPage(next)}
+              labelDisplayedRows={({ from, to, count }) =>
+                t('dataTable.displayedRows', { from, to, count })
+              }
+            />
+          </>
+        );
+      default: {
+        const { done, total } = importMutation.progress;
+        return (
+          <Box sx={{ py: 2 }}>
+            <Typography sx={{ mb: 1 }}>
+              {importMutation.isPending
+                ? t('alumnos.import.importing', { done, total })
+                : t('alumnos.import.finished')}
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={total > 0 ? (done / total) * 100 : 0}
+            />
+            {importMutation.data && (
+              <Alert
+                severity={rejected.length > 0 ? 'warning' : 'success'}
+                sx={{ mt: 3 }}
+              >
+                {rejected.length > 0
+                  ? t('alumnos.import.createdWithRejected', {
+                      count: importMutation.data.created,
+                      rejected: rejected.length,
+                    })
+                  : t('alumnos.import.created', {
+                      count: importMutation.data.created,
+                    })}
+              </Alert>
+            )}
+            {importMutation.error && (
+              <Alert severity="error" sx={{ mt: 3 }}>
+                {t('alumnos.import.interrupted', {
+                  message: importMutation.error.message,
+                })}
+              </Alert>
+            )}
+          </Box>
+        );
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle>{t('alumnos.import.title')}</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map((label) => (
+            <Step key={label}>
+              <StepLabel>{t(label)}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+        {renderStep()}
+      </DialogContent>
+      <DialogActions>
+        {rejected.length > 0 && step >= 2 && !importMutation.isPending && (
+          <Button startIcon={<FileDownloadIcon />} onClick={downloadReport}>
+            {t('alumnos.import.downloadRejected')}
+          </Button>
+        )}
+        <Box sx={{ flexGrow: 1 }} />
+        {step === 1 && (
+          <Button onClick={reset}>{t('alumnos.import.changeFile')}</Button>
+        )}
+        {step === 2 && (
+          <Button onClick={() => setStep(1)}>{t('common.back')}</Button>
+        )}
+        <Button onClick={handleClose} disabled={importMutation.isPending}>
+          {step === 3 ? t('common.close') : t('common.cancel')}
+        </Button>
+        {step === 1 && (
+          <Button
+            variant="contained"
+            disabled={missingRequired.length > 0}
+            onClick={() => {
+              setPage(0);
+              setStep(2);
+            }}
+          >
+            {t('alumnos.import.review')}
+          </Button>
+        )}
+        {step === 2 && (
+          <Button
+            variant="contained"
+            disabled={validRows.length === 0}
+            onClick={handleImport}
+          >
+            {t('alumnos.import.submit', { count: validRows.length })}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
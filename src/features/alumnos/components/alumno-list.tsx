@@ -0,0 +1,191 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+  Chip,
+  Box,
+  TextField,
+  InputAdornment,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import EditIcon from '@mui/icons-material/Edit';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { ConfirmDialog } from '@/shared/components/dialog/confirm-dialog';
+import { ExportButton } from '@/shared/components/export/export-button';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { getNombreUsuario, normalizeSearchText } from '@/shared/lib/utils';
+import { useAlumnos } from '../hooks/use-alumnos';
+import { useDeleteAlumno } from '../hooks/use-alumno-mutations';
+import type { Alumno } from '../types/alumno.types';
+import { getAlumnoExportColumns } from '../utils';
+
+interface AlumnoListProps {
+  onEdit?: (alumno: Alumno) => void;
+}
+
+export function AlumnoList({ onEdit }: AlumnoListProps) {
+  const { t } = useTranslation();
+  const { data: alumnos, isLoading, error } = useAlumnos();
+  const deleteMutation = useDeleteAlumno();
+  const [search, setSearch] = useState('');
+  const [alumnoToDelete, setAlumnoToDelete] = useState<Alumno | null>(null);
+
+  const filteredAlumnos = useMemo(() => {
+    const term = normalizeSearchText(search.trim());
+    if (!term) return alumnos ?? [];
+    return (alumnos ?? []).filter((alumno) =>
+      [
+        getNombreUsuario(alumno),
+        alumno.email,
+        alumno.datosPersonales?.dni ?? '',
+        alumno.datosPersonales?.telefono ?? '',
+      ].some((field) => normalizeSearchText(field).includes(term))
+    );
+  }, [alumnos, search]);
+
+  const handleConfirmDelete = () => {
+    if (!alumnoToDelete) return;
+    deleteMutation.mutate(alumnoToDelete.idUsuario, {
+      onSettled: () => setAlumnoToDelete(null),
+    });
+  };
+
+  if (isLoading) return <CircularProgress />;
+  if (error) {
+    return <Alert severity="error">{t('alumnos.list.error')}</Alert>;
+  }
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+        <TextField
+          fullWidth
+          size="small"
+          placeholder={t('alumnos.list.searchPlaceholder')}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <ExportButton
+          columns={getAlumnoExportColumns(t)}
+          fileName={t('nav.alumnos').toLowerCase()}
+          disabled={filteredAlumnos.length === 0}
+          getRows={() => filteredAlumnos}
+        />
+      </Box>
+
+      {filteredAlumnos.length === 0 ? (
+        <Alert severity="info">
+          {search ? t('alumnos.list.noMatches') : t('alumnos.list.empty')}
+        </Alert>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('alumnos.fields.nombre')}</TableCell>
+                <TableCell>{t('alumnos.fields.email')}</TableCell>
+                <TableCell>{t('alumnos.fields.dni')}</TableCell>
+                <TableCell>{t('alumnos.fields.telefono')}</TableCell>
+                <TableCell>{t('common.status')}</TableCell>
+                <TableCell align="right">{t('common.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredAlumnos.map((alumno) => (
+                <TableRow key={alumno.idUsuario}>
+                  <TableCell>{getNombreUsuario(alumno)}</TableCell>
+                  <TableCell>{alumno.email}</TableCell>
+                  <TableCell>{alumno.datosPersonales?.dni || '-'}</TableCell>
+                  <TableCell>
+                    {alumno.datosPersonales?.telefono || '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={
+                        alumno.activo
+                          ? t('common.active')
+                          : t('common.inactive')
+                      }
+                      color={alumno.activo ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={t('common.view')}>
+                      <IconButton
+                        size="small"
+                        component={Link}
+                        href={`/dashboard/alumno/${alumno.idUsuario}`}
+                      >
+                        <VisibilityIcon />
+                      </IconButton>
+                    </Tooltip>
+                    {onEdit && (
+                      <Tooltip title={t('common.edit')}>
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={() => onEdit(alumno)}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    <Tooltip title={t('common.delete')}>
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={() => setAlumnoToDelete(alumno)}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <ConfirmDialog
+        open={!!alumnoToDelete}
+        title={t('alumnos.list.deleteTitle')}
+        message={
+          alumnoToDelete
+            ? t('alumnos.list.deleteMessage', {
+                nombre: getNombreUsuario(alumnoToDelete),
+              })
+            : ''
+        }
+        confirmLabel={t('common.delete')}
+        confirmColor="error"
+        isLoading={deleteMutation.isPending}
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setAlumnoToDelete(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toAppError } from '@/shared/lib/errors/error-handler';
+import { t } from '@/shared/lib/i18n';
+import { useNotifications } from '@/shared/stores/notification-store';
+import { alumnoService } from '../services/alumno-service';
+import type { AlumnoImportRow } from '../utils/alumno-import';
+
+const BATCH_SIZE = 10;
+
+export interface AlumnoImportResult {
+  created: number;
+  /** Filas válidas que el servidor rechazó, con el motivo */
+  failed: { row: AlumnoImportRow; error: string }[];
+}
+
+/**
+ * Da de alta las filas válidas en lotes, informando del progreso
+ * Un fallo en una fila no detiene la importación
+ */
+export function useImportAlumnos() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+
+  const mutation = useMutation({
+    mutationFn: async (
+      rows: AlumnoImportRow[]
+    ): Promise<AlumnoImportResult> => {
+      const result: AlumnoImportResult = { created: 0, failed: [] };
+      setProgress({ done: 0, total: rows.length });
+
+      for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+        const batch = rows.slice(start, start + BATCH_SIZE);
+        const settled = await Promise.allSettled(
+          batch.map((row) => alumnoService.createAlumno(row.input!))
+        );
+        settled.forEach((outcome, index) => {
+          if (outcome.status === 'fulfilled') {
+            result.created++;
+          } else {
+            result.failed.push({
+              row: batch[index],
+              error: toAppError(outcome.reason).message,
+            });
+          }
+        });
+        setProgress({ done: start + batch.length, total: rows.length });
+      }
+
+      return result;
+    },
+    onSuccess: ({ created, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['alumnos'] });
+      if (failed.length === 0) {
+        notifications.success(
+          t('alumnos.notifications.imported', { count: created })
+        );
+      } else {
+        notifications.warning(
+          t('alumnos.notifications.importedPartial', {
+            count: created,
+            failed: failed.length,
+          })
+        );
+      }
+    },
+  });
+
+  return { ...mutation, progress };
+}
@@ -0,0 +1,75 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { alumnoService } from '../services/alumno-service';
+import type { AlumnoInput } from '../types/alumno.types';
+import { useNotifications } from '@/shared/stores/notification-store';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import { t } from '@/shared/lib/i18n';
+
+export function useCreateAlumno() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (input: AlumnoInput) => alumnoService.createAlumno(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alumnos'] });
+      notifications.success(t('alumnos.notifications.created'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('alumnos.notifications.createError'),
+          t('alumnos.notifications.createForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useUpdateAlumno() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: AlumnoInput }) =>
+      alumnoService.updateAlumno(id, input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['alumnos'] });
+      queryClient.invalidateQueries({ queryKey: ['alumno', variables.id] });
+      notifications.success(t('alumnos.notifications.updated'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('alumnos.notifications.updateError'),
+          t('alumnos.notifications.updateForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useDeleteAlumno() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (id: string) => alumnoService.deleteAlumno(id),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: ['alumno', id] });
+      queryClient.invalidateQueries({ queryKey: ['alumnos'] });
+      notifications.success(t('alumnos.notifications.deleted'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('alumnos.notifications.deleteError'),
+          t('alumnos.notifications.deleteForbidden')
+        )
+      );
+    },
+  });
+}
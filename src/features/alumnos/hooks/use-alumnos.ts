@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { alumnoService } from '../services/alumno-service';
+
+export function useAlumnos(activo?: boolean) {
+  return useQuery({
+    queryKey: ['alumnos', activo],
+    queryFn: () => alumnoService.getAlumnos(activo),
+  });
+}
+
+export function useAlumno(id: string) {
+  return useQuery({
+    queryKey: ['alumno', id],
+    queryFn: () => alumnoService.getAlumno(id),
+    enabled: !!id,
+  });
+}
+
+export function useAlumnoMatriculas(idAlumno: string) {
+  return useQuery({
+    queryKey: ['alumno', idAlumno, 'matriculas'],
+    queryFn: () => alumnoService.getMatriculas(idAlumno),
+    enabled: !!idAlumno,
+  });
+}
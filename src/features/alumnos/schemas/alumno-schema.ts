@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { t, type MessageKey, type MessageParams } from '@/shared/lib/i18n';
+
+const DNI_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+/**
+ * Valida un DNI (8 dígitos + letra) o NIE (X/Y/Z + 7 dígitos + letra)
+ * comprobando la letra de control
+ */
+export function isValidDniNie(value: string): boolean {
+  const documento = value.trim().toUpperCase();
+  if (!/^([XYZ]\d{7}|\d{8})[A-Z]$/.test(documento)) {
+    return false;
+  }
+
+  // El NIE sustituye la letra inicial por 0, 1 o 2 para calcular el control
+  const numero = documento
+    .slice(0, -1)
+    .replace('X', '0')
+    .replace('Y', '1')
+    .replace('Z', '2');
+
+  return DNI_LETTERS[Number(numero) % 23] === documento.slice(-1);
+}
+
+/** Mensaje traducido al validar, no al importar el módulo */
+const message = (key: MessageKey, params?: MessageParams) => ({
+  error: () => t(key, params),
+});
+
+/**
+ * Schema de validación de alumno
+ * Compartido por el formulario y cualquier alta masiva de alumnos
+ */
+export const alumnoSchema = z.object({
+  email: z.email(message('alumnos.form.invalidEmail')),
+  nombre: z
+    .string()
+    .trim()
+    .min(2, message('alumnos.form.minLength', { min: 2 })),
+  apellidos: z
+    .string()
+    .trim()
+    .min(2, message('alumnos.form.minLength', { min: 2 })),
+  dni: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(isValidDniNie, message('alumnos.form.invalidDni')),
+  telefono: z
+    .string()
+    .trim()
+    .regex(
+      /^(\+34\s?)?[6789](\s?\d){8}$/,
+      message('alumnos.form.invalidTelefono')
+    )
+    .or(z.literal(''))
+    .optional(),
+  direccion: z.string().trim().optional(),
+  activo: z.boolean().optional(),
+});
+
+export type AlumnoFormData = z.infer<typeof alumnoSchema>;
@@ -0,0 +1,148 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import type {
+  Alumno,
+  AlumnoInput,
+  AlumnoMatricula,
+} from '../types/alumno.types';
+
+const ALUMNO_FIELDS = `
+  idUsuario
+  email
+  activo
+  fechaCreacion
+  datosPersonales {
+    idDatosPersonales
+    nombre
+    apellidos
+    dni
+    telefono
+    direccion
+  }
+`;
+
+const GET_ALUMNOS_QUERY = `
+  query GetAlumnos($activo: Boolean) {
+    usuarios(rol: ALUMNO, activo: $activo) {
+      ${ALUMNO_FIELDS}
+    }
+  }
+`;
+
+const GET_ALUMNO_QUERY = `
+  query GetAlumno($id: ID!) {
+    usuario(id: $id) {
+      ${ALUMNO_FIELDS}
+    }
+  }
+`;
+
+const GET_ALUMNO_MATRICULAS_QUERY = `
+  query GetAlumnoMatriculas($idAlumno: ID!) {
+    matriculas(idAlumno: $idAlumno) {
+      idMatricula
+      codigo
+      fechaMatricula
+      precioFinal
+      estadoPago
+      convocatoria {
+        idConvocatoria
+        codigo
+        fechaInicio
+        fechaFin
+        curso {
+          nombre
+        }
+      }
+    }
+  }
+`;
+
+const CREATE_ALUMNO_MUTATION = `
+  mutation CreateAlumno($input: UsuarioInput!) {
+    createUsuario(input: $input) {
+      ${ALUMNO_FIELDS}
+    }
+  }
+`;
+
+const UPDATE_ALUMNO_MUTATION = `
+  mutation UpdateAlumno($id: ID!, $input: UsuarioInput!) {
+    updateUsuario(id: $id, input: $input) {
+      ${ALUMNO_FIELDS}
+    }
+  }
+`;
+
+const DELETE_ALUMNO_MUTATION = `
+  mutation DeleteAlumno($id: ID!) {
+    deleteUsuario(id: $id)
+  }
+`;
+
+/**
+ * Mapea AlumnoInput al UsuarioInput del schema
+ * Los datos personales viajan anidados y el rol se fija siempre a ALUMNO
+ */
+function toUsuarioInput(input: AlumnoInput) {
+  return {
+    email: input.email,
+    rol: 'ALUMNO' as const,
+    activo: input.activo ?? true,
+    datosPersonales: {
+      nombre: input.nombre,
+      apellidos: input.apellidos,
+      dni: input.dni,
+      telefono: input.telefono || null,
+      direccion: input.direccion || null,
+    },
+  };
+}
+
+export const alumnoService = {
+  async getAlumnos(activo?: boolean): Promise<Alumno[]> {
+    const data = await graphqlRequest<{ usuarios: Alumno[] }>(
+      GET_ALUMNOS_QUERY,
+      { activo }
+    );
+    return data.usuarios;
+  },
+
+  async getAlumno(id: string): Promise<Alumno> {
+    const data = await graphqlRequest<{ usuario: Alumno }>(GET_ALUMNO_QUERY, {
+      id,
+    });
+    return data.usuario;
+  },
+
+  async getMatriculas(idAlumno: string): Promise<AlumnoMatricula[]> {
+    const data = await graphqlRequest<{ matriculas: AlumnoMatricula[] }>(
+      GET_ALUMNO_MATRICULAS_QUERY,
+      { idAlumno }
+    );
+    return data.matriculas;
+  },
+
+  async createAlumno(input: AlumnoInput): Promise<Alumno> {
+    const data = await graphqlRequest<{ createUsuario: Alumno }>(
+      CREATE_ALUMNO_MUTATION,
+      { input: toUsuarioInput(input) }
+    );
+    return data.createUsuario;
+  },
+
+  async updateAlumno(id: string, input: AlumnoInput): Promise<Alumno> {
+    const data = await graphqlRequest<{ updateUsuario: Alumno }>(
+      UPDATE_ALUMNO_MUTATION,
+      { id, input: toUsuarioInput(input) }
+    );
+    return data.updateUsuario;
+  },
+
+  async deleteAlumno(id: string): Promise<boolean> {
+    const data = await graphqlRequest<{ deleteUsuario: boolean }>(
+      DELETE_ALUMNO_MUTATION,
+      { id }
+    );
+    return data.deleteUsuario;
+  },
+};
@@ -0,0 +1,58 @@
+import type { EstadoPago } from '@/features/matriculas/types/matricula.types';
+
+/**
+ * Datos personales asociados a un usuario
+ */
+export interface DatosPersonales {
+  idDatosPersonales: string;
+  nombre: string;
+  apellidos: string;
+  dni?: string;
+  telefono?: string;
+  direccion?: string;
+}
+
+/**
+ * Alumno: Usuario con rol ALUMNO y sus datos personales
+ */
+export interface Alumno {
+  idUsuario: string;
+  email: string;
+  activo: boolean;
+  fechaCreacion: string;
+  datosPersonales?: DatosPersonales;
+}
+
+/**
+ * Input para crear o actualizar un alumno
+ * El servicio lo transforma al UsuarioInput del schema con rol ALUMNO
+ */
+export interface AlumnoInput {
+  email: string;
+  nombre: string;
+  apellidos: string;
+  dni: string;
+  telefono?: string;
+  direccion?: string;
+  activo?: boolean;
+}
+
+/**
+ * Matrícula resumida para la ficha del alumno
+ */
+export interface AlumnoMatricula {
+  idMatricula: string;
+  codigo: string;
+  fechaMatricula: string;
+  precioFinal: number;
+  estadoPago: EstadoPago;
+  convocatoria: {
+    idConvocatoria: string;
+    codigo: string;
+    fechaInicio: string;
+    fechaFin: string;
+    curso: {
+      nombre: string;
+    };
+  };
+}
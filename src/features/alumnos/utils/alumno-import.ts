@@ -0,0 +1,176 @@
+import { t, type MessageKey } from '@/shared/lib/i18n';
+import type { CsvRow } from '@/shared/lib/import/csv';
+import { normalizeSearchText } from '@/shared/lib/utils';
+import { alumnoSchema } from '../schemas/alumno-schema';
+import type { Alumno, AlumnoInput } from '../types/alumno.types';
+
+export type AlumnoImportField = keyof AlumnoInput;
+
+/** Cabecera del CSV asignada a cada campo; null si no se importa */
+export type AlumnoImportMapping = Record<AlumnoImportField, string | null>;
+
+export interface AlumnoImportRow {
+  /** Línea del fichero en la que empieza la fila, para localizarla en el original */
+  line: number;
+  raw: Record<string, string>;
+  input: AlumnoInput | null;
+  errors: string[];
+}
+
+export const ALUMNO_IMPORT_FIELDS: {
+  field: AlumnoImportField;
+  label: MessageKey;
+  required: boolean;
+  aliases: string[];
+}[] = [
+  {
+    field: 'email',
+    label: 'alumnos.fields.email',
+    required: true,
+    aliases: ['email', 'e-mail', 'correo', 'correo electronico', 'mail'],
+  },
+  {
+    field: 'nombre',
+    label: 'alumnos.fields.nombre',
+    required: true,
+    aliases: ['nombre'],
+  },
+  {
+    field: 'apellidos',
+    label: 'alumnos.fields.apellidos',
+    required: true,
+    aliases: ['apellidos', 'apellido'],
+  },
+  {
+    field: 'dni',
+    label: 'alumnos.fields.dni',
+    required: true,
+    aliases: ['dni', 'nie', 'dni/nie', 'nif', 'documento'],
+  },
+  {
+    field: 'telefono',
+    label: 'alumnos.fields.telefono',
+    required: false,
+    aliases: ['telefono', 'movil', 'tel'],
+  },
+  {
+    field: 'direccion',
+    label: 'alumnos.fields.direccion',
+    required: false,
+    aliases: ['direccion', 'domicilio'],
+  },
+  {
+    field: 'activo',
+    label: 'alumnos.fields.activo',
+    required: false,
+    aliases: ['activo'],
+  },
+];
+
+/**
+ * Propone la asignación de columnas comparando cabeceras sin acentos ni mayúsculas
+ */
+export function guessAlumnoMapping(headers: string[]): AlumnoImportMapping {
+  const normalized = headers.map((header) =>
+    normalizeSearchText(header.trim())
+  );
+  return Object.fromEntries(
+    ALUMNO_IMPORT_FIELDS.map(({ field, aliases }) => {
+      const index = normalized.findIndex((header) => aliases.includes(header));
+      return [field, index === -1 ? null : headers[index]];
+    })
+  ) as AlumnoImportMapping;
+}
+
+function parseActivo(value: string): boolean | undefined | 'invalid' {
+  const normalized = normalizeSearchText(value.trim());
+  if (normalized === '') return undefined;
+  if (['si', 's', 'yes', 'y', 'true', '1', 'activo'].includes(normalized))
+    return true;
+  if (['no', 'n', 'false', '0', 'inactivo'].includes(normalized)) return false;
+  return 'invalid';
+}
+
+/**
+ * Valida cada fila con el mismo schema que el formulario de alumno
+ * Además marca emails o DNI repetidos en el fichero o ya registrados
+ */
+export function validateAlumnoImport(
+  rows: CsvRow[],
+  mapping: AlumnoImportMapping,
+  existing: Alumno[] = []
+): AlumnoImportRow[] {
+  const emails = new Set(existing.map((alumno) => alumno.email.toLowerCase()));
+  const dnis = new Set(
+    existing
+      .map((alumno) => alumno.datosPersonales?.dni?.toUpperCase())
+      .filter(Boolean)
+  );
+
+  return rows.map(({ line, values: raw }) => {
+    const value = (field: AlumnoImportField) => {
+      const header = mapping[field];
+      return header ? (raw[header] ?? '') : '';
+    };
+    const errors: string[] = [];
+    const activo = parseActivo(value('activo'));
+    if (activo === 'invalid') {
+      errors.push(t('alumnos.import.invalidActivo'));
+    }
+
+    const result = alumnoSchema.safeParse({
+      email: value('email'),
+      nombre: value('nombre'),
+      apellidos: value('apellidos'),
+      dni: value('dni'),
+      telefono: value('telefono'),
+      direccion: value('direccion'),
+      activo: activo === 'invalid' ? undefined : activo,
+    });
+
+    if (!result.success) {
+      result.error.issues.forEach((issue) => {
+        const field = ALUMNO_IMPORT_FIELDS.find(
+          (item) => item.field === issue.path[0]
+        );
+        errors.push(
+          t('alumnos.import.fieldError', {
+            field: field ? t(field.label) : String(issue.path[0]),
+            message: issue.message,
+          })
+        );
+      });
+    }
+
+    let input: AlumnoInput | null = null;
+    if (result.success) {
+      const data = result.data;
+      const email = data.email.toLowerCase();
+      if (emails.has(email)) {
+        errors.push(t('alumnos.import.duplicateEmail'));
+      }
+      if (dnis.has(data.dni)) {
+        errors.push(t('alumnos.import.duplicateDni'));
+      }
+      emails.add(email);
+      dnis.add(data.dni);
+
+      input = {
+        email: data.email,
+        nombre: data.nombre,
+        apellidos: data.apellidos,
+        dni: data.dni,
+        telefono: data.telefono || undefined,
+        direccion: data.direccion || undefined,
+        activo: data.activo ?? true,
+      };
+    }
+
+    return {
+      line,
+      raw,
+      input: errors.length === 0 ? input : null,
+      errors,
+    };
+  });
+}
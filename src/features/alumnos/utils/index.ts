@@ -0,0 +1,58 @@
+import type { ExportColumn } from '@/shared/lib/export';
+import type { Translate } from '@/shared/lib/i18n';
+import type { Alumno } from '../types/alumno.types';
+
+/**
+ * Columnas del listado exportado, con las cabeceras en el idioma activo
+ */
+export const getAlumnoExportColumns = (
+  t: Translate
+): ExportColumn<Alumno>[] => [
+  {
+    id: 'nombre',
+    header: t('alumnos.fields.nombre'),
+    value: (alumno) => alumno.datosPersonales?.nombre,
+    width: 20,
+  },
+  {
+    id: 'apellidos',
+    header: t('alumnos.fields.apellidos'),
+    value: (alumno) => alumno.datosPersonales?.apellidos,
+    width: 30,
+  },
+  {
+    id: 'email',
+    header: t('alumnos.fields.email'),
+    value: (alumno) => alumno.email,
+    width: 30,
+  },
+  {
+    id: 'dni',
+    header: t('alumnos.fields.dni'),
+    value: (alumno) => alumno.datosPersonales?.dni,
+  },
+  {
+    id: 'telefono',
+    header: t('alumnos.fields.telefono'),
+    value: (alumno) => alumno.datosPersonales?.telefono,
+  },
+  {
+    id: 'direccion',
+    header: t('alumnos.fields.direccion'),
+    value: (alumno) => alumno.datosPersonales?.direccion,
+    width: 40,
+    unselectedByDefault: true,
+  },
+  {
+    id: 'activo',
+    header: t('alumnos.fields.activo'),
+    value: (alumno) => alumno.activo,
+    type: 'boolean',
+  },
+  {
+    id: 'fechaCreacion',
+    header: t('alumnos.fields.fechaAlta'),
+    value: (alumno) => alumno.fechaCreacion,
+    type: 'date',
+  },
+];
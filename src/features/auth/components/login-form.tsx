@@ -5,17 +5,26 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button, TextField, Box, Alert } from '@mui/material';
 import { useAuth } from '@/shared/contexts/auth-context';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { t as translate } from '@/shared/lib/i18n';
 import { useState } from 'react';
 
+const PASSWORD_MIN_LENGTH = 6;
+
+// Los mensajes se resuelven al validar para usar el idioma activo
 const loginSchema = z.object({
-  email: z.email({ message: 'Email inválido' }),
-  password: z.string().min(6, { message: 'Mínimo 6 caracteres' }),
+  email: z.email({ error: () => translate('auth.login.invalidEmail') }),
+  password: z.string().min(PASSWORD_MIN_LENGTH, {
+    error: () =>
+      translate('auth.login.passwordMin', { min: PASSWORD_MIN_LENGTH }),
+  }),
 });
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
 export function LoginForm() {
   const { login, isLoading } = useAuth();
+  const { t } = useTranslation();
   const [error, setError] = useState<string | null>(null);
   const {
     register,
@@ -31,9 +40,7 @@ export function LoginForm() {
       await login(data.email, data.password);
     } catch (err) {
       setError(
-        err instanceof Error
-          ? err.message
-          : 'Error al iniciar sesión. Verifica tus credenciales.'
+        err instanceof Error ? err.message : t('auth.errors.loginFailed')
       );
     }
   };
@@ -50,7 +57,7 @@ export function LoginForm() {
         required
         fullWidth
         id="email"
-        label="Email"
+        label={t('auth.login.email')}
         autoComplete="email"
         autoFocus
         {...register('email')}
@@ -61,7 +68,7 @@ export function LoginForm() {
         margin="normal"
         required
         fullWidth
-        label="Contraseña"
+        label={t('auth.login.password')}
         type="password"
         id="password"
         autoComplete="current-password"
@@ -76,8 +83,8 @@ export function LoginForm() {
         sx={{ mt: 3, mb: 2 }}
         disabled={isLoading}
       >
-        {isLoading ? 'Iniciando sesión...' : 'Iniciar Sesión'}
+        {isLoading ? t('auth.login.submitting') : t('auth.login.submit')}
       </Button>
     </Box>
   );
-}
\ No newline at end of file
+}
@@ -6,33 +6,36 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Alert, Box, Button, MenuItem, TextField } from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { applyServerFieldErrors } from '@/shared/lib/errors/form-errors';
+import { t as translate } from '@/shared/lib/i18n';
 import { authService } from '../services/auth.service';
 import type { RegisterRequest } from '../types/auth.types';
 
 const ROLE_VALUES = ['PROFESOR', 'ALUMNO', 'ADMINISTRATIVO'] as const;
 
-type RoleValue = (typeof ROLE_VALUES)[number];
-
-const ROLE_OPTIONS: ReadonlyArray<{ value: RoleValue; label: string }> = [
-  { value: 'PROFESOR', label: 'Profesor' },
-  { value: 'ALUMNO', label: 'Alumno' },
-  { value: 'ADMINISTRATIVO', label: 'Administrativo' },
-];
+// Los mensajes se resuelven al validar para usar el idioma activo
+const minLength = (min: number) => ({
+  error: () => translate('auth.register.minLength', { min }),
+});
 
 const registerSchema = z.object({
-  email: z.email({ message: 'Email inválido' }),
-  password: z.string().min(6, { message: 'Mínimo 6 caracteres' }),
-  nombre: z.string().min(2, { message: 'Mínimo 2 caracteres' }),
-  apellidos: z.string().min(2, { message: 'Mínimo 2 caracteres' }),
+  email: z.email({ error: () => translate('auth.register.invalidEmail') }),
+  password: z.string().min(6, minLength(6)),
+  nombre: z.string().min(2, minLength(2)),
+  apellidos: z.string().min(2, minLength(2)),
   rol: z.enum(ROLE_VALUES).or(z.literal('')).optional(),
 });
 
 type RegisterFormData = z.infer<typeof registerSchema>;
 
+const REGISTER_FIELDS = registerSchema.keyof().options;
+
 /**
  * Form used to create a new account with the required profile fields.
  */
 export function RegisterForm() {
+  const { t } = useTranslation();
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
   const {
@@ -40,6 +43,7 @@ export function RegisterForm() {
     handleSubmit,
     formState: { errors, isSubmitting },
     reset,
+    setError: setFieldError,
   } = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
     defaultValues: { rol: '' },
@@ -59,10 +63,14 @@ export function RegisterForm() {
       reset();
       router.push('/login');
     } catch (err) {
+      // Los errores de validación del servidor se muestran en su campo
+      if (applyServerFieldErrors(err, setFieldError, REGISTER_FIELDS)) {
+        return;
+      }
       const message =
         err instanceof Error
           ? err.message
-          : 'No se pudo completar el registro. Intenta nuevamente.';
+          : t('auth.register.failed');
       setError(message);
     }
   };
@@ -79,7 +87,7 @@ export function RegisterForm() {
         required
         fullWidth
         id="email"
-        label="Email"
+        label={t('auth.register.email')}
         autoComplete="email"
         autoFocus
         {...register('email')}
@@ -90,7 +98,7 @@ export function RegisterForm() {
         margin="normal"
         required
         fullWidth
-        label="Contraseña"
+        label={t('auth.register.password')}
         type="password"
         id="password"
         autoComplete="new-password"
@@ -103,7 +111,7 @@ export function RegisterForm() {
         required
         fullWidth
         id="nombre"
-        label="Nombre"
+        label={t('auth.register.nombre')}
         autoComplete="given-name"
         {...register('nombre')}
         error={!!errors.nombre}
@@ -114,7 +122,7 @@ export function RegisterForm() {
         required
         fullWidth
         id="apellidos"
-        label="Apellidos"
+        label={t('auth.register.apellidos')}
         autoComplete="family-name"
         {...register('apellidos')}
         error={!!errors.apellidos}
@@ -125,7 +133,7 @@ export function RegisterForm() {
         fullWidth
         select
         id="rol"
-        label="Rol (opcional)"
+        label={t('auth.register.rol')}
         {...register('rol', {
           setValueAs: (value) => (value === '' ? undefined : value),
         })}
@@ -136,11 +144,11 @@ export function RegisterForm() {
         }}
       >
         <MenuItem value="">
-          <em>Selecciona un rol</em>
+          <em>{t('auth.register.rolPlaceholder')}</em>
         </MenuItem>
-        {ROLE_OPTIONS.map((option) => (
-          <MenuItem key={option.value} value={option.value}>
-            {option.label}
+        {ROLE_VALUES.map((rol) => (
+          <MenuItem key={rol} value={rol}>
+            {t(`roles.${rol}`)}
           </MenuItem>
         ))}
       </TextField>
@@ -151,7 +159,9 @@ export function RegisterForm() {
         sx={{ mt: 3, mb: 2 }}
         disabled={isSubmitting}
       >
-        {isSubmitting ? 'Registrando...' : 'Registrarse'}
+        {isSubmitting
+          ? t('auth.register.submitting')
+          : t('auth.register.submit')}
       </Button>
     </Box>
   );
@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { useAuth } from '@/shared/contexts/auth-context';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+/**
+ * Antelación con la que se avisa de que la sesión va a caducar
+ */
+const AVISO_EXPIRACION_MS = 2 * 60 * 1000;
+
+function formatCuentaAtras(ms: number): string {
+  const totalSegundos = Math.max(Math.ceil(ms / 1000), 0);
+  const minutos = Math.floor(totalSegundos / 60);
+  const segundos = String(totalSegundos % 60).padStart(2, '0');
+  return `${minutos}:${segundos}`;
+}
+
+/**
+ * Aviso de caducidad de la sesión
+ * Antes de avisar intenta renovar el token en silencio; si el backend no lo
+ * permite, pide la contraseña en un diálogo sobre la página actual para no
+ * perder lo que el usuario estuviera haciendo
+ */
+export function SessionExpiryDialog() {
+  const { user, expiresAt, reauthenticate, refreshSession, logout } = useAuth();
+  const { t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setSubmitting] = useState(false);
+  const [dismissedFor, setDismissedFor] = useState<number | null>(null);
+  const refreshAttemptedFor = useRef<number | null>(null);
+  const [refreshFailedFor, setRefreshFailedFor] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!expiresAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  const remaining = expiresAt ? expiresAt - now : Infinity;
+  const isExpired = remaining <= 0;
+  const isWarning = remaining <= AVISO_EXPIRACION_MS;
+
+  // Renovación silenciosa: un único intento por token
+  useEffect(() => {
+    if (!expiresAt || !isWarning || refreshAttemptedFor.current === expiresAt) {
+      return;
+    }
+    refreshAttemptedFor.current = expiresAt;
+    // Si la renovación funciona cambia expiresAt y el aviso no llega a mostrarse
+    refreshSession().then((renovada) => {
+      if (!renovada) setRefreshFailedFor(expiresAt);
+    });
+  }, [expiresAt, isWarning, refreshSession]);
+
+  const open =
+    !!user &&
+    isWarning &&
+    refreshFailedFor === expiresAt &&
+    (isExpired || dismissedFor !== expiresAt);
+
+  const handleReauthenticate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      await reauthenticate(password);
+      setPassword('');
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : t('auth.errors.refreshFailed')
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} maxWidth="xs" fullWidth>
+      <form onSubmit={handleReauthenticate}>
+        <DialogTitle>
+          {isExpired
+            ? t('auth.session.expiredTitle')
+            : t('auth.session.expiringTitle')}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {isExpired
+              ? t('auth.session.expiredMessage')
+              : t('auth.session.expiringMessage', {
+                  time: formatCuentaAtras(remaining),
+                })}
+          </DialogContentText>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <TextField
+            fullWidth
+            label={t('auth.session.email')}
+            value={user?.email ?? ''}
+            margin="dense"
+            disabled
+          />
+          <TextField
+            fullWidth
+            autoFocus
+            label={t('auth.session.password')}
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            margin="dense"
+            required
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={logout} color="inherit">
+            {t('auth.session.logout')}
+          </Button>
+          {!isExpired && (
+            <Button onClick={() => setDismissedFor(expiresAt)}>
+              {t('auth.session.notNow')}
+            </Button>
+          )}
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={!password || isSubmitting}
+          >
+            {isSubmitting
+              ? t('auth.session.verifying')
+              : t('auth.session.stayConnected')}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -1,4 +1,6 @@
 import { apiClient } from '@/shared/lib/api/client';
+import { AppError, ErrorType } from '@/shared/lib/errors/error-types';
+import { t } from '@/shared/lib/i18n';
 import type { LoginRequest, RegisterRequest, AuthResponse } from '../types/auth.types';
 
 export const authService = {
@@ -8,23 +10,25 @@ export const authService = {
       
       // Validar que la respuesta tenga data
       if (!response || !response.data) {
-        throw new Error('Respuesta inválida del servidor');
+        throw new Error(t('auth.errors.invalidResponse'));
       }
 
       return response.data;
     } catch (error) {
       // Re-lanzar el error con contexto adicional
       console.log('Error en login:', error);
-      if (error && typeof error === 'object' && 'response' in error) {
-        const axiosError = error as { response?: { status?: number; data?: unknown } };
-        if (axiosError.response?.status === 401) {
-          throw new Error('Credenciales inválidas');
+      if (error instanceof AppError) {
+        if (error.status === 401) {
+          throw new AppError(ErrorType.UNAUTHENTICATED, t('auth.errors.invalidCredentials'), {
+            status: 401,
+            originalError: error,
+          });
         }
-        if (axiosError.response?.status === 404) {
-          throw new Error('Endpoint de autenticación no encontrado');
-        }
-        if (axiosError.response?.status === 500) {
-          throw new Error('Error interno del servidor');
+        if (error.status === 404) {
+          throw new AppError(ErrorType.NOT_FOUND, t('auth.errors.endpointNotFound'), {
+            status: 404,
+            originalError: error,
+          });
         }
       }
       throw error;
@@ -39,18 +43,45 @@ export const authService = {
       );
 
       if (!response || !response.data) {
-        throw new Error('Respuesta inválida del servidor');
+        throw new Error(t('auth.errors.invalidResponse'));
       }
 
       return response.data;
     } catch (error) {
-      if (error && typeof error === 'object' && 'response' in error) {
-        const axiosError = error as { response?: { status?: number; data?: unknown } };
-        if (axiosError.response?.status === 409) {
-          throw new Error('El usuario ya existe');
-        }
+      // Un 409 sin detalle por campo corresponde al email duplicado
+      if (
+        error instanceof AppError &&
+        error.type === ErrorType.CONFLICT &&
+        !error.hasFieldErrors
+      ) {
+        throw new AppError(ErrorType.CONFLICT, t('auth.errors.userExists'), {
+          fieldErrors: { email: t('auth.errors.emailExists') },
+          status: error.status,
+          originalError: error,
+        });
       }
       throw error;
     }
   },
-};
\ No newline at end of file
+
+  /**
+   * Renueva el token de la sesión actual sin pedir credenciales
+   * Devuelve null si el backend no expone el endpoint (404/405/501), para
+   * que la app recurra a reautenticar con contraseña
+   */
+  async refresh(): Promise<AuthResponse | null> {
+    const response = await apiClient.post<AuthResponse>(
+      '/api/auth/refresh',
+      undefined,
+      { validateStatus: () => true }
+    );
+
+    if ([404, 405, 501].includes(response.status)) {
+      return null;
+    }
+    if (response.status !== 200 || !response.data?.token) {
+      throw new Error(t('auth.errors.refreshFailed'));
+    }
+    return response.data;
+  },
+};
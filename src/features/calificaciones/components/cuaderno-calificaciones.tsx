@@ -0,0 +1,355 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableFooter,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import SaveIcon from '@mui/icons-material/Save';
+import { useAuth } from '@/shared/contexts/auth-context';
+import { getNombreUsuario } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useMaterias } from '@/features/catalogos/hooks/use-catalogos';
+import { useCuadernoCalificaciones } from '../hooks/use-calificaciones';
+import { useSaveCalificaciones } from '../hooks/use-calificacion-mutations';
+import type {
+  CambioCalificacion,
+  MateriaCalificada,
+} from '../types/calificacion.types';
+import {
+  calcularMedia,
+  canEditCalificaciones,
+  formatNota,
+  getCeldaKey,
+  getMateriasCuaderno,
+  getMatriculasCuaderno,
+  NOTA_APROBADO,
+  parseNota,
+} from '../utils';
+
+interface CuadernoCalificacionesProps {
+  idConvocatoria: string;
+}
+
+/**
+ * Cuaderno de notas de una convocatoria: una fila por alumno y una columna
+ * por materia. Las notas se editan en la tabla y se guardan en bloque
+ */
+export function CuadernoCalificaciones({
+  idConvocatoria,
+}: CuadernoCalificacionesProps) {
+  const { t, locale } = useTranslation();
+  const { user } = useAuth();
+  const {
+    data: cuaderno,
+    isLoading,
+    error,
+  } = useCuadernoCalificaciones(idConvocatoria);
+  const saveMutation = useSaveCalificaciones(idConvocatoria);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [materiasExtra, setMateriasExtra] = useState<MateriaCalificada[]>([]);
+
+  const canEdit = !!cuaderno && canEditCalificaciones(user, cuaderno);
+  const { data: materiasActivas } = useMaterias(true);
+
+  const materias = useMemo(() => {
+    if (!cuaderno) return [];
+    const base = getMateriasCuaderno(cuaderno);
+    const extra = materiasExtra.filter(
+      (materia) => !base.some((m) => m.idMateria === materia.idMateria)
+    );
+    return [...base, ...extra];
+  }, [cuaderno, materiasExtra]);
+
+  const matriculas = useMemo(
+    () => (cuaderno ? getMatriculasCuaderno(cuaderno) : []),
+    [cuaderno]
+  );
+
+  // Nota guardada en backend para cada celda
+  const guardadas = useMemo(() => {
+    const map = new Map<string, { idCalificacion: string; nota: number }>();
+    for (const matricula of matriculas) {
+      for (const calificacion of matricula.calificaciones) {
+        map.set(
+          getCeldaKey(matricula.idMatricula, calificacion.materia.idMateria),
+          {
+            idCalificacion: calificacion.idCalificacion,
+            nota: calificacion.nota,
+          }
+        );
+      }
+    }
+    return map;
+  }, [matriculas]);
+
+  const getNota = (key: string): number | null => {
+    if (key in drafts) return parseNota(drafts[key]);
+    return guardadas.get(key)?.nota ?? null;
+  };
+
+  const getValor = (key: string): string => {
+    if (key in drafts) return drafts[key];
+    const nota = guardadas.get(key)?.nota;
+    return nota === undefined ? '' : String(nota);
+  };
+
+  const cambios: CambioCalificacion[] = [];
+  let hayErrores = false;
+  for (const [key, value] of Object.entries(drafts)) {
+    const nota = parseNota(value);
+    const guardada = guardadas.get(key);
+    if (Number.isNaN(nota)) {
+      hayErrores = true;
+      continue;
+    }
+    // Vaciar una celda no borra la nota: el backend no expone borrado
+    if (nota === null || nota === guardada?.nota) continue;
+    const [idMatricula, idMateria] = key.split(':');
+    cambios.push({
+      idMatricula,
+      idMateria,
+      nota,
+      idCalificacion: guardada?.idCalificacion,
+    });
+  }
+
+  const handleSave = () => {
+    saveMutation.mutate(cambios, { onSuccess: () => setDrafts({}) });
+  };
+
+  const handleAddMateria = (idMateria: string) => {
+    const materia = materiasActivas?.find((m) => m.idMateria === idMateria);
+    if (materia) {
+      setMateriasExtra((prev) => [
+        ...prev,
+        { idMateria: materia.idMateria, nombre: materia.nombre },
+      ]);
+    }
+  };
+
+  if (isLoading) return <CircularProgress />;
+  if (error || !cuaderno) {
+    return <Alert severity="error">{t('calificaciones.loadError')}</Alert>;
+  }
+
+  const materiasDisponibles = (materiasActivas ?? []).filter(
+    (materia) => !materias.some((m) => m.idMateria === materia.idMateria)
+  );
+
+  const mediasMateria = materias.map((materia) =>
+    calcularMedia(
+      matriculas
+        .map((matricula) =>
+          getNota(getCeldaKey(matricula.idMatricula, materia.idMateria))
+        )
+        .filter((nota): nota is number => nota !== null && !Number.isNaN(nota))
+    )
+  );
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        flexWrap="wrap"
+        gap={2}
+        mb={2}
+      >
+        <Typography variant="h6">
+          {t('calificaciones.heading', {
+            curso: cuaderno.curso.nombre,
+            codigo: cuaderno.codigo,
+          })}
+        </Typography>
+        {canEdit && (
+          <Box display="flex" gap={2} alignItems="center">
+            {materiasDisponibles.length > 0 && (
+              <TextField
+                select
+                size="small"
+                label={t('calificaciones.addMateria')}
+                value=""
+                onChange={(e) => handleAddMateria(e.target.value)}
+                sx={{ minWidth: 200 }}
+              >
+                {materiasDisponibles.map((materia) => (
+                  <MenuItem key={materia.idMateria} value={materia.idMateria}>
+                    {materia.nombre}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+            <Button
+              onClick={() => setDrafts({})}
+              disabled={
+                Object.keys(drafts).length === 0 || saveMutation.isPending
+              }
+            >
+              {t('common.discard')}
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<SaveIcon />}
+              onClick={handleSave}
+              disabled={
+                cambios.length === 0 || hayErrores || saveMutation.isPending
+              }
+            >
+              {saveMutation.isPending
+                ? t('common.saving')
+                : cambios.length > 0
+                  ? t('calificaciones.saveCount', { count: cambios.length })
+                  : t('calificaciones.save')}
+            </Button>
+          </Box>
+        )}
+      </Box>
+
+      {!canEdit && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {t('calificaciones.readOnly')}
+        </Alert>
+      )}
+      {hayErrores && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t('calificaciones.invalidNotas')}
+        </Alert>
+      )}
+
+      {matriculas.length === 0 ? (
+        <Alert severity="info">{t('calificaciones.noMatriculas')}</Alert>
+      ) : materias.length === 0 ? (
+        <Alert severity="info">{t('calificaciones.noMaterias')}</Alert>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('calificaciones.alumno')}</TableCell>
+                {materias.map((materia) => (
+                  <TableCell key={materia.idMateria} align="center">
+                    {materia.nombre}
+                  </TableCell>
+                ))}
+                <TableCell align="center">
+                  {t('calificaciones.media')}
+                </TableCell>
+                <TableCell align="center">
+                  {t('calificaciones.resultado')}
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {matriculas.map((matricula) => {
+                const notas = materias.map((materia) =>
+                  getNota(getCeldaKey(matricula.idMatricula, materia.idMateria))
+                );
+                const completas = notas.every(
+                  (nota) => nota !== null && !Number.isNaN(nota)
+                );
+                const media = completas
+                  ? calcularMedia(notas as number[])
+                  : null;
+
+                return (
+                  <TableRow key={matricula.idMatricula}>
+                    <TableCell>{getNombreUsuario(matricula.alumno)}</TableCell>
+                    {materias.map((materia) => {
+                      const key = getCeldaKey(
+                        matricula.idMatricula,
+                        materia.idMateria
+                      );
+                      const nota = getNota(key);
+                      return (
+                        <TableCell key={materia.idMateria} align="center">
+                          {canEdit ? (
+                            <TextField
+                              size="small"
+                              value={getValor(key)}
+                              onChange={(e) =>
+                                setDrafts((prev) => ({
+                                  ...prev,
+                                  [key]: e.target.value,
+                                }))
+                              }
+                              error={Number.isNaN(nota)}
+                              slotProps={{
+                                htmlInput: {
+                                  inputMode: 'decimal',
+                                  'aria-label': t('calificaciones.notaLabel', {
+                                    alumno: getNombreUsuario(matricula.alumno),
+                                    materia: materia.nombre,
+                                  }),
+                                  style: { textAlign: 'center', width: 56 },
+                                },
+                              }}
+                              sx={
+                                key in drafts
+                                  ? { bgcolor: 'action.hover' }
+                                  : undefined
+                              }
+                            />
+                          ) : (
+                            formatNota(nota, locale)
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell align="center">
+                      {formatNota(media, locale)}
+                    </TableCell>
+                    <TableCell align="center">
+                      {media === null ? (
+                        <Chip
+                          label={t('calificaciones.pendiente')}
+                          size="small"
+                        />
+                      ) : (
+                        <Chip
+                          label={
+                            media >= NOTA_APROBADO
+                              ? t('calificaciones.apto')
+                              : t('calificaciones.noApto')
+                          }
+                          color={media >= NOTA_APROBADO ? 'success' : 'error'}
+                          size="small"
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>{t('calificaciones.mediaConvocatoria')}</TableCell>
+                {mediasMateria.map((media, index) => (
+                  <TableCell key={materias[index].idMateria} align="center">
+                    {formatNota(media, locale)}
+                  </TableCell>
+                ))}
+                <TableCell colSpan={2} />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+}
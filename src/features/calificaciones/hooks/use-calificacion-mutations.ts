@@ -0,0 +1,38 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { calificacionService } from '../services/calificacion-service';
+import type { CambioCalificacion } from '../types/calificacion.types';
+import { useNotifications } from '@/shared/stores/notification-store';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import { t } from '@/shared/lib/i18n';
+
+export function useSaveCalificaciones(idConvocatoria: string) {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (cambios: CambioCalificacion[]) =>
+      calificacionService.saveCalificaciones(cambios),
+    onSuccess: (guardadas) => {
+      notifications.success(
+        guardadas === 1
+          ? t('calificaciones.notifications.savedOne')
+          : t('calificaciones.notifications.savedMany', { count: guardadas })
+      );
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('calificaciones.notifications.saveError'),
+          t('calificaciones.notifications.saveForbidden')
+        )
+      );
+    },
+    // También tras un guardado parcial, para mostrar lo que sí se guardó
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: ['convocatoria', idConvocatoria, 'calificaciones'],
+      });
+    },
+  });
+}
@@ -0,0 +1,10 @@
+import { useQuery } from '@tanstack/react-query';
+import { calificacionService } from '../services/calificacion-service';
+
+export function useCuadernoCalificaciones(idConvocatoria: string) {
+  return useQuery({
+    queryKey: ['convocatoria', idConvocatoria, 'calificaciones'],
+    queryFn: () => calificacionService.getCuaderno(idConvocatoria),
+    enabled: !!idConvocatoria,
+  });
+}
@@ -0,0 +1,123 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import { t } from '@/shared/lib/i18n';
+import { cursoService } from '@/features/cursos/services/curso-service';
+import type {
+  CalificacionInput,
+  CambioCalificacion,
+  CuadernoConvocatoria,
+} from '../types/calificacion.types';
+
+const GET_CUADERNO_QUERY = `
+  query GetCuadernoCalificaciones($id: ID!) {
+    convocatoria(id: $id) {
+      idConvocatoria
+      codigo
+      profesor {
+        idUsuario
+        email
+      }
+      curso {
+        idCurso
+        nombre
+      }
+      matriculas {
+        idMatricula
+        estadoPago
+        alumno {
+          idUsuario
+          email
+          datosPersonales {
+            nombre
+            apellidos
+          }
+        }
+        calificaciones {
+          idCalificacion
+          nota
+          fechaCalificacion
+          materia {
+            idMateria
+            nombre
+          }
+        }
+      }
+    }
+  }
+`;
+
+const CREATE_CALIFICACION_MUTATION = `
+  mutation CreateCalificacion($input: CalificacionInput!) {
+    createCalificacion(input: $input) {
+      idCalificacion
+    }
+  }
+`;
+
+const UPDATE_CALIFICACION_MUTATION = `
+  mutation UpdateCalificacion($id: ID!, $input: CalificacionInput!) {
+    updateCalificacion(id: $id, input: $input) {
+      idCalificacion
+    }
+  }
+`;
+
+export const calificacionService = {
+  /**
+   * La materia del curso se pide aparte: si el backend la devuelve a null
+   * dentro de la convocatoria, GraphQL anularía el cuaderno entero
+   */
+  async getCuaderno(idConvocatoria: string): Promise<CuadernoConvocatoria> {
+    const data = await graphqlRequest<{
+      convocatoria: Omit<CuadernoConvocatoria, 'curso'> & {
+        curso: { idCurso: string; nombre: string };
+      };
+    }>(GET_CUADERNO_QUERY, { id: idConvocatoria });
+    const { idCurso, nombre } = data.convocatoria.curso;
+    const curso = await cursoService.getCurso(idCurso);
+    return {
+      ...data.convocatoria,
+      curso: { nombre, materia: curso.materia },
+    };
+  },
+
+  /**
+   * Guarda en bloque las notas modificadas
+   * Se envían todas aunque alguna falle y se informa de cuántas no se guardaron
+   */
+  async saveCalificaciones(cambios: CambioCalificacion[]): Promise<number> {
+    const fechaCalificacion = new Date().toISOString().slice(0, 10);
+    const results = await Promise.allSettled(
+      cambios.map((cambio) => {
+        const input: CalificacionInput = {
+          idMatricula: cambio.idMatricula,
+          idMateria: cambio.idMateria,
+          nota: cambio.nota,
+          fechaCalificacion,
+        };
+        return cambio.idCalificacion
+          ? graphqlRequest(UPDATE_CALIFICACION_MUTATION, {
+              id: cambio.idCalificacion,
+              input,
+            })
+          : graphqlRequest(CREATE_CALIFICACION_MUTATION, { input });
+      })
+    );
+
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (rejected.length === cambios.length) {
+      // Si falla todo se propaga el error original (p. ej. FORBIDDEN)
+      throw rejected[0].reason;
+    }
+    if (rejected.length > 0) {
+      throw new Error(
+        t('calificaciones.notifications.partial', {
+          failed: rejected.length,
+          total: cambios.length,
+        })
+      );
+    }
+    return cambios.length;
+  },
+};
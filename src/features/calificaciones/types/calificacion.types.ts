@@ -0,0 +1,68 @@
+import type { EstadoPago } from '@/features/matriculas/types/matricula.types';
+
+export interface MateriaCalificada {
+  idMateria: string;
+  nombre: string;
+}
+
+/**
+ * Nota de un alumno en una materia (escala 0-10)
+ */
+export interface Calificacion {
+  idCalificacion: string;
+  nota: number;
+  fechaCalificacion: string;
+  materia: MateriaCalificada;
+}
+
+export interface CalificacionInput {
+  idMatricula: string;
+  idMateria: string;
+  nota: number;
+  fechaCalificacion: string;
+}
+
+/**
+ * Matrícula con sus calificaciones: una fila del cuaderno de notas
+ */
+export interface CuadernoMatricula {
+  idMatricula: string;
+  estadoPago: EstadoPago;
+  alumno: {
+    idUsuario: string;
+    email: string;
+    datosPersonales?: {
+      nombre: string;
+      apellidos: string;
+    };
+  };
+  calificaciones: Calificacion[];
+}
+
+/**
+ * Convocatoria con lo necesario para el cuaderno de notas
+ */
+export interface CuadernoConvocatoria {
+  idConvocatoria: string;
+  codigo: string;
+  profesor: {
+    idUsuario: string;
+    email: string;
+  };
+  curso: {
+    nombre: string;
+    materia?: MateriaCalificada | null;
+  };
+  matriculas: CuadernoMatricula[];
+}
+
+/**
+ * Nota modificada en el cuaderno pendiente de guardar
+ * Sin idCalificacion se crea una calificación nueva
+ */
+export interface CambioCalificacion {
+  idMatricula: string;
+  idMateria: string;
+  nota: number;
+  idCalificacion?: string;
+}
@@ -0,0 +1,88 @@
+import type { User } from '@/shared/types/auth.types';
+import { INTL_LOCALES, type Locale } from '@/shared/lib/i18n';
+import type {
+  CuadernoConvocatoria,
+  CuadernoMatricula,
+  MateriaCalificada,
+} from '../types/calificacion.types';
+
+export const NOTA_MINIMA = 0;
+export const NOTA_MAXIMA = 10;
+export const NOTA_APROBADO = 5;
+
+/**
+ * Clave de celda del cuaderno: una nota por matrícula y materia
+ */
+export function getCeldaKey(idMatricula: string, idMateria: string): string {
+  return `${idMatricula}:${idMateria}`;
+}
+
+/**
+ * Interpreta el valor escrito en una celda
+ * Devuelve null si está vacía y NaN si no es una nota válida (0-10, hasta
+ * dos decimales); admite coma decimal
+ */
+export function parseNota(value: string): number | null {
+  const trimmed = value.trim().replace(',', '.');
+  if (!trimmed) return null;
+  if (!/^\d{1,2}(\.\d{1,2})?$/.test(trimmed)) return NaN;
+  const nota = Number(trimmed);
+  return nota >= NOTA_MINIMA && nota <= NOTA_MAXIMA ? nota : NaN;
+}
+
+export function calcularMedia(notas: number[]): number | null {
+  if (notas.length === 0) return null;
+  return notas.reduce((sum, nota) => sum + nota, 0) / notas.length;
+}
+
+export function formatNota(nota: number | null, locale: Locale): string {
+  if (nota === null) return '-';
+  return nota.toLocaleString(INTL_LOCALES[locale], {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+/**
+ * Materias que forman las columnas del cuaderno: la del curso y cualquier
+ * otra que ya tenga notas en la convocatoria
+ */
+export function getMateriasCuaderno(
+  cuaderno: CuadernoConvocatoria
+): MateriaCalificada[] {
+  const materias = new Map<string, MateriaCalificada>();
+  if (cuaderno.curso.materia) {
+    materias.set(cuaderno.curso.materia.idMateria, cuaderno.curso.materia);
+  }
+  for (const matricula of cuaderno.matriculas) {
+    for (const calificacion of matricula.calificaciones) {
+      materias.set(calificacion.materia.idMateria, calificacion.materia);
+    }
+  }
+  return Array.from(materias.values());
+}
+
+/**
+ * Alumnos que cuentan para el cuaderno: se excluyen las matrículas canceladas
+ */
+export function getMatriculasCuaderno(
+  cuaderno: CuadernoConvocatoria
+): CuadernoMatricula[] {
+  return cuaderno.matriculas.filter(
+    (matricula) => matricula.estadoPago !== 'CANCELADO'
+  );
+}
+
+/**
+ * ADMIN puede calificar cualquier convocatoria; un PROFESOR solo las que
+ * imparte. El usuario de sesión no tiene id de backend, así que se compara
+ * por email
+ */
+export function canEditCalificaciones(
+  user: User | null,
+  cuaderno: Pick<CuadernoConvocatoria, 'profesor'>
+): boolean {
+  if (!user) return false;
+  if (user.rol === 'ADMIN') return true;
+  return user.rol === 'PROFESOR' && user.email === cuaderno.profesor.email;
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  TextField,
+  Button,
+  Box,
+  Switch,
+  FormControlLabel,
+} from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import {
+  catalogoSchema,
+  type CatalogoFormData,
+} from '../schemas/catalogo-schema';
+import type { CatalogoInput, CatalogoTipo } from '../types/catalogo.types';
+
+interface CatalogoFormProps {
+  /** Catálogo que se edita: decide el texto del botón */
+  tipo: CatalogoTipo;
+  initialData?: CatalogoFormData;
+  onSubmit: (data: CatalogoInput) => void;
+  isLoading?: boolean;
+}
+
+/**
+ * Formulario compartido por materias y formatos
+ */
+export function CatalogoForm({
+  tipo,
+  initialData,
+  onSubmit,
+  isLoading,
+}: CatalogoFormProps) {
+  const { t } = useTranslation();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    control,
+    setValue,
+  } = useForm<CatalogoFormData>({
+    resolver: zodResolver(catalogoSchema),
+    defaultValues: {
+      activo: true,
+      ...initialData,
+    },
+  });
+
+  const activo = useWatch({ control, name: 'activo', defaultValue: true });
+
+  const handleFormSubmit = (data: CatalogoFormData) => {
+    onSubmit({
+      nombre: data.nombre,
+      descripcion: data.descripcion || undefined,
+      activo: data.activo ?? true,
+    });
+  };
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit(handleFormSubmit)}
+      sx={{ mt: 1 }}
+    >
+      <TextField
+        fullWidth
+        label={t('catalogos.fields.nombre')}
+        {...register('nombre')}
+        error={!!errors.nombre}
+        helperText={errors.nombre?.message}
+        margin="normal"
+        required
+      />
+      <TextField
+        fullWidth
+        label={t('catalogos.fields.descripcion')}
+        multiline
+        rows={3}
+        {...register('descripcion')}
+        error={!!errors.descripcion}
+        helperText={errors.descripcion?.message}
+        margin="normal"
+      />
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={activo}
+            onChange={(e) => setValue('activo', e.target.checked)}
+          />
+        }
+        label={t('common.active')}
+        sx={{ mt: 2 }}
+      />
+
+      <Button
+        type="submit"
+        variant="contained"
+        disabled={isLoading}
+        fullWidth
+        sx={{ mt: 3 }}
+      >
+        {isLoading ? t('common.saving') : t(`catalogos.${tipo}.submit`)}
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+  Chip,
+  TextField,
+  InputAdornment,
+  Box,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import EditIcon from '@mui/icons-material/Edit';
+import BlockIcon from '@mui/icons-material/Block';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import { ConfirmDialog } from '@/shared/components/dialog/confirm-dialog';
+import { normalizeSearchText } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import type { CatalogoItem, CatalogoTipo } from '../types/catalogo.types';
+
+interface CatalogoListProps {
+  items?: CatalogoItem[];
+  isLoading?: boolean;
+  error?: unknown;
+  /** Catálogo que se gestiona: decide los textos de la tabla */
+  tipo: CatalogoTipo;
+  isToggling?: boolean;
+  onEdit: (item: CatalogoItem) => void;
+  onToggleActivo: (item: CatalogoItem, onDone: () => void) => void;
+}
+
+/**
+ * Tabla de gestión compartida por materias y formatos
+ * Desactivar pide confirmación; activar se aplica directamente
+ */
+export function CatalogoList({
+  items,
+  isLoading,
+  error,
+  tipo,
+  isToggling,
+  onEdit,
+  onToggleActivo,
+}: CatalogoListProps) {
+  const { t } = useTranslation();
+  const [search, setSearch] = useState('');
+  const [soloActivos, setSoloActivos] = useState(false);
+  const [itemToDeactivate, setItemToDeactivate] = useState<CatalogoItem | null>(
+    null
+  );
+
+  const filteredItems = useMemo(() => {
+    const term = normalizeSearchText(search.trim());
+    return (items ?? []).filter((item) => {
+      if (soloActivos && !item.activo) return false;
+      if (!term) return true;
+      return [item.nombre, item.descripcion ?? ''].some((field) =>
+        normalizeSearchText(field).includes(term)
+      );
+    });
+  }, [items, search, soloActivos]);
+
+  const handleToggle = (item: CatalogoItem) => {
+    if (item.activo) {
+      setItemToDeactivate(item);
+    } else {
+      onToggleActivo(item, () => undefined);
+    }
+  };
+
+  const handleConfirmDeactivate = () => {
+    if (!itemToDeactivate) return;
+    onToggleActivo(itemToDeactivate, () => setItemToDeactivate(null));
+  };
+
+  if (isLoading) return <CircularProgress />;
+  if (error) {
+    return <Alert severity="error">{t(`catalogos.${tipo}.loadError`)}</Alert>;
+  }
+
+  return (
+    <>
+      <Box display="flex" gap={2} alignItems="center" mb={2}>
+        <TextField
+          fullWidth
+          size="small"
+          placeholder={t('catalogos.list.searchPlaceholder')}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={soloActivos}
+              onChange={(e) => setSoloActivos(e.target.checked)}
+            />
+          }
+          label={t('catalogos.list.onlyActive')}
+          sx={{ whiteSpace: 'nowrap' }}
+        />
+      </Box>
+
+      {filteredItems.length === 0 ? (
+        <Alert severity="info">{t(`catalogos.${tipo}.empty`)}</Alert>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('catalogos.fields.nombre')}</TableCell>
+                <TableCell>{t('catalogos.fields.descripcion')}</TableCell>
+                <TableCell>{t('common.status')}</TableCell>
+                <TableCell align="right">{t('common.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredItems.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.nombre}</TableCell>
+                  <TableCell>{item.descripcion || '-'}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={
+                        item.activo ? t('common.active') : t('common.inactive')
+                      }
+                      color={item.activo ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={t('common.edit')}>
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        onClick={() => onEdit(item)}
+                      >
+                        <EditIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip
+                      title={
+                        item.activo
+                          ? t('common.deactivate')
+                          : t('catalogos.list.activate')
+                      }
+                    >
+                      <span>
+                        <IconButton
+                          size="small"
+                          color={item.activo ? 'warning' : 'success'}
+                          disabled={isToggling}
+                          onClick={() => handleToggle(item)}
+                        >
+                          {item.activo ? <BlockIcon /> : <CheckCircleIcon />}
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <ConfirmDialog
+        open={!!itemToDeactivate}
+        title={t(`catalogos.${tipo}.deactivateTitle`)}
+        message={t('catalogos.list.deactivateMessage', {
+          nombre: itemToDeactivate?.nombre ?? '',
+        })}
+        confirmLabel={t('common.deactivate')}
+        confirmColor="warning"
+        isLoading={isToggling}
+        onConfirm={handleConfirmDeactivate}
+        onCancel={() => setItemToDeactivate(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { materiaService } from '../services/materia-service';
+import { formatoService } from '../services/formato-service';
+import type { CatalogoInput } from '../types/catalogo.types';
+import { useNotifications } from '@/shared/stores/notification-store';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import { t } from '@/shared/lib/i18n';
+
+// Invalidar por prefijo refresca tanto la pantalla de gestión como los
+// selects de CursoForm, que usan las mismas claves
+
+export function useCreateMateria() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (input: CatalogoInput) => materiaService.createMateria(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['materias'] });
+      notifications.success(t('catalogos.materia.created'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('catalogos.materia.createError'),
+          t('catalogos.materia.createForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useUpdateMateria() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: CatalogoInput }) =>
+      materiaService.updateMateria(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['materias'] });
+      notifications.success(t('catalogos.materia.updated'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('catalogos.materia.updateError'),
+          t('catalogos.materia.updateForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useCreateFormato() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (input: CatalogoInput) => formatoService.createFormato(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['formatos'] });
+      notifications.success(t('catalogos.formato.created'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('catalogos.formato.createError'),
+          t('catalogos.formato.createForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useUpdateFormato() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: CatalogoInput }) =>
+      formatoService.updateFormato(id, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['formatos'] });
+      notifications.success(t('catalogos.formato.updated'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('catalogos.formato.updateError'),
+          t('catalogos.formato.updateForbidden')
+        )
+      );
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { materiaService } from '../services/materia-service';
+import { formatoService } from '../services/formato-service';
+
+export function useMaterias(activo?: boolean) {
+  return useQuery({
+    queryKey: ['materias', activo],
+    queryFn: () => materiaService.getMaterias(activo),
+  });
+}
+
+export function useFormatos(activo?: boolean) {
+  return useQuery({
+    queryKey: ['formatos', activo],
+    queryFn: () => formatoService.getFormatos(activo),
+  });
+}
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { t } from '@/shared/lib/i18n';
+
+export const catalogoSchema = z.object({
+  nombre: z
+    .string()
+    .trim()
+    .min(2, { error: () => t('catalogos.form.minLength', { min: 2 }) }),
+  descripcion: z.string().trim().optional(),
+  activo: z.boolean().optional(),
+});
+
+export type CatalogoFormData = z.infer<typeof catalogoSchema>;
@@ -0,0 +1,64 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import type { CatalogoInput, Formato } from '../types/catalogo.types';
+
+const FORMATO_FIELDS = `
+  idFormato
+  nombre
+  descripcion
+  activo
+`;
+
+const GET_FORMATOS_QUERY = `
+  query GetFormatos {
+    formatos {
+      ${FORMATO_FIELDS}
+    }
+  }
+`;
+
+const CREATE_FORMATO_MUTATION = `
+  mutation CreateFormato($input: FormatoInput!) {
+    createFormato(input: $input) {
+      ${FORMATO_FIELDS}
+    }
+  }
+`;
+
+const UPDATE_FORMATO_MUTATION = `
+  mutation UpdateFormato($id: ID!, $input: FormatoInput!) {
+    updateFormato(id: $id, input: $input) {
+      ${FORMATO_FIELDS}
+    }
+  }
+`;
+
+export const formatoService = {
+  /**
+   * La query de formatos no admite filtro por activo: se filtra en cliente
+   */
+  async getFormatos(activo?: boolean): Promise<Formato[]> {
+    const data = await graphqlRequest<{ formatos: Formato[] }>(
+      GET_FORMATOS_QUERY
+    );
+    if (activo === undefined) {
+      return data.formatos;
+    }
+    return data.formatos.filter((formato) => formato.activo === activo);
+  },
+
+  async createFormato(input: CatalogoInput): Promise<Formato> {
+    const data = await graphqlRequest<{ createFormato: Formato }>(
+      CREATE_FORMATO_MUTATION,
+      { input }
+    );
+    return data.createFormato;
+  },
+
+  async updateFormato(id: string, input: CatalogoInput): Promise<Formato> {
+    const data = await graphqlRequest<{ updateFormato: Formato }>(
+      UPDATE_FORMATO_MUTATION,
+      { id, input }
+    );
+    return data.updateFormato;
+  },
+};
@@ -0,0 +1,59 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import type { CatalogoInput, Materia } from '../types/catalogo.types';
+
+const MATERIA_FIELDS = `
+  idMateria
+  nombre
+  descripcion
+  activo
+`;
+
+const GET_MATERIAS_QUERY = `
+  query GetMaterias($activo: Boolean) {
+    materias(activo: $activo) {
+      ${MATERIA_FIELDS}
+    }
+  }
+`;
+
+const CREATE_MATERIA_MUTATION = `
+  mutation CreateMateria($input: MateriaInput!) {
+    createMateria(input: $input) {
+      ${MATERIA_FIELDS}
+    }
+  }
+`;
+
+const UPDATE_MATERIA_MUTATION = `
+  mutation UpdateMateria($id: ID!, $input: MateriaInput!) {
+    updateMateria(id: $id, input: $input) {
+      ${MATERIA_FIELDS}
+    }
+  }
+`;
+
+export const materiaService = {
+  async getMaterias(activo?: boolean): Promise<Materia[]> {
+    const data = await graphqlRequest<{ materias: Materia[] }>(
+      GET_MATERIAS_QUERY,
+      { activo }
+    );
+    return data.materias;
+  },
+
+  async createMateria(input: CatalogoInput): Promise<Materia> {
+    const data = await graphqlRequest<{ createMateria: Materia }>(
+      CREATE_MATERIA_MUTATION,
+      { input }
+    );
+    return data.createMateria;
+  },
+
+  async updateMateria(id: string, input: CatalogoInput): Promise<Materia> {
+    const data = await graphqlRequest<{ updateMateria: Materia }>(
+      UPDATE_MATERIA_MUTATION,
+      { id, input }
+    );
+    return data.updateMateria;
+  },
+};
@@ -0,0 +1,24 @@
+import type { Formato, Materia } from '@/features/cursos/types/curso.types';
+
+export type { Formato, Materia };
+
+/**
+ * Tipo de catálogo administrable desde las pantallas de gestión
+ */
+export type CatalogoTipo = 'materia' | 'formato';
+
+/**
+ * Entrada genérica de catálogo: materias y formatos comparten los mismos campos
+ */
+export interface CatalogoItem {
+  id: string;
+  nombre: string;
+  descripcion?: string;
+  activo: boolean;
+}
+
+export interface CatalogoInput {
+  nombre: string;
+  descripcion?: string;
+  activo?: boolean;
+}
@@ -0,0 +1,36 @@
+import type {
+  CatalogoInput,
+  CatalogoItem,
+  Formato,
+  Materia,
+} from '../types/catalogo.types';
+
+export function materiaToCatalogoItem(materia: Materia): CatalogoItem {
+  return {
+    id: materia.idMateria,
+    nombre: materia.nombre,
+    descripcion: materia.descripcion,
+    activo: materia.activo,
+  };
+}
+
+export function formatoToCatalogoItem(formato: Formato): CatalogoItem {
+  return {
+    id: formato.idFormato,
+    nombre: formato.nombre,
+    descripcion: formato.descripcion,
+    activo: formato.activo,
+  };
+}
+
+/**
+ * Reconstruye el input de una entrada existente
+ * El update del backend exige el input completo, también para activar/desactivar
+ */
+export function toCatalogoInput(item: CatalogoItem): CatalogoInput {
+  return {
+    nombre: item.nombre,
+    descripcion: item.descripcion || undefined,
+    activo: item.activo,
+  };
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { formatDate } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useCentro, useCentroConvocatorias } from '../hooks/use-centros';
+import {
+  countAlumnosActivos,
+  getOcupacionActual,
+  isConvocatoriaEnCurso,
+} from '../utils';
+
+interface CentroDetailProps {
+  idCentro: string;
+}
+
+/**
+ * Ficha del centro con sus convocatorias y la ocupación actual
+ * La ocupación cuenta los alumnos con matrícula no cancelada en convocatorias en curso
+ */
+export function CentroDetail({ idCentro }: CentroDetailProps) {
+  const { t, locale } = useTranslation();
+  const { data: centro, isLoading, error } = useCentro(idCentro);
+  const {
+    data: convocatorias,
+    isLoading: loadingConvocatorias,
+    error: convocatoriasError,
+  } = useCentroConvocatorias(idCentro);
+
+  if (isLoading) return <CircularProgress />;
+  if (error || !centro) {
+    return <Alert severity="error">{t('centros.loadError')}</Alert>;
+  }
+
+  const ocupacion = getOcupacionActual(convocatorias ?? []);
+  const porcentaje =
+    centro.capacidadMaxima > 0
+      ? Math.round((ocupacion / centro.capacidadMaxima) * 100)
+      : 0;
+  const ocupacionColor =
+    porcentaje >= 100 ? 'error' : porcentaje >= 85 ? 'warning' : 'primary';
+
+  const datos = [
+    { label: t('centros.fields.codigo'), value: centro.codigoCentro },
+    {
+      label: t('centros.fields.empresa'),
+      value: `${centro.empresa.nombreLegal} (${centro.empresa.cif})`,
+    },
+    { label: t('centros.fields.comunidad'), value: centro.comunidad.nombre },
+    {
+      label: t('centros.fields.capacidadMaxima'),
+      value: centro.capacidadMaxima,
+    },
+  ];
+
+  return (
+    <>
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box display="flex" alignItems="center" gap={2} mb={2}>
+          <Typography variant="h5" component="h2">
+            {centro.nombre}
+          </Typography>
+          <Chip
+            label={centro.activo ? t('common.active') : t('common.inactive')}
+            color={centro.activo ? 'success' : 'default'}
+            size="small"
+          />
+        </Box>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)' },
+            gap: 2,
+          }}
+        >
+          {datos.map((dato) => (
+            <Box key={dato.label}>
+              <Typography variant="body2" color="text.secondary">
+                {dato.label}
+              </Typography>
+              <Typography>{dato.value}</Typography>
+            </Box>
+          ))}
+        </Box>
+
+        <Box mt={3}>
+          <Box display="flex" justifyContent="space-between" mb={1}>
+            <Typography variant="body2" color="text.secondary">
+              {t('centros.detail.ocupacion')}
+            </Typography>
+            <Typography variant="body2">
+              {ocupacion} / {centro.capacidadMaxima} ({porcentaje}%)
+            </Typography>
+          </Box>
+          <LinearProgress
+            variant={loadingConvocatorias ? 'indeterminate' : 'determinate'}
+            value={Math.min(porcentaje, 100)}
+            color={ocupacionColor}
+            sx={{ height: 10, borderRadius: 5 }}
+          />
+        </Box>
+      </Paper>
+
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          {t('centros.detail.convocatorias')}
+        </Typography>
+        {loadingConvocatorias && <CircularProgress />}
+        {convocatoriasError && (
+          <Alert severity="error">
+            {t('centros.detail.convocatoriasError')}
+          </Alert>
+        )}
+        {convocatorias && convocatorias.length === 0 && (
+          <Alert severity="info">{t('centros.detail.noConvocatorias')}</Alert>
+        )}
+        {convocatorias && convocatorias.length > 0 && (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('centros.fields.codigo')}</TableCell>
+                  <TableCell>{t('centros.detail.curso')}</TableCell>
+                  <TableCell>{t('centros.detail.fechas')}</TableCell>
+                  <TableCell align="right">
+                    {t('centros.detail.alumnos')}
+                  </TableCell>
+                  <TableCell>{t('common.status')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {convocatorias.map((convocatoria) => (
+                  <TableRow key={convocatoria.idConvocatoria}>
+                    <TableCell>
+                      <Link
+                        href={`/dashboard/convocatoria/${convocatoria.idConvocatoria}`}
+                      >
+                        {convocatoria.codigo}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{convocatoria.curso.nombre}</TableCell>
+                    <TableCell>
+                      {formatDate(convocatoria.fechaInicio, locale)} -{' '}
+                      {formatDate(convocatoria.fechaFin, locale)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {countAlumnosActivos(convocatoria)}
+                    </TableCell>
+                    <TableCell>
+                      {isConvocatoriaEnCurso(convocatoria) ? (
+                        <Chip
+                          label={t('centros.detail.enCurso')}
+                          color="primary"
+                          size="small"
+                        />
+                      ) : (
+                        <Chip
+                          label={
+                            convocatoria.activo
+                              ? t('empresas.active')
+                              : t('empresas.inactive')
+                          }
+                          color={convocatoria.activo ? 'success' : 'default'}
+                          size="small"
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+    </>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  TextField,
+  Button,
+  Box,
+  Switch,
+  FormControlLabel,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  FormHelperText,
+  CircularProgress,
+} from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useServerFieldErrors } from '@/shared/hooks/use-server-field-errors';
+import { useComunidades, useEmpresaOptions } from '../hooks/use-centros';
+import { centroSchema, type CentroFormData } from '../schemas/centro-schema';
+import type { CentroInput } from '../types/centro.types';
+
+const CENTRO_FIELDS = centroSchema.keyof().options;
+
+interface CentroFormProps {
+  initialData?: CentroFormData;
+  onSubmit: (data: CentroInput) => void;
+  isLoading?: boolean;
+  /** Error de la última mutation: los errores de validación se marcan en su campo */
+  error?: unknown;
+}
+
+export function CentroForm({
+  initialData,
+  onSubmit,
+  isLoading,
+  error,
+}: CentroFormProps) {
+  const { t } = useTranslation();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    control,
+    setValue,
+    setError,
+  } = useForm<CentroFormData>({
+    resolver: zodResolver(centroSchema),
+    defaultValues: {
+      codigoCentro: '',
+      nombre: '',
+      idEmpresa: '',
+      codigoComunidad: '',
+      activo: true,
+      ...initialData,
+    },
+  });
+
+  useServerFieldErrors(error, setError, CENTRO_FIELDS);
+
+  const { data: empresas, isLoading: loadingEmpresas } = useEmpresaOptions();
+  const { data: comunidades, isLoading: loadingComunidades } = useComunidades();
+
+  const activo = useWatch({ control, name: 'activo', defaultValue: true });
+  const idEmpresa = useWatch({ control, name: 'idEmpresa' });
+  const codigoComunidad = useWatch({ control, name: 'codigoComunidad' });
+
+  const handleFormSubmit = (data: CentroFormData) => {
+    onSubmit({
+      codigoCentro: data.codigoCentro,
+      nombre: data.nombre,
+      capacidadMaxima: data.capacidadMaxima,
+      idEmpresa: data.idEmpresa,
+      codigoComunidad: data.codigoComunidad,
+      activo: data.activo ?? true,
+    });
+  };
+
+  if (loadingEmpresas || loadingComunidades) {
+    return (
+      <Box display="flex" justifyContent="center" p={3}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit(handleFormSubmit)}
+      sx={{ mt: 1 }}
+    >
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: '1fr 2fr' },
+          columnGap: 2,
+        }}
+      >
+        <TextField
+          fullWidth
+          label={t('centros.fields.codigoCentro')}
+          {...register('codigoCentro')}
+          error={!!errors.codigoCentro}
+          helperText={errors.codigoCentro?.message}
+          margin="normal"
+          required
+        />
+        <TextField
+          fullWidth
+          label={t('centros.fields.nombre')}
+          {...register('nombre')}
+          error={!!errors.nombre}
+          helperText={errors.nombre?.message}
+          margin="normal"
+          required
+        />
+      </Box>
+
+      <FormControl
+        fullWidth
+        margin="normal"
+        error={!!errors.idEmpresa}
+        required
+      >
+        <InputLabel id="empresa-label">
+          {t('centros.fields.empresa')}
+        </InputLabel>
+        <Select
+          labelId="empresa-label"
+          id="empresa"
+          label={t('centros.fields.empresa')}
+          value={idEmpresa || ''}
+          onChange={(e) =>
+            setValue('idEmpresa', e.target.value, { shouldValidate: true })
+          }
+        >
+          {empresas?.map((empresa) => (
+            <MenuItem key={empresa.idEmpresa} value={empresa.idEmpresa}>
+              {empresa.nombreLegal} ({empresa.cif})
+            </MenuItem>
+          ))}
+        </Select>
+        {errors.idEmpresa && (
+          <FormHelperText>{errors.idEmpresa.message}</FormHelperText>
+        )}
+      </FormControl>
+
+      <FormControl
+        fullWidth
+        margin="normal"
+        error={!!errors.codigoComunidad}
+        required
+      >
+        <InputLabel id="comunidad-label">
+          {t('centros.fields.comunidadAutonoma')}
+        </InputLabel>
+        <Select
+          labelId="comunidad-label"
+          id="comunidad"
+          label={t('centros.fields.comunidadAutonoma')}
+          value={codigoComunidad || ''}
+          onChange={(e) =>
+            setValue('codigoComunidad', e.target.value, {
+              shouldValidate: true,
+            })
+          }
+        >
+          {comunidades?.map((comunidad) => (
+            <MenuItem key={comunidad.codigo} value={comunidad.codigo}>
+              {comunidad.nombre}
+            </MenuItem>
+          ))}
+        </Select>
+        {errors.codigoComunidad && (
+          <FormHelperText>{errors.codigoComunidad.message}</FormHelperText>
+        )}
+      </FormControl>
+
+      <TextField
+        fullWidth
+        label={t('centros.fields.capacidadAlumnos')}
+        type="number"
+        inputProps={{ min: 1, step: 1 }}
+        {...register('capacidadMaxima', { valueAsNumber: true })}
+        error={!!errors.capacidadMaxima}
+        helperText={errors.capacidadMaxima?.message}
+        margin="normal"
+        required
+      />
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={activo}
+            onChange={(e) => setValue('activo', e.target.checked)}
+          />
+        }
+        label={t('common.active')}
+        sx={{ mt: 2 }}
+      />
+
+      <Button
+        type="submit"
+        variant="contained"
+        disabled={isLoading}
+        fullWidth
+        sx={{ mt: 3 }}
+      >
+        {isLoading ? t('common.saving') : t('centros.form.submit')}
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+  Chip,
+  TextField,
+  MenuItem,
+  Box,
+  InputAdornment,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import EditIcon from '@mui/icons-material/Edit';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { normalizeSearchText } from '@/shared/lib/utils';
+import {
+  useCentros,
+  useComunidades,
+  useEmpresaOptions,
+} from '../hooks/use-centros';
+import type { Centro, CentroFilters } from '../types/centro.types';
+
+interface CentroListProps {
+  onEdit?: (centro: Centro) => void;
+}
+
+export function CentroList({ onEdit }: CentroListProps) {
+  const { t } = useTranslation();
+  const [filters, setFilters] = useState<CentroFilters>({
+    search: '',
+    activo: true,
+  });
+  const { data: centros, isLoading, error } = useCentros(filters.activo);
+  const { data: empresas } = useEmpresaOptions();
+  const { data: comunidades } = useComunidades();
+
+  const filteredCentros = useMemo(() => {
+    const term = normalizeSearchText(filters.search.trim());
+    return (centros ?? []).filter(
+      (centro) =>
+        (!filters.idEmpresa ||
+          centro.empresa.idEmpresa === filters.idEmpresa) &&
+        (!filters.codigoComunidad ||
+          centro.comunidad.codigo === filters.codigoComunidad) &&
+        (!term ||
+          [centro.codigoCentro, centro.nombre].some((field) =>
+            normalizeSearchText(field).includes(term)
+          ))
+    );
+  }, [centros, filters]);
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', md: '2fr 1fr 1fr 1fr' },
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <TextField
+          size="small"
+          placeholder={t('centros.list.searchPlaceholder')}
+          value={filters.search}
+          onChange={(e) =>
+            setFilters((prev) => ({ ...prev, search: e.target.value }))
+          }
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <TextField
+          select
+          size="small"
+          label={t('centros.fields.empresa')}
+          value={filters.idEmpresa ?? ''}
+          onChange={(e) =>
+            setFilters((prev) => ({
+              ...prev,
+              idEmpresa: e.target.value || undefined,
+            }))
+          }
+        >
+          <MenuItem value="">{t('cursos.filters.allFemale')}</MenuItem>
+          {empresas?.map((empresa) => (
+            <MenuItem key={empresa.idEmpresa} value={empresa.idEmpresa}>
+              {empresa.nombreLegal}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label={t('centros.fields.comunidad')}
+          value={filters.codigoComunidad ?? ''}
+          onChange={(e) =>
+            setFilters((prev) => ({
+              ...prev,
+              codigoComunidad: e.target.value || undefined,
+            }))
+          }
+        >
+          <MenuItem value="">{t('cursos.filters.allFemale')}</MenuItem>
+          {comunidades?.map((comunidad) => (
+            <MenuItem key={comunidad.codigo} value={comunidad.codigo}>
+              {comunidad.nombre}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label={t('common.status')}
+          value={filters.activo === undefined ? '' : String(filters.activo)}
+          onChange={(e) =>
+            setFilters((prev) => ({
+              ...prev,
+              activo:
+                e.target.value === '' ? undefined : e.target.value === 'true',
+            }))
+          }
+        >
+          <MenuItem value="">{t('common.all')}</MenuItem>
+          <MenuItem value="true">{t('centros.list.activeFilter')}</MenuItem>
+          <MenuItem value="false">{t('centros.list.inactiveFilter')}</MenuItem>
+        </TextField>
+      </Box>
+
+      {isLoading && <CircularProgress />}
+      {error && <Alert severity="error">{t('centros.list.error')}</Alert>}
+      {!isLoading && !error && filteredCentros.length === 0 && (
+        <Alert severity="info">{t('centros.list.empty')}</Alert>
+      )}
+      {filteredCentros.length > 0 && (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('centros.fields.codigo')}</TableCell>
+                <TableCell>{t('centros.fields.nombre')}</TableCell>
+                <TableCell>{t('centros.fields.empresa')}</TableCell>
+                <TableCell>{t('centros.fields.comunidad')}</TableCell>
+                <TableCell align="right">
+                  {t('centros.fields.capacidad')}
+                </TableCell>
+                <TableCell>{t('common.status')}</TableCell>
+                <TableCell align="right">{t('common.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredCentros.map((centro) => (
+                <TableRow key={centro.idCentro}>
+                  <TableCell>{centro.codigoCentro}</TableCell>
+                  <TableCell>{centro.nombre}</TableCell>
+                  <TableCell>{centro.empresa.nombreLegal}</TableCell>
+                  <TableCell>{centro.comunidad.nombre}</TableCell>
+                  <TableCell align="right">{centro.capacidadMaxima}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={
+                        centro.activo
+                          ? t('common.active')
+                          : t('common.inactive')
+                      }
+                      color={centro.activo ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={t('common.view')}>
+                      <IconButton
+                        size="small"
+                        component={Link}
+                        href={`/dashboard/centro/${centro.idCentro}`}
+                      >
+                        <VisibilityIcon />
+                      </IconButton>
+                    </Tooltip>
+                    {onEdit && (
+                      <Tooltip title={t('common.edit')}>
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={() => onEdit(centro)}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </>
+  );
+}
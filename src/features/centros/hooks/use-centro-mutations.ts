@@ -0,0 +1,52 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { centroService } from '../services/centro-service';
+import type { CentroInput } from '../types/centro.types';
+import { useNotifications } from '@/shared/stores/notification-store';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import { t } from '@/shared/lib/i18n';
+
+export function useCreateCentro() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (input: CentroInput) => centroService.createCentro(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['centros'] });
+      notifications.success(t('centros.notifications.created'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('centros.notifications.createError'),
+          t('centros.notifications.createForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useUpdateCentro() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: CentroInput }) =>
+      centroService.updateCentro(id, input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['centros'] });
+      queryClient.invalidateQueries({ queryKey: ['centro', variables.id] });
+      notifications.success(t('centros.notifications.updated'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('centros.notifications.updateError'),
+          t('centros.notifications.updateForbidden')
+        )
+      );
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { centroService } from '../services/centro-service';
+
+export function useCentros(activo?: boolean) {
+  return useQuery({
+    queryKey: ['centros', activo],
+    queryFn: () => centroService.getCentros(activo),
+  });
+}
+
+export function useCentro(id: string) {
+  return useQuery({
+    queryKey: ['centro', id],
+    queryFn: () => centroService.getCentro(id),
+    enabled: !!id,
+  });
+}
+
+export function useCentroConvocatorias(idCentro: string) {
+  return useQuery({
+    queryKey: ['centro', idCentro, 'convocatorias'],
+    queryFn: () => centroService.getConvocatorias(idCentro),
+    enabled: !!idCentro,
+  });
+}
+
+export function useEmpresaOptions() {
+  return useQuery({
+    queryKey: ['empresas', 'options'],
+    queryFn: () => centroService.getEmpresas(),
+  });
+}
+
+export function useComunidades() {
+  return useQuery({
+    queryKey: ['comunidades'],
+    queryFn: () => centroService.getComunidades(),
+    staleTime: Infinity,
+  });
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { t, type MessageKey, type MessageParams } from '@/shared/lib/i18n';
+
+/** Mensaje traducido al validar, no al importar el módulo */
+const message = (key: MessageKey, params?: MessageParams) => ({
+  error: () => t(key, params),
+});
+
+export const centroSchema = z.object({
+  codigoCentro: z
+    .string()
+    .trim()
+    .min(1, message('centros.form.codigoRequired'))
+    .max(20, message('centros.form.maxLength', { max: 20 })),
+  nombre: z.string().trim().min(1, message('centros.form.nombreRequired')),
+  capacidadMaxima: z
+    .number(message('centros.form.capacidadRequired'))
+    .int(message('centros.form.capacidadInt'))
+    .min(1, message('centros.form.capacidadMin', { min: 1 })),
+  idEmpresa: z.string().min(1, message('centros.form.empresaRequired')),
+  codigoComunidad: z.string().min(1, message('centros.form.comunidadRequired')),
+  activo: z.boolean().optional(),
+});
+
+export type CentroFormData = z.infer<typeof centroSchema>;
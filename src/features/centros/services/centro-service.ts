@@ -0,0 +1,63 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import { t } from '@/shared/lib/i18n';
+import {
+  CreateCentroDocument,
+  GetCentroConvocatoriasDocument,
+  GetCentroDocument,
+  GetCentrosCompletosDocument,
+  GetComunidadesDocument,
+  GetEmpresasOptionsDocument,
+  UpdateCentroDocument,
+} from '@/shared/types/graphql';
+import type {
+  Centro,
+  CentroConvocatoria,
+  CentroInput,
+  Comunidad,
+  EmpresaOption,
+} from '../types/centro.types';
+
+/**
+ * Las operaciones viven en src/features/centros/graphql y se tipan con `npm run codegen`
+ */
+export const centroService = {
+  async getCentros(activo?: boolean): Promise<Centro[]> {
+    const data = await graphqlRequest(GetCentrosCompletosDocument, { activo });
+    return data.centros;
+  },
+
+  async getCentro(id: string): Promise<Centro> {
+    const data = await graphqlRequest(GetCentroDocument, { id });
+    if (!data.centro) {
+      throw new Error(t('centros.notFound'));
+    }
+    return data.centro;
+  },
+
+  async getConvocatorias(idCentro: string): Promise<CentroConvocatoria[]> {
+    const data = await graphqlRequest(GetCentroConvocatoriasDocument, {
+      idCentro,
+    });
+    return data.convocatorias;
+  },
+
+  async getEmpresas(): Promise<EmpresaOption[]> {
+    const data = await graphqlRequest(GetEmpresasOptionsDocument);
+    return data.empresas;
+  },
+
+  async getComunidades(): Promise<Comunidad[]> {
+    const data = await graphqlRequest(GetComunidadesDocument);
+    return data.comunidades;
+  },
+
+  async createCentro(input: CentroInput): Promise<Centro> {
+    const data = await graphqlRequest(CreateCentroDocument, { input });
+    return data.createCentro;
+  },
+
+  async updateCentro(id: string, input: CentroInput): Promise<Centro> {
+    const data = await graphqlRequest(UpdateCentroDocument, { id, input });
+    return data.updateCentro;
+  },
+};
@@ -0,0 +1,38 @@
+import type {
+  CentroFieldsFragment,
+  ComunidadFieldsFragment,
+  EmpresaOptionFieldsFragment,
+  GetCentroConvocatoriasQuery,
+} from '@/shared/types/graphql';
+
+export type Comunidad = ComunidadFieldsFragment;
+
+export type EmpresaOption = EmpresaOptionFieldsFragment;
+
+/**
+ * Centro educativo perteneciente a una empresa y ubicado en una comunidad autónoma
+ * Generado desde el fragmento CentroFields (ver src/features/centros/graphql)
+ */
+export type Centro = CentroFieldsFragment;
+
+/**
+ * Convocatoria del centro con sus matrículas para calcular la ocupación
+ */
+export type CentroConvocatoria =
+  GetCentroConvocatoriasQuery['convocatorias'][number];
+
+export interface CentroFilters {
+  search: string;
+  activo?: boolean;
+  idEmpresa?: string;
+  codigoComunidad?: string;
+}
+
+export interface CentroInput {
+  codigoCentro: string;
+  nombre: string;
+  capacidadMaxima: number;
+  idEmpresa: string;
+  codigoComunidad: string;
+  activo?: boolean;
+}
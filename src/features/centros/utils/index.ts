@@ -0,0 +1,56 @@
+import type {
+  Centro,
+  CentroConvocatoria,
+  CentroInput,
+} from '../types/centro.types';
+
+/**
+ * Reconstruye el input de un centro existente para precargar el formulario
+ */
+export function toCentroInput(centro: Centro): CentroInput {
+  return {
+    codigoCentro: centro.codigoCentro,
+    nombre: centro.nombre,
+    capacidadMaxima: centro.capacidadMaxima,
+    idEmpresa: centro.empresa.idEmpresa,
+    codigoComunidad: centro.comunidad.codigo,
+    activo: centro.activo,
+  };
+}
+
+/**
+ * Alumnos con matrícula no cancelada en una convocatoria
+ */
+export function countAlumnosActivos(convocatoria: CentroConvocatoria): number {
+  return convocatoria.matriculas.filter(
+    (matricula) => matricula.estadoPago !== 'CANCELADO'
+  ).length;
+}
+
+/**
+ * Una convocatoria está en curso si está activa y hoy cae entre sus fechas
+ */
+export function isConvocatoriaEnCurso(
+  convocatoria: CentroConvocatoria,
+  today: string = new Date().toISOString().slice(0, 10)
+): boolean {
+  return (
+    convocatoria.activo &&
+    convocatoria.fechaInicio.slice(0, 10) <= today &&
+    today <= convocatoria.fechaFin.slice(0, 10)
+  );
+}
+
+/**
+ * Ocupación actual del centro: alumnos en convocatorias en curso
+ */
+export function getOcupacionActual(
+  convocatorias: CentroConvocatoria[]
+): number {
+  return convocatorias
+    .filter((convocatoria) => isConvocatoriaEnCurso(convocatoria))
+    .reduce(
+      (total, convocatoria) => total + countAlumnosActivos(convocatoria),
+      0
+    );
+}
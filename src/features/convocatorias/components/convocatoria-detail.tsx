@@ -0,0 +1,166 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { EstadoPagoChip } from '@/features/matriculas/components/estado-pago-chip';
+import {
+  formatCurrency,
+  formatDate,
+  getNombreUsuario,
+} from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useConvocatoria } from '../hooks/use-convocatorias';
+
+interface ConvocatoriaDetailProps {
+  idConvocatoria: string;
+}
+
+/**
+ * Ficha de la convocatoria con los alumnos matriculados
+ */
+export function ConvocatoriaDetail({
+  idConvocatoria,
+}: ConvocatoriaDetailProps) {
+  const { t, locale } = useTranslation();
+  const {
+    data: convocatoria,
+    isLoading,
+    error,
+  } = useConvocatoria(idConvocatoria);
+
+  if (isLoading) return <CircularProgress />;
+  if (error || !convocatoria) {
+    return <Alert severity="error">{t('convocatorias.loadError')}</Alert>;
+  }
+
+  const datos = [
+    {
+      label: t('convocatorias.fields.curso'),
+      value: convocatoria.curso.nombre,
+    },
+    {
+      label: t('convocatorias.fields.profesor'),
+      value: getNombreUsuario(convocatoria.profesor),
+    },
+    {
+      label: t('convocatorias.fields.centro'),
+      value: convocatoria.centro.nombre,
+    },
+    {
+      label: t('convocatorias.fields.precioBase'),
+      value: formatCurrency(convocatoria.curso.precioBase, locale),
+    },
+    {
+      label: t('convocatorias.fields.inicio'),
+      value: formatDate(convocatoria.fechaInicio, locale),
+    },
+    {
+      label: t('convocatorias.fields.fin'),
+      value: formatDate(convocatoria.fechaFin, locale),
+    },
+  ];
+
+  return (
+    <>
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box display="flex" alignItems="center" gap={2} mb={2}>
+          <Typography variant="h5" component="h2">
+            {t('convocatorias.heading', { codigo: convocatoria.codigo })}
+          </Typography>
+          <Chip
+            label={
+              convocatoria.activo
+                ? t('empresas.active')
+                : t('empresas.inactive')
+            }
+            color={convocatoria.activo ? 'success' : 'default'}
+            size="small"
+          />
+        </Box>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' },
+            gap: 2,
+          }}
+        >
+          {datos.map((dato) => (
+            <Box key={dato.label}>
+              <Typography variant="body2" color="text.secondary">
+                {dato.label}
+              </Typography>
+              <Typography>{dato.value}</Typography>
+            </Box>
+          ))}
+        </Box>
+      </Paper>
+
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          {t('convocatorias.detail.matriculas', {
+            count: convocatoria.matriculas.length,
+          })}
+        </Typography>
+        {convocatoria.matriculas.length === 0 ? (
+          <Alert severity="info">
+            {t('convocatorias.detail.noMatriculas')}
+          </Alert>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('convocatorias.fields.codigo')}</TableCell>
+                  <TableCell>{t('convocatorias.detail.alumno')}</TableCell>
+                  <TableCell>
+                    {t('convocatorias.detail.fechaMatricula')}
+                  </TableCell>
+                  <TableCell align="right">
+                    {t('convocatorias.detail.precioFinal')}
+                  </TableCell>
+                  <TableCell>{t('convocatorias.detail.estadoPago')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {convocatoria.matriculas.map((matricula) => (
+                  <TableRow key={matricula.idMatricula}>
+                    <TableCell>{matricula.codigo}</TableCell>
+                    <TableCell>
+                      <Link
+                        href={`/dashboard/alumno/${matricula.alumno.idUsuario}`}
+                      >
+                        {getNombreUsuario(matricula.alumno)}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(matricula.fechaMatricula, locale)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(matricula.precioFinal, locale)}
+                    </TableCell>
+                    <TableCell>
+                      <EstadoPagoChip estadoPago={matricula.estadoPago} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+    </>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  TextField,
+  Button,
+  Box,
+  Switch,
+  FormControlLabel,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  FormHelperText,
+  CircularProgress,
+} from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { useCursos } from '@/features/cursos/hooks/use-cursos';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useServerFieldErrors } from '@/shared/hooks/use-server-field-errors';
+import { getNombreUsuario } from '@/shared/lib/utils';
+import { convocatoriaService } from '../services/convocatoria-service';
+import {
+  convocatoriaSchema,
+  type ConvocatoriaFormData,
+} from '../schemas/convocatoria-schema';
+import type { ConvocatoriaInput } from '../types/convocatoria.types';
+
+const CONVOCATORIA_FIELDS = convocatoriaSchema.keyof().options;
+
+interface ConvocatoriaFormProps {
+  initialData?: ConvocatoriaFormData;
+  onSubmit: (data: ConvocatoriaInput) => void;
+  isLoading?: boolean;
+  /** Error de la última mutation: los errores de validación se marcan en su campo */
+  error?: unknown;
+}
+
+export function ConvocatoriaForm({
+  initialData,
+  onSubmit,
+  isLoading,
+  error,
+}: ConvocatoriaFormProps) {
+  const { t } = useTranslation();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    control,
+    setValue,
+    setError,
+  } = useForm<ConvocatoriaFormData>({
+    resolver: zodResolver(convocatoriaSchema),
+    defaultValues: {
+      idCurso: '',
+      idProfesor: '',
+      idCentro: '',
+      fechaInicio: '',
+      fechaFin: '',
+      activo: true,
+      ...initialData,
+    },
+  });
+
+  useServerFieldErrors(error, setError, CONVOCATORIA_FIELDS);
+
+  // Se cargan también los inactivos para conservar el curso, profesor o
+  // centro actual de la convocatoria aunque se haya desactivado después
+  const { data: allCursos, isLoading: loadingCursos } = useCursos();
+
+  const { data: allProfesores, isLoading: loadingProfesores } = useQuery({
+    queryKey: ['profesores', 'options'],
+    queryFn: () => convocatoriaService.getProfesores(),
+  });
+
+  const { data: allCentros, isLoading: loadingCentros } = useQuery({
+    queryKey: ['centros', 'options'],
+    queryFn: () => convocatoriaService.getCentros(),
+  });
+
+  const cursos = allCursos?.filter(
+    (curso) => curso.activo || curso.idCurso === initialData?.idCurso
+  );
+  const profesores = allProfesores?.filter(
+    (profesor) =>
+      profesor.activo || profesor.idUsuario === initialData?.idProfesor
+  );
+  const centros = allCentros?.filter(
+    (centro) => centro.activo || centro.idCentro === initialData?.idCentro
+  );
+
+  const optionLabel = (nombre: string, activo: boolean) =>
+    activo ? nombre : t('convocatorias.form.inactiveOption', { nombre });
+
+  const activo = useWatch({ control, name: 'activo', defaultValue: true });
+  const idCurso = useWatch({ control, name: 'idCurso' });
+  const idProfesor = useWatch({ control, name: 'idProfesor' });
+  const idCentro = useWatch({ control, name: 'idCentro' });
+
+  const handleFormSubmit = (data: ConvocatoriaFormData) => {
+    onSubmit({
+      idCurso: data.idCurso,
+      idProfesor: data.idProfesor,
+      idCentro: data.idCentro,
+      fechaInicio: data.fechaInicio,
+      fechaFin: data.fechaFin,
+      activo: data.activo ?? true,
+    });
+  };
+
+  if (loadingCursos || loadingProfesores || loadingCentros) {
+    return (
+      <Box display="flex" justifyContent="center" p={3}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit(handleFormSubmit)}
+      sx={{ mt: 1 }}
+    >
+      <FormControl fullWidth margin="normal" error={!!errors.idCurso} required>
+        <InputLabel id="curso-label">
+          {t('convocatorias.fields.curso')}
+        </InputLabel>
+        <Select
+          labelId="curso-label"
+          id="curso"
+          label={t('convocatorias.fields.curso')}
+          value={idCurso || ''}
+          onChange={(e) =>
+            setValue('idCurso', e.target.value, { shouldValidate: true })
+          }
+        >
+          {cursos?.map((curso) => (
+            <MenuItem key={curso.idCurso} value={curso.idCurso}>
+              {optionLabel(curso.nombre, curso.activo)}
+            </MenuItem>
+          ))}
+        </Select>
+        {errors.idCurso && (
+          <FormHelperText>{errors.idCurso.message}</FormHelperText>
+        )}
+      </FormControl>
+
+      <FormControl
+        fullWidth
+        margin="normal"
+        error={!!errors.idProfesor}
+        required
+      >
+        <InputLabel id="profesor-label">
+          {t('convocatorias.fields.profesor')}
+        </InputLabel>
+        <Select
+          labelId="profesor-label"
+          id="profesor"
+          label={t('convocatorias.fields.profesor')}
+          value={idProfesor || ''}
+          onChange={(e) =>
+            setValue('idProfesor', e.target.value, { shouldValidate: true })
+          }
+        >
+          {profesores?.map((profesor) => (
+            <MenuItem key={profesor.idUsuario} value={profesor.idUsuario}>
+              {optionLabel(getNombreUsuario(profesor), profesor.activo)}
+            </MenuItem>
+          ))}
+        </Select>
+        {errors.idProfesor && (
+          <FormHelperText>{errors.idProfesor.message}</FormHelperText>
+        )}
+      </FormControl>
+
+      <FormControl fullWidth margin="normal" error={!!errors.idCentro} required>
+        <InputLabel id="centro-label">
+          {t('convocatorias.fields.centro')}
+        </InputLabel>
+        <Select
+          labelId="centro-label"
+          id="centro"
+          label={t('convocatorias.fields.centro')}
+          value={idCentro || ''}
+          onChange={(e) =>
+            setValue('idCentro', e.target.value, { shouldValidate: true })
+          }
+        >
+          {centros?.map((centro) => (
+            <MenuItem key={centro.idCentro} value={centro.idCentro}>
+              {optionLabel(centro.nombre, centro.activo)}
+            </MenuItem>
+          ))}
+        </Select>
+        {errors.idCentro && (
+          <FormHelperText>{errors.idCentro.message}</FormHelperText>
+        )}
+      </FormControl>
+
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)' },
+          columnGap: 2,
+        }}
+      >
+        <TextField
+          fullWidth
+          label={t('convocatorias.fields.fechaInicio')}
+          type="date"
+          {...register('fechaInicio')}
+          error={!!errors.fechaInicio}
+          helperText={errors.fechaInicio?.message}
+          margin="normal"
+          required
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField
+          fullWidth
+          label={t('convocatorias.fields.fechaFin')}
+          type="date"
+          {...register('fechaFin')}
+          error={!!errors.fechaFin}
+          helperText={errors.fechaFin?.message}
+          margin="normal"
+          required
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+      </Box>
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={activo}
+            onChange={(e) => setValue('activo', e.target.checked)}
+          />
+        }
+        label={t('empresas.active')}
+        sx={{ mt: 2 }}
+      />
+
+      <Button
+        type="submit"
+        variant="contained"
+        disabled={isLoading}
+        fullWidth
+        sx={{ mt: 3 }}
+      >
+        {isLoading ? t('common.saving') : t('convocatorias.form.submit')}
+      </Button>
+    </Box>
+  );
+}
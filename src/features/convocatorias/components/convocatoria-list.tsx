@@ -0,0 +1,219 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+  Chip,
+  TextField,
+  Box,
+  FormControlLabel,
+  Switch,
+  InputAdornment,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import EditIcon from '@mui/icons-material/Edit';
+import BlockIcon from '@mui/icons-material/Block';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import { ConfirmDialog } from '@/shared/components/dialog/confirm-dialog';
+import {
+  formatDate,
+  getNombreUsuario,
+  normalizeSearchText,
+} from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useConvocatorias } from '../hooks/use-convocatorias';
+import { useDeactivateConvocatoria } from '../hooks/use-convocatoria-mutations';
+import type { Convocatoria } from '../types/convocatoria.types';
+
+interface ConvocatoriaListProps {
+  onEdit?: (convocatoria: Convocatoria) => void;
+}
+
+export function ConvocatoriaList({ onEdit }: ConvocatoriaListProps) {
+  const { t, locale } = useTranslation();
+  const [soloActivas, setSoloActivas] = useState(true);
+  const [search, setSearch] = useState('');
+  const [convocatoriaToDeactivate, setConvocatoriaToDeactivate] =
+    useState<Convocatoria | null>(null);
+  const {
+    data: convocatorias,
+    isLoading,
+    error,
+  } = useConvocatorias(soloActivas ? true : undefined);
+  const deactivateMutation = useDeactivateConvocatoria();
+
+  const filteredConvocatorias = useMemo(() => {
+    const term = normalizeSearchText(search.trim());
+    if (!term) return convocatorias ?? [];
+    return (convocatorias ?? []).filter((convocatoria) =>
+      [
+        convocatoria.codigo,
+        convocatoria.curso.nombre,
+        convocatoria.centro.nombre,
+        getNombreUsuario(convocatoria.profesor),
+      ].some((field) => normalizeSearchText(field).includes(term))
+    );
+  }, [convocatorias, search]);
+
+  const handleConfirmDeactivate = () => {
+    if (!convocatoriaToDeactivate) return;
+    deactivateMutation.mutate(convocatoriaToDeactivate, {
+      onSettled: () => setConvocatoriaToDeactivate(null),
+    });
+  };
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <TextField
+          size="small"
+          placeholder={t('convocatorias.list.searchPlaceholder')}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          sx={{ flexGrow: 1, minWidth: 240 }}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={soloActivas}
+              onChange={(e) => setSoloActivas(e.target.checked)}
+            />
+          }
+          label={t('convocatorias.list.onlyActive')}
+        />
+      </Box>
+
+      {isLoading && <CircularProgress />}
+      {error && <Alert severity="error">{t('convocatorias.list.error')}</Alert>}
+      {!isLoading && !error && filteredConvocatorias.length === 0 && (
+        <Alert severity="info">{t('convocatorias.list.empty')}</Alert>
+      )}
+      {filteredConvocatorias.length > 0 && (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('convocatorias.fields.codigo')}</TableCell>
+                <TableCell>{t('convocatorias.fields.curso')}</TableCell>
+                <TableCell>{t('convocatorias.fields.profesor')}</TableCell>
+                <TableCell>{t('convocatorias.fields.centro')}</TableCell>
+                <TableCell>{t('convocatorias.fields.fechas')}</TableCell>
+                <TableCell align="right">
+                  {t('convocatorias.fields.inscritos')}
+                </TableCell>
+                <TableCell>{t('common.status')}</TableCell>
+                <TableCell align="right">{t('common.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredConvocatorias.map((convocatoria) => (
+                <TableRow key={convocatoria.idConvocatoria}>
+                  <TableCell>{convocatoria.codigo}</TableCell>
+                  <TableCell>{convocatoria.curso.nombre}</TableCell>
+                  <TableCell>
+                    {getNombreUsuario(convocatoria.profesor)}
+                  </TableCell>
+                  <TableCell>{convocatoria.centro.nombre}</TableCell>
+                  <TableCell>
+                    {formatDate(convocatoria.fechaInicio, locale)} -{' '}
+                    {formatDate(convocatoria.fechaFin, locale)}
+                  </TableCell>
+                  <TableCell align="right">
+                    {convocatoria.matriculas.length}
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={
+                        convocatoria.activo
+                          ? t('empresas.active')
+                          : t('empresas.inactive')
+                      }
+                      color={convocatoria.activo ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={t('convocatorias.list.viewMatriculas')}>
+                      <IconButton
+                        size="small"
+                        component={Link}
+                        href={`/dashboard/convocatoria/${convocatoria.idConvocatoria}`}
+                      >
+                        <VisibilityIcon />
+                      </IconButton>
+                    </Tooltip>
+                    {onEdit && (
+                      <Tooltip title={t('common.edit')}>
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={() => onEdit(convocatoria)}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {convocatoria.activo && (
+                      <Tooltip title={t('common.deactivate')}>
+                        <IconButton
+                          size="small"
+                          color="warning"
+                          onClick={() =>
+                            setConvocatoriaToDeactivate(convocatoria)
+                          }
+                        >
+                          <BlockIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <ConfirmDialog
+        open={!!convocatoriaToDeactivate}
+        title={t('convocatorias.list.deactivateTitle')}
+        message={t('convocatorias.list.deactivateMessage', {
+          codigo: convocatoriaToDeactivate?.codigo ?? '',
+        })}
+        confirmLabel={t('common.deactivate')}
+        confirmColor="warning"
+        isLoading={deactivateMutation.isPending}
+        onConfirm={handleConfirmDeactivate}
+        onCancel={() => setConvocatoriaToDeactivate(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { convocatoriaService } from '../services/convocatoria-service';
+import type {
+  Convocatoria,
+  ConvocatoriaInput,
+} from '../types/convocatoria.types';
+import { toConvocatoriaInput } from '../utils';
+import { useNotifications } from '@/shared/stores/notification-store';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import { t } from '@/shared/lib/i18n';
+
+export function useCreateConvocatoria() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (input: ConvocatoriaInput) =>
+      convocatoriaService.createConvocatoria(input),
+    onSuccess: (convocatoria) => {
+      queryClient.invalidateQueries({ queryKey: ['convocatorias'] });
+      notifications.success(
+        t('convocatorias.notifications.created', {
+          codigo: convocatoria.codigo,
+        })
+      );
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('convocatorias.notifications.createError'),
+          t('convocatorias.notifications.createForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useUpdateConvocatoria() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: ConvocatoriaInput }) =>
+      convocatoriaService.updateConvocatoria(id, input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['convocatorias'] });
+      queryClient.invalidateQueries({
+        queryKey: ['convocatoria', variables.id],
+      });
+      notifications.success(t('convocatorias.notifications.updated'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('convocatorias.notifications.updateError'),
+          t('convocatorias.notifications.updateForbidden')
+        )
+      );
+    },
+  });
+}
+
+/**
+ * Baja lógica de una convocatoria: se reenvía su input con activo = false
+ */
+export function useDeactivateConvocatoria() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (convocatoria: Convocatoria) =>
+      convocatoriaService.updateConvocatoria(convocatoria.idConvocatoria, {
+        ...toConvocatoriaInput(convocatoria),
+        activo: false,
+      }),
+    onSuccess: (_, convocatoria) => {
+      queryClient.invalidateQueries({ queryKey: ['convocatorias'] });
+      queryClient.invalidateQueries({
+        queryKey: ['convocatoria', convocatoria.idConvocatoria],
+      });
+      notifications.success(t('convocatorias.notifications.deactivated'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('convocatorias.notifications.deactivateError'),
+          t('convocatorias.notifications.deactivateForbidden')
+        )
+      );
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { convocatoriaService } from '../services/convocatoria-service';
+
+export function useConvocatorias(activo?: boolean) {
+  return useQuery({
+    queryKey: ['convocatorias', activo],
+    queryFn: () => convocatoriaService.getConvocatorias(activo),
+  });
+}
+
+export function useConvocatoria(id: string) {
+  return useQuery({
+    queryKey: ['convocatoria', id],
+    queryFn: () => convocatoriaService.getConvocatoria(id),
+    enabled: !!id,
+  });
+}
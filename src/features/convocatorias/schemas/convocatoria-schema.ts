@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { t, type MessageKey, type MessageParams } from '@/shared/lib/i18n';
+
+/** Mensaje traducido al validar, no al importar el módulo */
+const message = (key: MessageKey, params?: MessageParams) => ({
+  error: () => t(key, params),
+});
+
+/**
+ * Schema de validación de convocatoria
+ * Las fechas llegan del input type="date" como YYYY-MM-DD, por lo que se comparan como texto
+ */
+export const convocatoriaSchema = z
+  .object({
+    idCurso: z.string().min(1, message('convocatorias.form.cursoRequired')),
+    idProfesor: z
+      .string()
+      .min(1, message('convocatorias.form.profesorRequired')),
+    idCentro: z.string().min(1, message('convocatorias.form.centroRequired')),
+    fechaInicio: z
+      .string()
+      .min(1, message('convocatorias.form.fechaInicioRequired')),
+    fechaFin: z.string().min(1, message('convocatorias.form.fechaFinRequired')),
+    activo: z.boolean().optional(),
+  })
+  .refine(
+    (data) =>
+      !data.fechaInicio || !data.fechaFin || data.fechaInicio < data.fechaFin,
+    {
+      ...message('convocatorias.form.fechaFinAfterInicio'),
+      path: ['fechaFin'],
+    }
+  );
+
+export type ConvocatoriaFormData = z.infer<typeof convocatoriaSchema>;
@@ -0,0 +1,163 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import type {
+  CentroOption,
+  Convocatoria,
+  ConvocatoriaDetalle,
+  ConvocatoriaInput,
+  ProfesorOption,
+} from '../types/convocatoria.types';
+
+const CONVOCATORIA_FIELDS = `
+  idConvocatoria
+  codigo
+  fechaInicio
+  fechaFin
+  activo
+  curso {
+    idCurso
+    nombre
+    precioBase
+    duracionHoras
+  }
+  profesor {
+    idUsuario
+    email
+    datosPersonales {
+      nombre
+      apellidos
+    }
+  }
+  centro {
+    idCentro
+    nombre
+  }
+`;
+
+const GET_CONVOCATORIAS_QUERY = `
+  query GetConvocatorias($activo: Boolean) {
+    convocatorias(activo: $activo) {
+      ${CONVOCATORIA_FIELDS}
+      matriculas {
+        idMatricula
+      }
+    }
+  }
+`;
+
+const GET_CONVOCATORIA_QUERY = `
+  query GetConvocatoria($id: ID!) {
+    convocatoria(id: $id) {
+      ${CONVOCATORIA_FIELDS}
+      matriculas {
+        idMatricula
+        codigo
+        fechaMatricula
+        precioFinal
+        estadoPago
+        alumno {
+          idUsuario
+          email
+          datosPersonales {
+            nombre
+            apellidos
+          }
+        }
+      }
+    }
+  }
+`;
+
+const GET_PROFESORES_QUERY = `
+  query GetProfesores {
+    usuarios(rol: PROFESOR) {
+      idUsuario
+      email
+      activo
+      datosPersonales {
+        nombre
+        apellidos
+      }
+    }
+  }
+`;
+
+const GET_CENTROS_QUERY = `
+  query GetCentros {
+    centros {
+      idCentro
+      nombre
+      activo
+    }
+  }
+`;
+
+const CREATE_CONVOCATORIA_MUTATION = `
+  mutation CreateConvocatoria($input: ConvocatoriaInput!) {
+    createConvocatoria(input: $input) {
+      idConvocatoria
+      codigo
+    }
+  }
+`;
+
+const UPDATE_CONVOCATORIA_MUTATION = `
+  mutation UpdateConvocatoria($id: ID!, $input: ConvocatoriaInput!) {
+    updateConvocatoria(id: $id, input: $input) {
+      idConvocatoria
+      codigo
+    }
+  }
+`;
+
+type ConvocatoriaSaved = Pick<Convocatoria, 'idConvocatoria' | 'codigo'>;
+
+export const convocatoriaService = {
+  async getConvocatorias(activo?: boolean): Promise<Convocatoria[]> {
+    const data = await graphqlRequest<{ convocatorias: Convocatoria[] }>(
+      GET_CONVOCATORIAS_QUERY,
+      { activo }
+    );
+    return data.convocatorias;
+  },
+
+  async getConvocatoria(id: string): Promise<ConvocatoriaDetalle> {
+    const data = await graphqlRequest<{ convocatoria: ConvocatoriaDetalle }>(
+      GET_CONVOCATORIA_QUERY,
+      { id }
+    );
+    return data.convocatoria;
+  },
+
+  async getProfesores(): Promise<ProfesorOption[]> {
+    const data = await graphqlRequest<{ usuarios: ProfesorOption[] }>(
+      GET_PROFESORES_QUERY
+    );
+    return data.usuarios;
+  },
+
+  async getCentros(): Promise<CentroOption[]> {
+    const data = await graphqlRequest<{ centros: CentroOption[] }>(
+      GET_CENTROS_QUERY
+    );
+    return data.centros;
+  },
+
+  async createConvocatoria(
+    input: ConvocatoriaInput
+  ): Promise<ConvocatoriaSaved> {
+    const data = await graphqlRequest<{
+      createConvocatoria: ConvocatoriaSaved;
+    }>(CREATE_CONVOCATORIA_MUTATION, { input });
+    return data.createConvocatoria;
+  },
+
+  async updateConvocatoria(
+    id: string,
+    input: ConvocatoriaInput
+  ): Promise<ConvocatoriaSaved> {
+    const data = await graphqlRequest<{
+      updateConvocatoria: ConvocatoriaSaved;
+    }>(UPDATE_CONVOCATORIA_MUTATION, { id, input });
+    return data.updateConvocatoria;
+  },
+};
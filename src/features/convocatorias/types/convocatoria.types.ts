@@ -0,0 +1,91 @@
+import type { EstadoPago } from '@/features/matriculas/types/matricula.types';
+
+/**
+ * Profesor asignado a una convocatoria
+ */
+export interface ConvocatoriaProfesor {
+  idUsuario: string;
+  email: string;
+  datosPersonales?: {
+    nombre: string;
+    apellidos: string;
+  };
+}
+
+/**
+ * Convocatoria: edición concreta de un curso en un centro con un profesor
+ * El código lo genera el backend al crearla
+ */
+export interface Convocatoria {
+  idConvocatoria: string;
+  codigo: string;
+  fechaInicio: string;
+  fechaFin: string;
+  activo: boolean;
+  curso: {
+    idCurso: string;
+    nombre: string;
+    precioBase: number;
+    duracionHoras?: number;
+  };
+  profesor: ConvocatoriaProfesor;
+  centro: {
+    idCentro: string;
+    nombre: string;
+  };
+  matriculas: Array<{
+    idMatricula: string;
+  }>;
+}
+
+/**
+ * Matrícula de un alumno inscrito en la convocatoria
+ */
+export interface ConvocatoriaMatricula {
+  idMatricula: string;
+  codigo: string;
+  fechaMatricula: string;
+  precioFinal: number;
+  estadoPago: EstadoPago;
+  alumno: {
+    idUsuario: string;
+    email: string;
+    datosPersonales?: {
+      nombre: string;
+      apellidos: string;
+    };
+  };
+}
+
+/**
+ * Convocatoria con sus matrículas completas (vista de detalle)
+ */
+export interface ConvocatoriaDetalle extends Omit<Convocatoria, 'matriculas'> {
+  matriculas: ConvocatoriaMatricula[];
+}
+
+export interface ConvocatoriaInput {
+  idCurso: string;
+  idProfesor: string;
+  idCentro: string;
+  fechaInicio: string;
+  fechaFin: string;
+  activo?: boolean;
+}
+
+/**
+ * Opción de centro para el selector del formulario
+ */
+/**
+ * Opciones del formulario; incluyen las inactivas para conservar la actual
+ * de una convocatoria aunque se haya desactivado después
+ */
+export interface ProfesorOption extends ConvocatoriaProfesor {
+  activo: boolean;
+}
+
+export interface CentroOption {
+  idCentro: string;
+  nombre: string;
+  activo: boolean;
+}
@@ -0,0 +1,30 @@
+import type {
+  Convocatoria,
+  ConvocatoriaInput,
+} from '../types/convocatoria.types';
+
+/**
+ * Recorta un DateTime ISO al formato YYYY-MM-DD que usan los input type="date"
+ */
+export function toDateInputValue(value: string): string {
+  return value ? value.slice(0, 10) : '';
+}
+
+/**
+ * Reconstruye el input de una convocatoria existente para reenviarlo al backend
+ */
+export function toConvocatoriaInput(
+  convocatoria: Pick<
+    Convocatoria,
+    'curso' | 'profesor' | 'centro' | 'fechaInicio' | 'fechaFin' | 'activo'
+  >
+): ConvocatoriaInput {
+  return {
+    idCurso: convocatoria.curso.idCurso,
+    idProfesor: convocatoria.profesor.idUsuario,
+    idCentro: convocatoria.centro.idCentro,
+    fechaInicio: toDateInputValue(convocatoria.fechaInicio),
+    fechaFin: toDateInputValue(convocatoria.fechaFin),
+    activo: convocatoria.activo,
+  };
+}
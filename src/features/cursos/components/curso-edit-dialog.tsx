@@ -0,0 +1,81 @@
+'use client';
+
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+} from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { CursoForm } from './curso-form';
+import { useCurso } from '../hooks/use-cursos';
+import { useUpdateCurso } from '../hooks/use-curso-mutations';
+import type { CursoInput } from '../types/curso.types';
+
+interface CursoEditDialogProps {
+  cursoId: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Diálogo de edición de curso
+ * Carga el detalle del curso y reutiliza CursoForm con initialData
+ */
+export function CursoEditDialog({ cursoId, onClose }: CursoEditDialogProps) {
+  const { t } = useTranslation();
+  const { data: curso, isLoading, error } = useCurso(cursoId ?? '');
+  const updateCursoMutation = useUpdateCurso();
+
+  const handleClose = () => {
+    onClose();
+    // Sin esto el siguiente curso mostraría los errores del servidor de este
+    updateCursoMutation.reset();
+  };
+
+  const handleSubmit = (input: CursoInput) => {
+    if (!cursoId) return;
+    // El cambio se ve al momento en el listado; si falla se revierte y el
+    // diálogo sigue abierto con los errores del servidor en sus campos
+    updateCursoMutation.mutate(
+      { id: cursoId, input },
+      { onSuccess: handleClose }
+    );
+  };
+
+  return (
+    <Dialog open={!!cursoId} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('cursos.editTitle')}</DialogTitle>
+      <DialogContent>
+        {isLoading && (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        )}
+        {error && <Alert severity="error">{t('cursos.loadError')}</Alert>}
+        {curso && (!curso.materia || !curso.formato) && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {t('cursos.missingRelations')}
+          </Alert>
+        )}
+        {curso && (
+          <CursoForm
+            key={curso.idCurso}
+            initialData={{
+              nombre: curso.nombre,
+              idMateria: curso.materia?.idMateria ?? '',
+              idFormato: curso.formato?.idFormato ?? '',
+              precioBase: curso.precioBase,
+              duracionHoras: curso.duracionHoras ?? undefined,
+              activo: curso.activo,
+            }}
+            onSubmit={handleSubmit}
+            isLoading={updateCursoMutation.isPending}
+            error={updateCursoMutation.error}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
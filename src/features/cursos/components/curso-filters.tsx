@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useEffectEvent, useState } from 'react';
+import {
+  Box,
+  Button,
+  InputAdornment,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import FilterAltOffIcon from '@mui/icons-material/FilterAltOff';
+import {
+  useFormatos,
+  useMaterias,
+} from '@/features/catalogos/hooks/use-catalogos';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import type { CursoListParams } from '../types/curso.types';
+import { countCursoFilters, CURSO_FILTROS_RELACIONES } from '../utils';
+
+const DEBOUNCE_MS = 400;
+
+/**
+ * Borrador de un campo de texto que se confirma tras dejar de escribir
+ * Si la URL cambia desde fuera (atrás/adelante, limpiar filtros) se descarta el borrador
+ */
+function useDebouncedDraft(value: string, onCommit: (value: string) => void) {
+  const [draft, setDraft] = useState(value);
+  const [synced, setSynced] = useState(value);
+  const [committed, setCommitted] = useState(value);
+  const commit = useEffectEvent(onCommit);
+
+  if (value !== synced) {
+    setSynced(value);
+    if (value !== committed) {
+      setDraft(value);
+      setCommitted(value);
+    }
+  }
+
+  useEffect(() => {
+    if (draft === committed) return;
+    const timeout = setTimeout(() => {
+      setCommitted(draft);
+      commit(draft);
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, committed]);
+
+  return [draft, setDraft] as const;
+}
+
+function toNumberOrNull(value: string): number | null {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+interface CursoFiltersProps {
+  params: CursoListParams;
+  onChange: (changes: Partial<CursoListParams>) => void;
+  onReset: () => void;
+}
+
+export function CursoFilters({ params, onChange, onReset }: CursoFiltersProps) {
+  const { t } = useTranslation();
+  const { data: materias } = useMaterias();
+  const { data: formatos } = useFormatos();
+
+  const [texto, setTexto] = useDebouncedDraft(params.q, (q) => onChange({ q }));
+  const [precioMin, setPrecioMin] = useDebouncedDraft(
+    params.precioMin?.toString() ?? '',
+    (value) => onChange({ precioMin: toNumberOrNull(value) })
+  );
+  const [precioMax, setPrecioMax] = useDebouncedDraft(
+    params.precioMax?.toString() ?? '',
+    (value) => onChange({ precioMax: toNumberOrNull(value) })
+  );
+
+  const activeFilters = countCursoFilters(params);
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: {
+          xs: '1fr',
+          sm: 'repeat(2, 1fr)',
+          md: CURSO_FILTROS_RELACIONES
+            ? '2fr repeat(5, 1fr) auto'
+            : '2fr repeat(3, 1fr) auto',
+        },
+        gap: 2,
+        mb: 2,
+      }}
+    >
+      <TextField
+        size="small"
+        label={t('cursos.filters.search')}
+        placeholder={t('cursos.filters.searchPlaceholder')}
+        value={texto}
+        onChange={(e) => setTexto(e.target.value)}
+        slotProps={{
+          input: {
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            ),
+          },
+        }}
+      />
+      <TextField
+        select
+        size="small"
+        label={t('common.status')}
+        value={params.activo === null ? '' : String(params.activo)}
+        onChange={(e) =>
+          onChange({
+            activo: e.target.value === '' ? null : e.target.value === 'true',
+          })
+        }
+      >
+        <MenuItem value="">{t('cursos.filters.all')}</MenuItem>
+        <MenuItem value="true">{t('cursos.filters.active')}</MenuItem>
+        <MenuItem value="false">{t('cursos.filters.inactive')}</MenuItem>
+      </TextField>
+      {CURSO_FILTROS_RELACIONES && (
+        <>
+          <TextField
+            select
+            size="small"
+            label={t('cursos.fields.materia')}
+            value={params.idMateria ?? ''}
+            onChange={(e) => onChange({ idMateria: e.target.value || null })}
+          >
+            <MenuItem value="">{t('cursos.filters.allFemale')}</MenuItem>
+            {materias?.map((materia) => (
+              <MenuItem key={materia.idMateria} value={materia.idMateria}>
+                {materia.nombre}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label={t('cursos.fields.formato')}
+            value={params.idFormato ?? ''}
+            onChange={(e) => onChange({ idFormato: e.target.value || null })}
+          >
+            <MenuItem value="">{t('cursos.filters.all')}</MenuItem>
+            {formatos?.map((formato) => (
+              <MenuItem key={formato.idFormato} value={formato.idFormato}>
+                {formato.nombre}
+              </MenuItem>
+            ))}
+          </TextField>
+        </>
+      )}
+      <TextField
+        size="small"
+        type="number"
+        label={t('cursos.filters.precioMin')}
+        value={precioMin}
+        onChange={(e) => setPrecioMin(e.target.value)}
+        slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+      />
+      <TextField
+        size="small"
+        type="number"
+        label={t('cursos.filters.precioMax')}
+        value={precioMax}
+        onChange={(e) => setPrecioMax(e.target.value)}
+        slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+      />
+      <Button
+        startIcon={<FilterAltOffIcon />}
+        onClick={onReset}
+        disabled={activeFilters === 0}
+      >
+        {t('common.clear')}
+        {activeFilters > 0 ? ` (${activeFilters})` : ''}
+      </Button>
+    </Box>
+  );
+}
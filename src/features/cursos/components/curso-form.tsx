@@ -16,38 +16,53 @@ import {
   FormHelperText,
   CircularProgress,
 } from '@mui/material';
-import { useQuery } from '@tanstack/react-query';
-import { cursoService } from '../services/curso-service';
+import {
+  useFormatos,
+  useMaterias,
+} from '@/features/catalogos/hooks/use-catalogos';
+import { useServerFieldErrors } from '@/shared/hooks/use-server-field-errors';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { t as translate, type MessageKey } from '@/shared/lib/i18n';
 import type { CursoInput } from '../types/curso.types';
 
+/** Mensaje traducido al validar, no al importar el módulo */
+const message = (key: MessageKey) => ({ error: () => translate(key) });
+
 const cursoSchema = z.object({
-  nombre: z.string().min(1, 'Nombre requerido'),
-  idMateria: z.string().min(1, 'Materia requerida'),
-  idFormato: z.string().min(1, 'Formato requerido'),
-  precioBase: z.number().min(0, 'El precio debe ser mayor o igual a 0'),
+  nombre: z.string().min(1, message('cursos.form.nombreRequired')),
+  idMateria: z.string().min(1, message('cursos.form.materiaRequired')),
+  idFormato: z.string().min(1, message('cursos.form.formatoRequired')),
+  precioBase: z.number().min(0, message('cursos.form.precioMin')),
   duracionHoras: z.number().optional(),
   activo: z.boolean().optional(),
 });
 
 type CursoFormData = z.infer<typeof cursoSchema>;
 
+const CURSO_FIELDS = cursoSchema.keyof().options;
+
 interface CursoFormProps {
   initialData?: CursoFormData;
   onSubmit: (data: CursoInput) => void;
   isLoading?: boolean;
+  /** Error de la última mutation: los errores de validación se marcan en su campo */
+  error?: unknown;
 }
 
 export function CursoForm({
   initialData,
   onSubmit,
   isLoading,
+  error,
 }: CursoFormProps) {
+  const { t } = useTranslation();
   const {
     register,
     handleSubmit,
     formState: { errors },
     control,
     setValue,
+    setError,
   } = useForm<CursoFormData>({
     resolver: zodResolver(cursoSchema),
     defaultValues: {
@@ -57,15 +72,19 @@ export function CursoForm({
     },
   });
 
-  const { data: materias, isLoading: loadingMaterias } = useQuery({
-    queryKey: ['materias', true],
-    queryFn: () => cursoService.getMaterias(true),
-  });
+  useServerFieldErrors(error, setError, CURSO_FIELDS);
 
-  const { data: formatos, isLoading: loadingFormatos } = useQuery({
-    queryKey: ['formatos'],
-    queryFn: () => cursoService.getFormatos(),
-  });
+  // Se cargan los catálogos completos para conservar la materia/formato
+  // actual del curso aunque se haya desactivado después
+  const { data: allMaterias, isLoading: loadingMaterias } = useMaterias();
+  const { data: allFormatos, isLoading: loadingFormatos } = useFormatos();
+
+  const materias = allMaterias?.filter(
+    (materia) => materia.activo || materia.idMateria === initialData?.idMateria
+  );
+  const formatos = allFormatos?.filter(
+    (formato) => formato.activo || formato.idFormato === initialData?.idFormato
+  );
 
   // Usar useWatch en lugar de watch() para compatibilidad con React Compiler
   const activo = useWatch({ control, name: 'activo', defaultValue: true });
@@ -100,7 +119,7 @@ export function CursoForm({
     >
       <TextField
         fullWidth
-        label="Nombre"
+        label={t('cursos.fields.nombre')}
         {...register('nombre')}
         error={!!errors.nombre}
         helperText={errors.nombre?.message}
@@ -114,18 +133,20 @@ export function CursoForm({
         error={!!errors.idMateria}
         required
       >
-        <InputLabel id="materia-label">Materia</InputLabel>
+        <InputLabel id="materia-label">{t('cursos.fields.materia')}</InputLabel>
         <Select
           labelId="materia-label"
           id="materia"
-          label="Materia"
+          label={t('cursos.fields.materia')}
           value={idMateria || ''}
           {...register('idMateria')}
           onChange={(e) => setValue('idMateria', e.target.value)}
         >
           {materias?.map((materia) => (
             <MenuItem key={materia.idMateria} value={materia.idMateria}>
-              {materia.nombre}
+              {materia.activo
+                ? materia.nombre
+                : t('cursos.form.inactiveMateria', { nombre: materia.nombre })}
             </MenuItem>
           ))}
         </Select>
@@ -140,18 +161,20 @@ export function CursoForm({
         error={!!errors.idFormato}
         required
       >
-        <InputLabel id="formato-label">Formato</InputLabel>
+        <InputLabel id="formato-label">{t('cursos.fields.formato')}</InputLabel>
         <Select
           labelId="formato-label"
           id="formato"
-          label="Formato"
+          label={t('cursos.fields.formato')}
           value={idFormato || ''}
           {...register('idFormato')}
           onChange={(e) => setValue('idFormato', e.target.value)}
         >
           {formatos?.map((formato) => (
             <MenuItem key={formato.idFormato} value={formato.idFormato}>
-              {formato.nombre}
+              {formato.activo
+                ? formato.nombre
+                : t('cursos.form.inactiveFormato', { nombre: formato.nombre })}
             </MenuItem>
           ))}
         </Select>
@@ -162,7 +185,7 @@ export function CursoForm({
 
       <TextField
         fullWidth
-        label="Precio Base"
+        label={t('cursos.fields.precioBase')}
         type="number"
         inputProps={{ step: '0.01', min: 0 }}
         {...register('precioBase', { valueAsNumber: true })}
@@ -174,7 +197,7 @@ export function CursoForm({
 
       <TextField
         fullWidth
-        label="Duración (horas)"
+        label={t('cursos.fields.duracionHoras')}
         type="number"
         inputProps={{ min: 0 }}
         {...register('duracionHoras', { valueAsNumber: true })}
@@ -190,7 +213,7 @@ export function CursoForm({
             onChange={(e) => setValue('activo', e.target.checked)}
           />
         }
-        label="Activo"
+        label={t('common.active')}
         sx={{ mt: 2 }}
       />
 
@@ -201,8 +224,8 @@ export function CursoForm({
         fullWidth
         sx={{ mt: 3 }}
       >
-        {isLoading ? 'Guardando...' : 'Guardar Curso'}
+        {isLoading ? t('common.saving') : t('cursos.form.submit')}
       </Button>
     </Box>
   );
-}
\ No newline at end of file
+}
@@ -1,42 +1,318 @@
 'use client';
 
+import { useEffect, useMemo, useState } from 'react';
+import { Button, Chip, IconButton, Tooltip } from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import BlockIcon from '@mui/icons-material/Block';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { ConfirmDialog } from '@/shared/components/dialog/confirm-dialog';
+import { DataTable } from '@/shared/components/data-table/data-table';
+import type { DataTableColumn } from '@/shared/components/data-table/data-table.types';
+import { ExportButton } from '@/shared/components/export/export-button';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import type { Locale, Translate } from '@/shared/lib/i18n';
+import { getOptimisticState } from '@/shared/lib/react-query/optimistic';
+import { formatCurrency } from '@/shared/lib/utils';
+import { useCursosPaginados } from '../hooks/use-cursos';
+import { cursoService } from '../services/curso-service';
+import { useCursoListParams } from '../hooks/use-curso-list-params';
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
-  Paper,
-  CircularProgress,
-  Alert,
-} from '@mui/material';
-import { useCursos } from '../hooks/use-cursos';
-
-export function CursoList() {
-  const { data: cursos, isLoading, error } = useCursos();
-
-  if (isLoading) return <CircularProgress />;
-  if (error) return <Alert severity="error">Error al cargar cursos</Alert>;
+  useBulkCursoAction,
+  useDeactivateCurso,
+  useDeleteCurso,
+  type BulkCursoAction,
+} from '../hooks/use-curso-mutations';
+import type { Curso, CursoPagina, CursoSortField } from '../types/curso.types';
+import {
+  getCursoExportColumns,
+  CURSO_PAGE_SIZES,
+  toCursosPaginadosVariables,
+} from '../utils';
+import { CursoFilters } from './curso-filters';
+
+type PendingAction =
+  | { type: BulkCursoAction; curso: Curso }
+  | { type: `bulk-${BulkCursoAction}`; cursos: Curso[]; done: () => void };
+
+const getColumns = (
+  t: Translate,
+  locale: Locale
+): DataTableColumn<Curso, CursoSortField>[] => [
+  {
+    id: 'nombre',
+    header: t('cursos.fields.nombre'),
+    cell: (curso) => curso.nombre,
+    sortKey: 'nombre',
+    hideable: false,
+    primary: true,
+  },
+  {
+    id: 'precioBase',
+    header: t('cursos.fields.precioBase'),
+    cell: (curso) => formatCurrency(curso.precioBase, locale),
+    align: 'right',
+    sortKey: 'precioBase',
+  },
+  {
+    id: 'duracionHoras',
+    header: t('cursos.fields.horas'),
+    cell: (curso) => curso.duracionHoras ?? '-',
+    align: 'right',
+    sortKey: 'duracionHoras',
+  },
+  {
+    id: 'estado',
+    header: t('common.status'),
+    cell: (curso) => (
+      <Chip
+        label={curso.activo ? t('common.active') : t('common.inactive')}
+        color={curso.activo ? 'success' : 'default'}
+        size="small"
+      />
+    ),
+  },
+];
+
+const getCursos = (pagina: CursoPagina) => pagina.contenido;
+const getCursoId = (curso: Curso) => curso.idCurso;
+// Creándose, editándose o eliminándose: no admite más acciones hasta que responda el servidor
+const isCursoPending = (curso: Curso) => !!getOptimisticState(curso);
+
+function getConfirmTexts(action: PendingAction, t: Translate) {
+  switch (action.type) {
+    case 'delete':
+      return {
+        title: t('cursos.list.deleteTitle'),
+        message: t('cursos.list.deleteMessage', {
+          nombre: action.curso.nombre,
+        }),
+        confirmLabel: t('common.delete'),
+      };
+    case 'deactivate':
+      return {
+        title: t('cursos.list.deactivateTitle'),
+        message: t('cursos.list.deactivateMessage', {
+          nombre: action.curso.nombre,
+        }),
+        confirmLabel: t('common.deactivate'),
+      };
+    case 'bulk-delete':
+      return {
+        title: t('cursos.list.bulkDeleteTitle'),
+        message: t('cursos.list.bulkDeleteMessage', {
+          count: action.cursos.length,
+        }),
+        confirmLabel: t('common.delete'),
+      };
+    case 'bulk-deactivate':
+      return {
+        title: t('cursos.list.bulkDeactivateTitle'),
+        message: t('cursos.list.bulkDeactivateMessage', {
+          count: action.cursos.length,
+        }),
+        confirmLabel: t('common.deactivate'),
+      };
+  }
+}
+
+interface CursoListProps {
+  onEdit?: (curso: Curso) => void;
+}
+
+/**
+ * Listado de cursos paginado, ordenado y filtrado en el servidor
+ * El estado vive en la URL (?q=&activo=&materia=&sort=&page=...)
+ */
+export function CursoList({ onEdit }: CursoListProps) {
+  const { t, locale } = useTranslation();
+  const columns = useMemo(() => getColumns(t, locale), [t, locale]);
+  const { params, setParams, resetFilters } = useCursoListParams();
+  const query = useCursosPaginados(params);
+  const pagina = query.data;
+  const deactivateMutation = useDeactivateCurso();
+  const deleteMutation = useDeleteCurso();
+  const bulkMutation = useBulkCursoAction();
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(
+    null
+  );
+
+  const handleConfirm = () => {
+    if (!pendingAction) return;
+    // Las acciones individuales se reflejan al momento en la fila, así que el
+    // diálogo se cierra sin esperar al servidor
+    switch (pendingAction.type) {
+      case 'delete':
+        deleteMutation.mutate(pendingAction.curso.idCurso);
+        setPendingAction(null);
+        break;
+      case 'deactivate':
+        deactivateMutation.mutate(pendingAction.curso.idCurso);
+        setPendingAction(null);
+        break;
+      default: {
+        const { cursos, done } = pendingAction;
+        bulkMutation.mutate(
+          {
+            action:
+              pendingAction.type === 'bulk-delete' ? 'delete' : 'deactivate',
+            ids: cursos.map(getCursoId),
+          },
+          {
+            onSuccess: done,
+            onSettled: () => setPendingAction(null),
+          }
+        );
+      }
+    }
+  };
+
+  // Si la página actual se queda vacía (p. ej. tras eliminar), ir a la última
+  const lastPage = pagina ? Math.max(pagina.totalPaginas - 1, 0) : 0;
+  const pageOutOfRange = !!pagina && params.page > lastPage;
+  useEffect(() => {
+    if (pageOutOfRange) setParams({ page: lastPage });
+  }, [pageOutOfRange, lastPage, setParams]);
+
+  const confirmTexts = pendingAction && getConfirmTexts(pendingAction, t);
+  const isDelete =
+    pendingAction?.type === 'delete' || pendingAction?.type === 'bulk-delete';
 
   return (
-    <TableContainer component={Paper}>
-      <Table>
-        <TableHead>
-          <TableRow>
-            <TableCell>Nombre</TableCell>
-            <TableCell>Estado</TableCell>
-          </TableRow>
-        </TableHead>
-        <TableBody>
-          {cursos?.map((curso) => (
-            <TableRow key={curso.idCurso}>
-              <TableCell>{curso.nombre}</TableCell>
-              <TableCell>{curso.activo ? 'Activo' : 'Inactivo'}</TableCell>
-            </TableRow>
-          ))}
-        </TableBody>
-      </Table>
-    </TableContainer>
+    <>
+      <DataTable
+        query={query}
+        getRows={getCursos}
+        columns={columns}
+        getRowId={getCursoId}
+        isRowPending={isCursoPending}
+        sort={{ field: params.sort, order: params.order }}
+        onSortChange={({ field, order }) => setParams({ sort: field, order })}
+        pagination={{
+          page: pageOutOfRange ? lastPage : params.page,
+          pageSize: params.pageSize,
+          count: pagina?.totalElementos ?? 0,
+          pageSizeOptions: CURSO_PAGE_SIZES,
+          onPageChange: (page) => setParams({ page }),
+          onPageSizeChange: (pageSize) => setParams({ pageSize }),
+        }}
+        selectable
+        toolbar={
+          <CursoFilters
+            params={params}
+            onChange={setParams}
+            onReset={resetFilters}
+          />
+        }
+        actions={
+          <ExportButton
+            columns={getCursoExportColumns(t)}
+            fileName={t('nav.cursos').toLowerCase()}
+            disabled={!pagina?.totalElementos}
+            getRows={() => {
+              const { filtro, orden } = toCursosPaginadosVariables(params);
+              return cursoService.getAllCursosPaginados({ filtro, orden });
+            }}
+          />
+        }
+        emptyMessage={t('cursos.list.empty')}
+        errorMessage={t('cursos.list.error')}
+        renderBulkActions={(cursos, clearSelection) => {
+          const activos = cursos.filter((curso) => curso.activo);
+          return (
+            <>
+              <Button
+                size="small"
+                color="warning"
+                startIcon={<BlockIcon />}
+                disabled={activos.length === 0}
+                onClick={() =>
+                  setPendingAction({
+                    type: 'bulk-deactivate',
+                    cursos: activos,
+                    done: clearSelection,
+                  })
+                }
+              >
+                {t('common.deactivate')}
+              </Button>
+              <Button
+                size="small"
+                color="error"
+                startIcon={<DeleteIcon />}
+                onClick={() =>
+                  setPendingAction({
+                    type: 'bulk-delete',
+                    cursos,
+                    done: clearSelection,
+                  })
+                }
+              >
+                {t('common.delete')}
+              </Button>
+            </>
+          );
+        }}
+        renderRowActions={(curso) => {
+          const pending = isCursoPending(curso);
+          return (
+            <>
+              {onEdit && (
+                <Tooltip title={t('common.edit')}>
+                  <span>
+                    <IconButton
+                      size="small"
+                      color="primary"
+                      disabled={pending}
+                      onClick={() => onEdit(curso)}
+                    >
+                      <EditIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              )}
+              {curso.activo && (
+                <Tooltip title={t('common.deactivate')}>
+                  <span>
+                    <IconButton
+                      size="small"
+                      color="warning"
+                      disabled={pending}
+                      onClick={() =>
+                        setPendingAction({ type: 'deactivate', curso })
+                      }
+                    >
+                      <BlockIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              )}
+              <Tooltip title={t('common.delete')}>
+                <span>
+                  <IconButton
+                    size="small"
+                    color="error"
+                    disabled={pending}
+                    onClick={() => setPendingAction({ type: 'delete', curso })}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </>
+          );
+        }}
+      />
+
+      <ConfirmDialog
+        open={!!pendingAction}
+        title={confirmTexts?.title ?? ''}
+        message={confirmTexts?.message ?? ''}
+        confirmLabel={confirmTexts?.confirmLabel}
+        confirmColor={isDelete ? 'error' : 'warning'}
+        isLoading={bulkMutation.isPending}
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingAction(null)}
+      />
+    </>
   );
-}
\ No newline at end of file
+}
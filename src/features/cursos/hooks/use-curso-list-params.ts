@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { CursoListParams } from '../types/curso.types';
+import {
+  DEFAULT_CURSO_LIST_PARAMS,
+  parseCursoListParams,
+  toCursoSearchParams,
+} from '../utils';
+
+/**
+ * Estado del listado de cursos sincronizado con los search params de la URL
+ * Cambiar filtros, orden o tamaño de página vuelve a la primera página
+ */
+export function useCursoListParams() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const params = useMemo(
+    () => parseCursoListParams(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  const replaceParams = useCallback(
+    (next: CursoListParams) => {
+      const query = toCursoSearchParams(next).toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [router, pathname]
+  );
+
+  const setParams = useCallback(
+    (changes: Partial<CursoListParams>) => {
+      replaceParams({
+        ...params,
+        page: 'page' in changes ? params.page : 0,
+        ...changes,
+      });
+    },
+    [params, replaceParams]
+  );
+
+  const resetFilters = useCallback(() => {
+    replaceParams({
+      ...DEFAULT_CURSO_LIST_PARAMS,
+      pageSize: params.pageSize,
+      sort: params.sort,
+      order: params.order,
+    });
+  }, [params, replaceParams]);
+
+  return { params, setParams, resetFilters };
+}
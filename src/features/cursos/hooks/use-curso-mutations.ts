@@ -1,46 +1,349 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  useMutation,
+  useQueryClient,
+  type QueryKey,
+} from '@tanstack/react-query';
 import { cursoService } from '../services/curso-service';
-import type { CursoInput } from '../types/curso.types';
+import type {
+  Curso,
+  CursoCreated,
+  CursoInput,
+  CursoListParams,
+} from '../types/curso.types';
 import { useNotifications } from '@/shared/stores/notification-store';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import {
+  createOfflineHandler,
+  isOffline,
+  queueOfflineMutation,
+} from '@/shared/lib/offline/mutation-queue';
+import {
+  applyOptimisticUpdate,
+  createTempId,
+  optimisticList,
+  rollbackOptimisticUpdate,
+  updateCachedLists,
+  type OptimisticSnapshot,
+} from '@/shared/lib/react-query/optimistic';
+import { t } from '@/shared/lib/i18n';
+import { normalizeSearchText } from '@/shared/lib/utils';
 
+const cursoList = optimisticList<Curso>((curso) => curso.idCurso);
+
+/**
+ * Un curso nuevo solo se inserta en las listas donde aparecería: las que no
+ * filtran por otro estado y, en las paginadas, la primera página
+ */
+function canInsertInList(entryKey: QueryKey, curso: Curso): boolean {
+  if (entryKey[1] === 'paginados') {
+    const params = entryKey[2] as CursoListParams;
+    return (
+      params.page === 0 &&
+      (params.activo === null || params.activo === curso.activo)
+    );
+  }
+  const activo = entryKey[1] as boolean | undefined;
+  return activo === undefined || activo === curso.activo;
+}
+
+type OptimisticContext = { snapshot: OptimisticSnapshot };
+
+/** Tipo de las altas de curso encoladas sin conexión */
+export const CREATE_CURSO_OFFLINE = 'cursos/create';
+
+/**
+ * Reenvío de las altas hechas sin conexión
+ * Si mientras tanto se creó un curso con el mismo nombre se marca como conflicto
+ */
+export const createCursoOfflineHandler = createOfflineHandler<
+  CursoInput,
+  CursoCreated
+>({
+  mutationFn: (input) => cursoService.createCurso(input),
+  findConflict: async (input) => {
+    const nombre = normalizeSearchText(input.nombre.trim());
+    const cursos = await cursoService.getCursos();
+    return cursos.some(
+      (curso) => normalizeSearchText(curso.nombre.trim()) === nombre
+    )
+      ? t('cursos.notifications.duplicateNombre', { nombre: input.nombre })
+      : null;
+  },
+  onSuccess: (_, queryClient) => {
+    queryClient.invalidateQueries({ queryKey: ['cursos'] });
+  },
+  // Getters: el idioma activo se conoce al reenviar, no al importar el módulo
+  get errorMessage() {
+    return t('cursos.notifications.createError');
+  },
+  get forbiddenMessage() {
+    return t('cursos.notifications.createForbidden');
+  },
+});
+
+/**
+ * Alta optimista: el curso aparece al instante con un id temporal y se
+ * sustituye por el del servidor al confirmarse (o se retira si falla)
+ * Sin conexión se encola y la fila temporal se mantiene hasta reenviarla;
+ * en ese caso la mutation resuelve con null
+ */
 export function useCreateCurso() {
   const queryClient = useQueryClient();
   const notifications = useNotifications();
 
   return useMutation({
-    mutationFn: (input: CursoInput) => cursoService.createCurso(input),
-    onSuccess: () => {
+    mutationFn: async (input: CursoInput): Promise<CursoCreated | null> => {
+      if (isOffline()) {
+        queueOfflineMutation(
+          CREATE_CURSO_OFFLINE,
+          input,
+          t('cursos.notifications.offlineLabel', { nombre: input.nombre })
+        );
+        return null;
+      }
+      return cursoService.createCurso(input);
+    },
+    // Sin conexión la mutation no debe quedarse en pausa: se encola
+    networkMode: 'always',
+    onMutate: async (
+      input
+    ): Promise<OptimisticContext & { tempId: string }> => {
+      const tempId = createTempId();
+      const curso: Curso = {
+        idCurso: tempId,
+        nombre: input.nombre,
+        precioBase: input.precioBase,
+        duracionHoras: input.duracionHoras,
+        activo: input.activo ?? true,
+      };
+      const snapshot = await applyOptimisticUpdate<Curso>(
+        queryClient,
+        ['cursos'],
+        (items, entryKey) =>
+          canInsertInList(entryKey, curso)
+            ? cursoList.insert(curso)(items)
+            : items
+      );
+      return { snapshot, tempId };
+    },
+    onSuccess: (curso, _, context) => {
+      if (!curso) {
+        notifications.info(t('cursos.notifications.queuedOffline'));
+        return;
+      }
+      updateCachedLists<Curso>(
+        queryClient,
+        ['cursos'],
+        cursoList.replace(context.tempId, curso)
+      );
+      notifications.success(t('cursos.notifications.created'));
+    },
+    onError: (error: unknown, _, context) => {
+      rollbackOptimisticUpdate(queryClient, context?.snapshot);
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('cursos.notifications.createError'),
+          t('cursos.notifications.createForbidden')
+        )
+      );
+    },
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ['cursos'] });
-      notifications.success('Curso creado exitosamente');
-    },
-    onError: (error: unknown) => {
-      let errorMessage = 'Error al crear curso';
-      
-      // Manejar errores de GraphQL
-      if (
-        error &&
-        typeof error === 'object' &&
-        'response' in error
-      ) {
-        const graphqlError = error as {
-          response?: {
-            errors?: Array<{ message?: string; extensions?: { classification?: string } }>;
-          };
-        };
-        
-        const firstError = graphqlError.response?.errors?.[0];
-        if (firstError) {
-          if (firstError.extensions?.classification === 'FORBIDDEN') {
-            errorMessage = 'No tienes permisos para crear cursos. Contacta al administrador.';
-          } else {
-            errorMessage = firstError.message || errorMessage;
-          }
-        }
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
+    },
+  });
+}
+
+export function useUpdateCurso() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: CursoInput }) =>
+      cursoService.updateCurso(id, input),
+    onMutate: async ({ id, input }): Promise<OptimisticContext> => {
+      const snapshot = await applyOptimisticUpdate<Curso>(
+        queryClient,
+        ['cursos'],
+        cursoList.update(id, {
+          nombre: input.nombre,
+          precioBase: input.precioBase,
+          duracionHoras: input.duracionHoras,
+          activo: input.activo ?? true,
+        })
+      );
+      return { snapshot };
+    },
+    onSuccess: (curso, { id }) => {
+      updateCachedLists<Curso>(
+        queryClient,
+        ['cursos'],
+        cursoList.replace(id, curso)
+      );
+      notifications.success(t('cursos.notifications.updated'));
+    },
+    onError: (error: unknown, _, context) => {
+      rollbackOptimisticUpdate(queryClient, context?.snapshot);
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('cursos.notifications.updateError'),
+          t('cursos.notifications.updateForbidden')
+        )
+      );
+    },
+    onSettled: (_, __, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['cursos'] });
+      queryClient.invalidateQueries({ queryKey: ['curso', id] });
+    },
+  });
+}
+
+export function useDeactivateCurso() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (id: string) => cursoService.deactivateCurso(id),
+    onMutate: async (id): Promise<OptimisticContext> => {
+      const snapshot = await applyOptimisticUpdate<Curso>(
+        queryClient,
+        ['cursos'],
+        cursoList.update(id, { activo: false })
+      );
+      return { snapshot };
+    },
+    onSuccess: (curso, id) => {
+      updateCachedLists<Curso>(
+        queryClient,
+        ['cursos'],
+        cursoList.replace(id, curso)
+      );
+      notifications.success(t('cursos.notifications.deactivated'));
+    },
+    onError: (error: unknown, _, context) => {
+      rollbackOptimisticUpdate(queryClient, context?.snapshot);
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('cursos.notifications.deactivateError'),
+          t('cursos.notifications.deactivateForbidden')
+        )
+      );
+    },
+    onSettled: (_, __, id) => {
+      queryClient.invalidateQueries({ queryKey: ['cursos'] });
+      queryClient.invalidateQueries({ queryKey: ['curso', id] });
+    },
+  });
+}
+
+/**
+ * La fila se marca como eliminándose y desaparece al confirmarse
+ */
+export function useDeleteCurso() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (id: string) => cursoService.deleteCurso(id),
+    onMutate: async (id): Promise<OptimisticContext> => {
+      const snapshot = await applyOptimisticUpdate<Curso>(
+        queryClient,
+        ['cursos'],
+        cursoList.markDeleting(id)
+      );
+      return { snapshot };
+    },
+    onSuccess: (_, id) => {
+      updateCachedLists<Curso>(queryClient, ['cursos'], cursoList.remove(id));
+      queryClient.removeQueries({ queryKey: ['curso', id] });
+      notifications.success(t('cursos.notifications.deleted'));
+    },
+    onError: (error: unknown, _, context) => {
+      rollbackOptimisticUpdate(queryClient, context?.snapshot);
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('cursos.notifications.deleteError'),
+          t('cursos.notifications.deleteForbidden')
+        )
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['cursos'] });
+    },
+  });
+}
+
+export type BulkCursoAction = 'deactivate' | 'delete';
+
+/**
+ * Desactiva o elimina varios cursos a la vez
+ * Cada curso se procesa por separado y se notifica un resumen con los fallos
+ */
+export function useBulkCursoAction() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: async ({
+      action,
+      ids,
+    }: {
+      action: BulkCursoAction;
+      ids: string[];
+    }) => {
+      const results = await Promise.allSettled(
+        ids.map((id) =>
+          action === 'delete'
+            ? cursoService.deleteCurso(id)
+            : cursoService.deactivateCurso(id)
+        )
+      );
+      return {
+        ok: results.filter((result) => result.status === 'fulfilled').length,
+        failed: results.filter(
+          (result): result is PromiseRejectedResult =>
+            result.status === 'rejected'
+        ),
+      };
+    },
+    onSuccess: ({ ok, failed }, { action, ids }) => {
+      if (action === 'delete') {
+        ids.forEach((id) =>
+          queryClient.removeQueries({ queryKey: ['curso', id] })
+        );
+      } else {
+        ids.forEach((id) =>
+          queryClient.invalidateQueries({ queryKey: ['curso', id] })
+        );
+      }
+      queryClient.invalidateQueries({ queryKey: ['cursos'] });
+
+      const isDelete = action === 'delete';
+      if (failed.length === 0) {
+        notifications.success(
+          isDelete
+            ? t('cursos.notifications.bulkDeleted', { count: ok })
+            : t('cursos.notifications.bulkDeactivated', { count: ok })
+        );
+        return;
+      }
+      const detail = getGraphQLErrorMessage(
+        failed[0].reason,
+        t('cursos.notifications.bulkError'),
+        t('cursos.notifications.bulkForbidden')
+      );
+      const params = { count: ok, failed: failed.length, detail };
+      const resumen = isDelete
+        ? t('cursos.notifications.bulkDeletedPartial', params)
+        : t('cursos.notifications.bulkDeactivatedPartial', params);
+      if (ok > 0) {
+        notifications.warning(resumen);
+      } else {
+        notifications.error(resumen);
       }
-      
-      notifications.error(errorMessage);
     },
   });
-}
\ No newline at end of file
+}
@@ -1,9 +1,33 @@
-import { useQuery } from '@tanstack/react-query';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import { cursoService } from '../services/curso-service';
+import type { CursoListParams } from '../types/curso.types';
+import { toCursosPaginadosVariables } from '../utils';
 
 export function useCursos(activo?: boolean) {
   return useQuery({
     queryKey: ['cursos', activo],
     queryFn: () => cursoService.getCursos(activo),
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Página de cursos filtrada y ordenada en el servidor
+ * La clave incluye todo el estado del listado; mantiene la página anterior
+ * mientras carga la siguiente para que la tabla no parpadee
+ */
+export function useCursosPaginados(params: CursoListParams) {
+  return useQuery({
+    queryKey: ['cursos', 'paginados', params],
+    queryFn: () =>
+      cursoService.getCursosPaginados(toCursosPaginadosVariables(params)),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useCurso(id: string) {
+  return useQuery({
+    queryKey: ['curso', id],
+    queryFn: () => cursoService.getCurso(id),
+    enabled: !!id,
+  });
+}
@@ -1,90 +1,160 @@
+import { ClientError } from 'graphql-request';
+import { hasBackendExtension } from '@/shared/lib/config/backend-extensions';
 import { graphqlRequest } from '@/shared/lib/graphql/client';
+import { toAppError } from '@/shared/lib/errors/error-handler';
+import {
+  AppError,
+  ErrorType,
+  type GraphQLErrorItem,
+} from '@/shared/lib/errors/error-types';
+import { t } from '@/shared/lib/i18n';
+import {
+  CreateCursoDocument,
+  DeleteCursoDocument,
+  GetCursoDocument,
+  GetCursoSinRelacionesDocument,
+  GetCursosDocument,
+  GetCursosPaginadosDocument,
+  UpdateCursoDocument,
+  type GetCursosPaginadosQueryVariables,
+} from '@/shared/types/graphql';
 import type {
   Curso,
+  CursoCompleto,
   CursoInput,
   CursoCreated,
-  Materia,
-  Formato,
+  CursoPagina,
 } from '../types/curso.types';
+import { paginateCursos } from '../utils';
 
-const GET_CURSOS_QUERY = `
-  query GetCursos($activo: Boolean) {
-    cursos(activo: $activo) {
-      idCurso
-      nombre
-      precioBase
-      duracionHoras
-      activo
-    }
-  }
-`;
+const EXPORT_PAGE_SIZE = 100;
 
-const GET_MATERIAS_QUERY = `
-  query GetMaterias($activo: Boolean) {
-    materias(activo: $activo) {
-      idMateria
-      nombre
-      descripcion
-      activo
-    }
-  }
-`;
+const CURSO_RELACIONES = ['materia', 'formato'];
 
-const GET_FORMATOS_QUERY = `
-  query GetFormatos {
-    formatos {
-      idFormato
-      nombre
-      descripcion
-    }
-  }
-`;
-
-const CREATE_CURSO_MUTATION = `
-  mutation CreateCurso($input: CursoInput!) {
-    createCurso(input: $input) {
-      idCurso
-      nombre
-      precioBase
-      duracionHoras
-      activo
-    }
-  }
-`;
+/**
+ * El backend puede devolver materia o formato a null aunque el schema los
+ * declare obligatorios; GraphQL anula entonces el curso entero y el error
+ * apunta a la relación (path ['curso', 'materia'])
+ */
+function isNullRelationError(error: unknown): boolean {
+  const original = toAppError(error).originalError;
+  if (!(original instanceof ClientError)) return false;
+  const errors = (original.response.errors ?? []) as GraphQLErrorItem[];
+  return errors.some((item) => {
+    const field = item.path?.[item.path.length - 1];
+    return typeof field === 'string' && CURSO_RELACIONES.includes(field);
+  });
+}
 
+/**
+ * Las operaciones viven en src/features/cursos/graphql y se tipan con `npm run codegen`
+ */
 export const cursoService = {
   async getCursos(activo?: boolean): Promise<Curso[]> {
-    const data = await graphqlRequest<{ cursos: Curso[] }>(
-      GET_CURSOS_QUERY,
-      { activo }
-    );
+    const data = await graphqlRequest(GetCursosDocument, { activo });
     return data.cursos;
   },
 
-  async getMaterias(activo?: boolean): Promise<Materia[]> {
-    const data = await graphqlRequest<{ materias: Materia[] }>(
-      GET_MATERIAS_QUERY,
-      { activo }
-    );
-    return data.materias;
+  async getCursosPaginados(
+    variables: GetCursosPaginadosQueryVariables
+  ): Promise<CursoPagina> {
+    if (!hasBackendExtension('cursosPaginados')) {
+      const cursos = await this.getCursos(
+        variables.filtro?.activo ?? undefined
+      );
+      return paginateCursos(cursos, variables);
+    }
+    const data = await graphqlRequest(GetCursosPaginadosDocument, variables);
+    return data.cursosPaginados;
   },
 
-  async getFormatos(): Promise<Formato[]> {
-    const data = await graphqlRequest<{ formatos: Formato[] }>(
-      GET_FORMATOS_QUERY
-    );
-    // Proporcionar valor por defecto para activo ya que no lo solicitamos en la query
-    return data.formatos.map((formato) => ({
-      ...formato,
-      activo: true,
-    }));
+  /**
+   * Todos los cursos que cumplen el filtro, recorriendo las páginas (para exportar)
+   */
+  async getAllCursosPaginados(
+    variables: Omit<GetCursosPaginadosQueryVariables, 'pagina' | 'tamano'>
+  ): Promise<Curso[]> {
+    if (!hasBackendExtension('cursosPaginados')) {
+      const cursos = await this.getCursos(
+        variables.filtro?.activo ?? undefined
+      );
+      return paginateCursos(cursos, {
+        ...variables,
+        pagina: 0,
+        tamano: cursos.length,
+      }).contenido;
+    }
+    const cursos: Curso[] = [];
+    for (let pagina = 0; ; pagina++) {
+      const result = await this.getCursosPaginados({
+        ...variables,
+        pagina,
+        tamano: EXPORT_PAGE_SIZE,
+      });
+      cursos.push(...result.contenido);
+      if (pagina >= result.totalPaginas - 1) return cursos;
+    }
+  },
+
+  /**
+   * Si el backend no devuelve materia y formato, el curso se carga sin ellas
+   * (quedan a null) para poder mostrarlo y editarlo igualmente
+   */
+  async getCurso(id: string): Promise<CursoCompleto> {
+    let curso: CursoCompleto | null;
+    try {
+      const data = await graphqlRequest(GetCursoDocument, { id });
+      curso = data.curso ?? null;
+    } catch (error) {
+      if (!isNullRelationError(error)) throw error;
+      const data = await graphqlRequest(GetCursoSinRelacionesDocument, { id });
+      curso = data.curso
+        ? { ...data.curso, materia: null, formato: null }
+        : null;
+    }
+    if (!curso) {
+      throw new Error(t('cursos.errors.notFound'));
+    }
+    return curso;
   },
 
   async createCurso(input: CursoInput): Promise<CursoCreated> {
-    const data = await graphqlRequest<{ createCurso: CursoCreated }>(
-      CREATE_CURSO_MUTATION,
-      { input }
-    );
+    const data = await graphqlRequest(CreateCursoDocument, { input });
     return data.createCurso;
   },
-};
\ No newline at end of file
+
+  async updateCurso(id: string, input: CursoInput): Promise<CursoCreated> {
+    const data = await graphqlRequest(UpdateCursoDocument, { id, input });
+    return data.updateCurso;
+  },
+
+  /**
+   * Baja lógica: el curso se conserva con activo = false
+   * CursoInput exige materia y formato, así que se leen del detalle antes de actualizar
+   */
+  async deactivateCurso(id: string): Promise<CursoCreated> {
+    const curso = await this.getCurso(id);
+    if (!curso.materia || !curso.formato) {
+      throw new AppError(
+        ErrorType.SERVER,
+        t('cursos.errors.missingRelations', { nombre: curso.nombre })
+      );
+    }
+    return this.updateCurso(id, {
+      nombre: curso.nombre,
+      idMateria: curso.materia.idMateria,
+      idFormato: curso.formato.idFormato,
+      precioBase: curso.precioBase,
+      duracionHoras: curso.duracionHoras,
+      activo: false,
+    });
+  },
+
+  /**
+   * Baja física: elimina el curso definitivamente
+   */
+  async deleteCurso(id: string): Promise<boolean> {
+    const data = await graphqlRequest(DeleteCursoDocument, { id });
+    return data.deleteCurso;
+  },
+};
@@ -1,45 +1,57 @@
+import type {
+  CursoFieldsFragment,
+  CursoInput,
+  GetCursoQuery,
+  GetCursosPaginadosQuery,
+  GetCursosQuery,
+} from '@/shared/types/graphql';
+
 /**
  * Curso básico (sin relaciones materia/formato)
  * El backend tiene un bug: devuelve null para materia y formato aunque el schema dice que son requeridos
  * Por ahora, no solicitamos estos campos para evitar el error de GraphQL
  */
-export interface Curso {
-  idCurso: string;
-  nombre: string;
-  precioBase: number;
-  duracionHoras?: number;
-  activo: boolean;
-  materia?: {
-    idMateria: string;
-    nombre: string;
-  };
-  formato?: {
-    idFormato: string;
-    nombre: string;
-  };
-}
+export type Curso = GetCursosQuery['cursos'][number];
+
+type CursoConRelaciones = NonNullable<GetCursoQuery['curso']>;
 
 /**
- * Curso completo con relaciones (para cuando el backend esté corregido)
+ * Curso completo con relaciones
+ * Generado desde la operación GetCurso (ver src/features/cursos/graphql)
+ * materia y formato son null cuando el backend no las devuelve (ver Curso)
  */
-export interface CursoCompleto extends Curso {
-  materia: {
-    idMateria: string;
-    nombre: string;
-  };
-  formato: {
-    idFormato: string;
-    nombre: string;
-  };
-}
+export type CursoCompleto = Omit<CursoConRelaciones, 'materia' | 'formato'> & {
+  materia: CursoConRelaciones['materia'] | null;
+  formato: CursoConRelaciones['formato'] | null;
+};
 
-export interface CursoInput {
-  nombre: string;
-  idMateria: string;
-  idFormato: string;
-  precioBase: number;
-  duracionHoras?: number;
-  activo?: boolean;
+export type { CursoInput };
+
+/**
+ * Página de cursos devuelta por cursosPaginados
+ */
+export type CursoPagina = GetCursosPaginadosQuery['cursosPaginados'];
+
+export type CursoSortField = 'nombre' | 'precioBase' | 'duracionHoras';
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Estado del listado de cursos (página, orden y filtros)
+ * Se guarda en los search params de la URL para poder compartir la vista
+ */
+export interface CursoListParams {
+  /** Página empezando en 0 (en la URL se muestra empezando en 1) */
+  page: number;
+  pageSize: number;
+  sort: CursoSortField;
+  order: SortOrder;
+  q: string;
+  activo: boolean | null;
+  idMateria: string | null;
+  idFormato: string | null;
+  precioMin: number | null;
+  precioMax: number | null;
 }
 
 export interface Materia {
@@ -53,17 +65,11 @@ export interface Formato {
   idFormato: string;
   nombre: string;
   descripcion?: string;
-  activo: boolean; // Siempre true por defecto en el servicio
+  activo: boolean;
 }
 
 /**
- * Respuesta de creación de curso (sin relaciones materia/formato)
+ * Respuesta de creación/actualización de curso (sin relaciones materia/formato)
  * El backend no devuelve las relaciones al crear, solo al consultar
  */
-export interface CursoCreated {
-  idCurso: string;
-  nombre: string;
-  precioBase: number;
-  duracionHoras?: number;
-  activo: boolean;
-}
\ No newline at end of file
+export type CursoCreated = CursoFieldsFragment;
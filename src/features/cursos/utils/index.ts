@@ -0,0 +1,236 @@
+import type {
+  CursoOrdenCampo,
+  GetCursosPaginadosQueryVariables,
+} from '@/shared/types/graphql';
+import { hasBackendExtension } from '@/shared/lib/config/backend-extensions';
+import type { ExportColumn } from '@/shared/lib/export';
+import { getLocale, INTL_LOCALES, type Translate } from '@/shared/lib/i18n';
+import { normalizeSearchText } from '@/shared/lib/utils';
+import type {
+  Curso,
+  CursoListParams,
+  CursoPagina,
+  CursoSortField,
+  SortOrder,
+} from '../types/curso.types';
+
+export const CURSO_PAGE_SIZES = [10, 25, 50];
+
+/**
+ * Sin cursosPaginados el listado se resuelve en el cliente sobre `cursos`,
+ * que no devuelve materia ni formato: esos dos filtros no están disponibles
+ */
+export const CURSO_FILTROS_RELACIONES = hasBackendExtension('cursosPaginados');
+
+export const DEFAULT_CURSO_LIST_PARAMS: CursoListParams = {
+  page: 0,
+  pageSize: 10,
+  sort: 'nombre',
+  order: 'asc',
+  q: '',
+  activo: null,
+  idMateria: null,
+  idFormato: null,
+  precioMin: null,
+  precioMax: null,
+};
+
+/**
+ * Columnas del listado exportado, con las cabeceras en el idioma activo
+ */
+export const getCursoExportColumns = (t: Translate): ExportColumn<Curso>[] => [
+  {
+    id: 'idCurso',
+    header: t('cursos.fields.id'),
+    value: (curso) => curso.idCurso,
+    unselectedByDefault: true,
+  },
+  {
+    id: 'nombre',
+    header: t('cursos.fields.nombre'),
+    value: (curso) => curso.nombre,
+    width: 40,
+  },
+  {
+    id: 'precioBase',
+    header: t('cursos.fields.precioBase'),
+    value: (curso) => curso.precioBase,
+    type: 'currency',
+  },
+  {
+    id: 'duracionHoras',
+    header: t('cursos.fields.horas'),
+    value: (curso) => curso.duracionHoras,
+    type: 'number',
+  },
+  {
+    id: 'activo',
+    header: t('common.active'),
+    value: (curso) => curso.activo,
+    type: 'boolean',
+  },
+];
+
+const SORT_FIELDS: Record<CursoSortField, CursoOrdenCampo> = {
+  nombre: 'NOMBRE',
+  precioBase: 'PRECIO_BASE',
+  duracionHoras: 'DURACION_HORAS',
+};
+
+function parseNumberParam(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Lee el estado del listado desde la URL; los valores inválidos se ignoran
+ */
+export function parseCursoListParams(
+  searchParams: URLSearchParams
+): CursoListParams {
+  const defaults = DEFAULT_CURSO_LIST_PARAMS;
+  const page = parseNumberParam(searchParams.get('page'));
+  const pageSize = parseNumberParam(searchParams.get('size'));
+  const sort = searchParams.get('sort');
+  const order = searchParams.get('order');
+  const activo = searchParams.get('activo');
+
+  return {
+    page: page && page >= 1 ? Math.floor(page) - 1 : defaults.page,
+    pageSize:
+      pageSize && CURSO_PAGE_SIZES.includes(pageSize)
+        ? pageSize
+        : defaults.pageSize,
+    sort:
+      sort && Object.hasOwn(SORT_FIELDS, sort)
+        ? (sort as CursoSortField)
+        : defaults.sort,
+    order:
+      order === 'asc' || order === 'desc'
+        ? (order as SortOrder)
+        : defaults.order,
+    q: searchParams.get('q') ?? defaults.q,
+    activo: activo === 'true' ? true : activo === 'false' ? false : null,
+    idMateria: CURSO_FILTROS_RELACIONES ? searchParams.get('materia') : null,
+    idFormato: CURSO_FILTROS_RELACIONES ? searchParams.get('formato') : null,
+    precioMin: parseNumberParam(searchParams.get('precioMin')),
+    precioMax: parseNumberParam(searchParams.get('precioMax')),
+  };
+}
+
+/**
+ * Convierte el estado en search params, omitiendo los valores por defecto
+ * para que las URLs compartidas sean cortas
+ */
+export function toCursoSearchParams(params: CursoListParams): URLSearchParams {
+  const defaults = DEFAULT_CURSO_LIST_PARAMS;
+  const searchParams = new URLSearchParams();
+  const set = (key: string, value: string | number | boolean | null) => {
+    if (value !== null && value !== '') searchParams.set(key, String(value));
+  };
+
+  set('q', params.q.trim());
+  set('activo', params.activo);
+  set('materia', params.idMateria);
+  set('formato', params.idFormato);
+  set('precioMin', params.precioMin);
+  set('precioMax', params.precioMax);
+  if (params.sort !== defaults.sort || params.order !== defaults.order) {
+    set('sort', params.sort);
+    set('order', params.order);
+  }
+  if (params.pageSize !== defaults.pageSize) set('size', params.pageSize);
+  if (params.page !== defaults.page) set('page', params.page + 1);
+
+  return searchParams;
+}
+
+/**
+ * Variables de GetCursosPaginados a partir del estado del listado
+ */
+export function toCursosPaginadosVariables(
+  params: CursoListParams
+): GetCursosPaginadosQueryVariables {
+  return {
+    filtro: {
+      texto: params.q.trim() || null,
+      activo: params.activo,
+      idMateria: params.idMateria,
+      idFormato: params.idFormato,
+      precioMin: params.precioMin,
+      precioMax: params.precioMax,
+    },
+    orden: {
+      campo: SORT_FIELDS[params.sort],
+      direccion: params.order === 'asc' ? 'ASC' : 'DESC',
+    },
+    pagina: params.page,
+    tamano: params.pageSize,
+  };
+}
+
+const ORDEN_CAMPOS: Record<CursoOrdenCampo, CursoSortField> = {
+  NOMBRE: 'nombre',
+  PRECIO_BASE: 'precioBase',
+  DURACION_HORAS: 'duracionHoras',
+};
+
+/**
+ * Filtra, ordena y pagina en el cliente igual que cursosPaginados (los
+ * valores nulos van al final), mientras el backend no lo publique
+ * Los filtros de materia y formato se ignoran: `cursos` no los devuelve
+ */
+export function paginateCursos(
+  cursos: Curso[],
+  { filtro, orden, pagina, tamano }: GetCursosPaginadosQueryVariables
+): CursoPagina {
+  const texto = normalizeSearchText(filtro?.texto?.trim() ?? '');
+  const filtrados = cursos.filter(
+    (curso) =>
+      (!texto || normalizeSearchText(curso.nombre).includes(texto)) &&
+      (filtro?.activo == null || curso.activo === filtro.activo) &&
+      (filtro?.precioMin == null || curso.precioBase >= filtro.precioMin) &&
+      (filtro?.precioMax == null || curso.precioBase <= filtro.precioMax)
+  );
+
+  const campo = ORDEN_CAMPOS[orden?.campo ?? 'NOMBRE'];
+  const signo = orden?.direccion === 'DESC' ? -1 : 1;
+  const intlLocale = INTL_LOCALES[getLocale()];
+  const ordenados = [...filtrados].sort((a, b) => {
+    const valorA = a[campo];
+    const valorB = b[campo];
+    if (valorA === valorB) return 0;
+    if (valorA === null || valorA === undefined) return 1;
+    if (valorB === null || valorB === undefined) return -1;
+    return (
+      signo *
+      (typeof valorA === 'string'
+        ? valorA.localeCompare(String(valorB), intlLocale)
+        : valorA - Number(valorB))
+    );
+  });
+
+  const size = Math.max(tamano, 1);
+  return {
+    contenido: ordenados.slice(pagina * size, (pagina + 1) * size),
+    totalElementos: filtrados.length,
+    totalPaginas: Math.ceil(filtrados.length / size),
+    pagina,
+    tamano: size,
+  };
+}
+
+/**
+ * Número de filtros activos, para mostrarlo junto al botón de limpiar
+ */
+export function countCursoFilters(params: CursoListParams): number {
+  return [
+    params.q.trim() || null,
+    params.activo,
+    params.idMateria,
+    params.idFormato,
+    params.precioMin,
+    params.precioMax,
+  ].filter((value) => value !== null).length;
+}
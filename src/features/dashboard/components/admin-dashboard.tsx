@@ -0,0 +1,227 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Alert, Box, Paper, Typography } from '@mui/material';
+import { BarChart } from '@mui/x-charts/BarChart';
+import { LineChart } from '@mui/x-charts/LineChart';
+import PeopleIcon from '@mui/icons-material/People';
+import PendingActionsIcon from '@mui/icons-material/PendingActions';
+import EuroIcon from '@mui/icons-material/Euro';
+import ApartmentIcon from '@mui/icons-material/Apartment';
+import { formatMes } from '@/features/profesores/utils';
+import { formatCurrency } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useResumenAdmin } from '../hooks/use-dashboard';
+import {
+  getAltasAlumnosPorMes,
+  getIngresosPorMes,
+  getMatriculasPorMes,
+  getOcupacionPorCentro,
+  getUltimosMeses,
+  getVariacionMensual,
+} from '../utils';
+import { StatCard } from './stat-card';
+
+const CHART_HEIGHT = 280;
+
+/**
+ * Panel de ADMIN y ADMINISTRATIVO: alumnos, cobros pendientes, ingresos y
+ * ocupación de centros, con la tendencia de los últimos meses
+ */
+export function AdminDashboard() {
+  const { t, locale } = useTranslation();
+  const { data, isLoading, error } = useResumenAdmin();
+
+  const kpis = useMemo(() => {
+    if (!data) return null;
+    const meses = getUltimosMeses();
+    const pendientes = data.matriculas.filter(
+      (matricula) => matricula.estadoPago === 'PENDIENTE'
+    );
+    const ocupacion = getOcupacionPorCentro(data.centros, data.convocatorias);
+    const alumnos = ocupacion.reduce(
+      (total, centro) => total + centro.alumnos,
+      0
+    );
+    const capacidad = ocupacion.reduce(
+      (total, centro) => total + centro.capacidad,
+      0
+    );
+    return {
+      meses,
+      ingresos: getIngresosPorMes(data.matriculas, meses),
+      matriculas: getMatriculasPorMes(data.matriculas, meses),
+      altas: getAltasAlumnosPorMes(data.alumnos, meses),
+      pendientes: pendientes.length,
+      importePendiente: pendientes.reduce(
+        (total, matricula) => total + matricula.precioFinal,
+        0
+      ),
+      ocupacion,
+      ocupacionMedia:
+        capacidad > 0 ? Math.round((alumnos / capacidad) * 100) : 0,
+    };
+  }, [data]);
+
+  if (error) {
+    return <Alert severity="error">{t('dashboard.admin.loadError')}</Alert>;
+  }
+
+  const etiquetasMeses = kpis?.meses.map((mes) => formatMes(mes, locale)) ?? [];
+  const ingresosMes = kpis?.ingresos[kpis.ingresos.length - 1]?.valor ?? 0;
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: {
+            xs: '1fr',
+            sm: 'repeat(2, 1fr)',
+            md: 'repeat(4, 1fr)',
+          },
+          gap: 3,
+        }}
+      >
+        <StatCard
+          title={t('dashboard.admin.alumnosActivos')}
+          value={data?.alumnos.length ?? 0}
+          icon={<PeopleIcon sx={{ fontSize: 40 }} />}
+          color="primary.main"
+          caption={
+            kpis
+              ? t('dashboard.admin.altasMes', {
+                  count: kpis.altas[kpis.altas.length - 1].valor,
+                })
+              : undefined
+          }
+          isLoading={isLoading}
+        />
+        <StatCard
+          title={t('dashboard.admin.pendientesPago')}
+          value={kpis?.pendientes ?? 0}
+          icon={<PendingActionsIcon sx={{ fontSize: 40 }} />}
+          color="warning.main"
+          caption={
+            kpis
+              ? t('dashboard.admin.porCobrar', {
+                  importe: formatCurrency(kpis.importePendiente, locale),
+                })
+              : undefined
+          }
+          isLoading={isLoading}
+        />
+        <StatCard
+          title={t('dashboard.admin.ingresosMes')}
+          value={formatCurrency(ingresosMes, locale)}
+          icon={<EuroIcon sx={{ fontSize: 40 }} />}
+          color="success.main"
+          trend={kpis ? getVariacionMensual(kpis.ingresos) : undefined}
+          isLoading={isLoading}
+        />
+        <StatCard
+          title={t('dashboard.admin.ocupacionCentros')}
+          value={`${kpis?.ocupacionMedia ?? 0}%`}
+          icon={<ApartmentIcon sx={{ fontSize: 40 }} />}
+          color="secondary.main"
+          caption={
+            kpis
+              ? t('dashboard.admin.centrosActivos', {
+                  count: kpis.ocupacion.length,
+                })
+              : undefined
+          }
+          isLoading={isLoading}
+        />
+      </Box>
+
+      {kpis && (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', md: 'repeat(2, 1fr)' },
+            gap: 3,
+            mt: 3,
+          }}
+        >
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('dashboard.admin.ingresosCobrados')}
+            </Typography>
+            <LineChart
+              height={CHART_HEIGHT}
+              xAxis={[{ scaleType: 'point', data: etiquetasMeses }]}
+              yAxis={[{ width: 70 }]}
+              series={[
+                {
+                  data: kpis.ingresos.map((punto) => punto.valor),
+                  label: t('dashboard.admin.ingresos'),
+                  area: true,
+                  valueFormatter: (value) => formatCurrency(value, locale),
+                },
+              ]}
+            />
+          </Paper>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('dashboard.admin.matriculasAltas')}
+            </Typography>
+            <BarChart
+              height={CHART_HEIGHT}
+              xAxis={[{ scaleType: 'band', data: etiquetasMeses }]}
+              series={[
+                {
+                  data: kpis.matriculas.map((punto) => punto.valor),
+                  label: t('dashboard.admin.matriculas'),
+                },
+                {
+                  data: kpis.altas.map((punto) => punto.valor),
+                  label: t('dashboard.admin.altas'),
+                },
+              ]}
+            />
+          </Paper>
+          <Paper sx={{ p: 2, gridColumn: { md: '1 / -1' } }}>
+            <Typography variant="h6" gutterBottom>
+              {t('dashboard.admin.ocupacionPorCentro')}
+            </Typography>
+            {kpis.ocupacion.length === 0 ? (
+              <Alert severity="info">{t('dashboard.admin.noCentros')}</Alert>
+            ) : (
+              <BarChart
+                layout="horizontal"
+                height={Math.max(160, kpis.ocupacion.length * 40 + 60)}
+                yAxis={[
+                  {
+                    scaleType: 'band',
+                    data: kpis.ocupacion.map((centro) => centro.nombre),
+                    width: 140,
+                  },
+                ]}
+                xAxis={[
+                  {
+                    min: 0,
+                    max: Math.max(
+                      100,
+                      ...kpis.ocupacion.map((centro) => centro.porcentaje)
+                    ),
+                  },
+                ]}
+                series={[
+                  {
+                    data: kpis.ocupacion.map((centro) => centro.porcentaje),
+                    label: t('dashboard.admin.ocupacion'),
+                    valueFormatter: (value, { dataIndex }) => {
+                      const centro = kpis.ocupacion[dataIndex];
+                      return `${value}% (${centro.alumnos}/${centro.capacidad})`;
+                    },
+                  },
+                ]}
+              />
+            )}
+          </Paper>
+        </Box>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import SchoolIcon from '@mui/icons-material/School';
+import PaymentIcon from '@mui/icons-material/Payment';
+import GradeIcon from '@mui/icons-material/Grade';
+import { EstadoPagoChip } from '@/features/matriculas/components/estado-pago-chip';
+import { formatCurrency, formatDate } from '@/shared/lib/utils';
+import { INTL_LOCALES } from '@/shared/lib/i18n';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useMatriculasAlumno } from '../hooks/use-dashboard';
+import { getNotaMedia } from '../utils';
+import { StatCard } from './stat-card';
+
+interface AlumnoDashboardProps {
+  email: string;
+}
+
+/**
+ * Panel del ALUMNO: sus matrículas con el estado de pago y sus notas
+ */
+export function AlumnoDashboard({ email }: AlumnoDashboardProps) {
+  const { t, locale } = useTranslation();
+  const { data: matriculas, isLoading, error } = useMatriculasAlumno(email);
+
+  if (error) {
+    return <Alert severity="error">{t('dashboard.alumno.loadError')}</Alert>;
+  }
+
+  const vigentes = (matriculas ?? []).filter(
+    (matricula) => matricula.estadoPago !== 'CANCELADO'
+  );
+  const pendientes = vigentes.filter(
+    (matricula) => matricula.estadoPago === 'PENDIENTE'
+  );
+  const notaMedia = getNotaMedia(matriculas ?? []);
+  const calificaciones = (matriculas ?? [])
+    .flatMap((matricula) =>
+      matricula.calificaciones.map((calificacion) => ({
+        ...calificacion,
+        curso: matricula.convocatoria.curso.nombre,
+      }))
+    )
+    .sort((a, b) => b.fechaCalificacion.localeCompare(a.fechaCalificacion));
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' },
+          gap: 3,
+        }}
+      >
+        <StatCard
+          title={t('dashboard.alumno.misMatriculas')}
+          value={vigentes.length}
+          icon={<SchoolIcon sx={{ fontSize: 40 }} />}
+          color="primary.main"
+          isLoading={isLoading}
+        />
+        <StatCard
+          title={t('dashboard.alumno.pendientePago')}
+          value={formatCurrency(
+            pendientes.reduce(
+              (total, matricula) => total + matricula.precioFinal,
+              0
+            ),
+            locale
+          )}
+          icon={<PaymentIcon sx={{ fontSize: 40 }} />}
+          color={pendientes.length > 0 ? 'warning.main' : 'success.main'}
+          caption={
+            pendientes.length === 0
+              ? t('dashboard.alumno.todoPagado')
+              : pendientes.length === 1
+                ? t('dashboard.alumno.sinPagarOne')
+                : t('dashboard.alumno.sinPagarMany', {
+                    count: pendientes.length,
+                  })
+          }
+          isLoading={isLoading}
+        />
+        <StatCard
+          title={t('dashboard.alumno.notaMedia')}
+          value={
+            notaMedia === null
+              ? '-'
+              : notaMedia.toLocaleString(INTL_LOCALES[locale], {
+                  maximumFractionDigits: 2,
+                })
+          }
+          icon={<GradeIcon sx={{ fontSize: 40 }} />}
+          color="secondary.main"
+          caption={
+            calificaciones.length === 1
+              ? t('dashboard.alumno.calificacionesOne')
+              : t('dashboard.alumno.calificacionesMany', {
+                  count: calificaciones.length,
+                })
+          }
+          isLoading={isLoading}
+        />
+      </Box>
+
+      {isLoading && <CircularProgress sx={{ mt: 3 }} />}
+
+      {matriculas && (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', md: 'repeat(2, 1fr)' },
+            gap: 3,
+            mt: 3,
+          }}
+        >
+          <Paper id="mis-matriculas" sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('dashboard.alumno.misMatriculas')}
+            </Typography>
+            {matriculas.length === 0 ? (
+              <Alert severity="info">
+                {t('dashboard.alumno.noMatriculas')}
+              </Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('dashboard.alumno.curso')}</TableCell>
+                      <TableCell>{t('dashboard.alumno.fechas')}</TableCell>
+                      <TableCell align="right">
+                        {t('dashboard.alumno.importe')}
+                      </TableCell>
+                      <TableCell>{t('dashboard.alumno.pago')}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {matriculas.map((matricula) => (
+                      <TableRow key={matricula.idMatricula}>
+                        <TableCell>
+                          {matricula.convocatoria.curso.nombre}
+                        </TableCell>
+                        <TableCell>
+                          {formatDate(
+                            matricula.convocatoria.fechaInicio,
+                            locale
+                          )}{' '}
+                          –{' '}
+                          {formatDate(matricula.convocatoria.fechaFin, locale)}
+                        </TableCell>
+                        <TableCell align="right">
+                          {formatCurrency(matricula.precioFinal, locale)}
+                        </TableCell>
+                        <TableCell>
+                          <EstadoPagoChip estadoPago={matricula.estadoPago} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+          <Paper id="mis-calificaciones" sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('dashboard.alumno.misCalificaciones')}
+            </Typography>
+            {calificaciones.length === 0 ? (
+              <Alert severity="info">{t('dashboard.alumno.noNotas')}</Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('dashboard.alumno.curso')}</TableCell>
+                      <TableCell>{t('dashboard.alumno.materia')}</TableCell>
+                      <TableCell>{t('dashboard.alumno.fecha')}</TableCell>
+                      <TableCell align="right">
+                        {t('dashboard.alumno.nota')}
+                      </TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {calificaciones.map((calificacion) => (
+                      <TableRow key={calificacion.idCalificacion}>
+                        <TableCell>{calificacion.curso}</TableCell>
+                        <TableCell>{calificacion.materia.nombre}</TableCell>
+                        <TableCell>
+                          {formatDate(calificacion.fechaCalificacion, locale)}
+                        </TableCell>
+                        <TableCell align="right">
+                          <Typography
+                            variant="body2"
+                            color={calificacion.nota < 5 ? 'error' : undefined}
+                            fontWeight="bold"
+                          >
+                            {calificacion.nota.toLocaleString(
+                              INTL_LOCALES[locale]
+                            )}
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        </Box>
+      )}
+    </>
+  );
+}
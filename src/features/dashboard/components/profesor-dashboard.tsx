@@ -0,0 +1,207 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import EventIcon from '@mui/icons-material/Event';
+import GradingIcon from '@mui/icons-material/Grading';
+import GroupsIcon from '@mui/icons-material/Groups';
+import { formatDate } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useConvocatoriasProfesor } from '../hooks/use-dashboard';
+import { countPendientesCalificar, getProximasConvocatorias } from '../utils';
+import { StatCard } from './stat-card';
+
+interface ProfesorDashboardProps {
+  email: string;
+}
+
+/**
+ * Panel del PROFESOR: sus próximas convocatorias y lo que le queda por calificar
+ */
+export function ProfesorDashboard({ email }: ProfesorDashboardProps) {
+  const { t, locale } = useTranslation();
+  const { data, isLoading, error } = useConvocatoriasProfesor(email);
+
+  if (error) {
+    return <Alert severity="error">{t('dashboard.profesor.loadError')}</Alert>;
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const proximas = getProximasConvocatorias(data ?? [], today);
+  const pendientes = (data ?? [])
+    .map((convocatoria) => ({
+      convocatoria,
+      pendientes: countPendientesCalificar(convocatoria, today),
+    }))
+    .filter((item) => item.pendientes > 0);
+  const totalPendientes = pendientes.reduce(
+    (total, item) => total + item.pendientes,
+    0
+  );
+  const enCurso = proximas.filter(
+    (convocatoria) => convocatoria.fechaInicio.slice(0, 10) <= today
+  );
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' },
+          gap: 3,
+        }}
+      >
+        <StatCard
+          title={t('dashboard.profesor.enCurso')}
+          value={enCurso.length}
+          icon={<GroupsIcon sx={{ fontSize: 40 }} />}
+          color="primary.main"
+          isLoading={isLoading}
+        />
+        <StatCard
+          title={t('dashboard.profesor.proximas')}
+          value={proximas.length - enCurso.length}
+          icon={<EventIcon sx={{ fontSize: 40 }} />}
+          color="secondary.main"
+          isLoading={isLoading}
+        />
+        <StatCard
+          title={t('dashboard.profesor.sinCalificar')}
+          value={totalPendientes}
+          icon={<GradingIcon sx={{ fontSize: 40 }} />}
+          color={totalPendientes > 0 ? 'warning.main' : 'success.main'}
+          caption={
+            pendientes.length === 0
+              ? undefined
+              : pendientes.length === 1
+                ? t('dashboard.profesor.enConvocatoriasOne')
+                : t('dashboard.profesor.enConvocatoriasMany', {
+                    count: pendientes.length,
+                  })
+          }
+          isLoading={isLoading}
+        />
+      </Box>
+
+      {isLoading && <CircularProgress sx={{ mt: 3 }} />}
+
+      {data && (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', md: 'repeat(2, 1fr)' },
+            gap: 3,
+            mt: 3,
+          }}
+        >
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('dashboard.profesor.misConvocatorias')}
+            </Typography>
+            {proximas.length === 0 ? (
+              <Alert severity="info">
+                {t('dashboard.profesor.noProximas')}
+              </Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('dashboard.profesor.curso')}</TableCell>
+                      <TableCell>{t('dashboard.profesor.centro')}</TableCell>
+                      <TableCell>{t('dashboard.profesor.fechas')}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {proximas.map((convocatoria) => (
+                      <TableRow key={convocatoria.idConvocatoria}>
+                        <TableCell>
+                          <Link
+                            href={`/dashboard/convocatoria/${convocatoria.idConvocatoria}`}
+                          >
+                            {convocatoria.curso.nombre}
+                          </Link>{' '}
+                          ({convocatoria.codigo})
+                        </TableCell>
+                        <TableCell>{convocatoria.centro.nombre}</TableCell>
+                        <TableCell>
+                          {formatDate(convocatoria.fechaInicio, locale)} –{' '}
+                          {formatDate(convocatoria.fechaFin, locale)}
+                          {convocatoria.fechaInicio.slice(0, 10) <= today && (
+                            <Chip
+                              label={t('dashboard.profesor.enCursoChip')}
+                              color="success"
+                              size="small"
+                              sx={{ ml: 1 }}
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('dashboard.profesor.pendienteCalificar')}
+            </Typography>
+            {pendientes.length === 0 ? (
+              <Alert severity="success">{t('dashboard.profesor.alDia')}</Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>
+                        {t('dashboard.profesor.convocatoria')}
+                      </TableCell>
+                      <TableCell align="right">
+                        {t('dashboard.profesor.sinNota')}
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {pendientes.map(({ convocatoria, pendientes }) => (
+                      <TableRow key={convocatoria.idConvocatoria}>
+                        <TableCell>
+                          {convocatoria.curso.nombre} ({convocatoria.codigo})
+                        </TableCell>
+                        <TableCell align="right">{pendientes}</TableCell>
+                        <TableCell align="right">
+                          <Button
+                            size="small"
+                            component={Link}
+                            href={`/dashboard/convocatoria/${convocatoria.idConvocatoria}/calificaciones`}
+                          >
+                            {t('dashboard.profesor.calificar')}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        </Box>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import Link from 'next/link';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import EventIcon from '@mui/icons-material/Event';
+import PaymentIcon from '@mui/icons-material/Payment';
+import SchoolIcon from '@mui/icons-material/School';
+import GradeIcon from '@mui/icons-material/Grade';
+import { AlumnoImportDialog } from '@/features/alumnos/components/alumno-import-dialog';
+import { CursoForm } from '@/features/cursos/components/curso-form';
+import { useCreateCurso } from '@/features/cursos/hooks/use-curso-mutations';
+import { MatriculaForm } from '@/features/matriculas/components/matricula-form';
+import { useCreateMatricula } from '@/features/matriculas/hooks/use-matricula-mutations';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { canAccessRoute } from '@/shared/lib/config/route-access';
+import type { MessageKey } from '@/shared/lib/i18n';
+import type { Rol } from '@/shared/types/auth.types';
+
+type DialogAction = 'curso' | 'matricula' | 'importar';
+
+interface QuickAction {
+  label: MessageKey;
+  icon: ReactNode;
+  /** Ruta que debe poder ver el rol para ofrecer la acción */
+  path: string;
+  href?: string;
+  dialog?: DialogAction;
+  roles?: Rol[];
+}
+
+/**
+ * Acciones rápidas; cada una se ofrece solo a los roles con acceso a su sección
+ * (ROUTE_ACCESS), y opcionalmente se restringe a roles concretos
+ */
+const QUICK_ACTIONS: QuickAction[] = [
+  {
+    label: 'dashboard.quickActions.nuevoCurso',
+    icon: <AddIcon />,
+    path: '/dashboard/curso',
+    dialog: 'curso',
+    roles: ['ADMIN', 'ADMINISTRATIVO'],
+  },
+  {
+    label: 'dashboard.quickActions.nuevaMatricula',
+    icon: <AddIcon />,
+    path: '/dashboard/matricula',
+    dialog: 'matricula',
+  },
+  {
+    label: 'dashboard.quickActions.importarAlumnos',
+    icon: <UploadFileIcon />,
+    path: '/dashboard/alumno',
+    dialog: 'importar',
+    roles: ['ADMIN', 'ADMINISTRATIVO'],
+  },
+  {
+    label: 'dashboard.quickActions.cobrosPendientes',
+    icon: <PaymentIcon />,
+    path: '/dashboard/matricula',
+    href: '/dashboard/matricula',
+  },
+  {
+    label: 'dashboard.quickActions.convocatorias',
+    icon: <EventIcon />,
+    path: '/dashboard/convocatoria',
+    href: '/dashboard/convocatoria',
+  },
+  {
+    label: 'dashboard.quickActions.cursos',
+    icon: <SchoolIcon />,
+    path: '/dashboard/curso',
+    href: '/dashboard/curso',
+    roles: ['PROFESOR'],
+  },
+  {
+    label: 'dashboard.quickActions.misMatriculas',
+    icon: <SchoolIcon />,
+    path: '/dashboard',
+    href: '#mis-matriculas',
+    roles: ['ALUMNO'],
+  },
+  {
+    label: 'dashboard.quickActions.misNotas',
+    icon: <GradeIcon />,
+    path: '/dashboard',
+    href: '#mis-calificaciones',
+    roles: ['ALUMNO'],
+  },
+];
+
+export function QuickActions({ rol }: { rol: Rol }) {
+  const { t } = useTranslation();
+  const [openDialog, setOpenDialog] = useState<DialogAction | null>(null);
+  const createCursoMutation = useCreateCurso();
+  const createMatriculaMutation = useCreateMatricula();
+  const close = () => {
+    setOpenDialog(null);
+    // Sin esto el formulario volvería a mostrar los errores del servidor
+    createCursoMutation.reset();
+    createMatriculaMutation.reset();
+  };
+
+  const actions = QUICK_ACTIONS.filter(
+    (action) =>
+      canAccessRoute(action.path, rol) &&
+      (!action.roles || action.roles.includes(rol))
+  );
+
+  if (actions.length === 0) return null;
+
+  return (
+    <Box sx={{ mt: 4 }}>
+      <Typography variant="h5" component="h2" gutterBottom>
+        {t('dashboard.quickActions.title')}
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        {actions.map((action) =>
+          action.dialog ? (
+            <Button
+              key={action.label}
+              variant="contained"
+              startIcon={action.icon}
+              onClick={() => setOpenDialog(action.dialog!)}
+            >
+              {t(action.label)}
+            </Button>
+          ) : (
+            <Button
+              key={action.label}
+              variant="outlined"
+              startIcon={action.icon}
+              component={Link}
+              href={action.href!}
+            >
+              {t(action.label)}
+            </Button>
+          )
+        )}
+      </Box>
+
+      <Dialog
+        open={openDialog === 'curso'}
+        onClose={close}
+        maxWidth="md"
+        fullWidth
+      >
+        <DialogTitle>{t('dashboard.quickActions.nuevoCurso')}</DialogTitle>
+        <DialogContent>
+          <CursoForm
+            onSubmit={(input) =>
+              createCursoMutation.mutate(input, { onSuccess: close })
+            }
+            isLoading={createCursoMutation.isPending}
+            error={createCursoMutation.error}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={openDialog === 'matricula'}
+        onClose={close}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>{t('dashboard.quickActions.nuevaMatricula')}</DialogTitle>
+        <DialogContent>
+          <MatriculaForm
+            onSubmit={(input) =>
+              createMatriculaMutation.mutate(input, { onSuccess: close })
+            }
+            isLoading={createMatriculaMutation.isPending}
+            error={createMatriculaMutation.error}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlumnoImportDialog open={openDialog === 'importar'} onClose={close} />
+    </Box>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { Box, Card, CardContent, Skeleton, Typography } from '@mui/material';
+import TrendingUpIcon from '@mui/icons-material/TrendingUp';
+import TrendingDownIcon from '@mui/icons-material/TrendingDown';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+interface StatCardProps {
+  title: string;
+  value: ReactNode;
+  icon: ReactNode;
+  /** Color del tema (p. ej. 'primary.main'), así sigue la marca y el modo */
+  color: string;
+  /** Variación porcentual respecto al mes anterior */
+  trend?: number | null;
+  caption?: string;
+  isLoading?: boolean;
+}
+
+export function StatCard({
+  title,
+  value,
+  icon,
+  color,
+  trend,
+  caption,
+  isLoading,
+}: StatCardProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Card>
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography color="text.secondary" gutterBottom>
+              {title}
+            </Typography>
+            <Typography variant="h4" component="div">
+              {isLoading ? <Skeleton width={80} /> : value}
+            </Typography>
+          </Box>
+          <Box sx={{ color }}>{icon}</Box>
+        </Box>
+        {(trend !== undefined || caption) && !isLoading && (
+          <Box display="flex" alignItems="center" gap={0.5} mt={1}>
+            {typeof trend === 'number' &&
+              (trend >= 0 ? (
+                <TrendingUpIcon fontSize="small" color="success" />
+              ) : (
+                <TrendingDownIcon fontSize="small" color="error" />
+              ))}
+            <Typography variant="caption" color="text.secondary">
+              {typeof trend === 'number' &&
+                t('dashboard.vsLastMonth', {
+                  trend: `${trend > 0 ? '+' : ''}${trend}`,
+                })}
+              {typeof trend === 'number' && caption && ' · '}
+              {caption}
+            </Typography>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
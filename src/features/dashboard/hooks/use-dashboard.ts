@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { dashboardService } from '../services/dashboard-service';
+
+export function useResumenAdmin(enabled = true) {
+  return useQuery({
+    queryKey: ['dashboard', 'admin'],
+    queryFn: () => dashboardService.getResumenAdmin(),
+    enabled,
+  });
+}
+
+/**
+ * El email separa la caché por usuario y, mientras el backend no tenga
+ * misConvocatorias, selecciona las convocatorias del profesor
+ */
+export function useConvocatoriasProfesor(email: string | undefined) {
+  return useQuery({
+    queryKey: ['dashboard', 'profesor', email],
+    queryFn: () => dashboardService.getConvocatoriasProfesor(email!),
+    enabled: !!email,
+  });
+}
+
+export function useMatriculasAlumno(email: string | undefined) {
+  return useQuery({
+    queryKey: ['dashboard', 'alumno', email],
+    queryFn: () => dashboardService.getMatriculasAlumno(),
+    enabled: !!email,
+  });
+}
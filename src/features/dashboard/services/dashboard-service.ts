@@ -0,0 +1,183 @@
+import { hasBackendExtension } from '@/shared/lib/config/backend-extensions';
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import type {
+  AlumnoResumenMatricula,
+  ProfesorConvocatoria,
+  ResumenAdmin,
+} from '../types/dashboard.types';
+
+const GET_RESUMEN_ADMIN_QUERY = `
+  query GetResumenAdmin {
+    alumnos: usuarios(rol: ALUMNO, activo: true) {
+      idUsuario
+      fechaCreacion
+    }
+    matriculas {
+      idMatricula
+      fechaMatricula
+      precioFinal
+      estadoPago
+    }
+    centros(activo: true) {
+      idCentro
+      nombre
+      capacidadMaxima
+    }
+    convocatorias(activo: true) {
+      idConvocatoria
+      codigo
+      fechaInicio
+      fechaFin
+      activo
+      curso {
+        nombre
+      }
+      centro {
+        idCentro
+      }
+      matriculas {
+        idMatricula
+        estadoPago
+      }
+    }
+  }
+`;
+
+const GET_CONVOCATORIAS_PROFESOR_QUERY = `
+  query GetConvocatoriasProfesor {
+    misConvocatorias(activo: true) {
+      idConvocatoria
+      codigo
+      fechaInicio
+      fechaFin
+      activo
+      curso {
+        nombre
+      }
+      centro {
+        nombre
+      }
+      matriculas {
+        idMatricula
+        estadoPago
+        calificaciones {
+          idCalificacion
+        }
+      }
+    }
+  }
+`;
+
+const GET_CONVOCATORIAS_ACTIVAS_QUERY = `
+  query GetConvocatoriasActivas {
+    convocatorias(activo: true) {
+      idConvocatoria
+      codigo
+      fechaInicio
+      fechaFin
+      activo
+      curso {
+        nombre
+      }
+      centro {
+        nombre
+      }
+      profesor {
+        email
+      }
+      matriculas {
+        idMatricula
+        estadoPago
+        calificaciones {
+          idCalificacion
+        }
+      }
+    }
+  }
+`;
+
+const GET_MATRICULAS_ALUMNO_QUERY = `
+  query GetMatriculasAlumno($idAlumno: ID!) {
+    matriculas(idAlumno: $idAlumno) {
+      idMatricula
+      codigo
+      fechaMatricula
+      precioFinal
+      estadoPago
+      convocatoria {
+        idConvocatoria
+        codigo
+        fechaInicio
+        fechaFin
+        curso {
+          nombre
+        }
+      }
+      calificaciones {
+        idCalificacion
+        nota
+        fechaCalificacion
+        materia {
+          nombre
+        }
+      }
+    }
+  }
+`;
+
+const GET_USUARIO_ACTUAL_QUERY = `
+  query GetUsuarioActual {
+    usuarioActual {
+      idUsuario
+    }
+  }
+`;
+
+/**
+ * misConvocatorias aún no está en el backend (schema.extensions.graphql): sin
+ * ella el panel del PROFESOR filtra por su email las convocatorias activas,
+ * que solo traen el id y el estado de pago de cada matrícula
+ */
+const MIS_CONVOCATORIAS_ENABLED = hasBackendExtension('misConvocatorias');
+
+/**
+ * Los paneles de PROFESOR y ALUMNO piden al servidor solo los datos del
+ * usuario de la sesión: nunca se descargan las matrículas de otros alumnos
+ * La sesión no conoce el id del usuario (el login solo devuelve el email),
+ * así que se obtiene con usuarioActual
+ */
+export const dashboardService = {
+  async getResumenAdmin(): Promise<ResumenAdmin> {
+    return graphqlRequest<ResumenAdmin>(GET_RESUMEN_ADMIN_QUERY);
+  },
+
+  async getConvocatoriasProfesor(
+    email: string
+  ): Promise<ProfesorConvocatoria[]> {
+    if (!MIS_CONVOCATORIAS_ENABLED) {
+      const data = await graphqlRequest<{
+        convocatorias: (ProfesorConvocatoria & {
+          profesor: { email: string };
+        })[];
+      }>(GET_CONVOCATORIAS_ACTIVAS_QUERY);
+      return data.convocatorias.filter(
+        (convocatoria) => convocatoria.profesor.email === email
+      );
+    }
+
+    const data = await graphqlRequest<{
+      misConvocatorias: ProfesorConvocatoria[];
+    }>(GET_CONVOCATORIAS_PROFESOR_QUERY);
+    return data.misConvocatorias;
+  },
+
+  async getMatriculasAlumno(): Promise<AlumnoResumenMatricula[]> {
+    const { usuarioActual } = await graphqlRequest<{
+      usuarioActual: { idUsuario: string };
+    }>(GET_USUARIO_ACTUAL_QUERY);
+    const data = await graphqlRequest<{
+      matriculas: AlumnoResumenMatricula[];
+    }>(GET_MATRICULAS_ALUMNO_QUERY, { idAlumno: usuarioActual.idUsuario });
+    return data.matriculas;
+  },
+};
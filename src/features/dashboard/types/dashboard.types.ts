@@ -0,0 +1,76 @@
+import type { CentroConvocatoria } from '@/features/centros/types/centro.types';
+import type { EstadoPago } from '@/features/matriculas/types/matricula.types';
+
+/**
+ * Datos que necesita el panel de ADMIN y ADMINISTRATIVO
+ * El backend no tiene agregados, así que los KPI se calculan en cliente
+ */
+export interface ResumenAdmin {
+  alumnos: Array<{ idUsuario: string; fechaCreacion: string }>;
+  matriculas: Array<{
+    idMatricula: string;
+    fechaMatricula: string;
+    precioFinal: number;
+    estadoPago: EstadoPago;
+  }>;
+  centros: Array<{ idCentro: string; nombre: string; capacidadMaxima: number }>;
+  convocatorias: Array<CentroConvocatoria & { centro: { idCentro: string } }>;
+}
+
+/**
+ * Convocatoria del profesor con lo necesario para saber qué falta calificar
+ */
+export interface ProfesorConvocatoria {
+  idConvocatoria: string;
+  codigo: string;
+  fechaInicio: string;
+  fechaFin: string;
+  activo: boolean;
+  curso: { nombre: string };
+  centro: { nombre: string };
+  matriculas: Array<{
+    idMatricula: string;
+    estadoPago: EstadoPago;
+    calificaciones: Array<{ idCalificacion: string }>;
+  }>;
+}
+
+/**
+ * Matrícula del alumno con sus notas para su panel
+ */
+export interface AlumnoResumenMatricula {
+  idMatricula: string;
+  codigo: string;
+  fechaMatricula: string;
+  precioFinal: number;
+  estadoPago: EstadoPago;
+  convocatoria: {
+    idConvocatoria: string;
+    codigo: string;
+    fechaInicio: string;
+    fechaFin: string;
+    curso: { nombre: string };
+  };
+  calificaciones: Array<{
+    idCalificacion: string;
+    nota: number;
+    fechaCalificacion: string;
+    materia: { nombre: string };
+  }>;
+}
+
+/**
+ * Punto de una serie mensual (clave YYYY-MM)
+ */
+export interface PuntoMensual {
+  mes: string;
+  valor: number;
+}
+
+export interface OcupacionCentro {
+  idCentro: string;
+  nombre: string;
+  alumnos: number;
+  capacidad: number;
+  porcentaje: number;
+}
@@ -0,0 +1,177 @@
+import {
+  countAlumnosActivos,
+  isConvocatoriaEnCurso,
+} from '@/features/centros/utils';
+import { addMeses, getMesKey } from '@/features/profesores/utils';
+import type {
+  AlumnoResumenMatricula,
+  OcupacionCentro,
+  ProfesorConvocatoria,
+  PuntoMensual,
+  ResumenAdmin,
+} from '../types/dashboard.types';
+
+/** Meses que muestran las gráficas de tendencia */
+export const MESES_TENDENCIA = 6;
+
+/**
+ * Claves YYYY-MM de los últimos n meses, terminando en el actual
+ */
+export function getUltimosMeses(
+  n: number = MESES_TENDENCIA,
+  today: Date = new Date()
+): string[] {
+  const actual = getMesKey(today);
+  return Array.from({ length: n }, (_, i) => addMeses(actual, i - n + 1));
+}
+
+/**
+ * Agrupa elementos por el mes de una fecha ISO y suma su valor
+ */
+function sumarPorMes<T>(
+  items: T[],
+  meses: string[],
+  getFecha: (item: T) => string,
+  getValor: (item: T) => number
+): PuntoMensual[] {
+  const totales = new Map(meses.map((mes) => [mes, 0]));
+  for (const item of items) {
+    const mes = getFecha(item).slice(0, 7);
+    if (totales.has(mes)) {
+      totales.set(mes, totales.get(mes)! + getValor(item));
+    }
+  }
+  return meses.map((mes) => ({ mes, valor: totales.get(mes)! }));
+}
+
+/**
+ * Ingresos cobrados por mes: matrículas pagadas según su fecha de matrícula
+ */
+export function getIngresosPorMes(
+  matriculas: ResumenAdmin['matriculas'],
+  meses: string[] = getUltimosMeses()
+): PuntoMensual[] {
+  return sumarPorMes(
+    matriculas.filter((matricula) => matricula.estadoPago === 'PAGADO'),
+    meses,
+    (matricula) => matricula.fechaMatricula,
+    (matricula) => matricula.precioFinal
+  );
+}
+
+/**
+ * Matrículas no canceladas por mes
+ */
+export function getMatriculasPorMes(
+  matriculas: ResumenAdmin['matriculas'],
+  meses: string[] = getUltimosMeses()
+): PuntoMensual[] {
+  return sumarPorMes(
+    matriculas.filter((matricula) => matricula.estadoPago !== 'CANCELADO'),
+    meses,
+    (matricula) => matricula.fechaMatricula,
+    () => 1
+  );
+}
+
+/**
+ * Altas de alumnos por mes
+ */
+export function getAltasAlumnosPorMes(
+  alumnos: ResumenAdmin['alumnos'],
+  meses: string[] = getUltimosMeses()
+): PuntoMensual[] {
+  return sumarPorMes(
+    alumnos,
+    meses,
+    (alumno) => alumno.fechaCreacion,
+    () => 1
+  );
+}
+
+/**
+ * Variación porcentual entre el último mes de la serie y el anterior
+ * null si no hay mes anterior con el que comparar
+ */
+export function getVariacionMensual(serie: PuntoMensual[]): number | null {
+  if (serie.length < 2) return null;
+  const actual = serie[serie.length - 1].valor;
+  const anterior = serie[serie.length - 2].valor;
+  if (anterior === 0) return null;
+  return Math.round(((actual - anterior) / anterior) * 100);
+}
+
+/**
+ * Ocupación de cada centro con los mismos criterios que la ficha del centro:
+ * alumnos con matrícula no cancelada en convocatorias en curso
+ */
+export function getOcupacionPorCentro(
+  centros: ResumenAdmin['centros'],
+  convocatorias: ResumenAdmin['convocatorias']
+): OcupacionCentro[] {
+  return centros
+    .map((centro) => {
+      const alumnos = convocatorias
+        .filter(
+          (convocatoria) =>
+            convocatoria.centro.idCentro === centro.idCentro &&
+            isConvocatoriaEnCurso(convocatoria)
+        )
+        .reduce(
+          (total, convocatoria) => total + countAlumnosActivos(convocatoria),
+          0
+        );
+      return {
+        idCentro: centro.idCentro,
+        nombre: centro.nombre,
+        alumnos,
+        capacidad: centro.capacidadMaxima,
+        porcentaje:
+          centro.capacidadMaxima > 0
+            ? Math.round((alumnos / centro.capacidadMaxima) * 100)
+            : 0,
+      };
+    })
+    .sort((a, b) => b.porcentaje - a.porcentaje);
+}
+
+/**
+ * Convocatorias que aún no han terminado, de la más próxima a la más lejana
+ */
+export function getProximasConvocatorias(
+  convocatorias: ProfesorConvocatoria[],
+  today: string = new Date().toISOString().slice(0, 10)
+): ProfesorConvocatoria[] {
+  return convocatorias
+    .filter((convocatoria) => convocatoria.fechaFin.slice(0, 10) >= today)
+    .sort((a, b) => a.fechaInicio.localeCompare(b.fechaInicio));
+}
+
+/**
+ * Matrículas sin ninguna nota en una convocatoria ya empezada
+ * Las canceladas no se califican
+ */
+export function countPendientesCalificar(
+  convocatoria: ProfesorConvocatoria,
+  today: string = new Date().toISOString().slice(0, 10)
+): number {
+  if (convocatoria.fechaInicio.slice(0, 10) > today) return 0;
+  return convocatoria.matriculas.filter(
+    (matricula) =>
+      matricula.estadoPago !== 'CANCELADO' &&
+      matricula.calificaciones.length === 0
+  ).length;
+}
+
+/**
+ * Nota media de todas las calificaciones del alumno, o null si no tiene
+ */
+export function getNotaMedia(
+  matriculas: AlumnoResumenMatricula[]
+): number | null {
+  const notas = matriculas.flatMap((matricula) =>
+    matricula.calificaciones.map((calificacion) => calificacion.nota)
+  );
+  if (notas.length === 0) return null;
+  return notas.reduce((total, nota) => total + nota, 0) / notas.length;
+}
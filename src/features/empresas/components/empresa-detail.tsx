@@ -0,0 +1,127 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useEmpresa } from '../hooks/use-empresas';
+
+interface EmpresaDetailProps {
+  idEmpresa: string;
+}
+
+/**
+ * Ficha de la empresa con sus datos fiscales y sus centros
+ */
+export function EmpresaDetail({ idEmpresa }: EmpresaDetailProps) {
+  const { t } = useTranslation();
+  const { data: empresa, isLoading, error } = useEmpresa(idEmpresa);
+
+  if (isLoading) return <CircularProgress />;
+  if (error || !empresa) {
+    return <Alert severity="error">{t('empresas.loadError')}</Alert>;
+  }
+
+  return (
+    <>
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box display="flex" alignItems="center" gap={2} mb={2}>
+          <Typography variant="h5" component="h2">
+            {empresa.nombreLegal}
+          </Typography>
+          <Chip
+            label={
+              empresa.activo ? t('empresas.active') : t('empresas.inactive')
+            }
+            color={empresa.activo ? 'success' : 'default'}
+            size="small"
+          />
+        </Box>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', sm: '1fr 2fr' },
+            gap: 2,
+          }}
+        >
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              {t('empresas.fields.cif')}
+            </Typography>
+            <Typography>{empresa.cif}</Typography>
+          </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              {t('empresas.fields.direccionFiscal')}
+            </Typography>
+            <Typography>{empresa.direccionFiscal}</Typography>
+          </Box>
+        </Box>
+      </Paper>
+
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          {t('empresas.detail.centros', { count: empresa.centros.length })}
+        </Typography>
+        {empresa.centros.length === 0 ? (
+          <Alert severity="info">{t('empresas.detail.noCentros')}</Alert>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('centros.fields.codigo')}</TableCell>
+                  <TableCell>{t('centros.fields.nombre')}</TableCell>
+                  <TableCell>{t('centros.fields.comunidad')}</TableCell>
+                  <TableCell align="right">
+                    {t('centros.fields.capacidad')}
+                  </TableCell>
+                  <TableCell>{t('common.status')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {empresa.centros.map((centro) => (
+                  <TableRow key={centro.idCentro}>
+                    <TableCell>{centro.codigoCentro}</TableCell>
+                    <TableCell>
+                      <Link href={`/dashboard/centro/${centro.idCentro}`}>
+                        {centro.nombre}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{centro.comunidad.nombre}</TableCell>
+                    <TableCell align="right">
+                      {centro.capacidadMaxima}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        label={
+                          centro.activo
+                            ? t('common.active')
+                            : t('common.inactive')
+                        }
+                        color={centro.activo ? 'success' : 'default'}
+                        size="small"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+    </>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  TextField,
+  Button,
+  Box,
+  Switch,
+  FormControlLabel,
+} from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useServerFieldErrors } from '@/shared/hooks/use-server-field-errors';
+import { empresaSchema, type EmpresaFormData } from '../schemas/empresa-schema';
+import type { EmpresaInput } from '../types/empresa.types';
+
+const EMPRESA_FIELDS = empresaSchema.keyof().options;
+
+interface EmpresaFormProps {
+  initialData?: EmpresaFormData;
+  onSubmit: (data: EmpresaInput) => void;
+  isLoading?: boolean;
+  /** Error de la última mutation: los errores de validación se marcan en su campo */
+  error?: unknown;
+}
+
+export function EmpresaForm({
+  initialData,
+  onSubmit,
+  isLoading,
+  error,
+}: EmpresaFormProps) {
+  const { t } = useTranslation();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    control,
+    setValue,
+    setError,
+  } = useForm<EmpresaFormData>({
+    resolver: zodResolver(empresaSchema),
+    defaultValues: {
+      activo: true,
+      ...initialData,
+    },
+  });
+
+  useServerFieldErrors(error, setError, EMPRESA_FIELDS);
+
+  const activo = useWatch({ control, name: 'activo', defaultValue: true });
+
+  const handleFormSubmit = (data: EmpresaFormData) => {
+    onSubmit({
+      cif: data.cif,
+      nombreLegal: data.nombreLegal,
+      direccionFiscal: data.direccionFiscal,
+      activo: data.activo ?? true,
+    });
+  };
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit(handleFormSubmit)}
+      sx={{ mt: 1 }}
+    >
+      <TextField
+        fullWidth
+        label={t('empresas.fields.cif')}
+        {...register('cif')}
+        error={!!errors.cif}
+        helperText={errors.cif?.message ?? t('empresas.form.cifHelper')}
+        margin="normal"
+        required
+        slotProps={{ htmlInput: { style: { textTransform: 'uppercase' } } }}
+      />
+      <TextField
+        fullWidth
+        label={t('empresas.fields.nombreLegal')}
+        {...register('nombreLegal')}
+        error={!!errors.nombreLegal}
+        helperText={errors.nombreLegal?.message}
+        margin="normal"
+        required
+      />
+      <TextField
+        fullWidth
+        label={t('empresas.fields.direccionFiscal')}
+        multiline
+        rows={2}
+        {...register('direccionFiscal')}
+        error={!!errors.direccionFiscal}
+        helperText={errors.direccionFiscal?.message}
+        margin="normal"
+        required
+      />
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={activo}
+            onChange={(e) => setValue('activo', e.target.checked)}
+          />
+        }
+        label={t('empresas.active')}
+        sx={{ mt: 2 }}
+      />
+
+      <Button
+        type="submit"
+        variant="contained"
+        disabled={isLoading}
+        fullWidth
+        sx={{ mt: 3 }}
+      >
+        {isLoading ? t('common.saving') : t('empresas.form.submit')}
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+  Chip,
+  TextField,
+  InputAdornment,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import EditIcon from '@mui/icons-material/Edit';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { ConfirmDialog } from '@/shared/components/dialog/confirm-dialog';
+import { normalizeSearchText } from '@/shared/lib/utils';
+import { useEmpresas } from '../hooks/use-empresas';
+import { useDeleteEmpresa } from '../hooks/use-empresa-mutations';
+import type { Empresa } from '../types/empresa.types';
+
+interface EmpresaListProps {
+  onEdit?: (empresa: Empresa) => void;
+}
+
+export function EmpresaList({ onEdit }: EmpresaListProps) {
+  const { t } = useTranslation();
+  const { data: empresas, isLoading, error } = useEmpresas();
+  const deleteMutation = useDeleteEmpresa();
+  const [search, setSearch] = useState('');
+  const [empresaToDelete, setEmpresaToDelete] = useState<Empresa | null>(null);
+
+  const filteredEmpresas = useMemo(() => {
+    const term = normalizeSearchText(search.trim());
+    if (!term) return empresas ?? [];
+    return (empresas ?? []).filter((empresa) =>
+      [empresa.cif, empresa.nombreLegal].some((field) =>
+        normalizeSearchText(field).includes(term)
+      )
+    );
+  }, [empresas, search]);
+
+  const handleConfirmDelete = () => {
+    if (!empresaToDelete) return;
+    deleteMutation.mutate(empresaToDelete.idEmpresa, {
+      onSettled: () => setEmpresaToDelete(null),
+    });
+  };
+
+  if (isLoading) return <CircularProgress />;
+  if (error) return <Alert severity="error">{t('empresas.list.error')}</Alert>;
+
+  return (
+    <>
+      <TextField
+        fullWidth
+        size="small"
+        placeholder={t('empresas.list.searchPlaceholder')}
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        sx={{ mb: 2 }}
+        slotProps={{
+          input: {
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          },
+        }}
+      />
+
+      {filteredEmpresas.length === 0 ? (
+        <Alert severity="info">{t('empresas.list.empty')}</Alert>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('empresas.fields.cif')}</TableCell>
+                <TableCell>{t('empresas.fields.nombreLegal')}</TableCell>
+                <TableCell>{t('empresas.fields.direccionFiscal')}</TableCell>
+                <TableCell>{t('common.status')}</TableCell>
+                <TableCell align="right">{t('common.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredEmpresas.map((empresa) => (
+                <TableRow key={empresa.idEmpresa}>
+                  <TableCell>{empresa.cif}</TableCell>
+                  <TableCell>{empresa.nombreLegal}</TableCell>
+                  <TableCell>{empresa.direccionFiscal}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={
+                        empresa.activo
+                          ? t('empresas.active')
+                          : t('empresas.inactive')
+                      }
+                      color={empresa.activo ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={t('empresas.list.viewCentros')}>
+                      <IconButton
+                        size="small"
+                        component={Link}
+                        href={`/dashboard/empresa/${empresa.idEmpresa}`}
+                      >
+                        <VisibilityIcon />
+                      </IconButton>
+                    </Tooltip>
+                    {onEdit && (
+                      <Tooltip title={t('common.edit')}>
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={() => onEdit(empresa)}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    <Tooltip title={t('common.delete')}>
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={() => setEmpresaToDelete(empresa)}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <ConfirmDialog
+        open={!!empresaToDelete}
+        title={t('empresas.list.deleteTitle')}
+        message={t('empresas.list.deleteMessage', {
+          nombre: empresaToDelete?.nombreLegal ?? '',
+        })}
+        confirmLabel={t('common.delete')}
+        confirmColor="error"
+        isLoading={deleteMutation.isPending}
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setEmpresaToDelete(null)}
+      />
+    </>
+  );
+}
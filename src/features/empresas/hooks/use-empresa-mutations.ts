@@ -0,0 +1,77 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { empresaService } from '../services/empresa-service';
+import type { EmpresaInput } from '../types/empresa.types';
+import { useNotifications } from '@/shared/stores/notification-store';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import { t } from '@/shared/lib/i18n';
+
+export function useCreateEmpresa() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (input: EmpresaInput) => empresaService.createEmpresa(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['empresas'] });
+      notifications.success(t('empresas.notifications.created'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('empresas.notifications.createError'),
+          t('empresas.notifications.createForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useUpdateEmpresa() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: EmpresaInput }) =>
+      empresaService.updateEmpresa(id, input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['empresas'] });
+      queryClient.invalidateQueries({ queryKey: ['empresa', variables.id] });
+      // Los centros muestran el nombre legal y el CIF de su empresa
+      queryClient.invalidateQueries({ queryKey: ['centros'] });
+      notifications.success(t('empresas.notifications.updated'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('empresas.notifications.updateError'),
+          t('empresas.notifications.updateForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useDeleteEmpresa() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: (id: string) => empresaService.deleteEmpresa(id),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: ['empresa', id] });
+      queryClient.invalidateQueries({ queryKey: ['empresas'] });
+      notifications.success(t('empresas.notifications.deleted'));
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('empresas.notifications.deleteError'),
+          t('empresas.notifications.deleteForbidden')
+        )
+      );
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { empresaService } from '../services/empresa-service';
+
+export function useEmpresas(activo?: boolean) {
+  return useQuery({
+    queryKey: ['empresas', activo],
+    queryFn: () => empresaService.getEmpresas(activo),
+  });
+}
+
+export function useEmpresa(id: string) {
+  return useQuery({
+    queryKey: ['empresa', id],
+    queryFn: () => empresaService.getEmpresa(id),
+    enabled: !!id,
+  });
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { t, type MessageKey, type MessageParams } from '@/shared/lib/i18n';
+
+const CIF_CONTROL_LETTERS = 'JABCDEFGHI';
+
+/**
+ * Valida un CIF: letra de tipo de entidad + 7 dígitos + carácter de control
+ * Según el tipo de entidad el control debe ser letra (N, P, Q, R, S, W),
+ * dígito (A, B, E, H) o cualquiera de los dos
+ */
+export function isValidCif(value: string): boolean {
+  const cif = value.trim().toUpperCase();
+  const match = /^([ABCDEFGHJNPQRSUVW])(\d{7})([0-9A-J])$/.exec(cif);
+  if (!match) {
+    return false;
+  }
+
+  const [, tipo, digitos, control] = match;
+  let suma = 0;
+  for (let i = 0; i < digitos.length; i++) {
+    const digito = Number(digitos[i]);
+    if (i % 2 === 0) {
+      // Posiciones impares: se dobla el dígito y se suman sus cifras
+      const doble = digito * 2;
+      suma += Math.floor(doble / 10) + (doble % 10);
+    } else {
+      suma += digito;
+    }
+  }
+
+  const controlDigito = (10 - (suma % 10)) % 10;
+  const controlLetra = CIF_CONTROL_LETTERS[controlDigito];
+
+  if ('NPQRSW'.includes(tipo)) {
+    return control === controlLetra;
+  }
+  if ('ABEH'.includes(tipo)) {
+    return control === String(controlDigito);
+  }
+  return control === String(controlDigito) || control === controlLetra;
+}
+
+/** Mensaje traducido al validar, no al importar el módulo */
+const message = (key: MessageKey, params?: MessageParams) => ({
+  error: () => t(key, params),
+});
+
+export const empresaSchema = z.object({
+  cif: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(isValidCif, message('empresas.form.invalidCif')),
+  nombreLegal: z
+    .string()
+    .trim()
+    .min(2, message('empresas.form.minLength', { min: 2 })),
+  direccionFiscal: z
+    .string()
+    .trim()
+    .min(5, message('empresas.form.direccionRequired')),
+  activo: z.boolean().optional(),
+});
+
+export type EmpresaFormData = z.infer<typeof empresaSchema>;
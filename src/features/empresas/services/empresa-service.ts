@@ -0,0 +1,104 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import type {
+  Empresa,
+  EmpresaDetalle,
+  EmpresaInput,
+} from '../types/empresa.types';
+
+const EMPRESA_FIELDS = `
+  idEmpresa
+  cif
+  nombreLegal
+  direccionFiscal
+  activo
+`;
+
+const GET_EMPRESAS_QUERY = `
+  query GetEmpresas($activo: Boolean) {
+    empresas(activo: $activo) {
+      ${EMPRESA_FIELDS}
+    }
+  }
+`;
+
+const GET_EMPRESA_QUERY = `
+  query GetEmpresa($id: ID!) {
+    empresa(id: $id) {
+      ${EMPRESA_FIELDS}
+      centros {
+        idCentro
+        codigoCentro
+        nombre
+        capacidadMaxima
+        activo
+        comunidad {
+          nombre
+        }
+      }
+    }
+  }
+`;
+
+const CREATE_EMPRESA_MUTATION = `
+  mutation CreateEmpresa($input: EmpresaInput!) {
+    createEmpresa(input: $input) {
+      ${EMPRESA_FIELDS}
+    }
+  }
+`;
+
+const UPDATE_EMPRESA_MUTATION = `
+  mutation UpdateEmpresa($id: ID!, $input: EmpresaInput!) {
+    updateEmpresa(id: $id, input: $input) {
+      ${EMPRESA_FIELDS}
+    }
+  }
+`;
+
+const DELETE_EMPRESA_MUTATION = `
+  mutation DeleteEmpresa($id: ID!) {
+    deleteEmpresa(id: $id)
+  }
+`;
+
+export const empresaService = {
+  async getEmpresas(activo?: boolean): Promise<Empresa[]> {
+    const data = await graphqlRequest<{ empresas: Empresa[] }>(
+      GET_EMPRESAS_QUERY,
+      { activo }
+    );
+    return data.empresas;
+  },
+
+  async getEmpresa(id: string): Promise<EmpresaDetalle> {
+    const data = await graphqlRequest<{ empresa: EmpresaDetalle }>(
+      GET_EMPRESA_QUERY,
+      { id }
+    );
+    return data.empresa;
+  },
+
+  async createEmpresa(input: EmpresaInput): Promise<Empresa> {
+    const data = await graphqlRequest<{ createEmpresa: Empresa }>(
+      CREATE_EMPRESA_MUTATION,
+      { input }
+    );
+    return data.createEmpresa;
+  },
+
+  async updateEmpresa(id: string, input: EmpresaInput): Promise<Empresa> {
+    const data = await graphqlRequest<{ updateEmpresa: Empresa }>(
+      UPDATE_EMPRESA_MUTATION,
+      { id, input }
+    );
+    return data.updateEmpresa;
+  },
+
+  async deleteEmpresa(id: string): Promise<boolean> {
+    const data = await graphqlRequest<{ deleteEmpresa: boolean }>(
+      DELETE_EMPRESA_MUTATION,
+      { id }
+    );
+    return data.deleteEmpresa;
+  },
+};
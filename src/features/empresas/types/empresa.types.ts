@@ -0,0 +1,35 @@
+/**
+ * Empresa: entidad legal titular de uno o varios centros
+ */
+export interface Empresa {
+  idEmpresa: string;
+  cif: string;
+  nombreLegal: string;
+  direccionFiscal: string;
+  activo: boolean;
+}
+
+/**
+ * Centro de la empresa (vista de detalle)
+ */
+export interface EmpresaCentro {
+  idCentro: string;
+  codigoCentro: string;
+  nombre: string;
+  capacidadMaxima: number;
+  activo: boolean;
+  comunidad: {
+    nombre: string;
+  };
+}
+
+export interface EmpresaDetalle extends Empresa {
+  centros: EmpresaCentro[];
+}
+
+export interface EmpresaInput {
+  cif: string;
+  nombreLegal: string;
+  direccionFiscal: string;
+  activo?: boolean;
+}
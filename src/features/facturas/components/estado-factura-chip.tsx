@@ -0,0 +1,30 @@
+'use client';
+
+import { Chip } from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import type { EstadoFactura } from '../types/factura.types';
+import { ESTADO_FACTURA_LABELS } from '../utils';
+
+const ESTADO_FACTURA_COLORS: Record<
+  EstadoFactura,
+  'info' | 'success' | 'default'
+> = {
+  EMITIDA: 'info',
+  PAGADA: 'success',
+  ANULADA: 'default',
+};
+
+export function EstadoFacturaChip({ estado }: { estado: EstadoFactura }) {
+  const { t } = useTranslation();
+  return (
+    <Chip
+      label={
+        ESTADO_FACTURA_LABELS[estado]
+          ? t(ESTADO_FACTURA_LABELS[estado])
+          : estado
+      }
+      color={ESTADO_FACTURA_COLORS[estado] ?? 'default'}
+      size="small"
+    />
+  );
+}
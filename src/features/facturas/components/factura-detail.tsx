@@ -0,0 +1,236 @@
+'use client';
+
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  GlobalStyles,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import PrintIcon from '@mui/icons-material/Print';
+import {
+  formatCurrency,
+  formatDate,
+  getNombreUsuario,
+} from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useFactura } from '../hooks/use-facturas';
+import {
+  calcularFactura,
+  FACTURA_DETALLE_DISPONIBLE,
+  getLineasEmitidas,
+} from '../utils';
+import { EstadoFacturaChip } from './estado-factura-chip';
+
+interface FacturaDetailProps {
+  idFactura: string;
+}
+
+/**
+ * Estilos de impresión: solo se imprime la factura, sin navegación
+ */
+const printStyles = (
+  <GlobalStyles
+    styles={{
+      '@media print': {
+        '.MuiAppBar-root, .MuiDrawer-root': { display: 'none !important' },
+        'main.MuiBox-root': { margin: '0 !important', padding: '0 !important' },
+        '@page': { size: 'A4', margin: '15mm' },
+      },
+    }}
+  />
+);
+
+/**
+ * Factura imprimible generada en cliente a partir de la matrícula
+ * Para obtener un PDF basta con "Guardar como PDF" en el diálogo de impresión
+ */
+export function FacturaDetail({ idFactura }: FacturaDetailProps) {
+  const { t, locale } = useTranslation();
+  const { data: factura, isLoading, error } = useFactura(idFactura);
+
+  if (!FACTURA_DETALLE_DISPONIBLE) {
+    return <Alert severity="info">{t('facturas.detail.unavailable')}</Alert>;
+  }
+  if (isLoading) return <CircularProgress />;
+  if (error) {
+    return <Alert severity="error">{t('facturas.detail.loadError')}</Alert>;
+  }
+  if (!factura) {
+    return <Alert severity="warning">{t('facturas.detail.notFound')}</Alert>;
+  }
+
+  const { matricula } = factura;
+  const { empresa } = matricula.convocatoria.centro;
+  const alumno = matricula.alumno;
+  const { lineas: lineasEmitidas, importeActual } = getLineasEmitidas(
+    matricula,
+    factura.importeTotal
+  );
+  const { lineas, desglose } = calcularFactura(lineasEmitidas, factura.tipoIva);
+  // La matrícula pudo cambiar de precio después de emitir la factura
+  const importeDescuadrado = importeActual !== factura.importeTotal;
+
+  return (
+    <>
+      {printStyles}
+      <Box display="flex" justifyContent="flex-end" mb={2} displayPrint="none">
+        <Button
+          variant="contained"
+          startIcon={<PrintIcon />}
+          onClick={() => window.print()}
+        >
+          {t('facturas.detail.print')}
+        </Button>
+      </Box>
+
+      {importeDescuadrado && (
+        <Alert severity="warning" sx={{ mb: 2, displayPrint: 'none' }}>
+          {t('facturas.detail.mismatch', {
+            emitido: formatCurrency(factura.importeTotal, locale),
+            actual: formatCurrency(importeActual, locale),
+          })}
+        </Alert>
+      )}
+
+      <Paper
+        sx={{
+          p: 4,
+          maxWidth: 800,
+          mx: 'auto',
+          '@media print': { boxShadow: 'none', p: 0, maxWidth: 'none' },
+        }}
+      >
+        <Box display="flex" justifyContent="space-between" gap={4} mb={4}>
+          <Box>
+            <Typography variant="h6">{empresa.nombreLegal}</Typography>
+            <Typography variant="body2">
+              {t('facturas.detail.cif', { cif: empresa.cif })}
+            </Typography>
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+              {empresa.direccionFiscal}
+            </Typography>
+          </Box>
+          <Box textAlign="right">
+            <Typography variant="h5" component="h2">
+              {t('facturas.detail.heading')}
+            </Typography>
+            <Typography variant="body2">
+              {t('facturas.detail.numero', { numero: factura.numeroFactura })}
+            </Typography>
+            <Typography variant="body2">
+              {t('facturas.detail.fecha', {
+                fecha: formatDate(factura.fechaEmision, locale),
+              })}
+            </Typography>
+            <Box mt={1} displayPrint="none">
+              <EstadoFacturaChip estado={factura.estado} />
+            </Box>
+          </Box>
+        </Box>
+
+        <Box mb={4}>
+          <Typography variant="subtitle2" color="text.secondary">
+            {t('facturas.detail.billTo')}
+          </Typography>
+          <Typography>{getNombreUsuario(alumno)}</Typography>
+          {alumno.datosPersonales?.dni && (
+            <Typography variant="body2">
+              {t('facturas.detail.dni', { dni: alumno.datosPersonales.dni })}
+            </Typography>
+          )}
+          {alumno.datosPersonales?.direccion && (
+            <Typography variant="body2">
+              {alumno.datosPersonales.direccion}
+            </Typography>
+          )}
+          <Typography variant="body2">
+            {t('facturas.detail.matricula', { codigo: matricula.codigo })} ·{' '}
+            {formatDate(matricula.convocatoria.fechaInicio, locale)} -{' '}
+            {formatDate(matricula.convocatoria.fechaFin, locale)} ·{' '}
+            {matricula.convocatoria.centro.nombre}
+          </Typography>
+        </Box>
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('facturas.detail.concepto')}</TableCell>
+              <TableCell align="right">
+                {desglose.tipoIva > 0
+                  ? t('facturas.detail.importeSinIva')
+                  : t('facturas.detail.importe')}
+              </TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {lineas.map((linea) => (
+              <TableRow key={linea.concepto}>
+                <TableCell>{linea.concepto}</TableCell>
+                <TableCell align="right">
+                  {formatCurrency(linea.importe, locale)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Box display="flex" justifyContent="flex-end" mt={3}>
+          <Box sx={{ minWidth: 280 }}>
+            <Box display="flex" justifyContent="space-between">
+              <Typography variant="body2">
+                {t('facturas.detail.baseImponible')}
+              </Typography>
+              <Typography variant="body2">
+                {formatCurrency(desglose.baseImponible, locale)}
+              </Typography>
+            </Box>
+            <Box display="flex" justifyContent="space-between">
+              <Typography variant="body2">
+                {desglose.tipoIva > 0
+                  ? t('facturas.detail.iva', {
+                      tipo: Math.round(desglose.tipoIva * 10000) / 100,
+                    })
+                  : t('facturas.detail.ivaExento')}
+              </Typography>
+              <Typography variant="body2">
+                {formatCurrency(desglose.cuotaIva, locale)}
+              </Typography>
+            </Box>
+            <Divider sx={{ my: 1 }} />
+            <Box display="flex" justifyContent="space-between">
+              <Typography fontWeight="bold">
+                {t('facturas.detail.total')}
+              </Typography>
+              <Typography fontWeight="bold">
+                {formatCurrency(desglose.total, locale)}
+              </Typography>
+            </Box>
+          </Box>
+        </Box>
+
+        {desglose.tipoIva === 0 && factura.motivoExencion && (
+          <Typography variant="body2" color="text.secondary" mt={2}>
+            {t('facturas.detail.exencion', {
+              motivo: factura.motivoExencion,
+            })}
+          </Typography>
+        )}
+
+        {factura.estado === 'ANULADA' && (
+          <Typography color="error" fontWeight="bold" mt={4}>
+            {t('facturas.detail.anulada')}
+          </Typography>
+        )}
+      </Paper>
+    </>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableFooter,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+  Alert,
+  Box,
+  TextField,
+  MenuItem,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import ReceiptIcon from '@mui/icons-material/Receipt';
+import { useCentros } from '@/features/centros/hooks/use-centros';
+import {
+  formatCurrency,
+  formatDate,
+  getNombreUsuario,
+} from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useFacturas } from '../hooks/use-facturas';
+import type { EstadoFactura, FacturaFilters } from '../types/factura.types';
+import {
+  ESTADO_FACTURA_LABELS,
+  FACTURA_DETALLE_DISPONIBLE,
+  filterFacturas,
+} from '../utils';
+import { EstadoFacturaChip } from './estado-factura-chip';
+
+const ESTADOS_FACTURA = Object.keys(ESTADO_FACTURA_LABELS) as EstadoFactura[];
+
+export function FacturaList() {
+  const { t, locale } = useTranslation();
+  const [filters, setFilters] = useState<FacturaFilters>({});
+  const { data: facturas, isLoading, error } = useFacturas();
+  const { data: centros } = useCentros();
+
+  const filteredFacturas = useMemo(
+    () => filterFacturas(facturas ?? [], filters),
+    [facturas, filters]
+  );
+
+  const total = filteredFacturas
+    .filter((factura) => factura.estado !== 'ANULADA')
+    .reduce((sum, factura) => sum + factura.importeTotal, 0);
+
+  const setFilter = <K extends keyof FacturaFilters>(
+    key: K,
+    value: FacturaFilters[K]
+  ) => setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: 'repeat(4, 1fr)' },
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <TextField
+          size="small"
+          type="date"
+          label={t('facturas.list.fechaDesde')}
+          value={filters.fechaDesde ?? ''}
+          onChange={(e) => setFilter('fechaDesde', e.target.value)}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField
+          size="small"
+          type="date"
+          label={t('facturas.list.fechaHasta')}
+          value={filters.fechaHasta ?? ''}
+          onChange={(e) => setFilter('fechaHasta', e.target.value)}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField
+          select
+          size="small"
+          label={t('facturas.list.centro')}
+          value={filters.idCentro ?? ''}
+          onChange={(e) => setFilter('idCentro', e.target.value)}
+        >
+          <MenuItem value="">{t('common.all')}</MenuItem>
+          {centros?.map((centro) => (
+            <MenuItem key={centro.idCentro} value={centro.idCentro}>
+              {centro.nombre}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label={t('common.status')}
+          value={filters.estado ?? ''}
+          onChange={(e) => setFilter('estado', e.target.value as EstadoFactura)}
+        >
+          <MenuItem value="">{t('common.all')}</MenuItem>
+          {ESTADOS_FACTURA.map((estado) => (
+            <MenuItem key={estado} value={estado}>
+              {t(ESTADO_FACTURA_LABELS[estado])}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      {isLoading && <CircularProgress />}
+      {error && <Alert severity="error">{t('facturas.list.error')}</Alert>}
+      {facturas && filteredFacturas.length === 0 && (
+        <Alert severity="info">{t('facturas.list.empty')}</Alert>
+      )}
+      {filteredFacturas.length > 0 && (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('facturas.list.numero')}</TableCell>
+                <TableCell>{t('facturas.list.emision')}</TableCell>
+                <TableCell>{t('facturas.list.alumno')}</TableCell>
+                <TableCell>{t('facturas.list.curso')}</TableCell>
+                <TableCell>{t('facturas.list.centro')}</TableCell>
+                <TableCell align="right">
+                  {t('facturas.list.importe')}
+                </TableCell>
+                <TableCell>{t('common.status')}</TableCell>
+                <TableCell align="right">{t('common.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredFacturas.map((factura) => (
+                <TableRow key={factura.idFactura}>
+                  <TableCell>{factura.numeroFactura}</TableCell>
+                  <TableCell>
+                    {formatDate(factura.fechaEmision, locale)}
+                  </TableCell>
+                  <TableCell>
+                    {getNombreUsuario(factura.matricula.alumno)}
+                  </TableCell>
+                  <TableCell>
+                    {factura.matricula.convocatoria.curso.nombre}
+                  </TableCell>
+                  <TableCell>
+                    {factura.matricula.convocatoria.centro.nombre}
+                  </TableCell>
+                  <TableCell align="right">
+                    {formatCurrency(factura.importeTotal, locale)}
+                  </TableCell>
+                  <TableCell>
+                    <EstadoFacturaChip estado={factura.estado} />
+                  </TableCell>
+                  <TableCell align="right">
+                    {FACTURA_DETALLE_DISPONIBLE && (
+                      <Tooltip title={t('facturas.list.view')}>
+                        <IconButton
+                          size="small"
+                          component={Link}
+                          href={`/dashboard/factura/${factura.idFactura}`}
+                        >
+                          <ReceiptIcon />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5}>{t('facturas.list.total')}</TableCell>
+                <TableCell align="right">
+                  {formatCurrency(total, locale)}
+                </TableCell>
+                <TableCell colSpan={2} />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </TableContainer>
+      )}
+    </>
+  );
+}
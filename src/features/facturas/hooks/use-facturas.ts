@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { facturaService } from '../services/factura-service';
+import { FACTURA_DETALLE_DISPONIBLE } from '../utils';
+
+export function useFacturas() {
+  return useQuery({
+    queryKey: ['facturas'],
+    queryFn: () => facturaService.getFacturas(),
+  });
+}
+
+export function useFactura(id: string) {
+  return useQuery({
+    queryKey: ['factura', id],
+    queryFn: () => facturaService.getFactura(id),
+    enabled: FACTURA_DETALLE_DISPONIBLE && !!id,
+  });
+}
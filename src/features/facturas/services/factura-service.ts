@@ -0,0 +1,109 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import type {
+  Factura,
+  FacturaDetalle,
+  FacturaMatricula,
+} from '../types/factura.types';
+
+const FACTURA_MATRICULA_FIELDS = `
+      idMatricula
+      codigo
+      fechaMatricula
+      precioBruto
+      descuentoAplicado
+      motivoDescuento
+      importeSubvencionado
+      precioFinal
+      alumno {
+        idUsuario
+        email
+        datosPersonales {
+          nombre
+          apellidos
+          dni
+          direccion
+        }
+      }
+      entidadSubvencionadora {
+        nombre
+      }
+      convocatoria {
+        idConvocatoria
+        codigo
+        fechaInicio
+        fechaFin
+        curso {
+          nombre
+          duracionHoras
+        }
+        centro {
+          idCentro
+          nombre
+          empresa {
+            cif
+            nombreLegal
+            direccionFiscal
+          }
+        }
+      }
+`;
+
+const GET_FACTURAS_QUERY = `
+  query GetFacturas {
+    matriculas {
+      ${FACTURA_MATRICULA_FIELDS}
+      facturas {
+        idFactura
+        numeroFactura
+        fechaEmision
+        importeTotal
+        estado
+      }
+    }
+  }
+`;
+
+const GET_FACTURA_QUERY = `
+  query GetFactura($id: ID!) {
+    factura(id: $id) {
+      idFactura
+      numeroFactura
+      fechaEmision
+      importeTotal
+      estado
+      tipoIva
+      motivoExencion
+      matricula {
+        ${FACTURA_MATRICULA_FIELDS}
+      }
+    }
+  }
+`;
+
+type MatriculaConFacturas = FacturaMatricula & {
+  facturas: Omit<Factura, 'matricula'>[];
+};
+
+export const facturaService = {
+  /**
+   * Lista plana de facturas, de la más reciente a la más antigua
+   */
+  async getFacturas(): Promise<Factura[]> {
+    const data = await graphqlRequest<{ matriculas: MatriculaConFacturas[] }>(
+      GET_FACTURAS_QUERY
+    );
+    return data.matriculas
+      .flatMap(({ facturas, ...matricula }) =>
+        facturas.map((factura) => ({ ...factura, matricula }))
+      )
+      .sort((a, b) => b.fechaEmision.localeCompare(a.fechaEmision));
+  },
+
+  async getFactura(id: string): Promise<FacturaDetalle | null> {
+    const data = await graphqlRequest<{ factura: FacturaDetalle | null }>(
+      GET_FACTURA_QUERY,
+      { id }
+    );
+    return data.factura;
+  },
+};
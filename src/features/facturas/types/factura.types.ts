@@ -0,0 +1,93 @@
+export type EstadoFactura = 'EMITIDA' | 'PAGADA' | 'ANULADA';
+
+/**
+ * Matrícula facturada, con los datos fiscales del emisor (empresa del
+ * centro) y del alumno
+ */
+export interface FacturaMatricula {
+  idMatricula: string;
+  codigo: string;
+  fechaMatricula: string;
+  precioBruto: number;
+  descuentoAplicado: number;
+  motivoDescuento?: string;
+  importeSubvencionado: number;
+  precioFinal: number;
+  alumno: {
+    idUsuario: string;
+    email: string;
+    datosPersonales?: {
+      nombre: string;
+      apellidos: string;
+      dni: string;
+      direccion?: string;
+    };
+  };
+  entidadSubvencionadora?: {
+    nombre: string;
+  } | null;
+  convocatoria: {
+    idConvocatoria: string;
+    codigo: string;
+    fechaInicio: string;
+    fechaFin: string;
+    curso: {
+      nombre: string;
+      duracionHoras?: number;
+    };
+    centro: {
+      idCentro: string;
+      nombre: string;
+      empresa: {
+        cif: string;
+        nombreLegal: string;
+        direccionFiscal: string;
+      };
+    };
+  };
+}
+
+/**
+ * Factura de una matrícula
+ * El backend solo expone las facturas anidadas en la matrícula, así que
+ * cada factura lleva su matrícula de origen
+ */
+export interface Factura {
+  idFactura: string;
+  numeroFactura: string;
+  fechaEmision: string;
+  importeTotal: number;
+  estado: EstadoFactura;
+  matricula: FacturaMatricula;
+}
+
+/**
+ * Factura con lo necesario para imprimirla
+ * El tipo de IVA lo fija el backend al emitirla (0 si está exenta)
+ */
+export interface FacturaDetalle extends Factura {
+  tipoIva: number;
+  motivoExencion?: string | null;
+}
+
+export interface FacturaFilters {
+  fechaDesde?: string;
+  fechaHasta?: string;
+  idCentro?: string;
+  estado?: EstadoFactura;
+}
+
+export interface LineaFactura {
+  concepto: string;
+  importe: number;
+}
+
+/**
+ * Desglose de impuestos de una factura
+ */
+export interface DesgloseImpuestos {
+  baseImponible: number;
+  tipoIva: number;
+  cuotaIva: number;
+  total: number;
+}
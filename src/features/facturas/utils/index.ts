@@ -0,0 +1,136 @@
+import { hasBackendExtension } from '@/shared/lib/config/backend-extensions';
+import { t, type MessageKey } from '@/shared/lib/i18n';
+import { roundCents } from '@/shared/lib/utils';
+import type {
+  DesgloseImpuestos,
+  EstadoFactura,
+  Factura,
+  FacturaFilters,
+  FacturaMatricula,
+  LineaFactura,
+} from '../types/factura.types';
+
+export const ESTADO_FACTURA_LABELS: Record<EstadoFactura, MessageKey> = {
+  EMITIDA: 'facturas.estado.EMITIDA',
+  PAGADA: 'facturas.estado.PAGADA',
+  ANULADA: 'facturas.estado.ANULADA',
+};
+
+/**
+ * factura(id) y los campos de la factura imprimible (matricula, tipoIva,
+ * motivoExencion) aún no están en el backend (schema.extensions.graphql)
+ */
+export const FACTURA_DETALLE_DISPONIBLE = hasBackendExtension('factura');
+
+/**
+ * Aplica los filtros del listado; las fechas se comparan como YYYY-MM-DD
+ */
+export function filterFacturas(
+  facturas: Factura[],
+  filters: FacturaFilters
+): Factura[] {
+  return facturas.filter((factura) => {
+    const fecha = factura.fechaEmision.slice(0, 10);
+    if (filters.fechaDesde && fecha < filters.fechaDesde) return false;
+    if (filters.fechaHasta && fecha > filters.fechaHasta) return false;
+    if (
+      filters.idCentro &&
+      factura.matricula.convocatoria.centro.idCentro !== filters.idCentro
+    ) {
+      return false;
+    }
+    if (filters.estado && factura.estado !== filters.estado) return false;
+    return true;
+  });
+}
+
+/**
+ * Conceptos de la factura a partir del desglose de precio de la matrícula
+ * Los importes son los de la matrícula, con IVA incluido
+ */
+export function getLineasFactura(matricula: FacturaMatricula): LineaFactura[] {
+  const { convocatoria } = matricula;
+  const lineas: LineaFactura[] = [
+    {
+      concepto: t('facturas.lineas.curso', {
+        curso: convocatoria.curso.nombre,
+        codigo: convocatoria.codigo,
+      }),
+      importe: matricula.precioBruto,
+    },
+  ];
+
+  if (matricula.descuentoAplicado > 0) {
+    lineas.push({
+      concepto: matricula.motivoDescuento
+        ? t('facturas.lineas.descuentoMotivo', {
+            motivo: matricula.motivoDescuento,
+          })
+        : t('facturas.lineas.descuento'),
+      importe: -matricula.descuentoAplicado,
+    });
+  }
+
+  if (matricula.importeSubvencionado > 0) {
+    lineas.push({
+      concepto: matricula.entidadSubvencionadora
+        ? t('facturas.lineas.subvencionEntidad', {
+            entidad: matricula.entidadSubvencionadora.nombre,
+          })
+        : t('facturas.lineas.subvencion'),
+      importe: -matricula.importeSubvencionado,
+    });
+  }
+
+  return lineas;
+}
+
+/**
+ * Conceptos con los que se imprime una factura ya emitida
+ * Si la matrícula cambió de precio después de emitirla, su desglose ya no
+ * suma el importe emitido y se factura un único concepto por ese importe
+ */
+export function getLineasEmitidas(
+  matricula: FacturaMatricula,
+  importeTotal: number
+): { lineas: LineaFactura[]; importeActual: number } {
+  const lineas = getLineasFactura(matricula);
+  const importeActual = roundCents(
+    lineas.reduce((sum, linea) => sum + linea.importe, 0)
+  );
+  if (importeActual === importeTotal) return { lineas, importeActual };
+  return {
+    lineas: [{ concepto: lineas[0].concepto, importe: importeTotal }],
+    importeActual,
+  };
+}
+
+/**
+ * Líneas sin IVA y desglose de impuestos a partir de los mismos conceptos
+ * El total es la suma de los conceptos (IVA incluido) y la base imponible la
+ * suma de las líneas sin IVA, así que líneas y totales siempre cuadran
+ */
+export function calcularFactura(
+  lineasConIva: LineaFactura[],
+  tipoIva: number
+): { lineas: LineaFactura[]; desglose: DesgloseImpuestos } {
+  const lineas = lineasConIva.map((linea) => ({
+    ...linea,
+    importe: roundCents(linea.importe / (1 + tipoIva)),
+  }));
+  const total = roundCents(
+    lineasConIva.reduce((sum, linea) => sum + linea.importe, 0)
+  );
+  const baseImponible = roundCents(
+    lineas.reduce((sum, linea) => sum + linea.importe, 0)
+  );
+  return {
+    lineas,
+    desglose: {
+      baseImponible,
+      tipoIva,
+      cuotaIva: roundCents(total - baseImponible),
+      total,
+    },
+  };
+}
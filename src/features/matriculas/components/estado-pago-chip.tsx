@@ -0,0 +1,26 @@
+'use client';
+
+import { Chip } from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import type { EstadoPago } from '../types/matricula.types';
+import { ESTADO_PAGO_LABELS } from '../utils';
+
+const ESTADO_PAGO_COLORS: Record<
+  EstadoPago,
+  'warning' | 'success' | 'default'
+> = {
+  PENDIENTE: 'warning',
+  PAGADO: 'success',
+  CANCELADO: 'default',
+};
+
+export function EstadoPagoChip({ estadoPago }: { estadoPago: EstadoPago }) {
+  const { t } = useTranslation();
+  return (
+    <Chip
+      label={t(ESTADO_PAGO_LABELS[estadoPago])}
+      color={ESTADO_PAGO_COLORS[estadoPago]}
+      size="small"
+    />
+  );
+}
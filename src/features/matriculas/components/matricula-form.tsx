@@ -0,0 +1,271 @@
+'use client';
+
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  TextField,
+  Button,
+  Box,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  FormHelperText,
+  CircularProgress,
+  Autocomplete,
+  Paper,
+} from '@mui/material';
+import { useAlumnos } from '@/features/alumnos/hooks/use-alumnos';
+import { useConvocatorias } from '@/features/convocatorias/hooks/use-convocatorias';
+import { useServerFieldErrors } from '@/shared/hooks/use-server-field-errors';
+import { formatDate, getNombreUsuario } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import {
+  matriculaSchema,
+  type MatriculaFormData,
+} from '../schemas/matricula-schema';
+import type { MatriculaInput } from '../types/matricula.types';
+import { calcularPrecioMatricula } from '../utils';
+import { MatriculaPriceBreakdown } from './matricula-price-breakdown';
+
+const MATRICULA_FIELDS = matriculaSchema.keyof().options;
+
+interface MatriculaFormProps {
+  onSubmit: (data: MatriculaInput) => void;
+  isLoading?: boolean;
+  /** Error de la última mutation: los errores de validación se marcan en su campo */
+  error?: unknown;
+}
+
+/**
+ * Alta de matrícula
+ * Al elegir la convocatoria el precio bruto parte del precioBase de su curso
+ */
+export function MatriculaForm({
+  onSubmit,
+  isLoading,
+  error,
+}: MatriculaFormProps) {
+  const { t, locale } = useTranslation();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    control,
+    setValue,
+    setError,
+  } = useForm<MatriculaFormData>({
+    resolver: zodResolver(matriculaSchema),
+    defaultValues: {
+      idAlumno: '',
+      idConvocatoria: '',
+      precioBruto: 0,
+      descuentoAplicado: 0,
+      motivoDescuento: '',
+      importeSubvencionado: 0,
+    },
+  });
+
+  useServerFieldErrors(error, setError, MATRICULA_FIELDS);
+
+  const { data: alumnos, isLoading: loadingAlumnos } = useAlumnos(true);
+  const { data: convocatorias, isLoading: loadingConvocatorias } =
+    useConvocatorias(true);
+
+  const idAlumno = useWatch({ control, name: 'idAlumno' });
+  const idConvocatoria = useWatch({ control, name: 'idConvocatoria' });
+  const [
+    precioBruto,
+    descuentoAplicado,
+    importeSubvencionado,
+    motivoDescuento,
+  ] = useWatch({
+    control,
+    name: [
+      'precioBruto',
+      'descuentoAplicado',
+      'importeSubvencionado',
+      'motivoDescuento',
+    ],
+  });
+
+  const precio = calcularPrecioMatricula(
+    precioBruto,
+    descuentoAplicado,
+    importeSubvencionado
+  );
+
+  const handleConvocatoriaChange = (value: string) => {
+    setValue('idConvocatoria', value, { shouldValidate: true });
+    const convocatoria = convocatorias?.find(
+      (item) => item.idConvocatoria === value
+    );
+    if (convocatoria) {
+      setValue('precioBruto', convocatoria.curso.precioBase, {
+        shouldValidate: true,
+      });
+    }
+  };
+
+  const handleFormSubmit = (data: MatriculaFormData) => {
+    const calculado = calcularPrecioMatricula(
+      data.precioBruto,
+      data.descuentoAplicado,
+      data.importeSubvencionado
+    );
+    onSubmit({
+      idAlumno: data.idAlumno,
+      idConvocatoria: data.idConvocatoria,
+      ...calculado,
+      motivoDescuento:
+        data.descuentoAplicado > 0 ? data.motivoDescuento : undefined,
+      estadoPago: 'PENDIENTE',
+    });
+  };
+
+  if (loadingAlumnos || loadingConvocatorias) {
+    return (
+      <Box display="flex" justifyContent="center" p={3}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit(handleFormSubmit)}
+      sx={{ mt: 1 }}
+    >
+      <Autocomplete
+        options={alumnos ?? []}
+        getOptionLabel={(alumno) =>
+          `${getNombreUsuario(alumno)}${
+            alumno.datosPersonales?.dni
+              ? ` (${alumno.datosPersonales.dni})`
+              : ''
+          }`
+        }
+        isOptionEqualToValue={(option, value) =>
+          option.idUsuario === value.idUsuario
+        }
+        value={alumnos?.find((alumno) => alumno.idUsuario === idAlumno) ?? null}
+        onChange={(_, alumno) =>
+          setValue('idAlumno', alumno?.idUsuario ?? '', {
+            shouldValidate: true,
+          })
+        }
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            label={t('matriculas.fields.alumno')}
+            margin="normal"
+            required
+            error={!!errors.idAlumno}
+            helperText={errors.idAlumno?.message}
+          />
+        )}
+      />
+
+      <FormControl
+        fullWidth
+        margin="normal"
+        error={!!errors.idConvocatoria}
+        required
+      >
+        <InputLabel id="convocatoria-label">
+          {t('matriculas.fields.convocatoria')}
+        </InputLabel>
+        <Select
+          labelId="convocatoria-label"
+          id="convocatoria"
+          label={t('matriculas.fields.convocatoria')}
+          value={idConvocatoria || ''}
+          onChange={(e) => handleConvocatoriaChange(e.target.value)}
+        >
+          {convocatorias?.map((convocatoria) => (
+            <MenuItem
+              key={convocatoria.idConvocatoria}
+              value={convocatoria.idConvocatoria}
+            >
+              {convocatoria.codigo} - {convocatoria.curso.nombre} (
+              {formatDate(convocatoria.fechaInicio, locale)})
+            </MenuItem>
+          ))}
+        </Select>
+        {errors.idConvocatoria && (
+          <FormHelperText>{errors.idConvocatoria.message}</FormHelperText>
+        )}
+      </FormControl>
+
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' },
+          columnGap: 2,
+        }}
+      >
+        <TextField
+          fullWidth
+          label={t('matriculas.fields.precioBruto')}
+          type="number"
+          inputProps={{ step: '0.01', min: 0 }}
+          {...register('precioBruto', { valueAsNumber: true })}
+          error={!!errors.precioBruto}
+          helperText={errors.precioBruto?.message}
+          margin="normal"
+          required
+        />
+        <TextField
+          fullWidth
+          label={t('matriculas.fields.descuento')}
+          type="number"
+          inputProps={{ step: '0.01', min: 0 }}
+          {...register('descuentoAplicado', { valueAsNumber: true })}
+          error={!!errors.descuentoAplicado}
+          helperText={errors.descuentoAplicado?.message}
+          margin="normal"
+        />
+        <TextField
+          fullWidth
+          label={t('matriculas.fields.importeSubvencionado')}
+          type="number"
+          inputProps={{ step: '0.01', min: 0 }}
+          {...register('importeSubvencionado', { valueAsNumber: true })}
+          error={!!errors.importeSubvencionado}
+          helperText={errors.importeSubvencionado?.message}
+          margin="normal"
+        />
+      </Box>
+
+      {descuentoAplicado > 0 && (
+        <TextField
+          fullWidth
+          label={t('matriculas.fields.motivoDescuento')}
+          {...register('motivoDescuento')}
+          error={!!errors.motivoDescuento}
+          helperText={errors.motivoDescuento?.message}
+          margin="normal"
+          required
+        />
+      )}
+
+      <Paper variant="outlined" sx={{ p: 2, mt: 2 }}>
+        <MatriculaPriceBreakdown
+          precio={precio}
+          motivoDescuento={motivoDescuento}
+        />
+      </Paper>
+
+      <Button
+        type="submit"
+        variant="contained"
+        disabled={isLoading}
+        fullWidth
+        sx={{ mt: 3 }}
+      >
+        {isLoading ? t('common.saving') : t('matriculas.form.submit')}
+      </Button>
+    </Box>
+  );
+}
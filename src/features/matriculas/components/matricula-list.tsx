@@ -0,0 +1,270 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+  Alert,
+  Box,
+  TextField,
+  MenuItem,
+  Autocomplete,
+  Button,
+  Menu,
+  Tooltip,
+} from '@mui/material';
+import ArrowDropDownIcon from '@mui/icons-material/ArrowDropDown';
+import { useAlumnos } from '@/features/alumnos/hooks/use-alumnos';
+import { ConfirmDialog } from '@/shared/components/dialog/confirm-dialog';
+import { ExportButton } from '@/shared/components/export/export-button';
+import {
+  formatCurrency,
+  formatDate,
+  getNombreUsuario,
+} from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useMatriculas } from '../hooks/use-matriculas';
+import { useUpdateEstadoPago } from '../hooks/use-matricula-mutations';
+import type {
+  EstadoPago,
+  Matricula,
+  MatriculaFilters,
+} from '../types/matricula.types';
+import {
+  ESTADO_PAGO_LABELS,
+  ESTADO_PAGO_TRANSITIONS,
+  getMatriculaExportColumns,
+} from '../utils';
+import { EstadoPagoChip } from './estado-pago-chip';
+
+const ESTADOS_PAGO = Object.keys(ESTADO_PAGO_LABELS) as EstadoPago[];
+
+type PendingTransition = { matricula: Matricula; estadoPago: EstadoPago };
+
+export function MatriculaList() {
+  const { t, locale } = useTranslation();
+  const [filters, setFilters] = useState<MatriculaFilters>({});
+  const [menu, setMenu] = useState<{
+    anchorEl: HTMLElement;
+    matricula: Matricula;
+  } | null>(null);
+  const [pendingTransition, setPendingTransition] =
+    useState<PendingTransition | null>(null);
+
+  const { data: matriculas, isLoading, error } = useMatriculas(filters);
+  const { data: alumnos } = useAlumnos();
+  const updateEstadoPagoMutation = useUpdateEstadoPago();
+
+  const handleConfirmTransition = () => {
+    if (!pendingTransition) return;
+    updateEstadoPagoMutation.mutate(pendingTransition, {
+      onSettled: () => setPendingTransition(null),
+    });
+  };
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: '200px 1fr auto' },
+          alignItems: 'center',
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <TextField
+          select
+          size="small"
+          label={t('matriculas.fields.estadoPago')}
+          value={filters.estadoPago ?? ''}
+          onChange={(e) =>
+            setFilters((prev) => ({
+              ...prev,
+              estadoPago: (e.target.value || undefined) as
+                | EstadoPago
+                | undefined,
+            }))
+          }
+        >
+          <MenuItem value="">{t('common.all')}</MenuItem>
+          {ESTADOS_PAGO.map((estado) => (
+            <MenuItem key={estado} value={estado}>
+              {t(ESTADO_PAGO_LABELS[estado])}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Autocomplete
+          size="small"
+          options={alumnos ?? []}
+          getOptionLabel={(alumno) => getNombreUsuario(alumno)}
+          isOptionEqualToValue={(option, value) =>
+            option.idUsuario === value.idUsuario
+          }
+          value={
+            alumnos?.find((alumno) => alumno.idUsuario === filters.idAlumno) ??
+            null
+          }
+          onChange={(_, alumno) =>
+            setFilters((prev) => ({ ...prev, idAlumno: alumno?.idUsuario }))
+          }
+          renderInput={(params) => (
+            <TextField {...params} label={t('matriculas.fields.alumno')} />
+          )}
+        />
+        <ExportButton
+          columns={getMatriculaExportColumns(t)}
+          fileName={t('nav.matriculas').toLowerCase()}
+          disabled={!matriculas?.length}
+          getRows={() => matriculas ?? []}
+        />
+      </Box>
+
+      {isLoading && <CircularProgress />}
+      {error && <Alert severity="error">{t('matriculas.list.error')}</Alert>}
+      {matriculas && matriculas.length === 0 && (
+        <Alert severity="info">{t('matriculas.list.empty')}</Alert>
+      )}
+      {matriculas && matriculas.length > 0 && (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('matriculas.fields.codigo')}</TableCell>
+                <TableCell>{t('matriculas.fields.alumno')}</TableCell>
+                <TableCell>{t('matriculas.fields.curso')}</TableCell>
+                <TableCell>{t('matriculas.fields.fecha')}</TableCell>
+                <TableCell align="right">
+                  {t('matriculas.fields.bruto')}
+                </TableCell>
+                <TableCell align="right">
+                  {t('matriculas.fields.descuento')}
+                </TableCell>
+                <TableCell align="right">
+                  {t('matriculas.fields.subvencion')}
+                </TableCell>
+                <TableCell align="right">
+                  {t('matriculas.fields.final')}
+                </TableCell>
+                <TableCell>{t('matriculas.fields.estadoPago')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {matriculas.map((matricula) => {
+                const transitions =
+                  ESTADO_PAGO_TRANSITIONS[matricula.estadoPago];
+                return (
+                  <TableRow key={matricula.idMatricula}>
+                    <TableCell>{matricula.codigo}</TableCell>
+                    <TableCell>{getNombreUsuario(matricula.alumno)}</TableCell>
+                    <TableCell>
+                      {matricula.convocatoria.curso.nombre} (
+                      {matricula.convocatoria.codigo})
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(matricula.fechaMatricula, locale)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(matricula.precioBruto, locale)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {matricula.descuentoAplicado > 0 ? (
+                        <Tooltip title={matricula.motivoDescuento ?? ''}>
+                          <span>
+                            {formatCurrency(
+                              matricula.descuentoAplicado,
+                              locale
+                            )}
+                          </span>
+                        </Tooltip>
+                      ) : (
+                        formatCurrency(0, locale)
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(matricula.importeSubvencionado, locale)}
+                    </TableCell>
+                    <TableCell align="right">
+                      <strong>
+                        {formatCurrency(matricula.precioFinal, locale)}
+                      </strong>
+                    </TableCell>
+                    <TableCell>
+                      {transitions.length > 0 ? (
+                        <Button
+                          size="small"
+                          endIcon={<ArrowDropDownIcon />}
+                          onClick={(e) =>
+                            setMenu({ anchorEl: e.currentTarget, matricula })
+                          }
+                        >
+                          <EstadoPagoChip estadoPago={matricula.estadoPago} />
+                        </Button>
+                      ) : (
+                        <EstadoPagoChip estadoPago={matricula.estadoPago} />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Menu
+        anchorEl={menu?.anchorEl}
+        open={!!menu}
+        onClose={() => setMenu(null)}
+      >
+        {menu &&
+          ESTADO_PAGO_TRANSITIONS[menu.matricula.estadoPago].map((estado) => (
+            <MenuItem
+              key={estado}
+              onClick={() => {
+                setPendingTransition({
+                  matricula: menu.matricula,
+                  estadoPago: estado,
+                });
+                setMenu(null);
+              }}
+            >
+              {t('matriculas.list.markAs', {
+                estado: t(ESTADO_PAGO_LABELS[estado]).toLowerCase(),
+              })}
+            </MenuItem>
+          ))}
+      </Menu>
+
+      <ConfirmDialog
+        open={!!pendingTransition}
+        title={t('matriculas.list.transitionTitle')}
+        message={
+          pendingTransition
+            ? t('matriculas.list.transitionMessage', {
+                codigo: pendingTransition.matricula.codigo,
+                from: t(
+                  ESTADO_PAGO_LABELS[pendingTransition.matricula.estadoPago]
+                ).toLowerCase(),
+                to: t(
+                  ESTADO_PAGO_LABELS[pendingTransition.estadoPago]
+                ).toLowerCase(),
+              })
+            : ''
+        }
+        confirmColor={
+          pendingTransition?.estadoPago === 'CANCELADO' ? 'error' : 'primary'
+        }
+        isLoading={updateEstadoPagoMutation.isPending}
+        onConfirm={handleConfirmTransition}
+        onCancel={() => setPendingTransition(null)}
+      />
+    </>
+  );
+}
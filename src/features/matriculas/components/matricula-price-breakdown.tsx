@@ -0,0 +1,63 @@
+'use client';
+
+import { Box, Divider, Typography } from '@mui/material';
+import { formatCurrency } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import type { PrecioMatricula } from '../types/matricula.types';
+
+interface MatriculaPriceBreakdownProps {
+  precio: PrecioMatricula;
+  motivoDescuento?: string;
+}
+
+/**
+ * Desglose del precio de una matrícula hasta el precio final
+ */
+export function MatriculaPriceBreakdown({
+  precio,
+  motivoDescuento,
+}: MatriculaPriceBreakdownProps) {
+  const { t, locale } = useTranslation();
+  const lineas = [
+    { label: t('matriculas.fields.precioBruto'), value: precio.precioBruto },
+    {
+      label: motivoDescuento
+        ? t('matriculas.price.descuentoMotivo', { motivo: motivoDescuento })
+        : t('matriculas.fields.descuento'),
+      value: -precio.descuentoAplicado,
+    },
+    {
+      label: t('matriculas.fields.subvencion'),
+      value: -precio.importeSubvencionado,
+    },
+  ];
+
+  return (
+    <Box>
+      {lineas.map((linea) => (
+        <Box
+          key={linea.label}
+          display="flex"
+          justifyContent="space-between"
+          py={0.5}
+        >
+          <Typography variant="body2" color="text.secondary">
+            {linea.label}
+          </Typography>
+          <Typography variant="body2">
+            {formatCurrency(linea.value, locale)}
+          </Typography>
+        </Box>
+      ))}
+      <Divider sx={{ my: 1 }} />
+      <Box display="flex" justifyContent="space-between">
+        <Typography fontWeight="bold">
+          {t('matriculas.fields.precioFinal')}
+        </Typography>
+        <Typography fontWeight="bold">
+          {formatCurrency(precio.precioFinal, locale)}
+        </Typography>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,170 @@
+import {
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+} from '@tanstack/react-query';
+import { matriculaService } from '../services/matricula-service';
+import type {
+  EstadoPago,
+  Matricula,
+  MatriculaInput,
+} from '../types/matricula.types';
+import { ESTADO_PAGO_LABELS } from '../utils';
+import { useNotifications } from '@/shared/stores/notification-store';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import {
+  createOfflineHandler,
+  isOffline,
+  queueOfflineMutation,
+} from '@/shared/lib/offline/mutation-queue';
+import { getLocale, t } from '@/shared/lib/i18n';
+import { formatCurrency, getNombreUsuario } from '@/shared/lib/utils';
+import type { Alumno } from '@/features/alumnos/types/alumno.types';
+
+/**
+ * Las matrículas aparecen en las fichas de alumno y convocatoria y en las
+ * facturas, así que se invalidan también esas queries
+ */
+function invalidateMatriculaQueries(
+  queryClient: QueryClient,
+  matricula: Matricula
+) {
+  queryClient.invalidateQueries({ queryKey: ['matriculas'] });
+  queryClient.invalidateQueries({
+    queryKey: ['alumno', matricula.alumno.idUsuario, 'matriculas'],
+  });
+  queryClient.invalidateQueries({
+    queryKey: ['convocatoria', matricula.convocatoria.idConvocatoria],
+  });
+  queryClient.invalidateQueries({ queryKey: ['convocatorias'] });
+  queryClient.invalidateQueries({ queryKey: ['facturas'] });
+}
+
+/** Tipo de las altas de matrícula encoladas sin conexión */
+export const CREATE_MATRICULA_OFFLINE = 'matriculas/create';
+
+/**
+ * Reenvío de las altas hechas sin conexión
+ * Si mientras tanto el alumno se matriculó en la misma convocatoria se marca como conflicto
+ */
+export const createMatriculaOfflineHandler = createOfflineHandler<
+  MatriculaInput,
+  Matricula
+>({
+  mutationFn: (input) => matriculaService.createMatricula(input),
+  findConflict: async (input) => {
+    const matriculas = await matriculaService.getMatriculas({
+      idAlumno: input.idAlumno,
+    });
+    const existente = matriculas.find(
+      (matricula) =>
+        matricula.convocatoria.idConvocatoria === input.idConvocatoria
+    );
+    return existente
+      ? t('matriculas.notifications.duplicate', { codigo: existente.codigo })
+      : null;
+  },
+  onSuccess: (matricula, queryClient) =>
+    invalidateMatriculaQueries(queryClient, matricula),
+  // Getters: el idioma activo se conoce al reenviar, no al importar el módulo
+  get errorMessage() {
+    return t('matriculas.notifications.createError');
+  },
+  get forbiddenMessage() {
+    return t('matriculas.notifications.createForbidden');
+  },
+});
+
+/**
+ * Descripción de una matrícula encolada, con el nombre del alumno si está en caché
+ */
+function getMatriculaLabel(
+  queryClient: QueryClient,
+  input: MatriculaInput
+): string {
+  const alumno = queryClient
+    .getQueriesData<Alumno[]>({ queryKey: ['alumnos'] })
+    .flatMap(([, alumnos]) => alumnos ?? [])
+    .find((item) => item.idUsuario === input.idAlumno);
+  return t('matriculas.notifications.offlineLabel', {
+    nombre: alumno
+      ? getNombreUsuario(alumno)
+      : formatCurrency(input.precioFinal, getLocale()),
+  });
+}
+
+/**
+ * Sin conexión la matrícula se encola y la mutation resuelve con null
+ */
+export function useCreateMatricula() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: async (input: MatriculaInput): Promise<Matricula | null> => {
+      if (isOffline()) {
+        queueOfflineMutation(
+          CREATE_MATRICULA_OFFLINE,
+          input,
+          getMatriculaLabel(queryClient, input)
+        );
+        return null;
+      }
+      return matriculaService.createMatricula(input);
+    },
+    // Sin conexión la mutation no debe quedarse en pausa: se encola
+    networkMode: 'always',
+    onSuccess: (matricula) => {
+      if (!matricula) {
+        notifications.info(t('matriculas.notifications.queuedOffline'));
+        return;
+      }
+      invalidateMatriculaQueries(queryClient, matricula);
+      notifications.success(
+        t('matriculas.notifications.created', { codigo: matricula.codigo })
+      );
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('matriculas.notifications.createError'),
+          t('matriculas.notifications.createForbidden')
+        )
+      );
+    },
+  });
+}
+
+export function useUpdateEstadoPago() {
+  const queryClient = useQueryClient();
+  const notifications = useNotifications();
+
+  return useMutation({
+    mutationFn: ({
+      matricula,
+      estadoPago,
+    }: {
+      matricula: Matricula;
+      estadoPago: EstadoPago;
+    }) => matriculaService.updateEstadoPago(matricula, estadoPago),
+    onSuccess: (matricula) => {
+      invalidateMatriculaQueries(queryClient, matricula);
+      notifications.success(
+        t('matriculas.notifications.estadoPagoUpdated', {
+          codigo: matricula.codigo,
+          estado: t(ESTADO_PAGO_LABELS[matricula.estadoPago]).toLowerCase(),
+        })
+      );
+    },
+    onError: (error: unknown) => {
+      notifications.error(
+        getGraphQLErrorMessage(
+          error,
+          t('matriculas.notifications.estadoPagoError'),
+          t('matriculas.notifications.estadoPagoForbidden')
+        )
+      );
+    },
+  });
+}
@@ -0,0 +1,10 @@
+import { useQuery } from '@tanstack/react-query';
+import { matriculaService } from '../services/matricula-service';
+import type { MatriculaFilters } from '../types/matricula.types';
+
+export function useMatriculas(filters: MatriculaFilters = {}) {
+  return useQuery({
+    queryKey: ['matriculas', filters],
+    queryFn: () => matriculaService.getMatriculas(filters),
+  });
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { t, type MessageKey, type MessageParams } from '@/shared/lib/i18n';
+
+/** Mensaje traducido al validar, no al importar el módulo */
+const message = (key: MessageKey, params?: MessageParams) => ({
+  error: () => t(key, params),
+});
+
+const importe = (label: MessageKey) =>
+  z
+    .number({ error: () => t('matriculas.form.required', { label: t(label) }) })
+    .min(0, {
+      error: () => t('matriculas.form.minZero', { label: t(label) }),
+    });
+
+/**
+ * Schema de validación de matrícula
+ * El descuento exige motivo y, junto con la subvención, no puede superar el precio bruto
+ */
+export const matriculaSchema = z
+  .object({
+    idAlumno: z.string().min(1, message('matriculas.form.alumnoRequired')),
+    idConvocatoria: z
+      .string()
+      .min(1, message('matriculas.form.convocatoriaRequired')),
+    precioBruto: importe('matriculas.fields.precioBruto'),
+    descuentoAplicado: importe('matriculas.fields.descuento'),
+    motivoDescuento: z.string().trim().optional(),
+    importeSubvencionado: importe('matriculas.fields.importeSubvencionado'),
+  })
+  .refine((data) => data.descuentoAplicado === 0 || !!data.motivoDescuento, {
+    ...message('matriculas.form.motivoRequired'),
+    path: ['motivoDescuento'],
+  })
+  .refine(
+    (data) =>
+      data.descuentoAplicado + data.importeSubvencionado <= data.precioBruto,
+    {
+      ...message('matriculas.form.importeExceeded'),
+      path: ['importeSubvencionado'],
+    }
+  );
+
+export type MatriculaFormData = z.infer<typeof matriculaSchema>;
@@ -0,0 +1,111 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import { t } from '@/shared/lib/i18n';
+import type {
+  EstadoPago,
+  Matricula,
+  MatriculaFilters,
+  MatriculaInput,
+} from '../types/matricula.types';
+import {
+  canTransitionEstadoPago,
+  ESTADO_PAGO_LABELS,
+  toMatriculaInput,
+} from '../utils';
+
+const MATRICULA_FIELDS = `
+  idMatricula
+  codigo
+  fechaMatricula
+  precioBruto
+  descuentoAplicado
+  motivoDescuento
+  importeSubvencionado
+  precioFinal
+  estadoPago
+  alumno {
+    idUsuario
+    email
+    datosPersonales {
+      nombre
+      apellidos
+    }
+  }
+  convocatoria {
+    idConvocatoria
+    codigo
+    fechaInicio
+    fechaFin
+    curso {
+      nombre
+      precioBase
+    }
+  }
+`;
+
+const GET_MATRICULAS_QUERY = `
+  query GetMatriculas($estadoPago: EstadoPago, $idAlumno: ID) {
+    matriculas(estadoPago: $estadoPago, idAlumno: $idAlumno) {
+      ${MATRICULA_FIELDS}
+    }
+  }
+`;
+
+const CREATE_MATRICULA_MUTATION = `
+  mutation CreateMatricula($input: MatriculaInput!) {
+    createMatricula(input: $input) {
+      ${MATRICULA_FIELDS}
+    }
+  }
+`;
+
+const UPDATE_MATRICULA_MUTATION = `
+  mutation UpdateMatricula($id: ID!, $input: MatriculaInput!) {
+    updateMatricula(id: $id, input: $input) {
+      ${MATRICULA_FIELDS}
+    }
+  }
+`;
+
+export const matriculaService = {
+  async getMatriculas(filters: MatriculaFilters = {}): Promise<Matricula[]> {
+    const data = await graphqlRequest<{ matriculas: Matricula[] }>(
+      GET_MATRICULAS_QUERY,
+      { estadoPago: filters.estadoPago, idAlumno: filters.idAlumno }
+    );
+    return data.matriculas;
+  },
+
+  async createMatricula(input: MatriculaInput): Promise<Matricula> {
+    const data = await graphqlRequest<{ createMatricula: Matricula }>(
+      CREATE_MATRICULA_MUTATION,
+      { input }
+    );
+    return data.createMatricula;
+  },
+
+  /**
+   * Cambia el estado de pago validando antes la transición
+   */
+  async updateEstadoPago(
+    matricula: Matricula,
+    estadoPago: EstadoPago
+  ): Promise<Matricula> {
+    if (!canTransitionEstadoPago(matricula.estadoPago, estadoPago)) {
+      throw new Error(
+        t('matriculas.errors.invalidTransition', {
+          from: t(ESTADO_PAGO_LABELS[matricula.estadoPago]).toLowerCase(),
+          to: t(ESTADO_PAGO_LABELS[estadoPago]).toLowerCase(),
+        })
+      );
+    }
+
+    const data = await graphqlRequest<{ updateMatricula: Matricula }>(
+      UPDATE_MATRICULA_MUTATION,
+      {
+        id: matricula.idMatricula,
+        input: { ...toMatriculaInput(matricula), estadoPago },
+      }
+    );
+    return data.updateMatricula;
+  },
+};
@@ -0,0 +1,61 @@
+export type EstadoPago = 'PENDIENTE' | 'PAGADO' | 'CANCELADO';
+
+/**
+ * Matrícula: inscripción de un alumno en una convocatoria
+ * precioFinal = precioBruto - descuentoAplicado - importeSubvencionado
+ */
+export interface Matricula {
+  idMatricula: string;
+  codigo: string;
+  fechaMatricula: string;
+  precioBruto: number;
+  descuentoAplicado: number;
+  motivoDescuento?: string;
+  importeSubvencionado: number;
+  precioFinal: number;
+  estadoPago: EstadoPago;
+  alumno: {
+    idUsuario: string;
+    email: string;
+    datosPersonales?: {
+      nombre: string;
+      apellidos: string;
+    };
+  };
+  convocatoria: {
+    idConvocatoria: string;
+    codigo: string;
+    fechaInicio: string;
+    fechaFin: string;
+    curso: {
+      nombre: string;
+      precioBase: number;
+    };
+  };
+}
+
+export interface MatriculaFilters {
+  estadoPago?: EstadoPago;
+  idAlumno?: string;
+}
+
+export interface MatriculaInput {
+  idAlumno: string;
+  idConvocatoria: string;
+  precioBruto: number;
+  descuentoAplicado: number;
+  motivoDescuento?: string;
+  importeSubvencionado: number;
+  precioFinal: number;
+  estadoPago: EstadoPago;
+}
+
+/**
+ * Desglose de precio de una matrícula
+ */
+export interface PrecioMatricula {
+  precioBruto: number;
+  descuentoAplicado: number;
+  importeSubvencionado: number;
+  precioFinal: number;
+}
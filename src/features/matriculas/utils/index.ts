@@ -0,0 +1,149 @@
+import type {
+  EstadoPago,
+  Matricula,
+  MatriculaInput,
+  PrecioMatricula,
+} from '../types/matricula.types';
+import type { ExportColumn } from '@/shared/lib/export';
+import type { MessageKey, Translate } from '@/shared/lib/i18n';
+import { getNombreUsuario, roundCents } from '@/shared/lib/utils';
+
+export const ESTADO_PAGO_LABELS: Record<EstadoPago, MessageKey> = {
+  PENDIENTE: 'matriculas.estadoPago.PENDIENTE',
+  PAGADO: 'matriculas.estadoPago.PAGADO',
+  CANCELADO: 'matriculas.estadoPago.CANCELADO',
+};
+
+/**
+ * Columnas del listado exportado, con las cabeceras en el idioma activo
+ */
+export const getMatriculaExportColumns = (
+  t: Translate
+): ExportColumn<Matricula>[] => [
+  {
+    id: 'codigo',
+    header: t('matriculas.fields.codigo'),
+    value: (matricula) => matricula.codigo,
+  },
+  {
+    id: 'alumno',
+    header: t('matriculas.fields.alumno'),
+    value: (matricula) => getNombreUsuario(matricula.alumno),
+    width: 30,
+  },
+  {
+    id: 'email',
+    header: t('alumnos.fields.email'),
+    value: (matricula) => matricula.alumno.email,
+    width: 30,
+    unselectedByDefault: true,
+  },
+  {
+    id: 'curso',
+    header: t('matriculas.fields.curso'),
+    value: (matricula) => matricula.convocatoria.curso.nombre,
+    width: 30,
+  },
+  {
+    id: 'convocatoria',
+    header: t('matriculas.fields.convocatoria'),
+    value: (matricula) => matricula.convocatoria.codigo,
+  },
+  {
+    id: 'fechaMatricula',
+    header: t('matriculas.fields.fecha'),
+    value: (matricula) => matricula.fechaMatricula,
+    type: 'date',
+  },
+  {
+    id: 'precioBruto',
+    header: t('matriculas.fields.bruto'),
+    value: (matricula) => matricula.precioBruto,
+    type: 'currency',
+  },
+  {
+    id: 'descuentoAplicado',
+    header: t('matriculas.fields.descuento'),
+    value: (matricula) => matricula.descuentoAplicado,
+    type: 'currency',
+  },
+  {
+    id: 'motivoDescuento',
+    header: t('matriculas.fields.motivoDescuento'),
+    value: (matricula) => matricula.motivoDescuento,
+    width: 30,
+    unselectedByDefault: true,
+  },
+  {
+    id: 'importeSubvencionado',
+    header: t('matriculas.fields.subvencion'),
+    value: (matricula) => matricula.importeSubvencionado,
+    type: 'currency',
+  },
+  {
+    id: 'precioFinal',
+    header: t('matriculas.fields.final'),
+    value: (matricula) => matricula.precioFinal,
+    type: 'currency',
+  },
+  {
+    id: 'estadoPago',
+    header: t('matriculas.fields.estadoPago'),
+    value: (matricula) => t(ESTADO_PAGO_LABELS[matricula.estadoPago]),
+  },
+];
+
+/**
+ * Transiciones de estado de pago permitidas
+ * Una matrícula cancelada es definitiva; una pagada solo puede cancelarse (devolución)
+ */
+export const ESTADO_PAGO_TRANSITIONS: Record<EstadoPago, EstadoPago[]> = {
+  PENDIENTE: ['PAGADO', 'CANCELADO'],
+  PAGADO: ['CANCELADO'],
+  CANCELADO: [],
+};
+
+export function canTransitionEstadoPago(
+  from: EstadoPago,
+  to: EstadoPago
+): boolean {
+  return ESTADO_PAGO_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Calcula el precio final a partir del precio bruto, el descuento y la subvención
+ */
+export function calcularPrecioMatricula(
+  precioBruto: number,
+  descuentoAplicado: number,
+  importeSubvencionado: number
+): PrecioMatricula {
+  const bruto = Number.isFinite(precioBruto) ? precioBruto : 0;
+  const descuento = Number.isFinite(descuentoAplicado) ? descuentoAplicado : 0;
+  const subvencion = Number.isFinite(importeSubvencionado)
+    ? importeSubvencionado
+    : 0;
+
+  return {
+    precioBruto: roundCents(bruto),
+    descuentoAplicado: roundCents(descuento),
+    importeSubvencionado: roundCents(subvencion),
+    precioFinal: roundCents(Math.max(bruto - descuento - subvencion, 0)),
+  };
+}
+
+/**
+ * Reconstruye el input de una matrícula existente para reenviarlo al backend
+ */
+export function toMatriculaInput(matricula: Matricula): MatriculaInput {
+  return {
+    idAlumno: matricula.alumno.idUsuario,
+    idConvocatoria: matricula.convocatoria.idConvocatoria,
+    precioBruto: matricula.precioBruto,
+    descuentoAplicado: matricula.descuentoAplicado,
+    motivoDescuento: matricula.motivoDescuento,
+    importeSubvencionado: matricula.importeSubvencionado,
+    precioFinal: matricula.precioFinal,
+    estadoPago: matricula.estadoPago,
+  };
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { Tooltip, Typography } from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { formatHoras, HORAS_MENSUALES_MAXIMAS } from '../utils';
+
+interface CargaHorasProps {
+  horas: number;
+}
+
+/**
+ * Horas de un mes, resaltadas cuando superan el máximo recomendado
+ */
+export function CargaHoras({ horas }: CargaHorasProps) {
+  const { t, locale } = useTranslation();
+  if (!horas) {
+    return (
+      <Typography variant="body2" color="text.disabled">
+        -
+      </Typography>
+    );
+  }
+
+  if (horas > HORAS_MENSUALES_MAXIMAS) {
+    return (
+      <Tooltip
+        title={t('profesores.cargaView.exceeds', {
+          horas: HORAS_MENSUALES_MAXIMAS,
+        })}
+      >
+        <Typography variant="body2" color="error" fontWeight="bold">
+          {formatHoras(horas, locale)}
+        </Typography>
+      </Tooltip>
+    );
+  }
+
+  return <Typography variant="body2">{formatHoras(horas, locale)}</Typography>;
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { formatDate, getNombreUsuario } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useConvocatorias } from '@/features/convocatorias/hooks/use-convocatorias';
+import { useProfesores } from '../hooks/use-profesores';
+import {
+  addMeses,
+  calcularCargaMensual,
+  coincideConMeses,
+  formatHoras,
+  formatMes,
+  getMesKey,
+  HORAS_MENSUALES_MAXIMAS,
+} from '../utils';
+import { CargaHoras } from './carga-horas';
+
+const MESES_VISIBLES = 6;
+
+/**
+ * Carga de trabajo de los profesores activos en una ventana de meses
+ * Las horas de cada convocatoria se reparten entre los meses que abarca
+ */
+export function ProfesorCarga() {
+  const { t, locale } = useTranslation();
+  const [mesInicio, setMesInicio] = useState(() => getMesKey(new Date()));
+  const {
+    data: profesores,
+    isLoading: loadingProfesores,
+    error: profesoresError,
+  } = useProfesores(true);
+  const {
+    data: convocatorias,
+    isLoading: loadingConvocatorias,
+    error: convocatoriasError,
+  } = useConvocatorias(true);
+
+  const meses = useMemo(
+    () =>
+      Array.from({ length: MESES_VISIBLES }, (_, i) => addMeses(mesInicio, i)),
+    [mesInicio]
+  );
+
+  const filas = useMemo(() => {
+    const mesFin = meses[meses.length - 1];
+    return (profesores ?? []).map((profesor) => {
+      const asignadas = (convocatorias ?? []).filter(
+        (convocatoria) =>
+          convocatoria.profesor.idUsuario === profesor.idUsuario &&
+          coincideConMeses(convocatoria, mesInicio, mesFin)
+      );
+      const carga = calcularCargaMensual(asignadas);
+      const total = meses.reduce((sum, mes) => sum + (carga[mes] ?? 0), 0);
+      const sobrecargado = meses.some(
+        (mes) => (carga[mes] ?? 0) > HORAS_MENSUALES_MAXIMAS
+      );
+      return { profesor, asignadas, carga, total, sobrecargado };
+    });
+  }, [profesores, convocatorias, meses, mesInicio]);
+
+  if (loadingProfesores || loadingConvocatorias) return <CircularProgress />;
+  if (profesoresError || convocatoriasError) {
+    return (
+      <Alert severity="error">{t('profesores.cargaView.loadError')}</Alert>
+    );
+  }
+
+  const sobrecargados = filas.filter((fila) => fila.sobrecargado).length;
+
+  return (
+    <>
+      <Box
+        display="flex"
+        alignItems="center"
+        justifyContent="space-between"
+        gap={2}
+        mb={2}
+      >
+        <TextField
+          size="small"
+          type="month"
+          label={t('profesores.cargaView.desde')}
+          value={mesInicio}
+          onChange={(e) => e.target.value && setMesInicio(e.target.value)}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <Typography variant="body2" color="text.secondary">
+          {t('profesores.cargaView.maximo', {
+            horas: HORAS_MENSUALES_MAXIMAS,
+          })}
+        </Typography>
+      </Box>
+
+      {sobrecargados > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {sobrecargados === 1
+            ? t('profesores.cargaView.overloadedOne')
+            : t('profesores.cargaView.overloadedMany', {
+                count: sobrecargados,
+              })}
+        </Alert>
+      )}
+
+      {filas.length === 0 ? (
+        <Alert severity="info">{t('profesores.cargaView.empty')}</Alert>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('profesores.cargaView.profesor')}</TableCell>
+                {meses.map((mes) => (
+                  <TableCell key={mes} align="right">
+                    {formatMes(mes, locale)}
+                  </TableCell>
+                ))}
+                <TableCell align="right">
+                  {t('profesores.cargaView.total')}
+                </TableCell>
+                <TableCell>{t('profesores.cargaView.convocatorias')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filas.map(({ profesor, asignadas, carga, total }) => (
+                <TableRow key={profesor.idUsuario}>
+                  <TableCell>
+                    <Link href={`/dashboard/profesor/${profesor.idUsuario}`}>
+                      {getNombreUsuario(profesor)}
+                    </Link>
+                  </TableCell>
+                  {meses.map((mes) => (
+                    <TableCell key={mes} align="right">
+                      <CargaHoras horas={carga[mes] ?? 0} />
+                    </TableCell>
+                  ))}
+                  <TableCell align="right">
+                    {formatHoras(total, locale)}
+                  </TableCell>
+                  <TableCell>
+                    <Box display="flex" flexWrap="wrap" gap={0.5}>
+                      {asignadas.map((convocatoria) => (
+                        <Tooltip
+                          key={convocatoria.idConvocatoria}
+                          title={`${convocatoria.curso.nombre} · ${formatDate(convocatoria.fechaInicio, locale)} - ${formatDate(convocatoria.fechaFin, locale)}`}
+                        >
+                          <Chip
+                            label={convocatoria.codigo}
+                            size="small"
+                            component={Link}
+                            href={`/dashboard/convocatoria/${convocatoria.idConvocatoria}`}
+                            clickable
+                          />
+                        </Tooltip>
+                      ))}
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </>
+  );
+}
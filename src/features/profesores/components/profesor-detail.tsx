@@ -0,0 +1,207 @@
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { formatDate, getNombreUsuario } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useConvocatorias } from '@/features/convocatorias/hooks/use-convocatorias';
+import { useProfesor } from '../hooks/use-profesores';
+import { calcularCargaMensual, formatHoras, formatMes } from '../utils';
+import { CargaHoras } from './carga-horas';
+
+interface ProfesorDetailProps {
+  idProfesor: string;
+}
+
+/**
+ * Perfil del profesor: datos personales, convocatorias activas y carga mensual
+ */
+export function ProfesorDetail({ idProfesor }: ProfesorDetailProps) {
+  const { t, locale } = useTranslation();
+  const { data: profesor, isLoading, error } = useProfesor(idProfesor);
+  const {
+    data: convocatorias,
+    isLoading: loadingConvocatorias,
+    error: convocatoriasError,
+  } = useConvocatorias(true);
+
+  const convocatoriasProfesor = useMemo(
+    () =>
+      (convocatorias ?? [])
+        .filter(
+          (convocatoria) => convocatoria.profesor.idUsuario === idProfesor
+        )
+        .sort((a, b) => a.fechaInicio.localeCompare(b.fechaInicio)),
+    [convocatorias, idProfesor]
+  );
+
+  const cargaMensual = useMemo(
+    () => Object.entries(calcularCargaMensual(convocatoriasProfesor)).sort(),
+    [convocatoriasProfesor]
+  );
+
+  if (isLoading) return <CircularProgress />;
+  if (error || !profesor) {
+    return <Alert severity="error">{t('profesores.detail.loadError')}</Alert>;
+  }
+
+  const datos = [
+    { label: t('profesores.fields.email'), value: profesor.email },
+    { label: t('profesores.fields.dni'), value: profesor.datosPersonales?.dni },
+    {
+      label: t('profesores.fields.telefono'),
+      value: profesor.datosPersonales?.telefono,
+    },
+    {
+      label: t('profesores.fields.alta'),
+      value: formatDate(profesor.fechaCreacion, locale),
+    },
+  ];
+
+  return (
+    <>
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box display="flex" alignItems="center" gap={2} mb={2}>
+          <Typography variant="h5" component="h2">
+            {getNombreUsuario(profesor)}
+          </Typography>
+          <Chip
+            label={profesor.activo ? t('common.active') : t('common.inactive')}
+            color={profesor.activo ? 'success' : 'default'}
+            size="small"
+          />
+        </Box>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)' },
+            gap: 2,
+          }}
+        >
+          {datos.map((dato) => (
+            <Box key={dato.label}>
+              <Typography variant="body2" color="text.secondary">
+                {dato.label}
+              </Typography>
+              <Typography>{dato.value || '-'}</Typography>
+            </Box>
+          ))}
+        </Box>
+      </Paper>
+
+      {loadingConvocatorias && <CircularProgress />}
+      {convocatoriasError && (
+        <Alert severity="error">
+          {t('profesores.detail.convocatoriasError')}
+        </Alert>
+      )}
+
+      {convocatorias && (
+        <>
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('profesores.detail.cargaMensual')}
+            </Typography>
+            {cargaMensual.length === 0 ? (
+              <Alert severity="info">{t('profesores.detail.noHoras')}</Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      {cargaMensual.map(([mes]) => (
+                        <TableCell key={mes} align="right">
+                          {formatMes(mes, locale)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    <TableRow>
+                      {cargaMensual.map(([mes, horas]) => (
+                        <TableCell key={mes} align="right">
+                          <CargaHoras horas={horas} />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('profesores.detail.convocatorias', {
+                count: convocatoriasProfesor.length,
+              })}
+            </Typography>
+            {convocatoriasProfesor.length === 0 ? (
+              <Alert severity="info">
+                {t('profesores.detail.noConvocatorias')}
+              </Alert>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('profesores.detail.codigo')}</TableCell>
+                      <TableCell>{t('profesores.detail.curso')}</TableCell>
+                      <TableCell>{t('profesores.detail.centro')}</TableCell>
+                      <TableCell>{t('profesores.detail.inicio')}</TableCell>
+                      <TableCell>{t('profesores.detail.fin')}</TableCell>
+                      <TableCell align="right">
+                        {t('profesores.detail.horas')}
+                      </TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {convocatoriasProfesor.map((convocatoria) => (
+                      <TableRow key={convocatoria.idConvocatoria}>
+                        <TableCell>
+                          <Link
+                            href={`/dashboard/convocatoria/${convocatoria.idConvocatoria}`}
+                          >
+                            {convocatoria.codigo}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{convocatoria.curso.nombre}</TableCell>
+                        <TableCell>{convocatoria.centro.nombre}</TableCell>
+                        <TableCell>
+                          {formatDate(convocatoria.fechaInicio, locale)}
+                        </TableCell>
+                        <TableCell>
+                          {formatDate(convocatoria.fechaFin, locale)}
+                        </TableCell>
+                        <TableCell align="right">
+                          {formatHoras(
+                            convocatoria.curso.duracionHoras ?? 0,
+                            locale
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+  Chip,
+  TextField,
+  InputAdornment,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import { getNombreUsuario, normalizeSearchText } from '@/shared/lib/utils';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useConvocatorias } from '@/features/convocatorias/hooks/use-convocatorias';
+import { useProfesores } from '../hooks/use-profesores';
+
+/**
+ * Directorio de profesores con el número de convocatorias activas asignadas
+ */
+export function ProfesorList() {
+  const { t } = useTranslation();
+  const { data: profesores, isLoading, error } = useProfesores();
+  const { data: convocatorias } = useConvocatorias(true);
+  const [search, setSearch] = useState('');
+
+  const convocatoriasPorProfesor = useMemo(() => {
+    const conteo = new Map<string, number>();
+    for (const convocatoria of convocatorias ?? []) {
+      const id = convocatoria.profesor.idUsuario;
+      conteo.set(id, (conteo.get(id) ?? 0) + 1);
+    }
+    return conteo;
+  }, [convocatorias]);
+
+  const filteredProfesores = useMemo(() => {
+    const term = normalizeSearchText(search.trim());
+    if (!term) return profesores ?? [];
+    return (profesores ?? []).filter((profesor) =>
+      [
+        getNombreUsuario(profesor),
+        profesor.email,
+        profesor.datosPersonales?.dni ?? '',
+      ].some((field) => normalizeSearchText(field).includes(term))
+    );
+  }, [profesores, search]);
+
+  if (isLoading) return <CircularProgress />;
+  if (error)
+    return <Alert severity="error">{t('profesores.list.error')}</Alert>;
+
+  return (
+    <>
+      <TextField
+        fullWidth
+        size="small"
+        placeholder={t('profesores.list.searchPlaceholder')}
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        sx={{ mb: 2 }}
+        slotProps={{
+          input: {
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          },
+        }}
+      />
+
+      {filteredProfesores.length === 0 ? (
+        <Alert severity="info">{t('profesores.list.empty')}</Alert>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('profesores.fields.nombre')}</TableCell>
+                <TableCell>{t('profesores.fields.email')}</TableCell>
+                <TableCell>{t('profesores.fields.telefono')}</TableCell>
+                <TableCell align="right">
+                  {t('profesores.fields.convocatoriasActivas')}
+                </TableCell>
+                <TableCell>{t('common.status')}</TableCell>
+                <TableCell align="right">{t('common.actions')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredProfesores.map((profesor) => (
+                <TableRow key={profesor.idUsuario}>
+                  <TableCell>{getNombreUsuario(profesor)}</TableCell>
+                  <TableCell>{profesor.email}</TableCell>
+                  <TableCell>
+                    {profesor.datosPersonales?.telefono || '-'}
+                  </TableCell>
+                  <TableCell align="right">
+                    {convocatoriasPorProfesor.get(profesor.idUsuario) ?? 0}
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={
+                        profesor.activo
+                          ? t('common.active')
+                          : t('common.inactive')
+                      }
+                      color={profesor.activo ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={t('profesores.list.viewProfile')}>
+                      <IconButton
+                        size="small"
+                        component={Link}
+                        href={`/dashboard/profesor/${profesor.idUsuario}`}
+                      >
+                        <VisibilityIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </>
+  );
+}
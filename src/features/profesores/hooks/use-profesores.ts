@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { profesorService } from '../services/profesor-service';
+
+export function useProfesores(activo?: boolean) {
+  return useQuery({
+    queryKey: ['profesores', activo],
+    queryFn: () => profesorService.getProfesores(activo),
+  });
+}
+
+export function useProfesor(id: string) {
+  return useQuery({
+    queryKey: ['profesor', id],
+    queryFn: () => profesorService.getProfesor(id),
+    enabled: !!id,
+  });
+}
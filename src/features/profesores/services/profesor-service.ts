@@ -0,0 +1,49 @@
+import { graphqlRequest } from '@/shared/lib/graphql/client';
+import type { Profesor } from '../types/profesor.types';
+
+const PROFESOR_FIELDS = `
+  idUsuario
+  email
+  activo
+  fechaCreacion
+  datosPersonales {
+    nombre
+    apellidos
+    dni
+    telefono
+  }
+`;
+
+const GET_PROFESORES_QUERY = `
+  query GetProfesores($activo: Boolean) {
+    usuarios(rol: PROFESOR, activo: $activo) {
+      ${PROFESOR_FIELDS}
+    }
+  }
+`;
+
+const GET_PROFESOR_QUERY = `
+  query GetProfesor($id: ID!) {
+    usuario(id: $id) {
+      ${PROFESOR_FIELDS}
+    }
+  }
+`;
+
+export const profesorService = {
+  async getProfesores(activo?: boolean): Promise<Profesor[]> {
+    const data = await graphqlRequest<{ usuarios: Profesor[] }>(
+      GET_PROFESORES_QUERY,
+      { activo }
+    );
+    return data.usuarios;
+  },
+
+  async getProfesor(id: string): Promise<Profesor> {
+    const data = await graphqlRequest<{ usuario: Profesor }>(
+      GET_PROFESOR_QUERY,
+      { id }
+    );
+    return data.usuario;
+  },
+};
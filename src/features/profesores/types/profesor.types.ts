@@ -0,0 +1,20 @@
+/**
+ * Profesor: usuario con rol PROFESOR
+ */
+export interface Profesor {
+  idUsuario: string;
+  email: string;
+  activo: boolean;
+  fechaCreacion: string;
+  datosPersonales?: {
+    nombre: string;
+    apellidos: string;
+    dni: string;
+    telefono?: string;
+  };
+}
+
+/**
+ * Horas asignadas a un profesor en un mes (clave YYYY-MM)
+ */
+export type CargaMensual = Record<string, number>;
@@ -0,0 +1,123 @@
+import type { Convocatoria } from '@/features/convocatorias/types/convocatoria.types';
+import { INTL_LOCALES, type Locale } from '@/shared/lib/i18n';
+import type { CargaMensual } from '../types/profesor.types';
+
+/**
+ * Horas mensuales a partir de las cuales se considera que un profesor está
+ * sobrecargado
+ */
+export const HORAS_MENSUALES_MAXIMAS = 80;
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+/**
+ * Convierte una fecha ISO a medianoche UTC para contar días sin desfases
+ * por zona horaria
+ */
+function toFechaUtc(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Clave de mes YYYY-MM de una fecha
+ */
+export function getMesKey(date: Date): string {
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  return `${date.getUTCFullYear()}-${month}`;
+}
+
+/**
+ * Desplaza una clave YYYY-MM n meses
+ */
+export function addMeses(mesKey: string, n: number): string {
+  const [year, month] = mesKey.split('-').map(Number);
+  return getMesKey(new Date(Date.UTC(year, month - 1 + n, 1)));
+}
+
+/**
+ * Nombre corto del mes, p. ej. "mar 2026"
+ */
+export function formatMes(mesKey: string, locale: Locale): string {
+  const [year, month] = mesKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString(
+    INTL_LOCALES[locale],
+    {
+      month: 'short',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }
+  );
+}
+
+export function formatHoras(horas: number, locale: Locale): string {
+  return `${horas.toLocaleString(INTL_LOCALES[locale], { maximumFractionDigits: 1 })} h`;
+}
+
+/**
+ * Reparte las horas del curso entre los meses que abarca la convocatoria,
+ * en proporción a los días de cada mes
+ */
+export function distribuirHorasPorMes(
+  convocatoria: Pick<Convocatoria, 'fechaInicio' | 'fechaFin' | 'curso'>
+): CargaMensual {
+  const horas = convocatoria.curso.duracionHoras ?? 0;
+  if (!horas || !convocatoria.fechaInicio || !convocatoria.fechaFin) {
+    return {};
+  }
+
+  const inicio = toFechaUtc(convocatoria.fechaInicio);
+  const fin = toFechaUtc(convocatoria.fechaFin);
+  const totalDias =
+    Math.round((fin.getTime() - inicio.getTime()) / MS_POR_DIA) + 1;
+  if (totalDias <= 0) {
+    return {};
+  }
+
+  const carga: CargaMensual = {};
+  let mes = getMesKey(inicio);
+  const ultimoMes = getMesKey(fin);
+  while (mes <= ultimoMes) {
+    const [year, month] = mes.split('-').map(Number);
+    const desde = Math.max(inicio.getTime(), Date.UTC(year, month - 1, 1));
+    const hasta = Math.min(fin.getTime(), Date.UTC(year, month, 0));
+    const dias = Math.round((hasta - desde) / MS_POR_DIA) + 1;
+    carga[mes] = (horas * dias) / totalDias;
+    mes = addMeses(mes, 1);
+  }
+  return carga;
+}
+
+/**
+ * Suma la carga mensual de un conjunto de convocatorias
+ */
+export function calcularCargaMensual(
+  convocatorias: Pick<Convocatoria, 'fechaInicio' | 'fechaFin' | 'curso'>[]
+): CargaMensual {
+  const carga: CargaMensual = {};
+  for (const convocatoria of convocatorias) {
+    for (const [mes, horas] of Object.entries(
+      distribuirHorasPorMes(convocatoria)
+    )) {
+      carga[mes] = (carga[mes] ?? 0) + horas;
+    }
+  }
+  return carga;
+}
+
+/**
+ * Indica si las fechas de una convocatoria se solapan con el rango de meses
+ */
+export function coincideConMeses(
+  convocatoria: Pick<Convocatoria, 'fechaInicio' | 'fechaFin'>,
+  desde: string,
+  hasta: string
+): boolean {
+  if (!convocatoria.fechaInicio || !convocatoria.fechaFin) {
+    return false;
+  }
+  return (
+    getMesKey(toFechaUtc(convocatoria.fechaInicio)) <= hasta &&
+    getMesKey(toFechaUtc(convocatoria.fechaFin)) >= desde
+  );
+}
@@ -1,14 +1,33 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { canAccessRoute } from '@/shared/lib/config/route-access';
+import { decodeJwt, getTokenRol, isTokenExpired } from '@/shared/lib/auth/jwt';
+import { buildLoginUrl } from '@/shared/lib/auth/redirect';
+
+/**
+ * URL de login que conserva la página solicitada para volver tras autenticarse
+ */
+function getLoginUrl(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  return new URL(buildLoginUrl(`${pathname}${search}`), request.url);
+}
+
+/**
+ * Redirige al login eliminando la cookie de un token inválido o expirado
+ */
+function redirectToLogin(request: NextRequest) {
+  const response = NextResponse.redirect(getLoginUrl(request));
+  response.cookies.delete('token');
+  return response;
+}
 
 export function middleware(request: NextRequest) {
   const token = request.cookies.get('token')?.value;
+  const { pathname } = request.nextUrl;
 
   // Rutas públicas
   const publicPaths = ['/login', '/register'];
-  const isPublicPath = publicPaths.some((path) =>
-    request.nextUrl.pathname.startsWith(path)
-  );
+  const isPublicPath = publicPaths.some((path) => pathname.startsWith(path));
 
   if (isPublicPath) {
     return NextResponse.next();
@@ -16,7 +35,19 @@ export function middleware(request: NextRequest) {
 
   // Si no hay token y no es ruta pública, redirigir a login
   if (!token) {
-    return NextResponse.redirect(new URL('/login', request.url));
+    return NextResponse.redirect(getLoginUrl(request));
+  }
+
+  const payload = decodeJwt(token);
+  if (!payload || isTokenExpired(payload)) {
+    return redirectToLogin(request);
+  }
+
+  // Sin permiso: se muestra la página 403 manteniendo la URL solicitada
+  if (!canAccessRoute(pathname, getTokenRol(payload))) {
+    return NextResponse.rewrite(new URL('/forbidden', request.url), {
+      status: 403,
+    });
   }
 
   return NextResponse.next();
@@ -24,4 +55,4 @@ export function middleware(request: NextRequest) {
 
 export const config = {
   matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
-};
\ No newline at end of file
+};
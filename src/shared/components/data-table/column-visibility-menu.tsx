@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Checkbox,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from '@mui/material';
+import ViewColumnIcon from '@mui/icons-material/ViewColumn';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import type { DataTableColumn } from './data-table.types';
+
+interface ColumnVisibilityMenuProps<TRow> {
+  columns: DataTableColumn<TRow>[];
+  hiddenColumns: ReadonlySet<string>;
+  onToggle: (columnId: string) => void;
+}
+
+/**
+ * Menú para mostrar u ocultar columnas de DataTable
+ * Siempre deja al menos una columna visible
+ */
+export function ColumnVisibilityMenu<TRow>({
+  columns,
+  hiddenColumns,
+  onToggle,
+}: ColumnVisibilityMenuProps<TRow>) {
+  const { t } = useTranslation();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const hideableColumns = columns.filter((column) => column.hideable !== false);
+  const visibleCount = columns.length - hiddenColumns.size;
+
+  if (hideableColumns.length === 0) return null;
+
+  return (
+    <>
+      <Tooltip title={t('dataTable.columns')}>
+        <IconButton size="small" onClick={(e) => setAnchorEl(e.currentTarget)}>
+          <ViewColumnIcon />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={!!anchorEl}
+        onClose={() => setAnchorEl(null)}
+      >
+        {hideableColumns.map((column) => {
+          const visible = !hiddenColumns.has(column.id);
+          return (
+            <MenuItem
+              key={column.id}
+              dense
+              disabled={visible && visibleCount <= 1}
+              onClick={() => onToggle(column.id)}
+            >
+              <ListItemIcon>
+                <Checkbox edge="start" size="small" checked={visible} />
+              </ListItemIcon>
+              <ListItemText>{column.header}</ListItemText>
+            </MenuItem>
+          );
+        })}
+      </Menu>
+    </>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import {
+  Box,
+  Card,
+  CardActions,
+  CardContent,
+  Checkbox,
+  Stack,
+  Typography,
+} from '@mui/material';
+import type { DataTableColumn } from './data-table.types';
+
+interface DataTableCardsProps<TRow> {
+  rows: TRow[];
+  columns: DataTableColumn<TRow>[];
+  getRowId: (row: TRow) => string;
+  isRowPending?: (row: TRow) => boolean;
+  selectable?: boolean;
+  selectedIds: ReadonlySet<string>;
+  onToggleRow: (id: string) => void;
+  renderRowActions?: (row: TRow) => ReactNode;
+}
+
+/**
+ * Vista de DataTable en pantallas pequeñas: una tarjeta por fila
+ * La columna primary hace de título y el resto se listan como etiqueta/valor
+ */
+export function DataTableCards<TRow>({
+  rows,
+  columns,
+  getRowId,
+  isRowPending,
+  selectable,
+  selectedIds,
+  onToggleRow,
+  renderRowActions,
+}: DataTableCardsProps<TRow>) {
+  const primary = columns.find((column) => column.primary) ?? columns[0];
+  const details = columns.filter((column) => column !== primary);
+
+  return (
+    <Stack spacing={1.5}>
+      {rows.map((row) => {
+        const id = getRowId(row);
+        const pending = isRowPending?.(row) ?? false;
+        return (
+          <Card
+            key={id}
+            variant="outlined"
+            aria-busy={pending || undefined}
+            sx={pending ? { opacity: 0.5 } : undefined}
+          >
+            <CardContent sx={{ pb: 1 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                {selectable && (
+                  <Checkbox
+                    size="small"
+                    edge="start"
+                    checked={!pending && selectedIds.has(id)}
+                    disabled={pending}
+                    onChange={() => onToggleRow(id)}
+                  />
+                )}
+                <Typography variant="subtitle1" component="div">
+                  {primary?.cell(row)}
+                </Typography>
+              </Box>
+              <Box
+                sx={{
+                  display: 'grid',
+                  gridTemplateColumns: 'auto 1fr',
+                  columnGap: 2,
+                  rowGap: 0.5,
+                  mt: 1,
+                }}
+              >
+                {details.map((column) => (
+                  <Box key={column.id} sx={{ display: 'contents' }}>
+                    <Typography variant="body2" color="text.secondary">
+                      {column.header}
+                    </Typography>
+                    <Typography variant="body2" component="div">
+                      {column.cell(row)}
+                    </Typography>
+                  </Box>
+                ))}
+              </Box>
+            </CardContent>
+            {renderRowActions && (
+              <CardActions sx={{ justifyContent: 'flex-end', pt: 0 }}>
+                {renderRowActions(row)}
+              </CardActions>
+            )}
+          </Card>
+        );
+      })}
+    </Stack>
+  );
+}
@@ -0,0 +1,443 @@
+'use client';
+
+import { useMemo, useState, type ReactNode } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  Tooltip,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { ColumnVisibilityMenu } from './column-visibility-menu';
+import { DataTableCards } from './data-table-cards';
+import type {
+  DataTableColumn,
+  DataTablePagination,
+  DataTableQuery,
+  DataTableSort,
+} from './data-table.types';
+
+/**
+ * getRows extrae las filas del resultado (p. ej. pagina.contenido)
+ * Solo es opcional cuando el resultado ya es el array de filas
+ */
+type DataTableRowsProps<TRow, TData> = [TData] extends [TRow[]]
+  ? { getRows?: (data: TData) => TRow[] }
+  : { getRows: (data: TData) => TRow[] };
+
+type DataTableProps<TRow, TData, TSortKey extends string> = DataTableRowsProps<
+  TRow,
+  TData
+> & {
+  query: DataTableQuery<TData>;
+  columns: DataTableColumn<TRow, TSortKey>[];
+  getRowId: (row: TRow) => string;
+  /** Filas pendientes de confirmar en el servidor: se atenúan y no se pueden seleccionar */
+  isRowPending?: (row: TRow) => boolean;
+  /** Orden controlado; sin onSortChange la tabla ordena en cliente */
+  sort?: DataTableSort<TSortKey>;
+  onSortChange?: (sort: DataTableSort<TSortKey>) => void;
+  pagination?: DataTablePagination;
+  selectable?: boolean;
+  renderBulkActions?: (
+    selectedRows: TRow[],
+    clearSelection: () => void
+  ) => ReactNode;
+  renderRowActions?: (row: TRow) => ReactNode;
+  /** Filtros u otros controles que se muestran encima de la tabla */
+  toolbar?: ReactNode;
+  /** Acciones de la tabla (exportar, etc.) junto al menú de columnas */
+  actions?: ReactNode;
+  emptyMessage?: string;
+  errorMessage?: string;
+};
+
+function compareValues(
+  a: string | number | null | undefined,
+  b: string | number | null | undefined
+): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return typeof a === 'string' && typeof b === 'string'
+    ? a.localeCompare(b, 'es')
+    : Number(a) - Number(b);
+}
+
+/**
+ * Tabla genérica de entidades sobre MUI, alimentada por un resultado de React Query
+ * Incluye orden, selección con acciones masivas, visibilidad de columnas,
+ * estados de carga/vacío/error y vista de tarjetas en móvil
+ */
+export function DataTable<
+  TRow,
+  TData = TRow[],
+  TSortKey extends string = string,
+>({
+  query,
+  getRows,
+  columns,
+  getRowId,
+  isRowPending,
+  sort,
+  onSortChange,
+  pagination,
+  selectable,
+  renderBulkActions,
+  renderRowActions,
+  toolbar,
+  actions,
+  emptyMessage,
+  errorMessage,
+}: DataTableProps<TRow, TData, TSortKey>) {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const [localSort, setLocalSort] = useState<DataTableSort<TSortKey> | null>(
+    null
+  );
+  const [hiddenColumns, setHiddenColumns] = useState<Set<string>>(
+    () =>
+      new Set(
+        columns
+          .filter((column) => column.hiddenByDefault)
+          .map((column) => column.id)
+      )
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, isFetching, error, refetch } = query;
+  const activeSort = onSortChange ? sort : localSort;
+
+  const rows = useMemo(() => {
+    if (data === undefined) return [];
+    // Sin getRows, DataTableRowsProps garantiza que data ya es TRow[]
+    const result = getRows ? getRows(data) : (data as TRow[]);
+    if (onSortChange || !localSort) return result;
+    const column = columns.find((item) => item.sortKey === localSort.field);
+    if (!column?.sortValue) return result;
+    const sign = localSort.order === 'asc' ? 1 : -1;
+    return [...result].sort(
+      (a, b) => sign * compareValues(column.sortValue!(a), column.sortValue!(b))
+    );
+  }, [data, getRows, onSortChange, localSort, columns]);
+
+  const visibleColumns = columns.filter(
+    (column) => !hiddenColumns.has(column.id)
+  );
+  const sortableColumns = columns.filter((column) => column.sortKey);
+  const selectableRows = isRowPending
+    ? rows.filter((row) => !isRowPending(row))
+    : rows;
+
+  // Solo cuentan las filas seleccionadas que siguen en la página actual
+  const selectedRows = selectableRows.filter((row) =>
+    selectedIds.has(getRowId(row))
+  );
+  const allSelected =
+    selectableRows.length > 0 && selectedRows.length === selectableRows.length;
+  const clearSelection = () => setSelectedIds(new Set());
+
+  const changeSort = (next: DataTableSort<TSortKey>) => {
+    if (onSortChange) {
+      onSortChange(next);
+    } else {
+      setLocalSort(next);
+    }
+  };
+
+  const toggleSort = (field: TSortKey) =>
+    changeSort({
+      field,
+      order:
+        activeSort?.field === field && activeSort.order === 'asc'
+          ? 'desc'
+          : 'asc',
+    });
+
+  const toggleRow = (id: string) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+
+  const toggleAll = () =>
+    setSelectedIds(
+      allSelected
+        ? new Set()
+        : new Set(selectableRows.map((row) => getRowId(row)))
+    );
+
+  const toggleColumn = (columnId: string) =>
+    setHiddenColumns((prev) => {
+      const next = new Set(prev);
+      if (next.has(columnId)) {
+        next.delete(columnId);
+      } else {
+        next.add(columnId);
+      }
+      return next;
+    });
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <Box display="flex" justifyContent="center" p={3}>
+          <CircularProgress />
+        </Box>
+      );
+    }
+    if (error) {
+      return (
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              {t('common.retry')}
+            </Button>
+          }
+        >
+          {errorMessage ?? t('dataTable.error')}
+        </Alert>
+      );
+    }
+    if (rows.length === 0) {
+      return (
+        <Alert severity="info">{emptyMessage ?? t('dataTable.empty')}</Alert>
+      );
+    }
+    if (isMobile) {
+      return (
+        <DataTableCards
+          rows={rows}
+          columns={visibleColumns}
+          getRowId={getRowId}
+          isRowPending={isRowPending}
+          selectable={selectable}
+          selectedIds={selectedIds}
+          onToggleRow={toggleRow}
+          renderRowActions={renderRowActions}
+        />
+      );
+    }
+    return (
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              {selectable && (
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={allSelected}
+                    indeterminate={selectedRows.length > 0 && !allSelected}
+                    onChange={toggleAll}
+                    slotProps={{
+                      input: { 'aria-label': t('dataTable.selectAll') },
+                    }}
+                  />
+                </TableCell>
+              )}
+              {visibleColumns.map((column) => {
+                const sorted =
+                  !!column.sortKey && activeSort?.field === column.sortKey;
+                return (
+                  <TableCell
+                    key={column.id}
+                    align={column.align}
+                    sortDirection={sorted ? activeSort.order : false}
+                  >
+                    {column.sortKey ? (
+                      <TableSortLabel
+                        active={sorted}
+                        direction={sorted ? activeSort.order : 'asc'}
+                        onClick={() => toggleSort(column.sortKey!)}
+                      >
+                        {column.header}
+                      </TableSortLabel>
+                    ) : (
+                      column.header
+                    )}
+                  </TableCell>
+                );
+              })}
+              {renderRowActions && (
+                <TableCell align="right">{t('common.actions')}</TableCell>
+              )}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row) => {
+              const id = getRowId(row);
+              const pending = isRowPending?.(row) ?? false;
+              const selected = !pending && selectedIds.has(id);
+              return (
+                <TableRow
+                  key={id}
+                  selected={selected}
+                  hover={!pending}
+                  aria-busy={pending || undefined}
+                  sx={pending ? { opacity: 0.5 } : undefined}
+                >
+                  {selectable && (
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={selected}
+                        disabled={pending}
+                        onChange={() => toggleRow(id)}
+                      />
+                    </TableCell>
+                  )}
+                  {visibleColumns.map((column) => (
+                    <TableCell key={column.id} align={column.align}>
+                      {column.cell(row)}
+                    </TableCell>
+                  ))}
+                  {renderRowActions && (
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      {renderRowActions(row)}
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    );
+  };
+
+  return (
+    <Box>
+      {toolbar}
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          mb: 1,
+          minHeight: 40,
+        }}
+      >
+        {selectable && isMobile && rows.length > 0 && (
+          <Checkbox
+            checked={allSelected}
+            indeterminate={selectedRows.length > 0 && !allSelected}
+            onChange={toggleAll}
+            slotProps={{
+              input: { 'aria-label': t('dataTable.selectAll') },
+            }}
+          />
+        )}
+        {selectedRows.length > 0 && (
+          <>
+            <Typography variant="body2" sx={{ mr: 1 }}>
+              {t('dataTable.selected', { count: selectedRows.length })}
+            </Typography>
+            {renderBulkActions?.(selectedRows, clearSelection)}
+          </>
+        )}
+        <Box sx={{ flexGrow: 1 }} />
+        {isMobile && sortableColumns.length > 0 && (
+          <>
+            <TextField
+              select
+              size="small"
+              label={t('dataTable.sortBy')}
+              value={activeSort?.field ?? ''}
+              onChange={(e) =>
+                changeSort({
+                  field: e.target.value as TSortKey,
+                  order: activeSort?.order ?? 'asc',
+                })
+              }
+              sx={{ minWidth: 140 }}
+            >
+              {sortableColumns.map((column) => (
+                <MenuItem key={column.id} value={column.sortKey}>
+                  {column.header}
+                </MenuItem>
+              ))}
+            </TextField>
+            {activeSort && (
+              <Tooltip
+                title={
+                  activeSort.order === 'asc'
+                    ? t('dataTable.ascending')
+                    : t('dataTable.descending')
+                }
+              >
+                <IconButton
+                  size="small"
+                  onClick={() => toggleSort(activeSort.field)}
+                >
+                  {activeSort.order === 'asc' ? (
+                    <ArrowUpwardIcon fontSize="small" />
+                  ) : (
+                    <ArrowDownwardIcon fontSize="small" />
+                  )}
+                </IconButton>
+              </Tooltip>
+            )}
+          </>
+        )}
+        {actions}
+        {!isMobile && (
+          <ColumnVisibilityMenu
+            columns={columns as DataTableColumn<TRow>[]}
+            hiddenColumns={hiddenColumns}
+            onToggle={toggleColumn}
+          />
+        )}
+      </Box>
+
+      {isFetching && !isLoading && <LinearProgress />}
+      {renderBody()}
+
+      {/* También con una página fuera de rango (?page=99) para poder volver */}
+      {pagination && pagination.count > 0 && (
+        <TablePagination
+          component="div"
+          count={pagination.count}
+          page={pagination.page}
+          rowsPerPage={pagination.pageSize}
+          rowsPerPageOptions={pagination.pageSizeOptions ?? [10, 25, 50]}
+          onPageChange={(_, page) => pagination.onPageChange(page)}
+          onRowsPerPageChange={(e) =>
+            pagination.onPageSizeChange(Number(e.target.value))
+          }
+          labelRowsPerPage={t(
+            isMobile ? 'dataTable.rowsPerPageShort' : 'dataTable.rowsPerPage'
+          )}
+          labelDisplayedRows={({ from, to, count }) =>
+            t('dataTable.displayedRows', { from, to, count })
+          }
+        />
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,49 @@
+import type { ReactNode } from 'react';
+import type { UseQueryResult } from '@tanstack/react-query';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface DataTableSort<TSortKey extends string = string> {
+  field: TSortKey;
+  order: SortOrder;
+}
+
+/**
+ * Definición de una columna de DataTable
+ */
+export interface DataTableColumn<TRow, TSortKey extends string = string> {
+  id: string;
+  header: string;
+  cell: (row: TRow) => ReactNode;
+  align?: 'left' | 'right' | 'center';
+  /** Campo de orden; sin él la columna no se puede ordenar */
+  sortKey?: TSortKey;
+  /** Valor para ordenar en cliente cuando la tabla no recibe onSortChange */
+  sortValue?: (row: TRow) => string | number | null | undefined;
+  /** false impide ocultar la columna desde el menú de columnas */
+  hideable?: boolean;
+  hiddenByDefault?: boolean;
+  /** Columna que se usa como título de la tarjeta en móvil */
+  primary?: boolean;
+}
+
+/**
+ * Paginación controlada (normalmente en el servidor)
+ */
+export interface DataTablePagination {
+  /** Página empezando en 0 */
+  page: number;
+  pageSize: number;
+  count: number;
+  pageSizeOptions?: number[];
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+/**
+ * Lo que DataTable usa del resultado de useQuery
+ */
+export type DataTableQuery<TData> = Pick<
+  UseQueryResult<TData>,
+  'data' | 'isLoading' | 'isFetching' | 'error' | 'refetch'
+>;
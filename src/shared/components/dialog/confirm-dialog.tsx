@@ -0,0 +1,63 @@
+'use client';
+
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+} from '@mui/material';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+
+interface ConfirmDialogProps {
+  open: boolean;
+  title: string;
+  message: React.ReactNode;
+  confirmLabel?: string;
+  confirmColor?: 'primary' | 'error' | 'warning';
+  isLoading?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Diálogo de confirmación para acciones destructivas o irreversibles
+ * Sustituye a window.confirm para mantener el estilo de Material UI
+ */
+export function ConfirmDialog({
+  open,
+  title,
+  message,
+  confirmLabel,
+  confirmColor = 'primary',
+  isLoading,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={open} onClose={isLoading ? undefined : onCancel}>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        <DialogContentText>{message}</DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} disabled={isLoading}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={onConfirm}
+          color={confirmColor}
+          variant="contained"
+          disabled={isLoading}
+        >
+          {isLoading
+            ? t('common.processing')
+            : (confirmLabel ?? t('common.confirm'))}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  FormLabel,
+  Radio,
+  RadioGroup,
+} from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import {
+  exportRows,
+  type ExportColumn,
+  type ExportFormat,
+} from '@/shared/lib/export';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import { useNotifications } from '@/shared/stores/notification-store';
+
+interface ExportButtonProps<TRow> {
+  columns: ExportColumn<TRow>[];
+  /** Filas a exportar; puede pedirlas al servidor para incluir todas las páginas */
+  getRows: () => TRow[] | Promise<TRow[]>;
+  /** Nombre base del fichero y de la hoja de Excel */
+  fileName: string;
+  disabled?: boolean;
+}
+
+/**
+ * Botón que abre un diálogo para elegir formato y columnas y descarga el listado
+ */
+export function ExportButton<TRow>({
+  columns,
+  getRows,
+  fileName,
+  disabled,
+}: ExportButtonProps<TRow>) {
+  const { t } = useTranslation();
+  const notifications = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [selected, setSelected] = useState<Set<string>>(
+    () =>
+      new Set(
+        columns
+          .filter((column) => !column.unselectedByDefault)
+          .map((column) => column.id)
+      )
+  );
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleColumn = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await getRows();
+      await exportRows({
+        rows,
+        columns: columns.filter((column) => selected.has(column.id)),
+        format,
+        fileName,
+      });
+      notifications.success(t('export.exported', { count: rows.length }));
+      setOpen(false);
+    } catch (error) {
+      notifications.error(
+        getGraphQLErrorMessage(error, t('export.error'), t('export.forbidden'))
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        startIcon={<FileDownloadIcon />}
+        disabled={disabled}
+        onClick={() => setOpen(true)}
+      >
+        {t('export.button')}
+      </Button>
+      <Dialog
+        open={open}
+        onClose={isExporting ? undefined : () => setOpen(false)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>{t('export.title')}</DialogTitle>
+        <DialogContent>
+          <FormLabel>{t('export.format')}</FormLabel>
+          <RadioGroup
+            row
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          >
+            <FormControlLabel
+              value="xlsx"
+              control={<Radio />}
+              label="Excel (.xlsx)"
+            />
+            <FormControlLabel value="csv" control={<Radio />} label="CSV" />
+          </RadioGroup>
+          <Box sx={{ mt: 2 }}>
+            <FormLabel>{t('export.columns')}</FormLabel>
+            <FormGroup>
+              {columns.map((column) => (
+                <FormControlLabel
+                  key={column.id}
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={selected.has(column.id)}
+                      onChange={() => toggleColumn(column.id)}
+                    />
+                  }
+                  label={column.header}
+                />
+              ))}
+            </FormGroup>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)} disabled={isExporting}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleExport}
+            disabled={isExporting || selected.size === 0}
+          >
+            {isExporting ? t('export.exporting') : t('export.button')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
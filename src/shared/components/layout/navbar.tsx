@@ -28,48 +28,60 @@ import DashboardIcon from '@mui/icons-material/Dashboard';
 import SchoolIcon from '@mui/icons-material/School';
 import PeopleIcon from '@mui/icons-material/People';
 import EventIcon from '@mui/icons-material/Event';
+import PersonIcon from '@mui/icons-material/Person';
 import BusinessIcon from '@mui/icons-material/Business';
+import CorporateFareIcon from '@mui/icons-material/CorporateFare';
+import CategoryIcon from '@mui/icons-material/Category';
+import ViewModuleIcon from '@mui/icons-material/ViewModule';
+import AssignmentIcon from '@mui/icons-material/Assignment';
+import ReceiptIcon from '@mui/icons-material/Receipt';
+import TranslateIcon from '@mui/icons-material/Translate';
+import CheckIcon from '@mui/icons-material/Check';
+import ContrastIcon from '@mui/icons-material/Contrast';
 import { useAuth } from '@/shared/contexts/auth-context';
-import { useUiStore } from '@/shared/stores/ui-store';
+import { useBranding } from '@/shared/contexts/branding-context';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { LOCALE_NAMES, LOCALES, type MessageKey } from '@/shared/lib/i18n';
+import { THEME_MODES, useUiStore } from '@/shared/stores/ui-store';
+import { ROUTE_ACCESS } from '@/shared/lib/config/route-access';
 
 const DRAWER_WIDTH = 240;
 
 /**
- * Items del menú de navegación
- * Se filtran según el rol del usuario
+ * Iconos del menú por ruta
+ * Las rutas y los roles que pueden verlas vienen de ROUTE_ACCESS
  */
-const menuItems = [
-  {
-    label: 'Dashboard',
-    path: '/dashboard',
-    icon: <DashboardIcon />,
-    roles: ['ADMIN', 'PROFESOR', 'ALUMNO', 'ADMINISTRATIVO'],
-  },
-  {
-    label: 'Cursos',
-    path: '/dashboard/curso',
-    icon: <SchoolIcon />,
-    roles: ['ADMIN', 'PROFESOR', 'ADMINISTRATIVO'],
-  },
-  {
-    label: 'Alumnos',
-    path: '/dashboard/alumno',
-    icon: <PeopleIcon />,
-    roles: ['ADMIN', 'PROFESOR', 'ADMINISTRATIVO'],
-  },
-  {
-    label: 'Convocatorias',
-    path: '/dashboard/convocatoria',
-    icon: <EventIcon />,
-    roles: ['ADMIN', 'PROFESOR', 'ADMINISTRATIVO'],
-  },
-  {
-    label: 'Centros',
-    path: '/dashboard/centro',
-    icon: <BusinessIcon />,
-    roles: ['ADMIN', 'ADMINISTRATIVO'],
-  },
-];
+const MENU_ICONS: Record<string, React.ReactNode> = {
+  '/dashboard': <DashboardIcon />,
+  '/dashboard/curso': <SchoolIcon />,
+  '/dashboard/alumno': <PeopleIcon />,
+  '/dashboard/convocatoria': <EventIcon />,
+  '/dashboard/profesor': <PersonIcon />,
+  '/dashboard/matricula': <AssignmentIcon />,
+  '/dashboard/factura': <ReceiptIcon />,
+  '/dashboard/centro': <BusinessIcon />,
+  '/dashboard/empresa': <CorporateFareIcon />,
+  '/dashboard/materia': <CategoryIcon />,
+  '/dashboard/formato': <ViewModuleIcon />,
+};
+
+/**
+ * Texto traducido de cada entrada del menú (ROUTE_ACCESS.label queda en español
+ * porque lo usa también el middleware)
+ */
+const MENU_LABELS: Record<string, MessageKey> = {
+  '/dashboard': 'nav.dashboard',
+  '/dashboard/curso': 'nav.cursos',
+  '/dashboard/alumno': 'nav.alumnos',
+  '/dashboard/convocatoria': 'nav.convocatorias',
+  '/dashboard/profesor': 'nav.profesores',
+  '/dashboard/matricula': 'nav.matriculas',
+  '/dashboard/factura': 'nav.facturas',
+  '/dashboard/centro': 'nav.centros',
+  '/dashboard/empresa': 'nav.empresas',
+  '/dashboard/materia': 'nav.materias',
+  '/dashboard/formato': 'nav.formatos',
+};
 
 export function Navbar() {
   const router = useRouter();
@@ -78,14 +90,21 @@ export function Navbar() {
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
 
   const { user, logout, isAuthenticated } = useAuth();
-  const { isSidebarOpen, setSidebarOpen } = useUiStore();
+  const { t, locale, setLocale } = useTranslation();
+  const branding = useBranding();
+  const { isSidebarOpen, setSidebarOpen, themeMode, setThemeMode } =
+    useUiStore();
 
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
 
   // Filtrar items del menú según el rol del usuario
-  const filteredMenuItems = menuItems.filter((item) =>
-    user?.rol ? item.roles.includes(user.rol) : false
-  );
+  const filteredMenuItems = ROUTE_ACCESS.filter((route) =>
+    user?.rol ? route.roles.includes(user.rol) : false
+  ).map((route) => ({
+    ...route,
+    label: MENU_LABELS[route.path] ? t(MENU_LABELS[route.path]) : route.label,
+    icon: MENU_ICONS[route.path],
+  }));
 
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget);
@@ -116,6 +135,7 @@ export function Navbar() {
     <>
       <AppBar
         position="fixed"
+        enableColorOnDark
         sx={{ zIndex: (theme) => theme.zIndex.drawer + 1 }}
       >
         <Toolbar>
@@ -129,9 +149,26 @@ export function Navbar() {
               <MenuIcon />
             </IconButton>
           ) : (
-            <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
-              Academia Multi-Centro
-            </Typography>
+            <Box
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1.5,
+                flexGrow: 1,
+              }}
+            >
+              {branding.logoUrl && (
+                <Box
+                  component="img"
+                  src={branding.logoUrl}
+                  alt=""
+                  sx={{ height: 32, width: 'auto' }}
+                />
+              )}
+              <Typography variant="h6" component="div">
+                {branding.appName}
+              </Typography>
+            </Box>
           )}
 
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
@@ -151,7 +188,7 @@ export function Navbar() {
                 {user?.nombre?.charAt(0).toUpperCase() ||
                   user?.email?.charAt(0).toUpperCase()}
               </Avatar>
-            </IconButton> 
+            </IconButton>
           </Box>
 
           <Menu
@@ -159,11 +196,56 @@ export function Navbar() {
             open={Boolean(anchorEl)}
             onClose={handleMenuClose}
           >
+            <MenuItem disabled dense>
+              <ListItemIcon>
+                <TranslateIcon fontSize="small" />
+              </ListItemIcon>
+              <ListItemText>{t('nav.language')}</ListItemText>
+            </MenuItem>
+            {LOCALES.map((item) => (
+              <MenuItem
+                key={item}
+                selected={item === locale}
+                lang={item}
+                onClick={() => {
+                  handleMenuClose();
+                  setLocale(item);
+                }}
+              >
+                <ListItemIcon>
+                  {item === locale && <CheckIcon fontSize="small" />}
+                </ListItemIcon>
+                <ListItemText>{LOCALE_NAMES[item]}</ListItemText>
+              </MenuItem>
+            ))}
+            <Divider />
+            <MenuItem disabled dense>
+              <ListItemIcon>
+                <ContrastIcon fontSize="small" />
+              </ListItemIcon>
+              <ListItemText>{t('nav.theme')}</ListItemText>
+            </MenuItem>
+            {THEME_MODES.map((mode) => (
+              <MenuItem
+                key={mode}
+                selected={mode === themeMode}
+                onClick={() => {
+                  handleMenuClose();
+                  setThemeMode(mode);
+                }}
+              >
+                <ListItemIcon>
+                  {mode === themeMode && <CheckIcon fontSize="small" />}
+                </ListItemIcon>
+                <ListItemText>{t(`nav.themeModes.${mode}`)}</ListItemText>
+              </MenuItem>
+            ))}
+            <Divider />
             <MenuItem onClick={handleLogout}>
               <ListItemIcon>
                 <LogoutIcon fontSize="small" />
               </ListItemIcon>
-              <ListItemText>Cerrar Sesión</ListItemText>
+              <ListItemText>{t('nav.logout')}</ListItemText>
             </MenuItem>
           </Menu>
         </Toolbar>
@@ -230,7 +312,7 @@ export function Navbar() {
                   <ListItemIcon>
                     <LogoutIcon />
                   </ListItemIcon>
-                  <ListItemText primary="Cerrar Sesión" />
+                  <ListItemText primary={t('nav.logout')} />
                 </ListItemButton>
               </ListItem>
             </List>
@@ -0,0 +1,60 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Alert, Button } from '@mui/material';
+import { useAuth } from '@/shared/contexts/auth-context';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { useOnlineStatus } from '@/shared/hooks/use-online-status';
+import { useOfflineQueueStore } from '@/shared/stores/offline-queue-store';
+import { OfflineQueueDialog } from './offline-queue-dialog';
+
+/**
+ * Aviso de trabajo sin conexión y de cambios pendientes o fallidos al enviarse
+ */
+export function OfflineBanner() {
+  const { t } = useTranslation();
+  const isOnline = useOnlineStatus();
+  const { user } = useAuth();
+  const allItems = useOfflineQueueStore((state) => state.items);
+  const [isQueueOpen, setQueueOpen] = useState(false);
+
+  const items = useMemo(
+    () => allItems.filter((item) => item.userId === user?.id),
+    [allItems, user?.id]
+  );
+  const failedCount = items.filter(
+    (item) => item.status === 'conflict' || item.status === 'error'
+  ).length;
+
+  const reviewButton = (
+    <Button color="inherit" size="small" onClick={() => setQueueOpen(true)}>
+      {t('offline.review')}
+    </Button>
+  );
+
+  return (
+    <>
+      {!isOnline && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 2 }}
+          action={items.length > 0 ? reviewButton : undefined}
+        >
+          {t('offline.banner')}
+          {items.length > 0 &&
+            ` (${t('offline.pendingCount', { count: items.length })})`}
+        </Alert>
+      )}
+      {isOnline && failedCount > 0 && (
+        <Alert severity="error" sx={{ mb: 2 }} action={reviewButton}>
+          {t('offline.failed', { count: failedCount })}
+        </Alert>
+      )}
+      <OfflineQueueDialog
+        open={isQueueOpen}
+        items={items}
+        onClose={() => setQueueOpen(false)}
+      />
+    </>
+  );
+}
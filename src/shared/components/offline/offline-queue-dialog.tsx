@@ -0,0 +1,127 @@
+'use client';
+
+import {
+  Alert,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+} from '@mui/material';
+import ReplayIcon from '@mui/icons-material/Replay';
+import DeleteIcon from '@mui/icons-material/Delete';
+import {
+  useOfflineQueueStore,
+  type QueuedMutation,
+  type QueuedMutationStatus,
+} from '@/shared/stores/offline-queue-store';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import { INTL_LOCALES } from '@/shared/lib/i18n';
+
+const STATUS_COLORS: Record<
+  QueuedMutationStatus,
+  'default' | 'info' | 'warning' | 'error'
+> = {
+  pending: 'default',
+  syncing: 'info',
+  conflict: 'warning',
+  error: 'error',
+};
+
+interface OfflineQueueDialogProps {
+  open: boolean;
+  items: QueuedMutation[];
+  onClose: () => void;
+}
+
+/**
+ * Cambios hechos sin conexión con su estado de envío
+ * Los que chocaron con otros datos o fallaron se pueden reintentar o descartar
+ */
+export function OfflineQueueDialog({
+  open,
+  items,
+  onClose,
+}: OfflineQueueDialogProps) {
+  const { t, locale } = useTranslation();
+  const setStatus = useOfflineQueueStore((state) => state.setStatus);
+  const remove = useOfflineQueueStore((state) => state.remove);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{t('offline.queueTitle')}</DialogTitle>
+      <DialogContent>
+        {items.length === 0 ? (
+          <Alert severity="success">{t('offline.queueEmpty')}</Alert>
+        ) : (
+          <List disablePadding>
+            {items.map((item) => {
+              const failed =
+                item.status === 'conflict' || item.status === 'error';
+              return (
+                <ListItem
+                  key={item.id}
+                  divider
+                  secondaryAction={
+                    failed && (
+                      <>
+                        <Tooltip title={t('common.retry')}>
+                          <IconButton
+                            size="small"
+                            onClick={() => setStatus(item.id, 'pending')}
+                          >
+                            <ReplayIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title={t('common.discard')}>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => remove(item.id)}
+                          >
+                            <DeleteIcon />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    )
+                  }
+                  sx={{ pr: failed ? 12 : 2 }}
+                >
+                  <ListItemText
+                    primary={item.label}
+                    secondary={
+                      item.error ??
+                      new Date(item.createdAt).toLocaleString(
+                        INTL_LOCALES[locale]
+                      )
+                    }
+                    slotProps={{
+                      secondary: {
+                        color: failed ? 'error' : 'text.secondary',
+                      },
+                    }}
+                  />
+                  <Chip
+                    label={t(`offline.status.${item.status}`)}
+                    color={STATUS_COLORS[item.status]}
+                    size="small"
+                    sx={{ ml: 1 }}
+                  />
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
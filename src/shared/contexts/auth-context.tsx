@@ -8,83 +8,120 @@ import {
   useMemo,
   useEffect,
 } from 'react';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
 import { User, AuthContextType } from '../types/auth.types';
 import { authService } from '@/features/auth/services/auth.service';
+import type { AuthResponse } from '@/features/auth/types/auth.types';
+import { getSafeRedirect, REDIRECT_PARAM } from '@/shared/lib/auth/redirect';
+import { t } from '@/shared/lib/i18n';
+import { queryPersister } from '@/shared/lib/react-query/persister';
+import {
+  clearSession,
+  getSessionToken,
+  getStoredSession,
+  onSessionChange,
+  saveSession,
+  type StoredSession,
+} from '@/shared/lib/auth/session';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 /**
- * Helper para sincronizar token entre localStorage y cookies
- * Esto permite que el middleware (que lee cookies) y el cliente (que lee localStorage) estén sincronizados
+ * Mapea la respuesta plana del backend al tipo User interno de la aplicación
  */
-function setAuthToken(token: string | null): void {
-  if (typeof window === 'undefined') return;
-
-  if (token) {
-    localStorage.setItem('token', token);
-    // Establecer cookie para que el middleware pueda leerla
-    document.cookie = `token=${token}; path=/; max-age=${60 * 60 * 24 * 7}; SameSite=Lax`;
-  } else {
-    localStorage.removeItem('token');
-    // Eliminar cookie
-    document.cookie = 'token=; path=/; max-age=0';
-  }
-}
-
-function getAuthToken(): string | null {
-  if (typeof window === 'undefined') return null;
-  return localStorage.getItem('token');
-}
-
-/**
- * Helper para guardar datos del usuario en localStorage
- */
-function setUserData(user: User | null): void {
-  if (typeof window === 'undefined') return;
-  if (user) {
-    localStorage.setItem('user', JSON.stringify(user));
-  } else {
-    localStorage.removeItem('user');
-  }
-}
-
-/**
- * Helper para obtener datos del usuario desde localStorage
- */
-function getUserData(): User | null {
-  if (typeof window === 'undefined') return null;
-  const storedUser = localStorage.getItem('user');
-  if (!storedUser) return null;
-  try {
-    return JSON.parse(storedUser) as User;
-  } catch {
-    return null;
+function toUser(response: AuthResponse): User {
+  if (!response.email || !response.rol || !response.nombre) {
+    throw new Error(t('auth.errors.incompleteUser'));
   }
+  return {
+    // El backend no envía ID, usamos el email como identificador temporal
+    // En producción, el backend debería enviar un ID único
+    id: response.email, // TODO: Usar ID real cuando el backend lo proporcione
+    email: response.email,
+    nombre: response.nombre,
+    rol: response.rol as User['rol'], // Type assertion porque sabemos que es válido
+  };
 }
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const router = useRouter();
+  const pathname = usePathname();
+  const queryClient = useQueryClient();
+
+  /**
+   * Refleja en el estado de React una sesión guardada (o su ausencia)
+   */
+  const setSessionState = useCallback((session: StoredSession | null) => {
+    setToken(session?.token ?? null);
+    setUser(session?.user ?? null);
+    setExpiresAt(session?.expiresAt ?? null);
+  }, []);
+
+  /**
+   * No dejar datos del usuario en memoria ni en la caché guardada en IndexedDB
+   */
+  const clearUserData = useCallback(() => {
+    queryClient.clear();
+    void queryPersister.removeClient();
+  }, [queryClient]);
+
+  /**
+   * Guarda en estado y en localStorage la sesión devuelta por login o refresh
+   */
+  const applyAuthResponse = useCallback((response: AuthResponse) => {
+    if (!response.token) {
+      throw new Error(t('auth.errors.missingToken'));
+    }
+    const userData = toUser(response);
+    // expiresIn viene en milisegundos
+    const sessionExpiresAt = response.expiresIn
+      ? Date.now() + response.expiresIn
+      : null;
+
+    const session: StoredSession = {
+      token: response.token,
+      user: userData,
+      expiresAt: sessionExpiresAt,
+    };
+    saveSession(session);
+    setSessionState(session);
+  }, [setSessionState]);
 
   useEffect(() => {
-    const storedToken = getAuthToken();
-    const storedUser = getUserData();
-    
-    if (storedToken && storedUser) {
+    const storedSession = getStoredSession();
+
+    if (storedSession) {
       // Restaurar sesión desde localStorage
-      setToken(storedToken);
-      setUser(storedUser);
-    } else if (storedToken && !storedUser) {
+      setSessionState(storedSession);
+    } else if (getSessionToken()) {
       // Token existe pero no hay datos de usuario (sesión inconsistente)
       // Limpiar token inválido
-      setAuthToken(null);
+      clearSession();
     }
     
     setIsLoading(false);
-  }, []);
+  }, [setSessionState]);
+
+  // Sincronizar con las otras pestañas: un logout en cualquiera bloquea
+  // todas, y un login o una renovación se comparten sin recargar
+  useEffect(
+    () =>
+      onSessionChange((session) => {
+        setSessionState(session);
+        if (!session) {
+          clearUserData();
+          router.replace('/login');
+        } else if (pathname.startsWith('/login')) {
+          router.replace('/dashboard');
+        }
+      }),
+    [router, pathname, setSessionState, clearUserData]
+  );
 
   const login = useCallback(
     async (email: string, password: string) => {
@@ -95,50 +132,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         // 2. Validar que la respuesta tenga la estructura esperada
         if (!response) {
-          throw new Error('Respuesta vacía del servidor');
+          throw new Error(t('auth.errors.emptyResponse'));
         }
 
         if (!response.token) {
-          throw new Error('No se recibió token de autenticación');
+          throw new Error(t('auth.errors.missingToken'));
         }
 
         if (!response.email || !response.rol || !response.nombre) {
-          throw new Error('Datos de usuario incompletos en la respuesta');
+          throw new Error(t('auth.errors.incompleteUser'));
         }
 
-        const authToken = response.token;
-
-        // 3. Mapear respuesta del backend al tipo User interno de la aplicación
-        // El backend devuelve estructura plana: { token, email, rol, nombre }
-        // Lo convertimos a: { id, email, nombre, rol } para el contexto
-        const userData: User = {
-          // El backend no envía ID, usamos el email como identificador temporal
-          // En producción, el backend debería enviar un ID único
-          id: response.email, // TODO: Usar ID real cuando el backend lo proporcione
-          email: response.email,
-          nombre: response.nombre,
-          rol: response.rol as User['rol'], // Type assertion porque sabemos que es válido
-        };
-
-        // 4. Guardar token y datos de usuario en el estado
-        setToken(authToken);
-        setUser(userData);
-
-        // 5. Persistir token y datos de usuario en localStorage
+        // 3. Guardar token, usuario y expiración en estado y localStorage
         // Esto permite restaurar la sesión al recargar la página
-        setAuthToken(authToken);
-        setUserData(userData);
-
-        // 6. Redirigir al dashboard después de login exitoso
-        router.push('/dashboard');
+        applyAuthResponse(response);
+        // La caché (también la guardada en IndexedDB) puede ser de otro usuario
+        clearUserData();
+
+        // 4. Volver a la página que pidió el login, o al dashboard
+        const redirect = new URLSearchParams(window.location.search).get(
+          REDIRECT_PARAM
+        );
+        router.push(getSafeRedirect(redirect));
       } catch (error) {
         // Si hay error, limpiar estado de autenticación
-        setToken(null);
-        setUser(null);
-        setAuthToken(null);
+        clearSession();
+        setSessionState(null);
 
         // Extraer mensaje de error apropiado
-        let errorMessage = 'Error al iniciar sesión';
+        let errorMessage = t('auth.errors.loginFailed');
         if (error instanceof Error) {
           errorMessage = error.message;
         } else if (typeof error === 'object' && error !== null) {
@@ -154,27 +176,68 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setIsLoading(false);
       }
     },
-    [router]
+    [router, applyAuthResponse, setSessionState, clearUserData]
+  );
+
+  /**
+   * Renueva la sesión con la contraseña sin salir de la página actual,
+   * conservando lo que el usuario estuviera editando
+   */
+  const reauthenticate = useCallback(
+    async (password: string) => {
+      if (!user) {
+        throw new Error(t('auth.session.noSession'));
+      }
+      const response = await authService.login({ email: user.email, password });
+      applyAuthResponse(response);
+    },
+    [user, applyAuthResponse]
   );
 
+  /**
+   * Intenta renovar el token sin pedir credenciales
+   * Devuelve false si el backend no lo soporta o la renovación falla
+   */
+  const refreshSession = useCallback(async () => {
+    try {
+      const response = await authService.refresh();
+      if (!response) return false;
+      applyAuthResponse(response);
+      return true;
+    } catch {
+      return false;
+    }
+  }, [applyAuthResponse]);
+
   const logout = useCallback(() => {
-    setToken(null);
-    setUser(null);
-    setAuthToken(null);
-    setUserData(null);
+    clearSession();
+    clearUserData();
+    setSessionState(null);
     router.push('/login');
-  }, [router]);
+  }, [router, setSessionState, clearUserData]);
 
   const value = useMemo(
     () => ({
       user,
       token,
+      expiresAt,
       login,
       logout,
+      reauthenticate,
+      refreshSession,
       isAuthenticated: !!token,
       isLoading,
     }),
-    [user, token, login, logout, isLoading]
+    [
+      user,
+      token,
+      expiresAt,
+      login,
+      logout,
+      reauthenticate,
+      refreshSession,
+      isLoading,
+    ]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
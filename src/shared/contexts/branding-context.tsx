@@ -0,0 +1,85 @@
+'use client';
+
+import { createContext, useContext, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { useGraphQLQuery } from '@/shared/hooks/use-graphql-query';
+import { hasBackendExtension } from '@/shared/lib/config/backend-extensions';
+import {
+  getBranding,
+  saveBrandingCookie,
+  type Branding,
+} from '@/shared/lib/config/branding';
+import { useAuth } from './auth-context';
+
+const GET_CENTRO_USUARIO_QUERY = `
+  query GetCentroUsuario {
+    usuarioActual {
+      centro {
+        idCentro
+      }
+    }
+  }
+`;
+
+interface CentroUsuarioResponse {
+  usuarioActual: { centro: { idCentro: string } | null };
+}
+
+/**
+ * Usuario.centro aún no está en el backend (schema.extensions.graphql): sin
+ * él no se pide y todos los usuarios ven la marca por defecto
+ */
+const CENTRO_BRANDING_ENABLED = hasBackendExtension('usuarioCentro');
+
+const BrandingContext = createContext<Branding | undefined>(undefined);
+
+/**
+ * Marca del centro del usuario de la sesión
+ * El servidor pinta la del centro guardado en la cookie, así no hay parpadeo
+ * al cargar; si el centro de la sesión es otro (login, logout) se guarda y se
+ * refresca la página para que el servidor actualice también el título
+ */
+export function BrandingProvider({
+  idCentro: requestCentro,
+  children,
+}: {
+  idCentro: string | null;
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
+  const { isAuthenticated, isLoading } = useAuth();
+  const { data } = useGraphQLQuery<CentroUsuarioResponse>(
+    GET_CENTRO_USUARIO_QUERY,
+    undefined,
+    { enabled: CENTRO_BRANDING_ENABLED && isAuthenticated, staleTime: Infinity }
+  );
+
+  let idCentro = requestCentro;
+  if (!CENTRO_BRANDING_ENABLED || (!isLoading && !isAuthenticated)) {
+    idCentro = null;
+  } else if (isAuthenticated && data) {
+    idCentro = data.usuarioActual.centro?.idCentro ?? null;
+  }
+
+  useEffect(() => {
+    if (idCentro === requestCentro) return;
+    saveBrandingCookie(idCentro);
+    router.refresh();
+  }, [idCentro, requestCentro, router]);
+
+  const branding = useMemo(() => getBranding(idCentro), [idCentro]);
+
+  return (
+    <BrandingContext.Provider value={branding}>
+      {children}
+    </BrandingContext.Provider>
+  );
+}
+
+export function useBranding() {
+  const context = useContext(BrandingContext);
+  if (context === undefined) {
+    throw new Error('useBranding must be used within a BrandingProvider');
+  }
+  return context;
+}
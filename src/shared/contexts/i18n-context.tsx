@@ -0,0 +1,65 @@
+'use client';
+
+import { createContext, useCallback, useContext, useMemo } from 'react';
+import {
+  MESSAGES,
+  saveLocaleCookie,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+  type Translate,
+} from '@/shared/lib/i18n';
+import { translate } from '@/shared/lib/i18n/translate';
+
+interface I18nContextType {
+  locale: Locale;
+  t: Translate;
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+/**
+ * Idioma de la aplicación, decidido en el servidor (cookie o Accept-Language)
+ */
+export function I18nProvider({
+  locale,
+  children,
+}: {
+  locale: Locale;
+  children: React.ReactNode;
+}) {
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) =>
+      translate(MESSAGES[locale], key, params),
+    [locale]
+  );
+
+  /**
+   * Cambiar de idioma recarga la página: así el servidor pinta <html lang>
+   * y todos los textos e importes ya formateados salen en el nuevo idioma
+   */
+  const setLocale = useCallback(
+    (next: Locale) => {
+      if (next === locale) return;
+      saveLocaleCookie(next);
+      window.location.reload();
+    },
+    [locale]
+  );
+
+  const value = useMemo(
+    () => ({ locale, t, setLocale }),
+    [locale, t, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useTranslation() {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within an I18nProvider');
+  }
+  return context;
+}
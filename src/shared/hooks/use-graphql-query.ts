@@ -1,17 +1,30 @@
 import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import { getOperationAST, print } from 'graphql';
+import type { TypedDocumentNode } from '@graphql-typed-document-node/core';
 import { graphqlRequest } from '@/shared/lib/graphql/client';
 
+/**
+ * Clave de caché de una operación: su nombre si es un documento, el texto si es un string
+ */
+function getOperationKey(query: string | TypedDocumentNode<unknown, never>) {
+  if (typeof query === 'string') return query;
+  return getOperationAST(query)?.name?.value ?? print(query);
+}
+
 export function useGraphQLQuery<
   TData,
-  TVariables extends Record<string, unknown> = Record<string, unknown>
+  TVariables extends Record<string, unknown> = Record<string, unknown>,
 >(
-  query: string,
+  query: string | TypedDocumentNode<TData, TVariables>,
   variables?: TVariables,
   options?: Omit<UseQueryOptions<TData>, 'queryKey' | 'queryFn'>
 ) {
   return useQuery<TData>({
-    queryKey: [query, variables],
-    queryFn: () => graphqlRequest<TData>(query, variables),
+    queryKey: [getOperationKey(query), variables],
+    queryFn: () =>
+      typeof query === 'string'
+        ? graphqlRequest<TData>(query, variables)
+        : graphqlRequest(query, variables),
     ...options,
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/shared/contexts/auth-context';
+import { t } from '@/shared/lib/i18n';
+import {
+  replayOfflineQueue,
+  type OfflineMutationHandlers,
+} from '@/shared/lib/offline/mutation-queue';
+import { useNotificationStore } from '@/shared/stores/notification-store';
+import { useOfflineQueueStore } from '@/shared/stores/offline-queue-store';
+import { useOnlineStatus } from './use-online-status';
+
+/**
+ * Reenvía la cola de cambios sin conexión al recuperar la conexión
+ * (o al entrar con cambios ya pendientes) y resume el resultado en un aviso
+ * Los handlers deben ser estables (definidos fuera del componente)
+ */
+export function useOfflineSync(handlers: OfflineMutationHandlers) {
+  const queryClient = useQueryClient();
+  const addNotification = useNotificationStore(
+    (state) => state.addNotification
+  );
+  const { user } = useAuth();
+  const isOnline = useOnlineStatus();
+  const userId = user?.id;
+  const pendingCount = useOfflineQueueStore(
+    (state) =>
+      state.items.filter(
+        (item) => item.userId === userId && item.status === 'pending'
+      ).length
+  );
+  const isReplaying = useRef(false);
+
+  useEffect(() => {
+    if (!isOnline || !userId || pendingCount === 0 || isReplaying.current) {
+      return;
+    }
+    isReplaying.current = true;
+    replayOfflineQueue(queryClient, handlers, userId)
+      .then(({ synced, conflicts, errors }) => {
+        if (synced > 0) {
+          addNotification({
+            message: t('offline.synced', { count: synced }),
+            type: 'success',
+          });
+        }
+        if (conflicts + errors > 0) {
+          addNotification({
+            message: t('offline.syncFailed', { count: conflicts + errors }),
+            type: 'warning',
+          });
+        }
+      })
+      .finally(() => {
+        isReplaying.current = false;
+      });
+  }, [isOnline, userId, pendingCount, queryClient, handlers, addNotification]);
+}
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+
+/**
+ * Estado de la conexión según React Query, que es quien pausa y reanuda las queries
+ */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(
+    (onChange) => onlineManager.subscribe(onChange),
+    () => onlineManager.isOnline(),
+    () => true
+  );
+}
@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { applyServerFieldErrors } from '@/shared/lib/errors/form-errors';
+
+/**
+ * Refleja en los campos del formulario los errores de validación de una mutation
+ * Pensado para formularios que reciben `mutation.error` desde el componente padre
+ */
+export function useServerFieldErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly Path<T>[]
+) {
+  useEffect(() => {
+    if (error) {
+      applyServerFieldErrors(error, setError, fields);
+    }
+  }, [error, setError, fields]);
+}
@@ -1,5 +1,8 @@
 import axios, { AxiosError } from 'axios';
 import { env } from '@/shared/lib/config/env';
+import { expireSession, getSessionToken } from '@/shared/lib/auth/session';
+import { toAppError } from '@/shared/lib/errors/error-handler';
+import { ErrorType } from '@/shared/lib/errors/error-types';
 
 export const apiClient = axios.create({
   baseURL: env.apiUrl,
@@ -11,11 +14,9 @@ export const apiClient = axios.create({
 // Interceptor para agregar token
 apiClient.interceptors.request.use(
   (config) => {
-    if (typeof window !== 'undefined') {
-      const token = localStorage.getItem('token');
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
+    const token = getSessionToken();
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
     }
     return config;
   },
@@ -30,46 +31,18 @@ apiClient.interceptors.response.use(
     return response;
   },
   (error: AxiosError) => {
-    // Si no hay respuesta del servidor (conexión fallida, timeout, etc.)
-    if (!error.response) {
-      return Promise.reject(
-        new Error('No se pudo conectar con el servidor. Verifica tu conexión.')
-      );
-    }
-
-    // Manejar diferentes códigos de estado
-    const status = error.response.status;
-    const data = error.response.data as { message?: string } | undefined;
+    const appError = toAppError(error);
     const url = error.config?.url || '';
 
-    switch (status) {
-      case 401:
-        // No limpiar sesión si es una petición de login/register (401 esperado por credenciales incorrectas)
-        const isAuthEndpoint = url.includes('/api/auth/login') || url.includes('/api/auth/register');
-        
-        if (!isAuthEndpoint && typeof window !== 'undefined') {
-          console.warn('[Axios] Token expirado detectado (401), redirigiendo a login');
-          // Token expirado: limpiar sesión y redirigir a login
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
-          document.cookie = 'token=; path=/; max-age=0; SameSite=Lax';
-          document.cookie = 'token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT; SameSite=Lax';
-          
-          // Redirigir a login usando replace para evitar que el usuario pueda volver atrás
-          window.location.replace('/login');
-        }
-        
-        return Promise.reject(new Error(data?.message || 'No autorizado'));
-      case 403:
-        return Promise.reject(new Error(data?.message || 'Acceso denegado'));
-      case 404:
-        return Promise.reject(new Error(data?.message || 'Recurso no encontrado'));
-      case 500:
-        return Promise.reject(new Error(data?.message || 'Error interno del servidor'));
-      default:
-        return Promise.reject(
-          new Error(data?.message || `Error: ${status}`)
-        );
+    // No limpiar sesión si es una petición de login/register (401 esperado por credenciales incorrectas)
+    const isAuthEndpoint = url.includes('/api/auth/login') || url.includes('/api/auth/register') || url.includes('/api/auth/refresh');
+
+    if (appError.type === ErrorType.UNAUTHENTICATED && !isAuthEndpoint && typeof window !== 'undefined') {
+      console.warn('[Axios] Token expirado detectado (401), redirigiendo a login');
+      // Token expirado: limpiar sesión y redirigir a login
+      expireSession();
     }
+
+    return Promise.reject(appError);
   }
 );
\ No newline at end of file
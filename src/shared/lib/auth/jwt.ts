@@ -0,0 +1,57 @@
+import type { Rol } from '@/shared/types/auth.types';
+
+const ROLES: Rol[] = ['ADMIN', 'PROFESOR', 'ALUMNO', 'ADMINISTRATIVO'];
+
+interface JwtPayload {
+  sub?: string;
+  exp?: number;
+  rol?: string;
+  role?: string;
+  roles?: string[];
+  authorities?: Array<string | { authority?: string }>;
+}
+
+/**
+ * Decodifica el payload de un JWT sin verificar la firma
+ * La verificación la hace el backend en cada petición; aquí solo se usa para
+ * decidir la navegación. Compatible con el runtime edge del middleware
+ */
+export function decodeJwt(token: string): JwtPayload | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(
+      base64.length + ((4 - (base64.length % 4)) % 4),
+      '='
+    );
+    const bytes = Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes)) as JwtPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rol del usuario según el token
+ * Acepta los formatos habituales de Spring Security (rol, role, roles,
+ * authorities) con o sin prefijo ROLE_
+ */
+export function getTokenRol(payload: JwtPayload): Rol | null {
+  const authority = payload.authorities?.[0];
+  const candidate =
+    payload.rol ??
+    payload.role ??
+    payload.roles?.[0] ??
+    (typeof authority === 'string' ? authority : authority?.authority);
+  if (!candidate) return null;
+  const rol = candidate.replace(/^ROLE_/, '').toUpperCase();
+  return ROLES.includes(rol as Rol) ? (rol as Rol) : null;
+}
+
+/**
+ * Un token sin `exp` se considera vigente: la expiración la decide el backend
+ */
+export function isTokenExpired(payload: JwtPayload, now = Date.now()): boolean {
+  return payload.exp !== undefined && payload.exp * 1000 <= now;
+}
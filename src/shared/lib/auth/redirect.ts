@@ -0,0 +1,43 @@
+/**
+ * Parámetro con el que el login sabe a qué página volver
+ */
+export const REDIRECT_PARAM = 'redirect';
+
+/**
+ * URL de login que devuelve al usuario a `returnTo` tras autenticarse
+ */
+export function buildLoginUrl(returnTo?: string): string {
+  if (!returnTo || returnTo === '/' || returnTo.startsWith('/login')) {
+    return '/login';
+  }
+  return `/login?${REDIRECT_PARAM}=${encodeURIComponent(returnTo)}`;
+}
+
+/**
+ * Destino seguro tras el login: solo rutas internas, nunca URLs absolutas
+ * ni protocol-relative (//host, /\host) que permitirían un open redirect
+ * Se resuelve como lo haría el navegador y se exige el mismo origen
+ */
+export function getSafeRedirect(
+  value: string | null | undefined,
+  fallback = '/dashboard'
+): string {
+  if (!value || !value.startsWith('/') || typeof window === 'undefined') {
+    return fallback;
+  }
+  try {
+    const url = new URL(value, window.location.origin);
+    if (url.origin !== window.location.origin) return fallback;
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Ruta actual (con query string) para volver a ella tras el login
+ */
+export function getCurrentPath(): string {
+  if (typeof window === 'undefined') return '/';
+  return `${window.location.pathname}${window.location.search}`;
+}
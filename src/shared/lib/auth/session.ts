@@ -0,0 +1,117 @@
+import type { User } from '@/shared/types/auth.types';
+import { decodeJwt } from './jwt';
+import { buildLoginUrl, getCurrentPath } from './redirect';
+
+/**
+ * Sesión del usuario: única puerta de acceso al token y a los datos de
+ * sesión guardados en localStorage y en la cookie que lee el middleware.
+ * La usan el AuthProvider y los clientes GraphQL y REST
+ */
+
+const TOKEN_KEY = 'token';
+const USER_KEY = 'user';
+const EXPIRES_AT_KEY = 'tokenExpiresAt';
+
+/** Vida de la cookie cuando el backend no indica la expiración */
+const DEFAULT_COOKIE_MAX_AGE = 60 * 60 * 24 * 7;
+
+export interface StoredSession {
+  token: string;
+  user: User;
+  /** Instante de expiración en ms (null si no se conoce) */
+  expiresAt: number | null;
+}
+
+function isBrowser(): boolean {
+  return typeof window !== 'undefined';
+}
+
+function setTokenCookie(token: string, expiresAt: number | null): void {
+  const maxAge = expiresAt
+    ? Math.max(Math.floor((expiresAt - Date.now()) / 1000), 0)
+    : DEFAULT_COOKIE_MAX_AGE;
+  document.cookie = `${TOKEN_KEY}=${token}; path=/; max-age=${maxAge}; SameSite=Lax`;
+}
+
+function clearTokenCookie(): void {
+  document.cookie = `${TOKEN_KEY}=; path=/; max-age=0; SameSite=Lax`;
+}
+
+export function getSessionToken(): string | null {
+  if (!isBrowser()) return null;
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+/**
+ * Sesión completa guardada, o null si falta el token o el usuario
+ * Las sesiones guardadas antes de persistir la expiración usan el claim exp
+ */
+export function getStoredSession(): StoredSession | null {
+  if (!isBrowser()) return null;
+  const token = localStorage.getItem(TOKEN_KEY);
+  const storedUser = localStorage.getItem(USER_KEY);
+  if (!token || !storedUser) return null;
+
+  let user: User;
+  try {
+    user = JSON.parse(storedUser) as User;
+  } catch {
+    return null;
+  }
+
+  const storedExpiresAt = Number(localStorage.getItem(EXPIRES_AT_KEY));
+  const exp = decodeJwt(token)?.exp;
+  const expiresAt = storedExpiresAt || (exp ? exp * 1000 : null);
+  return { token, user, expiresAt };
+}
+
+export function saveSession(session: StoredSession): void {
+  if (!isBrowser()) return;
+  localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+  if (session.expiresAt) {
+    localStorage.setItem(EXPIRES_AT_KEY, String(session.expiresAt));
+  } else {
+    localStorage.removeItem(EXPIRES_AT_KEY);
+  }
+  // El token se escribe el último: es la clave que escuchan las otras pestañas
+  localStorage.setItem(TOKEN_KEY, session.token);
+  setTokenCookie(session.token, session.expiresAt);
+}
+
+export function clearSession(): void {
+  if (!isBrowser()) return;
+  localStorage.removeItem(USER_KEY);
+  localStorage.removeItem(EXPIRES_AT_KEY);
+  localStorage.removeItem(TOKEN_KEY);
+  clearTokenCookie();
+}
+
+/**
+ * Cierra una sesión rechazada por el backend (401) y lleva al login,
+ * recordando la página actual para volver tras autenticarse
+ * Usa replace para que el usuario no pueda volver atrás a la página rota
+ */
+export function expireSession(): void {
+  if (!isBrowser()) return;
+  clearSession();
+  window.location.replace(buildLoginUrl(getCurrentPath()));
+}
+
+/**
+ * Avisa de los inicios y cierres de sesión hechos en otras pestañas
+ * El evento storage solo se dispara en las pestañas que no hicieron el cambio
+ */
+export function onSessionChange(
+  listener: (session: StoredSession | null) => void
+): () => void {
+  if (!isBrowser()) return () => undefined;
+
+  const handleStorage = (event: StorageEvent) => {
+    // event.key es null cuando otra pestaña ejecuta localStorage.clear()
+    if (event.key !== TOKEN_KEY && event.key !== null) return;
+    listener(getStoredSession());
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
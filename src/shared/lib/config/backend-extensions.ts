@@ -0,0 +1,30 @@
+import { env } from './env';
+
+/**
+ * Operaciones de schema.extensions.graphql: el frontend ya las usa pero el
+ * backend aún no las publica todas. Cada feature solo las pide cuando el
+ * backend las anuncia en NEXT_PUBLIC_BACKEND_EXTENSIONS (separadas por comas);
+ * sin ellas recurre a las operaciones publicadas o no muestra esa parte.
+ * El backend mock las implementa todas
+ */
+export const BACKEND_EXTENSIONS = [
+  'cursosPaginados',
+  'usuarioActual',
+  'usuarioCentro',
+  'misConvocatorias',
+  'factura',
+] as const;
+
+export type BackendExtension = (typeof BACKEND_EXTENSIONS)[number];
+
+const enabledExtensions = new Set<string>(
+  env.useMocks
+    ? BACKEND_EXTENSIONS
+    : (process.env.NEXT_PUBLIC_BACKEND_EXTENSIONS ?? '')
+        .split(',')
+        .map((name) => name.trim())
+);
+
+export function hasBackendExtension(name: BackendExtension): boolean {
+  return enabledExtensions.has(name);
+}
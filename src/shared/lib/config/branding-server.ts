@@ -0,0 +1,11 @@
+import { cookies } from 'next/headers';
+import { BRANDING_COOKIE } from './branding';
+
+/**
+ * Centro del usuario de la petición, guardado en la cookie al iniciar sesión;
+ * null sin sesión o para usuarios sin centro
+ */
+export async function getRequestCentro(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(BRANDING_COOKIE)?.value || null;
+}
@@ -0,0 +1,77 @@
+import { env } from './env';
+
+/**
+ * Imagen de marca de un centro
+ * No debe importar nada de React: la usa el layout raíz en el servidor
+ */
+export interface Branding {
+  appName: string;
+  /** URL absoluta o ruta dentro de /public; null para no mostrar logo */
+  logoUrl: string | null;
+  primaryColor: string;
+  secondaryColor: string;
+}
+
+/** Marca sin sesión y de los usuarios sin centro (p. ej. ADMIN) */
+export const DEFAULT_BRANDING: Branding = {
+  appName: env.appName,
+  logoUrl: null,
+  primaryColor: '#1976d2',
+  secondaryColor: '#dc004e',
+};
+
+/**
+ * Marca de cada centro por su idCentro; lo que no se indique sale de
+ * DEFAULT_BRANDING. Los ids '1' y '2' son los centros del backend mock
+ */
+export const CENTRO_BRANDING: Record<string, Partial<Branding>> = {
+  '1': {
+    appName: 'Academia Madrid',
+    primaryColor: '#00695c',
+    secondaryColor: '#ff8f00',
+  },
+  '2': {
+    appName: 'Academia Barcelona',
+    primaryColor: '#6a1b9a',
+    secondaryColor: '#2e7d32',
+  },
+};
+
+/** Cookie con el centro del usuario; la lee el layout raíz para pintar su marca */
+export const BRANDING_COOKIE = 'centro';
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/** MUI solo acepta colores válidos: uno mal configurado no debe romper el tema */
+function parseColor(value: string | undefined, fallback: string): string {
+  return value && HEX_COLOR.test(value) ? value : fallback;
+}
+
+/**
+ * Marca de un centro; un centro sin configurar usa la marca por defecto
+ */
+export function getBranding(idCentro: string | null | undefined): Branding {
+  const centro = (idCentro && CENTRO_BRANDING[idCentro]) || {};
+  return {
+    appName: centro.appName ?? DEFAULT_BRANDING.appName,
+    logoUrl: centro.logoUrl ?? DEFAULT_BRANDING.logoUrl,
+    primaryColor: parseColor(
+      centro.primaryColor,
+      DEFAULT_BRANDING.primaryColor
+    ),
+    secondaryColor: parseColor(
+      centro.secondaryColor,
+      DEFAULT_BRANDING.secondaryColor
+    ),
+  };
+}
+
+/**
+ * Guarda el centro del usuario en la cookie que lee el layout raíz;
+ * null la borra y vuelve a la marca por defecto
+ */
+export function saveBrandingCookie(idCentro: string | null) {
+  document.cookie = idCentro
+    ? `${BRANDING_COOKIE}=${encodeURIComponent(idCentro)}; path=/; max-age=${60 * 60 * 24 * 365}; SameSite=Lax`
+    : `${BRANDING_COOKIE}=; path=/; max-age=0; SameSite=Lax`;
+}
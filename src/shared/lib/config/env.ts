@@ -1,6 +1,20 @@
+const useMocks = process.env.NEXT_PUBLIC_USE_MOCKS === 'true';
+
+/**
+ * Con el backend mock las peticiones van a las rutas /api/mock de la propia app
+ * graphql-request necesita una URL absoluta, de ahí el origin
+ */
+const mockBaseUrl = `${
+  typeof window !== 'undefined' ? window.location.origin : 'http://localhost:3000'
+}/api/mock`;
+
 export const env = {
-    apiUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080',
-    graphqlUrl:
-      process.env.NEXT_PUBLIC_GRAPHQL_URL || 'http://localhost:8080/graphql',
+    useMocks,
+    apiUrl: useMocks
+      ? mockBaseUrl
+      : process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080',
+    graphqlUrl: useMocks
+      ? `${mockBaseUrl}/graphql`
+      : process.env.NEXT_PUBLIC_GRAPHQL_URL || 'http://localhost:8080/graphql',
     appName: process.env.NEXT_PUBLIC_APP_NAME || 'Academia Multi-Centro',
-} as const;
\ No newline at end of file
+} as const;
@@ -0,0 +1,95 @@
+import type { Rol } from '@/shared/types/auth.types';
+
+const TODOS_LOS_ROLES: Rol[] = [
+  'ADMIN',
+  'PROFESOR',
+  'ALUMNO',
+  'ADMINISTRATIVO',
+];
+
+/**
+ * Regla de acceso a una sección del dashboard
+ * Se aplica a la ruta y a todas sus subrutas
+ */
+export interface RouteAccess {
+  path: string;
+  label: string;
+  roles: Rol[];
+}
+
+/**
+ * Única fuente de verdad del acceso por rol: la usan el middleware para
+ * bloquear rutas y el navbar para construir el menú (en este orden)
+ * No debe importar nada de React ni MUI porque se ejecuta en el edge
+ */
+export const ROUTE_ACCESS: RouteAccess[] = [
+  { path: '/dashboard', label: 'Dashboard', roles: TODOS_LOS_ROLES },
+  {
+    path: '/dashboard/curso',
+    label: 'Cursos',
+    roles: ['ADMIN', 'PROFESOR', 'ADMINISTRATIVO'],
+  },
+  {
+    path: '/dashboard/alumno',
+    label: 'Alumnos',
+    roles: ['ADMIN', 'PROFESOR', 'ADMINISTRATIVO'],
+  },
+  {
+    path: '/dashboard/convocatoria',
+    label: 'Convocatorias',
+    roles: ['ADMIN', 'PROFESOR', 'ADMINISTRATIVO'],
+  },
+  {
+    path: '/dashboard/profesor',
+    label: 'Profesores',
+    roles: ['ADMIN', 'ADMINISTRATIVO'],
+  },
+  {
+    path: '/dashboard/matricula',
+    label: 'Matrículas',
+    roles: ['ADMIN', 'ADMINISTRATIVO'],
+  },
+  {
+    path: '/dashboard/factura',
+    label: 'Facturas',
+    roles: ['ADMIN', 'ADMINISTRATIVO'],
+  },
+  {
+    path: '/dashboard/centro',
+    label: 'Centros',
+    roles: ['ADMIN', 'ADMINISTRATIVO'],
+  },
+  {
+    path: '/dashboard/empresa',
+    label: 'Empresas',
+    roles: ['ADMIN', 'ADMINISTRATIVO'],
+  },
+  {
+    path: '/dashboard/materia',
+    label: 'Materias',
+    roles: ['ADMIN', 'ADMINISTRATIVO'],
+  },
+  {
+    path: '/dashboard/formato',
+    label: 'Formatos',
+    roles: ['ADMIN', 'ADMINISTRATIVO'],
+  },
+];
+
+/**
+ * Regla más específica que cubre la ruta (coincidencia por prefijo más largo)
+ */
+export function getRouteAccess(pathname: string): RouteAccess | undefined {
+  return ROUTE_ACCESS.filter(
+    (route) => pathname === route.path || pathname.startsWith(`${route.path}/`)
+  ).sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+/**
+ * Las rutas sin regla no se restringen por rol (solo requieren sesión)
+ */
+export function canAccessRoute(pathname: string, rol: Rol | null): boolean {
+  const route = getRouteAccess(pathname);
+  if (!route) return true;
+  return !!rol && route.roles.includes(rol);
+}
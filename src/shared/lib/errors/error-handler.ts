@@ -0,0 +1,222 @@
+import { isAxiosError } from 'axios';
+import { ClientError } from 'graphql-request';
+import { t } from '@/shared/lib/i18n';
+import {
+  AppError,
+  ErrorType,
+  type FieldErrors,
+  type GraphQLErrorItem,
+} from './error-types';
+import { ERROR_MESSAGES } from './error-messages';
+
+/**
+ * Clasificaciones de GraphQL (Spring GraphQL y Apollo) → tipo de error
+ */
+const CLASSIFICATION_TYPES: Record<string, ErrorType> = {
+  UNAUTHENTICATED: ErrorType.UNAUTHENTICATED,
+  UNAUTHORIZED: ErrorType.UNAUTHENTICATED,
+  FORBIDDEN: ErrorType.FORBIDDEN,
+  BAD_REQUEST: ErrorType.VALIDATION,
+  BAD_USER_INPUT: ErrorType.VALIDATION,
+  VALIDATION_ERROR: ErrorType.VALIDATION,
+  ValidationError: ErrorType.VALIDATION,
+  NOT_FOUND: ErrorType.NOT_FOUND,
+  CONFLICT: ErrorType.CONFLICT,
+  INTERNAL_ERROR: ErrorType.SERVER,
+  INTERNAL_SERVER_ERROR: ErrorType.SERVER,
+};
+
+/**
+ * El filtro JWT del backend rechaza el token antes de llegar a GraphQL y
+ * solo deja el motivo en el mensaje, sin clasificación
+ */
+const TOKEN_ERROR_PATTERNS = [
+  'expired',
+  'invalid token',
+  'unauthorized',
+  'jwt validation failed',
+];
+
+/**
+ * Tipos cuyo mensaje del servidor se descarta por ser técnico
+ */
+const GENERIC_MESSAGE_TYPES = new Set([
+  ErrorType.UNAUTHENTICATED,
+  ErrorType.NETWORK,
+  ErrorType.SERVER,
+]);
+
+function getStatusType(status: number | undefined): ErrorType | null {
+  if (status === undefined) return null;
+  if (status === 401) return ErrorType.UNAUTHENTICATED;
+  if (status === 403) return ErrorType.FORBIDDEN;
+  if (status === 404) return ErrorType.NOT_FOUND;
+  if (status === 409) return ErrorType.CONFLICT;
+  if (status === 400 || status === 422) return ErrorType.VALIDATION;
+  if (status >= 500) return ErrorType.SERVER;
+  return null;
+}
+
+function isTokenErrorMessage(message: string | undefined): boolean {
+  const normalized = message?.toLowerCase() ?? '';
+  return TOKEN_ERROR_PATTERNS.some((pattern) => normalized.includes(pattern));
+}
+
+/**
+ * Lee errores de campo en los formatos habituales:
+ * [{ field, message | defaultMessage }] o { campo: mensaje }
+ */
+function parseFieldErrorList(value: unknown, target: FieldErrors) {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (!item || typeof item !== 'object') continue;
+      const { field, message, defaultMessage } = item as {
+        field?: unknown;
+        message?: unknown;
+        defaultMessage?: unknown;
+      };
+      const text = message ?? defaultMessage;
+      if (typeof field === 'string' && typeof text === 'string') {
+        target[field] = text;
+      }
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [field, text] of Object.entries(value)) {
+      if (typeof text === 'string') target[field] = text;
+    }
+  }
+}
+
+/**
+ * Bean Validation serializa las violaciones en el mensaje:
+ * "createCurso.input.nombre: no debe estar vacío, createCurso.input.precioBase: ..."
+ */
+function parseViolationMessage(message: string, target: FieldErrors) {
+  const pattern = /([A-Za-z_][\w.[\]]*):\s*(.+?)(?=,\s*[A-Za-z_][\w.[\]]*:|$)/g;
+  for (const match of message.matchAll(pattern)) {
+    if (match[1].includes('.')) {
+      target[match[1]] = match[2].trim();
+    }
+  }
+}
+
+function getGraphQLFieldErrors(errors: GraphQLErrorItem[]): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  for (const error of errors) {
+    const extensions = error.extensions;
+    if (extensions?.fieldErrors) {
+      parseFieldErrorList(extensions.fieldErrors, fieldErrors);
+    } else if (extensions?.field && error.message) {
+      fieldErrors[extensions.field] = error.message;
+    } else if (error.message) {
+      parseViolationMessage(error.message, fieldErrors);
+    }
+  }
+  return fieldErrors;
+}
+
+function buildAppError(
+  type: ErrorType,
+  serverMessage: string | undefined,
+  fieldErrors: FieldErrors,
+  status: number | undefined,
+  originalError: unknown
+): AppError {
+  const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+  const message =
+    GENERIC_MESSAGE_TYPES.has(type) || hasFieldErrors || !serverMessage
+      ? t(ERROR_MESSAGES[type])
+      : serverMessage;
+  return new AppError(type, message, { fieldErrors, status, originalError });
+}
+
+function fromClientError(error: ClientError): AppError {
+  const status = error.response.status;
+  const errors = (error.response.errors ?? []) as GraphQLErrorItem[];
+  const first = errors[0];
+  const classification =
+    first?.extensions?.classification ?? first?.extensions?.code;
+  const fieldErrors = getGraphQLFieldErrors(errors);
+
+  let type =
+    (classification && CLASSIFICATION_TYPES[classification]) ||
+    getStatusType(status);
+  if (!type || type === ErrorType.SERVER) {
+    type = isTokenErrorMessage(first?.message ?? error.message)
+      ? ErrorType.UNAUTHENTICATED
+      : (type ?? ErrorType.UNKNOWN);
+  }
+  if (type === ErrorType.UNKNOWN && Object.keys(fieldErrors).length > 0) {
+    type = ErrorType.VALIDATION;
+  }
+
+  return buildAppError(type, first?.message, fieldErrors, status, error);
+}
+
+function fromHttpError(
+  status: number,
+  data: unknown,
+  originalError: unknown
+): AppError {
+  const body = (data && typeof data === 'object' ? data : {}) as {
+    message?: unknown;
+    errors?: unknown;
+    fieldErrors?: unknown;
+  };
+  const fieldErrors: FieldErrors = {};
+  parseFieldErrorList(body.fieldErrors ?? body.errors, fieldErrors);
+
+  const type = getStatusType(status) ?? ErrorType.UNKNOWN;
+  const message =
+    typeof body.message === 'string' && body.message ? body.message : undefined;
+  return buildAppError(type, message, fieldErrors, status, originalError);
+}
+
+function isNetworkFailure(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return true;
+  }
+  // fetch rechaza con TypeError cuando no llega a obtener respuesta
+  return error instanceof TypeError;
+}
+
+/**
+ * Convierte cualquier error (graphql-request, axios, fetch o Error) en un AppError
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (error instanceof ClientError) {
+    return fromClientError(error);
+  }
+
+  if (isAxiosError(error)) {
+    if (!error.response) {
+      return buildAppError(ErrorType.NETWORK, undefined, {}, undefined, error);
+    }
+    return fromHttpError(error.response.status, error.response.data, error);
+  }
+
+  if (isNetworkFailure(error)) {
+    return buildAppError(ErrorType.NETWORK, undefined, {}, undefined, error);
+  }
+
+  if (error instanceof Error) {
+    return new AppError(ErrorType.UNKNOWN, error.message, {
+      originalError: error,
+    });
+  }
+
+  return new AppError(ErrorType.UNKNOWN, t(ERROR_MESSAGES[ErrorType.UNKNOWN]), {
+    originalError: error,
+  });
+}
+
+/**
+ * Comprueba si un error (de cualquier origen) es de un tipo concreto
+ */
+export function isErrorType(error: unknown, type: ErrorType): boolean {
+  return toAppError(error).type === type;
+}
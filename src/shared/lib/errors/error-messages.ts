@@ -0,0 +1,17 @@
+import type { MessageKey } from '@/shared/lib/i18n';
+import { ErrorType } from './error-types';
+
+/**
+ * Mensajes genéricos por tipo, cuando el servidor no da uno mejor
+ * Son claves del catálogo: se traducen al crear el error
+ */
+export const ERROR_MESSAGES: Record<ErrorType, MessageKey> = {
+  [ErrorType.UNAUTHENTICATED]: 'errors.unauthenticated',
+  [ErrorType.FORBIDDEN]: 'errors.forbidden',
+  [ErrorType.VALIDATION]: 'errors.validation',
+  [ErrorType.NOT_FOUND]: 'errors.notFound',
+  [ErrorType.CONFLICT]: 'errors.conflict',
+  [ErrorType.NETWORK]: 'errors.network',
+  [ErrorType.SERVER]: 'errors.server',
+  [ErrorType.UNKNOWN]: 'errors.unknown',
+};
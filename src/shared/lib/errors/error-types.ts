@@ -0,0 +1,62 @@
+/**
+ * Categorías de error que distingue la aplicación
+ */
+export enum ErrorType {
+  UNAUTHENTICATED = 'UNAUTHENTICATED',
+  FORBIDDEN = 'FORBIDDEN',
+  VALIDATION = 'VALIDATION',
+  NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  NETWORK = 'NETWORK',
+  SERVER = 'SERVER',
+  UNKNOWN = 'UNKNOWN',
+}
+
+/**
+ * Errores de validación por campo: ruta del campo → mensaje
+ * La ruta puede venir completa (createCurso.input.nombre) o solo el nombre del campo
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Error de GraphQL con estructura estándar
+ */
+export interface GraphQLErrorItem {
+  message?: string;
+  extensions?: {
+    classification?: string;
+    code?: string;
+    field?: string;
+    fieldErrors?: unknown;
+  };
+  path?: ReadonlyArray<string | number>;
+}
+
+interface AppErrorOptions {
+  fieldErrors?: FieldErrors;
+  status?: number;
+  originalError?: unknown;
+}
+
+/**
+ * Error normalizado que lanzan los clientes GraphQL y REST
+ */
+export class AppError extends Error {
+  readonly type: ErrorType;
+  readonly fieldErrors: FieldErrors;
+  readonly status?: number;
+  readonly originalError?: unknown;
+
+  constructor(type: ErrorType, message: string, options: AppErrorOptions = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.type = type;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.status = options.status;
+    this.originalError = options.originalError;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
@@ -0,0 +1,39 @@
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { toAppError } from './error-handler';
+
+/**
+ * Busca el mensaje del servidor para un campo del formulario
+ * Acepta la ruta exacta o una ruta que termine en el campo (createCurso.input.nombre → nombre)
+ */
+function findFieldMessage(
+  fieldErrors: Record<string, string>,
+  field: string
+): string | undefined {
+  if (fieldErrors[field]) return fieldErrors[field];
+  const key = Object.keys(fieldErrors).find((path) =>
+    path.endsWith(`.${field}`)
+  );
+  return key ? fieldErrors[key] : undefined;
+}
+
+/**
+ * Marca en react-hook-form los errores de validación del servidor
+ * Devuelve true si algún campo del formulario recibió un error
+ */
+export function applyServerFieldErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly Path<T>[]
+): boolean {
+  const { fieldErrors } = toAppError(error);
+  let applied = false;
+
+  for (const field of fields) {
+    const message = findFieldMessage(fieldErrors, field);
+    if (!message) continue;
+    setError(field, { type: 'server', message }, { shouldFocus: !applied });
+    applied = true;
+  }
+
+  return applied;
+}
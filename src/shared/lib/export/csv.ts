@@ -0,0 +1,66 @@
+import type {
+  ExportColumn,
+  ExportValue,
+  ExportValueType,
+} from './export.types';
+import { getLocale, INTL_LOCALES, t } from '@/shared/lib/i18n';
+
+/** ';' porque la coma es el separador decimal en es/ca y el de miles en en */
+const SEPARATOR = ';';
+const BOM = '\uFEFF';
+
+function formatValue(value: ExportValue, type: ExportValueType): string {
+  if (value === null || value === undefined || value === '') return '';
+  const intlLocale = INTL_LOCALES[getLocale()];
+  switch (type) {
+    case 'number':
+      return typeof value === 'number'
+        ? value.toLocaleString(intlLocale, { maximumFractionDigits: 2 })
+        : String(value);
+    case 'currency':
+      return typeof value === 'number'
+        ? value.toLocaleString(intlLocale, {
+            style: 'currency',
+            currency: 'EUR',
+          })
+        : String(value);
+    case 'date': {
+      const date = new Date(String(value));
+      return Number.isNaN(date.getTime())
+        ? String(value)
+        : date.toLocaleDateString(intlLocale);
+    }
+    case 'boolean':
+      return value ? t('common.yes') : t('common.no');
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Entrecomilla cuando hace falta y neutraliza fórmulas (=, +, -, @)
+ * para que un valor introducido por un usuario no se ejecute al abrir el fichero
+ */
+function escapeCell(text: string, type: ExportValueType): string {
+  const safe = type === 'text' && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[";\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Genera un CSV en UTF-8 con BOM para que Excel muestre bien los acentos
+ */
+export function toCsv<TRow>(rows: TRow[], columns: ExportColumn<TRow>[]): Blob {
+  const lines = [
+    columns.map((column) => escapeCell(column.header, 'text')),
+    ...rows.map((row) =>
+      columns.map((column) => {
+        const type = column.type ?? 'text';
+        return escapeCell(formatValue(column.value(row), type), type);
+      })
+    ),
+  ].map((cells) => cells.join(SEPARATOR));
+
+  return new Blob([BOM + lines.join('\r\n')], {
+    type: 'text/csv;charset=utf-8',
+  });
+}
@@ -0,0 +1,28 @@
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Tipo de dato de una columna exportada; decide el formato en CSV y en Excel
+ */
+export type ExportValueType =
+  | 'text'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'boolean';
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+/**
+ * Columna de una exportación
+ * Para 'date' el valor es una fecha ISO (YYYY-MM-DD o DateTime)
+ */
+export interface ExportColumn<TRow> {
+  id: string;
+  header: string;
+  value: (row: TRow) => ExportValue;
+  type?: ExportValueType;
+  /** Ancho en caracteres en Excel */
+  width?: number;
+  /** Columnas que no se marcan al abrir el diálogo de exportación */
+  unselectedByDefault?: boolean;
+}
@@ -0,0 +1,43 @@
+import { toCsv } from './csv';
+import { toXlsx } from './xlsx';
+import type { ExportColumn, ExportFormat } from './export.types';
+
+export type {
+  ExportColumn,
+  ExportFormat,
+  ExportValue,
+  ExportValueType,
+} from './export.types';
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Descarga las filas como CSV o Excel con el nombre `<fileName>-AAAA-MM-DD.<ext>`
+ */
+export async function exportRows<TRow>({
+  rows,
+  columns,
+  format,
+  fileName,
+}: {
+  rows: TRow[];
+  columns: ExportColumn<TRow>[];
+  format: ExportFormat;
+  fileName: string;
+}): Promise<void> {
+  const blob =
+    format === 'csv'
+      ? toCsv(rows, columns)
+      : await toXlsx(rows, columns, fileName);
+  const today = new Date().toISOString().slice(0, 10);
+  downloadBlob(blob, `${fileName}-${today}.${format}`);
+}
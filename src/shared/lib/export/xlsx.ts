@@ -0,0 +1,63 @@
+import type { Cell, SheetData } from 'write-excel-file/browser';
+import type {
+  ExportColumn,
+  ExportValue,
+  ExportValueType,
+} from './export.types';
+import { t } from '@/shared/lib/i18n';
+
+const CURRENCY_FORMAT = '#,##0.00 "€"';
+const NUMBER_FORMAT = '#,##0.##';
+const DATE_FORMAT = 'dd/mm/yyyy';
+
+function toCell(value: ExportValue, type: ExportValueType): Cell {
+  if (value === null || value === undefined || value === '') return null;
+  switch (type) {
+    case 'number':
+    case 'currency':
+      return typeof value === 'number'
+        ? {
+            value,
+            type: Number,
+            format: type === 'currency' ? CURRENCY_FORMAT : NUMBER_FORMAT,
+          }
+        : String(value);
+    case 'date': {
+      const date = new Date(String(value));
+      return Number.isNaN(date.getTime())
+        ? String(value)
+        : { value: date, type: Date, format: DATE_FORMAT };
+    }
+    case 'boolean':
+      return value ? t('common.yes') : t('common.no');
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Genera un .xlsx con importes y fechas como valores nativos de Excel
+ * La librería se carga bajo demanda para no engordar el bundle de los listados
+ */
+export async function toXlsx<TRow>(
+  rows: TRow[],
+  columns: ExportColumn<TRow>[],
+  sheetName: string
+): Promise<Blob> {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const data: SheetData = [
+    columns.map((column) => ({ value: column.header, fontWeight: 'bold' })),
+    ...rows.map((row) =>
+      columns.map((column) => toCell(column.value(row), column.type ?? 'text'))
+    ),
+  ];
+
+  return writeXlsxFile(data, {
+    // Excel limita el nombre de la hoja a 31 caracteres
+    sheet: sheetName.slice(0, 31),
+    stickyRowsCount: 1,
+    columns: columns.map((column) => ({
+      width: column.width ?? Math.max(column.header.length + 2, 12),
+    })),
+  }).toBlob();
+}
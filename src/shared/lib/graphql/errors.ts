@@ -0,0 +1,24 @@
+import { toAppError } from '@/shared/lib/errors/error-handler';
+import { ErrorType } from '@/shared/lib/errors/error-types';
+
+/**
+ * Traduce el error de una operación GraphQL a un mensaje para el usuario
+ * Los errores FORBIDDEN se sustituyen por un mensaje de permisos propio de cada operación
+ */
+export function getGraphQLErrorMessage(
+  error: unknown,
+  fallbackMessage: string,
+  forbiddenMessage: string
+): string {
+  const appError = toAppError(error);
+
+  if (appError.type === ErrorType.FORBIDDEN) {
+    return forbiddenMessage;
+  }
+  // Sin información útil del error original, el mensaje propio de la operación es más claro
+  if (appError.type === ErrorType.UNKNOWN && !(error instanceof Error)) {
+    return fallbackMessage;
+  }
+
+  return appError.message || fallbackMessage;
+}
@@ -0,0 +1,50 @@
+/**
+ * Idiomas de la aplicación
+ * No debe importar nada de React ni de zod: lo usa el layout raíz en el servidor
+ */
+export const LOCALES = ['es', 'en', 'ca'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+/** Cookie con el idioma elegido; la lee el layout raíz para el atributo lang */
+export const LOCALE_COOKIE = 'locale';
+
+/** Nombre de cada idioma en su propio idioma, para el selector */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  es: 'Español',
+  en: 'English',
+  ca: 'Català',
+};
+
+/** Locale de Intl para formatear importes y fechas en cada idioma */
+export const INTL_LOCALES: Record<Locale, string> = {
+  es: 'es-ES',
+  en: 'en-GB',
+  ca: 'ca-ES',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Primer idioma soportado de una cabecera Accept-Language (p. ej. "ca-ES,ca;q=0.9,en;q=0.8")
+ */
+export function matchAcceptLanguage(header: string | null): Locale | null {
+  if (!header) return null;
+  const languages = header
+    .split(',')
+    .map((part) => {
+      const [tag, quality] = part.trim().split(';q=');
+      return { tag: tag.toLowerCase(), q: quality ? Number(quality) : 1 };
+    })
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of languages) {
+    const language = tag.split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return null;
+}
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE, type Locale } from './config';
+import { ca } from './messages/ca';
+import { en } from './messages/en';
+import { es, type Messages } from './messages/es';
+import { translate, type MessageKey, type MessageParams } from './translate';
+
+export * from './config';
+export type { MessageKey, MessageParams, Translate } from './translate';
+
+export const MESSAGES: Record<Locale, Messages> = { es, en, ca };
+
+const ZOD_LOCALES: Record<Locale, () => Parameters<typeof z.config>[0]> = {
+  es: z.locales.es,
+  en: z.locales.en,
+  ca: z.locales.ca,
+};
+
+function readDocumentLocale(): Locale {
+  if (typeof document === 'undefined') return DEFAULT_LOCALE;
+  const lang = document.documentElement.lang;
+  return isLocale(lang) ? lang : DEFAULT_LOCALE;
+}
+
+/**
+ * Idioma activo para el código de cliente fuera de React (servicios,
+ * notificaciones y mensajes de zod). Se lee una sola vez del <html lang> que
+ * pinta el layout raíz; en el servidor se queda en el idioma por defecto,
+ * porque allí el módulo es compartido por todas las peticiones
+ */
+const currentLocale: Locale = readDocumentLocale();
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+// Mensajes por defecto de zod (los que no define cada schema); los schemas
+// solo validan en el cliente
+z.config(ZOD_LOCALES[currentLocale]());
+
+/**
+ * Traduce con el idioma activo; en componentes usa useTranslation, que
+ * también sirve en el renderizado del servidor
+ * Los schemas deben llamarlo dentro de una función de error para que el
+ * mensaje se resuelva al validar y no al importar el módulo
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(MESSAGES[currentLocale], key, params);
+}
+
+/**
+ * Guarda el idioma elegido en la cookie que lee el layout raíz
+ */
+export function saveLocaleCookie(locale: Locale) {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${60 * 60 * 24 * 365}; SameSite=Lax`;
+}
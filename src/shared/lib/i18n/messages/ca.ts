@@ -0,0 +1,853 @@
+import type { Messages } from './es';
+
+export const ca: Messages = {
+  common: {
+    cancel: 'Cancel·la',
+    close: 'Tanca',
+    confirm: 'Confirma',
+    edit: 'Edita',
+    delete: 'Elimina',
+    deactivate: 'Desactiva',
+    retry: 'Torna-ho a provar',
+    discard: 'Descarta',
+    saving: 'Desant...',
+    processing: 'Processant...',
+    actions: 'Accions',
+    active: 'Actiu',
+    inactive: 'Inactiu',
+    status: 'Estat',
+    clear: 'Neteja',
+    view: 'Veure la fitxa',
+    back: 'Enrere',
+    yes: 'Sí',
+    no: 'No',
+    all: 'Tots',
+  },
+  nav: {
+    dashboard: 'Tauler',
+    cursos: 'Cursos',
+    alumnos: 'Alumnes',
+    convocatorias: 'Convocatòries',
+    profesores: 'Professors',
+    matriculas: 'Matrícules',
+    facturas: 'Factures',
+    centros: 'Centres',
+    empresas: 'Empreses',
+    materias: 'Matèries',
+    formatos: 'Formats',
+    logout: 'Tanca la sessió',
+    language: 'Idioma',
+    theme: 'Tema',
+    themeModes: {
+      light: 'Clar',
+      dark: 'Fosc',
+      system: 'Segons el sistema',
+    },
+  },
+  dataTable: {
+    empty: 'No hi ha resultats',
+    error: 'Error en carregar les dades',
+    selectAll: 'Selecciona totes les files',
+    selected: 'Seleccionats: {count}',
+    sortBy: 'Ordena per',
+    ascending: 'Ascendent',
+    descending: 'Descendent',
+    columns: 'Columnes',
+    rowsPerPage: 'Files per pàgina',
+    rowsPerPageShort: 'Files',
+    displayedRows: '{from}–{to} de {count}',
+  },
+  export: {
+    button: 'Exporta',
+    title: 'Exporta el llistat',
+    format: 'Format',
+    columns: 'Columnes',
+    exporting: 'Exportant...',
+    exported: 'Registres exportats: {count}',
+    error: 'Error en exportar',
+    forbidden: 'No tens permisos per exportar aquest llistat',
+  },
+  offline: {
+    banner:
+      "Sense connexió. Es mostren les últimes dades desades i les altes de cursos i matrícules s'enviaran quan torni la connexió",
+    pendingCount: 'Pendents: {count}',
+    failed: "Canvis fets sense connexió que no s'han pogut enviar: {count}",
+    review: 'Mostra els canvis',
+    queueTitle: 'Canvis sense connexió',
+    queueEmpty: 'No hi ha canvis pendents d’enviar',
+    synced: 'Canvis sense connexió enviats: {count}',
+    syncFailed:
+      "Canvis sense connexió que no s'han pogut enviar: {count}. Revisa'ls a la cua de pendents",
+    unknownOperation: 'Operació no reconeguda',
+    loginRequired: 'Inicia la sessió per desar canvis sense connexió',
+    interrupted:
+      "L'enviament s'ha interromput. Comprova si s'ha desat abans de tornar-ho a provar",
+    status: {
+      pending: 'Pendent',
+      syncing: 'Enviant',
+      conflict: 'Conflicte',
+      error: 'Error',
+    },
+  },
+  auth: {
+    login: {
+      title: 'Inicia la sessió',
+      subtitle: 'Introdueix les teves credencials per accedir',
+      email: 'Correu electrònic',
+      password: 'Contrasenya',
+      submit: 'Inicia la sessió',
+      submitting: 'Iniciant la sessió...',
+      invalidEmail: 'Correu electrònic no vàlid',
+      passwordMin: 'Mínim {min} caràcters',
+    },
+    errors: {
+      loginFailed: 'Error en iniciar la sessió. Comprova les credencials.',
+      invalidResponse: 'Resposta del servidor no vàlida',
+      emptyResponse: 'Resposta del servidor buida',
+      missingToken: "No s'ha rebut el testimoni d'autenticació",
+      incompleteUser: "Dades d'usuari incompletes a la resposta",
+      invalidCredentials: 'Credencials no vàlides',
+      endpointNotFound: "No s'ha trobat el servei d'autenticació",
+      userExists: "L'usuari ja existeix",
+      emailExists: 'Ja hi ha un compte amb aquest correu electrònic',
+      refreshFailed: "No s'ha pogut renovar la sessió",
+    },
+    register: {
+      email: 'Correu electrònic',
+      password: 'Contrasenya',
+      nombre: 'Nom',
+      apellidos: 'Cognoms',
+      rol: 'Rol (opcional)',
+      rolPlaceholder: 'Selecciona un rol',
+      submit: "Registra't",
+      submitting: "S'està registrant...",
+      invalidEmail: 'Correu electrònic no vàlid',
+      minLength: 'Mínim {min} caràcters',
+      failed: "No s'ha pogut completar el registre. Torna-ho a provar.",
+    },
+    session: {
+      expiredTitle: 'La teva sessió ha caducat',
+      expiringTitle: 'La teva sessió està a punt de caducar',
+      expiredMessage:
+        'Introdueix la contrasenya per continuar on ho havies deixat.',
+      expiringMessage:
+        "La teva sessió caduca d'aquí a {time}. Introdueix la contrasenya per seguir connectat.",
+      email: 'Correu electrònic',
+      password: 'Contrasenya',
+      logout: 'Tanca la sessió',
+      notNow: 'Ara no',
+      verifying: "S'està verificant...",
+      stayConnected: 'Segueix connectat',
+      noSession: 'No hi ha cap sessió per renovar',
+    },
+  },
+  cursos: {
+    title: 'Gestió de cursos',
+    createTitle: 'Crea un curs nou',
+    listTitle: 'Llista de cursos',
+    editTitle: 'Edita el curs',
+    loadError: 'Error en carregar el curs',
+    missingRelations:
+      "El servidor no ha retornat la matèria ni el format d'aquest curs. Torna-los a seleccionar abans de desar",
+    errors: {
+      notFound: 'Curs no trobat',
+      missingRelations:
+        "No es pot desactivar «{nombre}»: el servidor no en retorna la matèria ni el format. Edita'l i torna-los a seleccionar",
+    },
+    fields: {
+      nombre: 'Nom',
+      materia: 'Matèria',
+      formato: 'Format',
+      precioBase: 'Preu base',
+      duracionHoras: 'Durada (hores)',
+      horas: 'Hores',
+      id: 'ID',
+    },
+    form: {
+      submit: 'Desa el curs',
+      inactiveMateria: '{nombre} (inactiva)',
+      inactiveFormato: '{nombre} (inactiu)',
+      nombreRequired: 'El nom és obligatori',
+      materiaRequired: 'La matèria és obligatòria',
+      formatoRequired: 'El format és obligatori',
+      precioMin: 'El preu ha de ser més gran o igual que 0',
+    },
+    filters: {
+      search: 'Cerca',
+      searchPlaceholder: 'Nom del curs',
+      all: 'Tots',
+      allFemale: 'Totes',
+      active: 'Actius',
+      inactive: 'Inactius',
+      precioMin: 'Preu des de',
+      precioMax: 'Preu fins a',
+    },
+    list: {
+      empty: 'No hi ha cursos que coincideixin amb els filtres',
+      error: 'Error en carregar els cursos',
+      deleteTitle: 'Elimina el curs',
+      deleteMessage:
+        "S'eliminarà definitivament «{nombre}». Aquesta acció no es pot desfer.",
+      deactivateTitle: 'Desactiva el curs',
+      deactivateMessage:
+        '«{nombre}» deixarà d’estar disponible per a noves convocatòries.',
+      bulkDeleteTitle: 'Elimina els cursos',
+      bulkDeleteMessage:
+        "S'eliminaran definitivament {count} cursos. Aquesta acció no es pot desfer.",
+      bulkDeactivateTitle: 'Desactiva els cursos',
+      bulkDeactivateMessage:
+        '{count} cursos deixaran d’estar disponibles per a noves convocatòries.',
+    },
+    notifications: {
+      created: "S'ha creat el curs",
+      updated: "S'ha actualitzat el curs",
+      deactivated: "S'ha desactivat el curs",
+      deleted: "S'ha eliminat el curs",
+      queuedOffline: 'Sense connexió: el curs es crearà quan torni la connexió',
+      offlineLabel: 'Alta del curs {nombre}',
+      duplicateNombre: 'Ja hi ha un curs anomenat «{nombre}»',
+      createError: 'Error en crear el curs',
+      createForbidden:
+        "No tens permisos per crear cursos. Contacta amb l'administrador.",
+      updateError: 'Error en actualitzar el curs',
+      updateForbidden:
+        "No tens permisos per editar cursos. Contacta amb l'administrador.",
+      deactivateError: 'Error en desactivar el curs',
+      deactivateForbidden:
+        "No tens permisos per desactivar cursos. Contacta amb l'administrador.",
+      deleteError: 'Error en eliminar el curs',
+      deleteForbidden:
+        "No tens permisos per eliminar cursos. Contacta amb l'administrador.",
+      bulkDeleted: 'Cursos eliminats: {count}',
+      bulkDeactivated: 'Cursos desactivats: {count}',
+      bulkDeletedPartial:
+        'Cursos eliminats: {count}. Amb error: {failed} ({detail})',
+      bulkDeactivatedPartial:
+        'Cursos desactivats: {count}. Amb error: {failed} ({detail})',
+      bulkError: 'Error en processar els cursos',
+      bulkForbidden: 'No tens permisos per modificar cursos',
+    },
+  },
+  roles: {
+    ADMIN: 'Administrador',
+    ADMINISTRATIVO: 'Administratiu',
+    PROFESOR: 'Professor',
+    ALUMNO: 'Alumne',
+  },
+  errors: {
+    unauthenticated:
+      'La teva sessió ha caducat. Si us plau, torna a iniciar sessió.',
+    forbidden:
+      "No tens permisos per fer aquesta acció. Contacta amb l'administrador.",
+    validation:
+      'Les dades introduïdes no són vàlides. Revisa els camps marcats.',
+    notFound: "No s'ha trobat el recurs sol·licitat.",
+    conflict:
+      "El registre entra en conflicte amb un altre d'existent. Revisa les dades.",
+    network: "No s'ha pogut connectar amb el servidor. Comprova la connexió.",
+    server: 'Error intern del servidor. Torna-ho a provar més tard.',
+    unknown: "S'ha produït un error inesperat. Si us plau, torna-ho a provar.",
+  },
+  forbidden: {
+    title: 'Accés denegat',
+    message:
+      'El teu rol no té permís per veure aquesta pàgina. Si creus que és un error, contacta amb un administrador.',
+    back: "Torna a l'inici",
+  },
+  dashboard: {
+    welcome: 'Benvingut, {nombre}',
+    subtitle: 'Tauler de control - {rol}',
+    vsLastMonth: '{trend}% vs. mes anterior',
+    admin: {
+      loadError: 'Error en carregar els indicadors',
+      alumnosActivos: 'Alumnes actius',
+      altasMes: '{count} altes aquest mes',
+      pendientesPago: 'Matrícules pendents de pagament',
+      porCobrar: '{importe} per cobrar',
+      ingresosMes: 'Ingressos del mes',
+      ocupacionCentros: 'Ocupació de centres',
+      centrosActivos: '{count} centres actius',
+      ingresosCobrados: 'Ingressos cobrats',
+      ingresos: 'Ingressos',
+      matriculasAltas: "Matrícules i altes d'alumnes",
+      matriculas: 'Matrícules',
+      altas: "Altes d'alumnes",
+      ocupacionPorCentro: 'Ocupació per centre',
+      noCentros: 'No hi ha centres actius',
+      ocupacion: 'Ocupació',
+    },
+    alumno: {
+      loadError: 'Error en carregar les teves matrícules',
+      misMatriculas: 'Les meves matrícules',
+      pendientePago: 'Pendent de pagament',
+      sinPagarOne: '1 matrícula sense pagar',
+      sinPagarMany: '{count} matrícules sense pagar',
+      todoPagado: 'Tot pagat',
+      notaMedia: 'Nota mitjana',
+      calificacionesOne: '1 qualificació',
+      calificacionesMany: '{count} qualificacions',
+      noMatriculas: 'Encara no tens matrícules',
+      misCalificaciones: 'Les meves qualificacions',
+      noNotas: 'Encara no tens notes',
+      curso: 'Curs',
+      fechas: 'Dates',
+      importe: 'Import',
+      pago: 'Pagament',
+      materia: 'Matèria',
+      fecha: 'Data',
+      nota: 'Nota',
+    },
+    profesor: {
+      loadError: 'Error en carregar les teves convocatòries',
+      enCurso: 'Convocatòries en curs',
+      proximas: 'Properes convocatòries',
+      sinCalificar: 'Alumnes sense qualificar',
+      enConvocatoriasOne: 'En 1 convocatòria',
+      enConvocatoriasMany: 'En {count} convocatòries',
+      misConvocatorias: 'Les meves convocatòries',
+      noProximas: 'No tens convocatòries properes',
+      curso: 'Curs',
+      centro: 'Centre',
+      fechas: 'Dates',
+      enCursoChip: 'En curs',
+      pendienteCalificar: 'Pendent de qualificar',
+      alDia: 'Estàs al dia amb les notes',
+      convocatoria: 'Convocatòria',
+      sinNota: 'Sense nota',
+      calificar: 'Qualificar',
+    },
+    quickActions: {
+      title: 'Accions ràpides',
+      nuevoCurso: 'Nou curs',
+      nuevaMatricula: 'Nova matrícula',
+      importarAlumnos: 'Importar alumnes',
+      cobrosPendientes: 'Cobraments pendents',
+      convocatorias: 'Convocatòries',
+      cursos: 'Cursos',
+      misMatriculas: 'Les meves matrícules',
+      misNotas: 'Les meves notes',
+    },
+  },
+  alumnos: {
+    title: "Gestió d'alumnes",
+    new: 'Nou alumne',
+    importCsv: 'Importa CSV',
+    createTitle: "Registra l'alumne",
+    editTitle: "Edita l'alumne",
+    backToList: 'Torna als alumnes',
+    loadError: "Error en carregar l'alumne",
+    fields: {
+      nombre: 'Nom',
+      apellidos: 'Cognoms',
+      dni: 'DNI/NIE',
+      telefono: 'Telèfon',
+      email: 'Correu electrònic',
+      direccion: 'Adreça',
+      activo: 'Actiu',
+      alta: 'Alta',
+      fechaAlta: "Data d'alta",
+    },
+    form: {
+      personalData: 'Dades personals',
+      submit: "Desa l'alumne",
+      invalidEmail: 'Correu electrònic no vàlid',
+      minLength: 'Mínim {min} caràcters',
+      invalidDni: 'DNI/NIE no vàlid',
+      invalidTelefono: 'Telèfon no vàlid',
+    },
+    detail: {
+      matriculas: 'Matrícules',
+      matriculasError: 'Error en carregar les matrícules',
+      noMatriculas: "L'alumne no té matrícules",
+      codigo: 'Codi',
+      curso: 'Curs',
+      convocatoria: 'Convocatòria',
+      fechaMatricula: 'Data de matrícula',
+      precioFinal: 'Preu final',
+      estadoPago: 'Estat de pagament',
+    },
+    list: {
+      error: 'Error en carregar els alumnes',
+      searchPlaceholder: 'Cerca per nom, correu, DNI/NIE o telèfon',
+      noMatches: 'Cap alumne coincideix amb la cerca',
+      empty: 'No hi ha alumnes registrats',
+      deleteTitle: "Elimina l'alumne",
+      deleteMessage: "S'eliminarà {nombre}. Aquesta acció no es pot desfer.",
+    },
+    notifications: {
+      created: 'Alumne registrat correctament',
+      createError: "Error en registrar l'alumne",
+      createForbidden:
+        "No tens permisos per registrar alumnes. Contacta amb l'administrador.",
+      updated: 'Alumne actualitzat correctament',
+      updateError: "Error en actualitzar l'alumne",
+      updateForbidden:
+        "No tens permisos per editar alumnes. Contacta amb l'administrador.",
+      deleted: 'Alumne eliminat correctament',
+      deleteError: "Error en eliminar l'alumne",
+      deleteForbidden:
+        "No tens permisos per eliminar alumnes. Contacta amb l'administrador.",
+      imported: 'Alumnes importats: {count}',
+      importedPartial:
+        'Alumnes importats: {count}. Rebutjats pel servidor: {failed}',
+    },
+    import: {
+      title: "Importa alumnes des d'un CSV",
+      steps: {
+        file: 'Fitxer',
+        columns: 'Columnes',
+        review: 'Revisió',
+        result: 'Resultat',
+      },
+      fileHelp:
+        'Puja un CSV amb una fila de capçalera. S\'accepten els separadors ";" i ",". Màxim {max} files.',
+      selectFile: 'Selecciona el fitxer',
+      emptyFile: 'El fitxer no conté files de dades',
+      tooManyRows:
+        'El fitxer té {count} files; el màxim per importació és {max}',
+      readError: "No s'ha pogut llegir el fitxer",
+      mappingHelp:
+        '{fileName}: {count} files. Indica quina columna del fitxer correspon a cada camp.',
+      notImported: 'No importis',
+      missing: 'Falta assignar: {fields}',
+      valid: 'Vàlides: {count}',
+      invalid: 'Amb errors: {count}',
+      onlyErrors: 'Només files amb errors',
+      row: 'Fila',
+      errors: 'Errors',
+      reason: 'Motiu',
+      importing: "S'estan important {done} de {total}...",
+      finished: 'Importació finalitzada',
+      created: 'Alumnes creats: {count}',
+      createdWithRejected:
+        'Alumnes creats: {count}. Files rebutjades: {rejected}',
+      interrupted: "La importació s'ha interromput: {message}",
+      downloadRejected: 'Descarrega les rebutjades',
+      rejectedFileName: 'alumnes-rebutjats',
+      changeFile: 'Canvia el fitxer',
+      review: 'Revisa',
+      submit: 'Importa {count} alumnes',
+      fieldError: '{field}: {message}',
+      invalidActivo: 'Actiu: fes servir sí o no',
+      duplicateEmail: 'Correu electrònic: ja existeix o està repetit al fitxer',
+      duplicateDni: 'DNI/NIE: ja existeix o està repetit al fitxer',
+    },
+  },
+  empresas: {
+    title: "Gestió d'empreses",
+    new: 'Nova empresa',
+    editTitle: 'Editar empresa',
+    backToList: 'Tornar a empreses',
+    loadError: "Error en carregar l'empresa",
+    active: 'Activa',
+    inactive: 'Inactiva',
+    fields: {
+      cif: 'CIF',
+      nombreLegal: 'Nom legal',
+      direccionFiscal: 'Adreça fiscal',
+    },
+    form: {
+      cifHelper: 'Exemple: B12345674',
+      submit: 'Desar empresa',
+      invalidCif: 'CIF no vàlid',
+      minLength: 'Mínim {min} caràcters',
+      direccionRequired: "L'adreça fiscal és obligatòria",
+    },
+    detail: {
+      centros: 'Centres ({count})',
+      noCentros: "L'empresa no té centres",
+    },
+    list: {
+      error: 'Error en carregar les empreses',
+      searchPlaceholder: 'Cerca per CIF o nom legal',
+      empty: 'No hi ha empreses',
+      viewCentros: 'Veure centres',
+      deleteTitle: 'Eliminar empresa',
+      deleteMessage:
+        "S'eliminarà {nombre}. Si té centres associats, desactiva-la.",
+    },
+    notifications: {
+      created: 'Empresa creada correctament',
+      createError: "Error en crear l'empresa",
+      createForbidden:
+        "No tens permisos per crear empreses. Contacta amb l'administrador.",
+      updated: 'Empresa actualitzada correctament',
+      updateError: "Error en actualitzar l'empresa",
+      updateForbidden:
+        "No tens permisos per editar empreses. Contacta amb l'administrador.",
+      deleted: 'Empresa eliminada correctament',
+      deleteError: "Error en eliminar l'empresa",
+      deleteForbidden:
+        "No tens permisos per eliminar empreses. Contacta amb l'administrador.",
+    },
+  },
+  centros: {
+    title: 'Gestió de centres',
+    new: 'Nou centre',
+    editTitle: 'Editar centre',
+    backToList: 'Tornar a centres',
+    loadError: 'Error en carregar el centre',
+    fields: {
+      codigo: 'Codi',
+      codigoCentro: 'Codi de centre',
+      nombre: 'Nom',
+      empresa: 'Empresa',
+      comunidad: 'Comunitat',
+      comunidadAutonoma: 'Comunitat autònoma',
+      capacidad: 'Capacitat',
+      capacidadMaxima: 'Capacitat màxima',
+      capacidadAlumnos: 'Capacitat màxima (alumnes)',
+    },
+    form: {
+      submit: 'Desar centre',
+      codigoRequired: 'El codi de centre és obligatori',
+      maxLength: 'Màxim {max} caràcters',
+      nombreRequired: 'El nom és obligatori',
+      capacidadRequired: 'La capacitat és obligatòria',
+      capacidadInt: 'La capacitat ha de ser un nombre enter',
+      capacidadMin: 'La capacitat ha de ser com a mínim {min}',
+      empresaRequired: "L'empresa és obligatòria",
+      comunidadRequired: 'La comunitat és obligatòria',
+    },
+    detail: {
+      ocupacion: 'Ocupació actual',
+      convocatorias: 'Convocatòries',
+      convocatoriasError: 'Error en carregar les convocatòries',
+      noConvocatorias: 'El centre no té convocatòries',
+      curso: 'Curs',
+      fechas: 'Dates',
+      alumnos: 'Alumnes',
+      enCurso: 'En curs',
+    },
+    list: {
+      error: 'Error en carregar els centres',
+      searchPlaceholder: 'Cerca per codi o nom',
+      empty: 'No hi ha centres amb aquests filtres',
+      activeFilter: 'Actius',
+      inactiveFilter: 'Inactius',
+    },
+    notifications: {
+      created: 'Centre creat correctament',
+      createError: 'Error en crear el centre',
+      createForbidden:
+        "No tens permisos per crear centres. Contacta amb l'administrador.",
+      updated: 'Centre actualitzat correctament',
+      updateError: 'Error en actualitzar el centre',
+      updateForbidden:
+        "No tens permisos per editar centres. Contacta amb l'administrador.",
+    },
+    notFound: 'Centre no trobat',
+  },
+  convocatorias: {
+    title: 'Gestió de convocatòries',
+    new: 'Nova convocatòria',
+    editTitle: 'Editar convocatòria {codigo}',
+    backToList: 'Tornar a convocatòries',
+    backToDetail: 'Tornar a la convocatòria',
+    calificaciones: 'Qualificacions',
+    loadError: 'Error en carregar la convocatòria',
+    heading: 'Convocatòria {codigo}',
+    fields: {
+      codigo: 'Codi',
+      curso: 'Curs',
+      profesor: 'Professor',
+      centro: 'Centre',
+      precioBase: 'Preu base',
+      fechaInicio: "Data d'inici",
+      fechaFin: 'Data de fi',
+      inicio: 'Inici',
+      fin: 'Fi',
+      fechas: 'Dates',
+      inscritos: 'Inscrits',
+    },
+    form: {
+      submit: 'Desar convocatòria',
+      cursoRequired: 'El curs és obligatori',
+      profesorRequired: 'El professor és obligatori',
+      centroRequired: 'El centre és obligatori',
+      fechaInicioRequired: "La data d'inici és obligatòria",
+      fechaFinRequired: 'La data de fi és obligatòria',
+      fechaFinAfterInicio:
+        "La data de fi ha de ser posterior a la data d'inici",
+      inactiveOption: '{nombre} (inactiu)',
+    },
+    detail: {
+      matriculas: 'Matrícules ({count})',
+      noMatriculas: 'No hi ha alumnes matriculats',
+      alumno: 'Alumne',
+      fechaMatricula: 'Data de matrícula',
+      precioFinal: 'Preu final',
+      estadoPago: 'Estat de pagament',
+    },
+    list: {
+      error: 'Error en carregar les convocatòries',
+      searchPlaceholder: 'Cerca per codi, curs, centre o professor',
+      onlyActive: 'Només actives',
+      empty: 'No hi ha convocatòries',
+      viewMatriculas: 'Veure matrícules',
+      deactivateTitle: 'Desactivar convocatòria',
+      deactivateMessage:
+        "La convocatòria {codigo} deixarà d'admetre noves matrícules.",
+    },
+    notifications: {
+      created: 'Convocatòria {codigo} creada correctament',
+      createError: 'Error en crear la convocatòria',
+      createForbidden:
+        "No tens permisos per crear convocatòries. Contacta amb l'administrador.",
+      updated: 'Convocatòria actualitzada correctament',
+      updateError: 'Error en actualitzar la convocatòria',
+      updateForbidden:
+        "No tens permisos per editar convocatòries. Contacta amb l'administrador.",
+      deactivated: 'Convocatòria desactivada correctament',
+      deactivateError: 'Error en desactivar la convocatòria',
+      deactivateForbidden:
+        "No tens permisos per desactivar convocatòries. Contacta amb l'administrador.",
+    },
+  },
+  matriculas: {
+    title: 'Gestió de matrícules',
+    new: 'Nova matrícula',
+    estadoPago: {
+      PENDIENTE: 'Pendent',
+      PAGADO: 'Pagat',
+      CANCELADO: 'Cancel·lat',
+    },
+    fields: {
+      codigo: 'Codi',
+      alumno: 'Alumne',
+      curso: 'Curs',
+      convocatoria: 'Convocatòria',
+      fecha: 'Data',
+      precioBruto: 'Preu brut',
+      descuento: 'Descompte',
+      motivoDescuento: 'Motiu del descompte',
+      importeSubvencionado: 'Import subvencionat',
+      subvencion: 'Subvenció',
+      bruto: 'Brut',
+      final: 'Final',
+      precioFinal: 'Preu final',
+      estadoPago: 'Estat de pagament',
+    },
+    form: {
+      submit: 'Desar matrícula',
+      required: '{label} és obligatori',
+      minZero: '{label} ha de ser més gran o igual que 0',
+      alumnoRequired: "L'alumne és obligatori",
+      convocatoriaRequired: 'La convocatòria és obligatòria',
+      motivoRequired: 'Indica el motiu del descompte',
+      importeExceeded:
+        'El descompte i la subvenció no poden superar el preu brut',
+    },
+    price: {
+      descuentoMotivo: 'Descompte ({motivo})',
+    },
+    list: {
+      error: 'Error en carregar les matrícules',
+      empty: 'No hi ha matrícules amb aquests filtres',
+      markAs: 'Marcar com a {estado}',
+      transitionTitle: "Canviar l'estat de pagament",
+      transitionMessage: 'La matrícula {codigo} passarà de {from} a {to}.',
+    },
+    notifications: {
+      created: 'Matrícula {codigo} creada correctament',
+      createError: 'Error en crear la matrícula',
+      createForbidden:
+        "No tens permisos per crear matrícules. Contacta amb l'administrador.",
+      queuedOffline:
+        'Sense connexió: la matrícula es crearà quan es recuperi la connexió',
+      offlineLabel: 'Matrícula de {nombre}',
+      duplicate: "L'alumne ja té la matrícula {codigo} en aquesta convocatòria",
+      estadoPagoUpdated: 'Matrícula {codigo} marcada com a {estado}',
+      estadoPagoError: "Error en actualitzar l'estat de pagament",
+      estadoPagoForbidden:
+        "No tens permisos per modificar pagaments. Contacta amb l'administrador.",
+    },
+    errors: {
+      invalidTransition: 'Una matrícula no pot passar de {from} a {to}',
+    },
+  },
+  facturas: {
+    title: 'Factures',
+    backToList: 'Tornar a factures',
+    estado: {
+      EMITIDA: 'Emesa',
+      PAGADA: 'Pagada',
+      ANULADA: 'Anul·lada',
+    },
+    list: {
+      fechaDesde: 'Emeses des de',
+      fechaHasta: 'Emeses fins a',
+      centro: 'Centre',
+      error: 'Error en carregar les factures',
+      empty: 'No hi ha factures',
+      numero: 'Número',
+      emision: 'Emissió',
+      alumno: 'Alumne',
+      curso: 'Curs',
+      importe: 'Import',
+      view: 'Veure factura',
+      total: 'Total facturat (sense anul·lades)',
+    },
+    detail: {
+      loadError: 'Error en carregar la factura',
+      notFound: 'Factura no trobada',
+      unavailable:
+        'El detall de les factures encara no està disponible en aquest servidor',
+      print: 'Imprimir / PDF',
+      mismatch:
+        "L'import emès ({emitido}) no coincideix amb el preu actual de la matrícula ({actual}). La factura mostra l'import emès en un únic concepte",
+      cif: 'CIF: {cif}',
+      heading: 'Factura',
+      numero: 'Núm. {numero}',
+      fecha: 'Data: {fecha}',
+      billTo: 'Facturar a',
+      dni: 'DNI/NIE: {dni}',
+      matricula: 'Matrícula {codigo}',
+      concepto: 'Concepte',
+      importeSinIva: 'Import sense IVA',
+      importe: 'Import',
+      baseImponible: 'Base imposable',
+      iva: 'IVA ({tipo}%)',
+      ivaExento: 'IVA (exempt)',
+      total: 'Total',
+      exencion: "Operació exempta d'IVA: {motivo}",
+      anulada: 'FACTURA ANUL·LADA',
+    },
+    lineas: {
+      curso: '{curso} (convocatòria {codigo})',
+      descuento: 'Descompte',
+      descuentoMotivo: 'Descompte: {motivo}',
+      subvencion: 'Subvenció',
+      subvencionEntidad: 'Subvenció: {entidad}',
+    },
+  },
+  catalogos: {
+    fields: {
+      nombre: 'Nom',
+      descripcion: 'Descripció',
+    },
+    form: {
+      minLength: 'Mínim {min} caràcters',
+    },
+    list: {
+      searchPlaceholder: 'Cerca per nom o descripció',
+      onlyActive: 'Només actius',
+      activate: 'Activar',
+      deactivateMessage:
+        "{nombre} deixarà d'oferir-se en crear o editar cursos. Els cursos existents no es modifiquen.",
+    },
+    materia: {
+      title: 'Gestió de matèries',
+      new: 'Nova matèria',
+      editTitle: 'Editar matèria',
+      submit: 'Desar matèria',
+      loadError: 'Error en carregar les matèries',
+      empty: 'No hi ha matèries',
+      deactivateTitle: 'Desactivar matèria',
+      created: 'Matèria creada correctament',
+      createError: 'Error en crear la matèria',
+      createForbidden:
+        "No tens permisos per crear matèries. Contacta amb l'administrador.",
+      updated: 'Matèria actualitzada correctament',
+      updateError: 'Error en actualitzar la matèria',
+      updateForbidden:
+        "No tens permisos per editar matèries. Contacta amb l'administrador.",
+    },
+    formato: {
+      title: 'Gestió de formats',
+      new: 'Nou format',
+      editTitle: 'Editar format',
+      submit: 'Desar format',
+      loadError: 'Error en carregar els formats',
+      empty: 'No hi ha formats',
+      deactivateTitle: 'Desactivar format',
+      created: 'Format creat correctament',
+      createError: 'Error en crear el format',
+      createForbidden:
+        "No tens permisos per crear formats. Contacta amb l'administrador.",
+      updated: 'Format actualitzat correctament',
+      updateError: 'Error en actualitzar el format',
+      updateForbidden:
+        "No tens permisos per editar formats. Contacta amb l'administrador.",
+    },
+  },
+  profesores: {
+    title: 'Professors',
+    carga: 'Càrrega de treball',
+    backToList: 'Tornar a professors',
+    fields: {
+      nombre: 'Nom',
+      email: 'Correu electrònic',
+      dni: 'DNI/NIE',
+      telefono: 'Telèfon',
+      alta: 'Alta',
+      convocatoriasActivas: 'Convocatòries actives',
+    },
+    list: {
+      error: 'Error en carregar els professors',
+      searchPlaceholder: 'Cerca per nom, correu o DNI',
+      empty: 'No hi ha professors',
+      viewProfile: 'Veure perfil',
+    },
+    detail: {
+      loadError: 'Error en carregar el professor',
+      convocatoriasError: 'Error en carregar les convocatòries',
+      cargaMensual: 'Càrrega mensual',
+      noHoras: 'Sense hores assignades',
+      convocatorias: 'Convocatòries actives ({count})',
+      noConvocatorias: 'El professor no té convocatòries actives',
+      codigo: 'Codi',
+      curso: 'Curs',
+      centro: 'Centre',
+      inicio: 'Inici',
+      fin: 'Fi',
+      horas: 'Hores',
+    },
+    cargaView: {
+      loadError: 'Error en carregar la càrrega de treball',
+      desde: 'Des de',
+      maximo: 'Màxim recomanat: {horas} h/mes',
+      overloadedOne: '1 professor supera el màxim mensual en el període',
+      overloadedMany:
+        '{count} professors superen el màxim mensual en el període',
+      empty: 'No hi ha professors actius',
+      profesor: 'Professor',
+      total: 'Total',
+      convocatorias: 'Convocatòries',
+      exceeds: 'Supera les {horas} h mensuals',
+    },
+  },
+  calificaciones: {
+    loadError: 'Error en carregar les qualificacions',
+    heading: '{curso} · Convocatòria {codigo}',
+    addMateria: 'Afegir matèria',
+    save: 'Desar',
+    saveCount: 'Desar ({count})',
+    readOnly:
+      'Només el professor de la convocatòria o un administrador poden modificar les notes',
+    invalidNotas: "Les notes han d'estar entre 0 i 10, amb fins a dos decimals",
+    noMatriculas: 'No hi ha alumnes matriculats',
+    noMaterias: 'El curs encara no té matèries assignades',
+    alumno: 'Alumne',
+    media: 'Mitjana',
+    resultado: 'Resultat',
+    pendiente: 'Pendent',
+    apto: 'Apte',
+    noApto: 'No apte',
+    notaLabel: 'Nota de {alumno} a {materia}',
+    mediaConvocatoria: 'Mitjana de la convocatòria',
+    notifications: {
+      savedOne: 'Nota desada correctament',
+      savedMany: '{count} notes desades correctament',
+      saveError: 'Error en desar les notes',
+      saveForbidden: 'No tens permisos per qualificar aquesta convocatòria.',
+      partial: "No s'han pogut desar {failed} de {total} notes",
+    },
+  },
+  meta: {
+    description:
+      'Gestió de cursos, alumnes, matrícules i facturació del centre',
+    authTitle: 'Autenticació - {appName}',
+    authDescription: 'Inicia sessió a {appName}',
+  },
+};
@@ -0,0 +1,847 @@
+import type { Messages } from './es';
+
+export const en: Messages = {
+  common: {
+    cancel: 'Cancel',
+    close: 'Close',
+    confirm: 'Confirm',
+    edit: 'Edit',
+    delete: 'Delete',
+    deactivate: 'Deactivate',
+    retry: 'Retry',
+    discard: 'Discard',
+    saving: 'Saving...',
+    processing: 'Processing...',
+    actions: 'Actions',
+    active: 'Active',
+    inactive: 'Inactive',
+    status: 'Status',
+    clear: 'Clear',
+    view: 'View details',
+    back: 'Back',
+    yes: 'Yes',
+    no: 'No',
+    all: 'All',
+  },
+  nav: {
+    dashboard: 'Dashboard',
+    cursos: 'Courses',
+    alumnos: 'Students',
+    convocatorias: 'Course sessions',
+    profesores: 'Teachers',
+    matriculas: 'Enrolments',
+    facturas: 'Invoices',
+    centros: 'Centres',
+    empresas: 'Companies',
+    materias: 'Subjects',
+    formatos: 'Formats',
+    logout: 'Log out',
+    language: 'Language',
+    theme: 'Theme',
+    themeModes: {
+      light: 'Light',
+      dark: 'Dark',
+      system: 'System default',
+    },
+  },
+  dataTable: {
+    empty: 'No results',
+    error: 'Error loading data',
+    selectAll: 'Select all rows',
+    selected: 'Selected: {count}',
+    sortBy: 'Sort by',
+    ascending: 'Ascending',
+    descending: 'Descending',
+    columns: 'Columns',
+    rowsPerPage: 'Rows per page',
+    rowsPerPageShort: 'Rows',
+    displayedRows: '{from}–{to} of {count}',
+  },
+  export: {
+    button: 'Export',
+    title: 'Export list',
+    format: 'Format',
+    columns: 'Columns',
+    exporting: 'Exporting...',
+    exported: 'Records exported: {count}',
+    error: 'Error exporting',
+    forbidden: 'You do not have permission to export this list',
+  },
+  offline: {
+    banner:
+      'You are offline. Showing the last saved data; new courses and enrolments will be sent when the connection is back',
+    pendingCount: 'Pending: {count}',
+    failed: 'Offline changes that could not be sent: {count}',
+    review: 'View changes',
+    queueTitle: 'Offline changes',
+    queueEmpty: 'There are no changes waiting to be sent',
+    synced: 'Offline changes sent: {count}',
+    syncFailed:
+      'Offline changes that could not be sent: {count}. Review them in the pending queue',
+    unknownOperation: 'Unknown operation',
+    loginRequired: 'Log in to save changes while offline',
+    interrupted:
+      'Sending was interrupted. Check whether it was saved before retrying',
+    status: {
+      pending: 'Pending',
+      syncing: 'Sending',
+      conflict: 'Conflict',
+      error: 'Error',
+    },
+  },
+  auth: {
+    login: {
+      title: 'Log in',
+      subtitle: 'Enter your credentials to continue',
+      email: 'Email',
+      password: 'Password',
+      submit: 'Log in',
+      submitting: 'Logging in...',
+      invalidEmail: 'Invalid email',
+      passwordMin: 'At least {min} characters',
+    },
+    errors: {
+      loginFailed: 'Error logging in. Check your credentials.',
+      invalidResponse: 'Invalid server response',
+      emptyResponse: 'Empty server response',
+      missingToken: 'No authentication token received',
+      incompleteUser: 'Incomplete user data in the response',
+      invalidCredentials: 'Invalid credentials',
+      endpointNotFound: 'Authentication endpoint not found',
+      userExists: 'The user already exists',
+      emailExists: 'An account with this email already exists',
+      refreshFailed: 'The session could not be renewed',
+    },
+    register: {
+      email: 'Email',
+      password: 'Password',
+      nombre: 'First name',
+      apellidos: 'Last name',
+      rol: 'Role (optional)',
+      rolPlaceholder: 'Select a role',
+      submit: 'Sign up',
+      submitting: 'Signing up...',
+      invalidEmail: 'Invalid email',
+      minLength: 'At least {min} characters',
+      failed: 'The registration could not be completed. Please try again.',
+    },
+    session: {
+      expiredTitle: 'Your session has expired',
+      expiringTitle: 'Your session is about to expire',
+      expiredMessage: 'Enter your password to continue where you left off.',
+      expiringMessage:
+        'Your session expires in {time}. Enter your password to stay signed in.',
+      email: 'Email',
+      password: 'Password',
+      logout: 'Log out',
+      notNow: 'Not now',
+      verifying: 'Verifying...',
+      stayConnected: 'Stay signed in',
+      noSession: 'There is no session to renew',
+    },
+  },
+  cursos: {
+    title: 'Course management',
+    createTitle: 'Create new course',
+    listTitle: 'Course list',
+    editTitle: 'Edit course',
+    loadError: 'Error loading the course',
+    missingRelations:
+      'The server did not return the subject and format of this course. Select them again before saving',
+    errors: {
+      notFound: 'Course not found',
+      missingRelations:
+        '"{nombre}" cannot be deactivated: the server does not return its subject or format. Edit it and select them again',
+    },
+    fields: {
+      nombre: 'Name',
+      materia: 'Subject',
+      formato: 'Format',
+      precioBase: 'Base price',
+      duracionHoras: 'Duration (hours)',
+      horas: 'Hours',
+      id: 'ID',
+    },
+    form: {
+      submit: 'Save course',
+      inactiveMateria: '{nombre} (inactive)',
+      inactiveFormato: '{nombre} (inactive)',
+      nombreRequired: 'Name is required',
+      materiaRequired: 'Subject is required',
+      formatoRequired: 'Format is required',
+      precioMin: 'The price must be 0 or greater',
+    },
+    filters: {
+      search: 'Search',
+      searchPlaceholder: 'Course name',
+      all: 'All',
+      allFemale: 'All',
+      active: 'Active',
+      inactive: 'Inactive',
+      precioMin: 'Price from',
+      precioMax: 'Price to',
+    },
+    list: {
+      empty: 'No courses match the filters',
+      error: 'Error loading courses',
+      deleteTitle: 'Delete course',
+      deleteMessage:
+        '"{nombre}" will be permanently deleted. This action cannot be undone.',
+      deactivateTitle: 'Deactivate course',
+      deactivateMessage:
+        '"{nombre}" will no longer be available for new course sessions.',
+      bulkDeleteTitle: 'Delete courses',
+      bulkDeleteMessage:
+        '{count} courses will be permanently deleted. This action cannot be undone.',
+      bulkDeactivateTitle: 'Deactivate courses',
+      bulkDeactivateMessage:
+        '{count} courses will no longer be available for new course sessions.',
+    },
+    notifications: {
+      created: 'Course created successfully',
+      updated: 'Course updated successfully',
+      deactivated: 'Course deactivated successfully',
+      deleted: 'Course deleted successfully',
+      queuedOffline:
+        'You are offline: the course will be created when the connection is back',
+      offlineLabel: 'New course {nombre}',
+      duplicateNombre: 'A course named "{nombre}" already exists',
+      createError: 'Error creating course',
+      createForbidden:
+        'You do not have permission to create courses. Contact the administrator.',
+      updateError: 'Error updating course',
+      updateForbidden:
+        'You do not have permission to edit courses. Contact the administrator.',
+      deactivateError: 'Error deactivating course',
+      deactivateForbidden:
+        'You do not have permission to deactivate courses. Contact the administrator.',
+      deleteError: 'Error deleting course',
+      deleteForbidden:
+        'You do not have permission to delete courses. Contact the administrator.',
+      bulkDeleted: 'Courses deleted: {count}',
+      bulkDeactivated: 'Courses deactivated: {count}',
+      bulkDeletedPartial:
+        'Courses deleted: {count}. Failed: {failed} ({detail})',
+      bulkDeactivatedPartial:
+        'Courses deactivated: {count}. Failed: {failed} ({detail})',
+      bulkError: 'Error processing courses',
+      bulkForbidden: 'You do not have permission to modify courses',
+    },
+  },
+  roles: {
+    ADMIN: 'Administrator',
+    ADMINISTRATIVO: 'Administrative staff',
+    PROFESOR: 'Teacher',
+    ALUMNO: 'Student',
+  },
+  errors: {
+    unauthenticated: 'Your session has expired. Please log in again.',
+    forbidden:
+      'You do not have permission to perform this action. Contact the administrator.',
+    validation: 'The data entered is not valid. Check the highlighted fields.',
+    notFound: 'The requested resource was not found.',
+    conflict: 'The record conflicts with an existing one. Check the data.',
+    network: 'Could not connect to the server. Check your connection.',
+    server: 'Internal server error. Try again later.',
+    unknown: 'An unexpected error occurred. Please try again.',
+  },
+  forbidden: {
+    title: 'Access denied',
+    message:
+      'Your role does not have permission to view this page. If you think this is a mistake, contact an administrator.',
+    back: 'Back to home',
+  },
+  dashboard: {
+    welcome: 'Welcome, {nombre}',
+    subtitle: 'Dashboard - {rol}',
+    vsLastMonth: '{trend}% vs. last month',
+    admin: {
+      loadError: 'Error loading the indicators',
+      alumnosActivos: 'Active students',
+      altasMes: '{count} new this month',
+      pendientesPago: 'Enrolments pending payment',
+      porCobrar: '{importe} to collect',
+      ingresosMes: 'Revenue this month',
+      ocupacionCentros: 'Centre occupancy',
+      centrosActivos: '{count} active centres',
+      ingresosCobrados: 'Revenue collected',
+      ingresos: 'Revenue',
+      matriculasAltas: 'Enrolments and new students',
+      matriculas: 'Enrolments',
+      altas: 'New students',
+      ocupacionPorCentro: 'Occupancy by centre',
+      noCentros: 'There are no active centres',
+      ocupacion: 'Occupancy',
+    },
+    alumno: {
+      loadError: 'Error loading your enrolments',
+      misMatriculas: 'My enrolments',
+      pendientePago: 'Pending payment',
+      sinPagarOne: '1 unpaid enrolment',
+      sinPagarMany: '{count} unpaid enrolments',
+      todoPagado: 'All paid',
+      notaMedia: 'Average grade',
+      calificacionesOne: '1 grade',
+      calificacionesMany: '{count} grades',
+      noMatriculas: 'You have no enrolments yet',
+      misCalificaciones: 'My grades',
+      noNotas: 'You have no grades yet',
+      curso: 'Course',
+      fechas: 'Dates',
+      importe: 'Amount',
+      pago: 'Payment',
+      materia: 'Subject',
+      fecha: 'Date',
+      nota: 'Grade',
+    },
+    profesor: {
+      loadError: 'Error loading your course sessions',
+      enCurso: 'Course sessions in progress',
+      proximas: 'Upcoming course sessions',
+      sinCalificar: 'Students without a grade',
+      enConvocatoriasOne: 'In 1 session',
+      enConvocatoriasMany: 'In {count} sessions',
+      misConvocatorias: 'My course sessions',
+      noProximas: 'You have no upcoming course sessions',
+      curso: 'Course',
+      centro: 'Centre',
+      fechas: 'Dates',
+      enCursoChip: 'In progress',
+      pendienteCalificar: 'Pending grading',
+      alDia: 'You are up to date with grades',
+      convocatoria: 'Course session',
+      sinNota: 'Ungraded',
+      calificar: 'Grade',
+    },
+    quickActions: {
+      title: 'Quick actions',
+      nuevoCurso: 'New course',
+      nuevaMatricula: 'New enrolment',
+      importarAlumnos: 'Import students',
+      cobrosPendientes: 'Pending payments',
+      convocatorias: 'Course sessions',
+      cursos: 'Courses',
+      misMatriculas: 'My enrolments',
+      misNotas: 'My grades',
+    },
+  },
+  alumnos: {
+    title: 'Student management',
+    new: 'New student',
+    importCsv: 'Import CSV',
+    createTitle: 'Register student',
+    editTitle: 'Edit student',
+    backToList: 'Back to students',
+    loadError: 'Error loading the student',
+    fields: {
+      nombre: 'First name',
+      apellidos: 'Last name',
+      dni: 'ID number',
+      telefono: 'Phone',
+      email: 'Email',
+      direccion: 'Address',
+      activo: 'Active',
+      alta: 'Registered',
+      fechaAlta: 'Registration date',
+    },
+    form: {
+      personalData: 'Personal details',
+      submit: 'Save student',
+      invalidEmail: 'Invalid email',
+      minLength: 'At least {min} characters',
+      invalidDni: 'Invalid DNI/NIE',
+      invalidTelefono: 'Invalid phone number',
+    },
+    detail: {
+      matriculas: 'Enrolments',
+      matriculasError: 'Error loading enrolments',
+      noMatriculas: 'The student has no enrolments',
+      codigo: 'Code',
+      curso: 'Course',
+      convocatoria: 'Course session',
+      fechaMatricula: 'Enrolment date',
+      precioFinal: 'Final price',
+      estadoPago: 'Payment status',
+    },
+    list: {
+      error: 'Error loading students',
+      searchPlaceholder: 'Search by name, email, ID number or phone',
+      noMatches: 'No student matches the search',
+      empty: 'There are no registered students',
+      deleteTitle: 'Delete student',
+      deleteMessage: '{nombre} will be deleted. This action cannot be undone.',
+    },
+    notifications: {
+      created: 'Student registered successfully',
+      createError: 'Error registering student',
+      createForbidden:
+        'You do not have permission to register students. Contact the administrator.',
+      updated: 'Student updated successfully',
+      updateError: 'Error updating student',
+      updateForbidden:
+        'You do not have permission to edit students. Contact the administrator.',
+      deleted: 'Student deleted successfully',
+      deleteError: 'Error deleting student',
+      deleteForbidden:
+        'You do not have permission to delete students. Contact the administrator.',
+      imported: 'Students imported: {count}',
+      importedPartial:
+        'Students imported: {count}. Rejected by the server: {failed}',
+    },
+    import: {
+      title: 'Import students from CSV',
+      steps: {
+        file: 'File',
+        columns: 'Columns',
+        review: 'Review',
+        result: 'Result',
+      },
+      fileHelp:
+        'Upload a CSV with a header row. Both ";" and "," separators are accepted. Up to {max} rows.',
+      selectFile: 'Select file',
+      emptyFile: 'The file has no data rows',
+      tooManyRows: 'The file has {count} rows; the maximum per import is {max}',
+      readError: 'The file could not be read',
+      mappingHelp:
+        '{fileName}: {count} rows. Choose which file column matches each field.',
+      notImported: 'Do not import',
+      missing: 'Still to assign: {fields}',
+      valid: 'Valid: {count}',
+      invalid: 'With errors: {count}',
+      onlyErrors: 'Only rows with errors',
+      row: 'Row',
+      errors: 'Errors',
+      reason: 'Reason',
+      importing: 'Importing {done} of {total}...',
+      finished: 'Import finished',
+      created: 'Students created: {count}',
+      createdWithRejected:
+        'Students created: {count}. Rejected rows: {rejected}',
+      interrupted: 'The import was interrupted: {message}',
+      downloadRejected: 'Download rejected rows',
+      rejectedFileName: 'rejected-students',
+      changeFile: 'Change file',
+      review: 'Review',
+      submit: 'Import {count} students',
+      fieldError: '{field}: {message}',
+      invalidActivo: 'Active: use yes or no',
+      duplicateEmail: 'Email: already exists or is repeated in the file',
+      duplicateDni: 'ID number: already exists or is repeated in the file',
+    },
+  },
+  empresas: {
+    title: 'Company management',
+    new: 'New company',
+    editTitle: 'Edit company',
+    backToList: 'Back to companies',
+    loadError: 'Error loading the company',
+    active: 'Active',
+    inactive: 'Inactive',
+    fields: {
+      cif: 'Tax ID (CIF)',
+      nombreLegal: 'Legal name',
+      direccionFiscal: 'Registered address',
+    },
+    form: {
+      cifHelper: 'Example: B12345674',
+      submit: 'Save company',
+      invalidCif: 'Invalid CIF',
+      minLength: 'At least {min} characters',
+      direccionRequired: 'Registered address is required',
+    },
+    detail: {
+      centros: 'Centres ({count})',
+      noCentros: 'The company has no centres',
+    },
+    list: {
+      error: 'Error loading companies',
+      searchPlaceholder: 'Search by CIF or legal name',
+      empty: 'No companies',
+      viewCentros: 'View centres',
+      deleteTitle: 'Delete company',
+      deleteMessage:
+        '{nombre} will be deleted. If it has centres, deactivate it instead.',
+    },
+    notifications: {
+      created: 'Company created successfully',
+      createError: 'Error creating company',
+      createForbidden:
+        'You do not have permission to create companies. Contact the administrator.',
+      updated: 'Company updated successfully',
+      updateError: 'Error updating company',
+      updateForbidden:
+        'You do not have permission to edit companies. Contact the administrator.',
+      deleted: 'Company deleted successfully',
+      deleteError: 'Error deleting company',
+      deleteForbidden:
+        'You do not have permission to delete companies. Contact the administrator.',
+    },
+  },
+  centros: {
+    title: 'Centre management',
+    new: 'New centre',
+    editTitle: 'Edit centre',
+    backToList: 'Back to centres',
+    loadError: 'Error loading the centre',
+    fields: {
+      codigo: 'Code',
+      codigoCentro: 'Centre code',
+      nombre: 'Name',
+      empresa: 'Company',
+      comunidad: 'Region',
+      comunidadAutonoma: 'Autonomous community',
+      capacidad: 'Capacity',
+      capacidadMaxima: 'Maximum capacity',
+      capacidadAlumnos: 'Maximum capacity (students)',
+    },
+    form: {
+      submit: 'Save centre',
+      codigoRequired: 'Centre code is required',
+      maxLength: 'At most {max} characters',
+      nombreRequired: 'Name is required',
+      capacidadRequired: 'Capacity is required',
+      capacidadInt: 'The capacity must be a whole number',
+      capacidadMin: 'The capacity must be at least {min}',
+      empresaRequired: 'Company is required',
+      comunidadRequired: 'Region is required',
+    },
+    detail: {
+      ocupacion: 'Current occupancy',
+      convocatorias: 'Course sessions',
+      convocatoriasError: 'Error loading course sessions',
+      noConvocatorias: 'The centre has no course sessions',
+      curso: 'Course',
+      fechas: 'Dates',
+      alumnos: 'Students',
+      enCurso: 'In progress',
+    },
+    list: {
+      error: 'Error loading centres',
+      searchPlaceholder: 'Search by code or name',
+      empty: 'No centres match these filters',
+      activeFilter: 'Active',
+      inactiveFilter: 'Inactive',
+    },
+    notifications: {
+      created: 'Centre created successfully',
+      createError: 'Error creating centre',
+      createForbidden:
+        'You do not have permission to create centres. Contact the administrator.',
+      updated: 'Centre updated successfully',
+      updateError: 'Error updating centre',
+      updateForbidden:
+        'You do not have permission to edit centres. Contact the administrator.',
+    },
+    notFound: 'Centre not found',
+  },
+  convocatorias: {
+    title: 'Course session management',
+    new: 'New course session',
+    editTitle: 'Edit course session {codigo}',
+    backToList: 'Back to course sessions',
+    backToDetail: 'Back to the course session',
+    calificaciones: 'Grades',
+    loadError: 'Error loading the course session',
+    heading: 'Course session {codigo}',
+    fields: {
+      codigo: 'Code',
+      curso: 'Course',
+      profesor: 'Teacher',
+      centro: 'Centre',
+      precioBase: 'Base price',
+      fechaInicio: 'Start date',
+      fechaFin: 'End date',
+      inicio: 'Start',
+      fin: 'End',
+      fechas: 'Dates',
+      inscritos: 'Enrolled',
+    },
+    form: {
+      submit: 'Save course session',
+      cursoRequired: 'Course is required',
+      profesorRequired: 'Teacher is required',
+      centroRequired: 'Centre is required',
+      fechaInicioRequired: 'Start date is required',
+      fechaFinRequired: 'End date is required',
+      fechaFinAfterInicio: 'The end date must be after the start date',
+      inactiveOption: '{nombre} (inactive)',
+    },
+    detail: {
+      matriculas: 'Enrolments ({count})',
+      noMatriculas: 'No students enrolled',
+      alumno: 'Student',
+      fechaMatricula: 'Enrolment date',
+      precioFinal: 'Final price',
+      estadoPago: 'Payment status',
+    },
+    list: {
+      error: 'Error loading course sessions',
+      searchPlaceholder: 'Search by code, course, centre or teacher',
+      onlyActive: 'Active only',
+      empty: 'No course sessions',
+      viewMatriculas: 'View enrolments',
+      deactivateTitle: 'Deactivate course session',
+      deactivateMessage:
+        'Course session {codigo} will no longer accept new enrolments.',
+    },
+    notifications: {
+      created: 'Course session {codigo} created successfully',
+      createError: 'Error creating course session',
+      createForbidden:
+        'You do not have permission to create course sessions. Contact the administrator.',
+      updated: 'Course session updated successfully',
+      updateError: 'Error updating course session',
+      updateForbidden:
+        'You do not have permission to edit course sessions. Contact the administrator.',
+      deactivated: 'Course session deactivated successfully',
+      deactivateError: 'Error deactivating course session',
+      deactivateForbidden:
+        'You do not have permission to deactivate course sessions. Contact the administrator.',
+    },
+  },
+  matriculas: {
+    title: 'Enrolment management',
+    new: 'New enrolment',
+    estadoPago: {
+      PENDIENTE: 'Pending',
+      PAGADO: 'Paid',
+      CANCELADO: 'Cancelled',
+    },
+    fields: {
+      codigo: 'Code',
+      alumno: 'Student',
+      curso: 'Course',
+      convocatoria: 'Course session',
+      fecha: 'Date',
+      precioBruto: 'Gross price',
+      descuento: 'Discount',
+      motivoDescuento: 'Discount reason',
+      importeSubvencionado: 'Subsidised amount',
+      subvencion: 'Subsidy',
+      bruto: 'Gross',
+      final: 'Final',
+      precioFinal: 'Final price',
+      estadoPago: 'Payment status',
+    },
+    form: {
+      submit: 'Save enrolment',
+      required: '{label} is required',
+      minZero: '{label} must be 0 or greater',
+      alumnoRequired: 'Student is required',
+      convocatoriaRequired: 'Course session is required',
+      motivoRequired: 'Enter the reason for the discount',
+      importeExceeded: 'Discount and subsidy cannot exceed the gross price',
+    },
+    price: {
+      descuentoMotivo: 'Discount ({motivo})',
+    },
+    list: {
+      error: 'Error loading enrolments',
+      empty: 'No enrolments match these filters',
+      markAs: 'Mark as {estado}',
+      transitionTitle: 'Change payment status',
+      transitionMessage: 'Enrolment {codigo} will change from {from} to {to}.',
+    },
+    notifications: {
+      created: 'Enrolment {codigo} created successfully',
+      createError: 'Error creating enrolment',
+      createForbidden:
+        'You do not have permission to create enrolments. Contact the administrator.',
+      queuedOffline:
+        'You are offline: the enrolment will be created when the connection is back',
+      offlineLabel: 'Enrolment for {nombre}',
+      duplicate:
+        'The student already has enrolment {codigo} in this course session',
+      estadoPagoUpdated: 'Enrolment {codigo} marked as {estado}',
+      estadoPagoError: 'Error updating the payment status',
+      estadoPagoForbidden:
+        'You do not have permission to modify payments. Contact the administrator.',
+    },
+    errors: {
+      invalidTransition: 'An enrolment cannot change from {from} to {to}',
+    },
+  },
+  facturas: {
+    title: 'Invoices',
+    backToList: 'Back to invoices',
+    estado: {
+      EMITIDA: 'Issued',
+      PAGADA: 'Paid',
+      ANULADA: 'Cancelled',
+    },
+    list: {
+      fechaDesde: 'Issued from',
+      fechaHasta: 'Issued until',
+      centro: 'Centre',
+      error: 'Error loading invoices',
+      empty: 'No invoices',
+      numero: 'Number',
+      emision: 'Issued',
+      alumno: 'Student',
+      curso: 'Course',
+      importe: 'Amount',
+      view: 'View invoice',
+      total: 'Total invoiced (excluding cancelled)',
+    },
+    detail: {
+      loadError: 'Error loading the invoice',
+      notFound: 'Invoice not found',
+      unavailable: 'Invoice details are not available on this server yet',
+      print: 'Print / PDF',
+      mismatch:
+        'The issued amount ({emitido}) does not match the current enrolment price ({actual}). The invoice shows the issued amount as a single item',
+      cif: 'Tax ID: {cif}',
+      heading: 'Invoice',
+      numero: 'No. {numero}',
+      fecha: 'Date: {fecha}',
+      billTo: 'Bill to',
+      dni: 'ID number: {dni}',
+      matricula: 'Enrolment {codigo}',
+      concepto: 'Description',
+      importeSinIva: 'Amount excl. VAT',
+      importe: 'Amount',
+      baseImponible: 'Taxable base',
+      iva: 'VAT ({tipo}%)',
+      ivaExento: 'VAT (exempt)',
+      total: 'Total',
+      exencion: 'VAT-exempt transaction: {motivo}',
+      anulada: 'INVOICE CANCELLED',
+    },
+    lineas: {
+      curso: '{curso} (course session {codigo})',
+      descuento: 'Discount',
+      descuentoMotivo: 'Discount: {motivo}',
+      subvencion: 'Subsidy',
+      subvencionEntidad: 'Subsidy: {entidad}',
+    },
+  },
+  catalogos: {
+    fields: {
+      nombre: 'Name',
+      descripcion: 'Description',
+    },
+    form: {
+      minLength: 'At least {min} characters',
+    },
+    list: {
+      searchPlaceholder: 'Search by name or description',
+      onlyActive: 'Active only',
+      activate: 'Activate',
+      deactivateMessage:
+        '{nombre} will no longer be offered when creating or editing courses. Existing courses are not changed.',
+    },
+    materia: {
+      title: 'Subject management',
+      new: 'New subject',
+      editTitle: 'Edit subject',
+      submit: 'Save subject',
+      loadError: 'Error loading subjects',
+      empty: 'No subjects',
+      deactivateTitle: 'Deactivate subject',
+      created: 'Subject created successfully',
+      createError: 'Error creating subject',
+      createForbidden:
+        'You do not have permission to create subjects. Contact the administrator.',
+      updated: 'Subject updated successfully',
+      updateError: 'Error updating subject',
+      updateForbidden:
+        'You do not have permission to edit subjects. Contact the administrator.',
+    },
+    formato: {
+      title: 'Format management',
+      new: 'New format',
+      editTitle: 'Edit format',
+      submit: 'Save format',
+      loadError: 'Error loading formats',
+      empty: 'No formats',
+      deactivateTitle: 'Deactivate format',
+      created: 'Format created successfully',
+      createError: 'Error creating format',
+      createForbidden:
+        'You do not have permission to create formats. Contact the administrator.',
+      updated: 'Format updated successfully',
+      updateError: 'Error updating format',
+      updateForbidden:
+        'You do not have permission to edit formats. Contact the administrator.',
+    },
+  },
+  profesores: {
+    title: 'Teachers',
+    carga: 'Workload',
+    backToList: 'Back to teachers',
+    fields: {
+      nombre: 'Name',
+      email: 'Email',
+      dni: 'ID number',
+      telefono: 'Phone',
+      alta: 'Registered',
+      convocatoriasActivas: 'Active course sessions',
+    },
+    list: {
+      error: 'Error loading teachers',
+      searchPlaceholder: 'Search by name, email or ID number',
+      empty: 'No teachers',
+      viewProfile: 'View profile',
+    },
+    detail: {
+      loadError: 'Error loading the teacher',
+      convocatoriasError: 'Error loading course sessions',
+      cargaMensual: 'Monthly workload',
+      noHoras: 'No hours assigned',
+      convocatorias: 'Active course sessions ({count})',
+      noConvocatorias: 'The teacher has no active course sessions',
+      codigo: 'Code',
+      curso: 'Course',
+      centro: 'Centre',
+      inicio: 'Start',
+      fin: 'End',
+      horas: 'Hours',
+    },
+    cargaView: {
+      loadError: 'Error loading the workload',
+      desde: 'From',
+      maximo: 'Recommended maximum: {horas} h/month',
+      overloadedOne: '1 teacher exceeds the monthly maximum in this period',
+      overloadedMany:
+        '{count} teachers exceed the monthly maximum in this period',
+      empty: 'No active teachers',
+      profesor: 'Teacher',
+      total: 'Total',
+      convocatorias: 'Course sessions',
+      exceeds: 'Exceeds {horas} h per month',
+    },
+  },
+  calificaciones: {
+    loadError: 'Error loading grades',
+    heading: '{curso} · Course session {codigo}',
+    addMateria: 'Add subject',
+    save: 'Save',
+    saveCount: 'Save ({count})',
+    readOnly:
+      'Only the course session teacher or an administrator can change grades',
+    invalidNotas: 'Grades must be between 0 and 10, with up to two decimals',
+    noMatriculas: 'No students enrolled',
+    noMaterias: 'The course has no subjects assigned yet',
+    alumno: 'Student',
+    media: 'Average',
+    resultado: 'Result',
+    pendiente: 'Pending',
+    apto: 'Pass',
+    noApto: 'Fail',
+    notaLabel: 'Grade for {alumno} in {materia}',
+    mediaConvocatoria: 'Course session average',
+    notifications: {
+      savedOne: 'Grade saved successfully',
+      savedMany: '{count} grades saved successfully',
+      saveError: 'Error saving grades',
+      saveForbidden: 'You do not have permission to grade this course session.',
+      partial: '{failed} of {total} grades could not be saved',
+    },
+  },
+  meta: {
+    description:
+      'Management of courses, students, enrolments and invoicing for the centre',
+    authTitle: 'Sign in - {appName}',
+    authDescription: 'Sign in to {appName}',
+  },
+};
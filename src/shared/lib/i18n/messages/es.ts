@@ -0,0 +1,860 @@
+/**
+ * Catálogo en español: es el de referencia, los demás deben tener las mismas claves
+ * Los parámetros se escriben entre llaves: {nombre}
+ */
+export const es = {
+  common: {
+    cancel: 'Cancelar',
+    close: 'Cerrar',
+    confirm: 'Confirmar',
+    edit: 'Editar',
+    delete: 'Eliminar',
+    deactivate: 'Desactivar',
+    retry: 'Reintentar',
+    discard: 'Descartar',
+    saving: 'Guardando...',
+    processing: 'Procesando...',
+    actions: 'Acciones',
+    active: 'Activo',
+    inactive: 'Inactivo',
+    status: 'Estado',
+    clear: 'Limpiar',
+    view: 'Ver ficha',
+    back: 'Atrás',
+    yes: 'Sí',
+    no: 'No',
+    all: 'Todos',
+  },
+  nav: {
+    dashboard: 'Dashboard',
+    cursos: 'Cursos',
+    alumnos: 'Alumnos',
+    convocatorias: 'Convocatorias',
+    profesores: 'Profesores',
+    matriculas: 'Matrículas',
+    facturas: 'Facturas',
+    centros: 'Centros',
+    empresas: 'Empresas',
+    materias: 'Materias',
+    formatos: 'Formatos',
+    logout: 'Cerrar Sesión',
+    language: 'Idioma',
+    theme: 'Tema',
+    themeModes: {
+      light: 'Claro',
+      dark: 'Oscuro',
+      system: 'Según el sistema',
+    },
+  },
+  dataTable: {
+    empty: 'No hay resultados',
+    error: 'Error al cargar los datos',
+    selectAll: 'Seleccionar todas las filas',
+    selected: 'Seleccionados: {count}',
+    sortBy: 'Ordenar por',
+    ascending: 'Ascendente',
+    descending: 'Descendente',
+    columns: 'Columnas',
+    rowsPerPage: 'Filas por página',
+    rowsPerPageShort: 'Filas',
+    displayedRows: '{from}–{to} de {count}',
+  },
+  export: {
+    button: 'Exportar',
+    title: 'Exportar listado',
+    format: 'Formato',
+    columns: 'Columnas',
+    exporting: 'Exportando...',
+    exported: 'Registros exportados: {count}',
+    error: 'Error al exportar',
+    forbidden: 'No tienes permisos para exportar este listado',
+  },
+  offline: {
+    banner:
+      'Sin conexión. Se muestran los últimos datos guardados y las altas de cursos y matrículas se enviarán al recuperar la conexión',
+    pendingCount: 'Pendientes: {count}',
+    failed: 'Cambios hechos sin conexión que no se pudieron enviar: {count}',
+    review: 'Ver cambios',
+    queueTitle: 'Cambios sin conexión',
+    queueEmpty: 'No hay cambios pendientes de enviar',
+    synced: 'Cambios sin conexión enviados: {count}',
+    syncFailed:
+      'Cambios sin conexión que no se pudieron enviar: {count}. Revísalos en la cola de pendientes',
+    unknownOperation: 'Operación no reconocida',
+    loginRequired: 'Inicia sesión para guardar cambios sin conexión',
+    interrupted:
+      'El envío se interrumpió. Comprueba si se guardó antes de reintentarlo',
+    status: {
+      pending: 'Pendiente',
+      syncing: 'Enviando',
+      conflict: 'Conflicto',
+      error: 'Error',
+    },
+  },
+  auth: {
+    login: {
+      title: 'Iniciar Sesión',
+      subtitle: 'Ingresa tus credenciales para acceder',
+      email: 'Email',
+      password: 'Contraseña',
+      submit: 'Iniciar Sesión',
+      submitting: 'Iniciando sesión...',
+      invalidEmail: 'Email inválido',
+      passwordMin: 'Mínimo {min} caracteres',
+    },
+    errors: {
+      loginFailed: 'Error al iniciar sesión. Verifica tus credenciales.',
+      invalidResponse: 'Respuesta inválida del servidor',
+      emptyResponse: 'Respuesta vacía del servidor',
+      missingToken: 'No se recibió token de autenticación',
+      incompleteUser: 'Datos de usuario incompletos en la respuesta',
+      invalidCredentials: 'Credenciales inválidas',
+      endpointNotFound: 'Endpoint de autenticación no encontrado',
+      userExists: 'El usuario ya existe',
+      emailExists: 'Ya existe una cuenta con este email',
+      refreshFailed: 'No se pudo renovar la sesión',
+    },
+    register: {
+      email: 'Email',
+      password: 'Contraseña',
+      nombre: 'Nombre',
+      apellidos: 'Apellidos',
+      rol: 'Rol (opcional)',
+      rolPlaceholder: 'Selecciona un rol',
+      submit: 'Registrarse',
+      submitting: 'Registrando...',
+      invalidEmail: 'Email inválido',
+      minLength: 'Mínimo {min} caracteres',
+      failed: 'No se pudo completar el registro. Intenta nuevamente.',
+    },
+    session: {
+      expiredTitle: 'Tu sesión ha caducado',
+      expiringTitle: 'Tu sesión va a caducar',
+      expiredMessage:
+        'Introduce tu contraseña para continuar donde lo dejaste.',
+      expiringMessage:
+        'Tu sesión caduca en {time}. Introduce tu contraseña para seguir conectado.',
+      email: 'Email',
+      password: 'Contraseña',
+      logout: 'Cerrar sesión',
+      notNow: 'Ahora no',
+      verifying: 'Verificando...',
+      stayConnected: 'Seguir conectado',
+      noSession: 'No hay sesión que renovar',
+    },
+  },
+  cursos: {
+    title: 'Gestión de Cursos',
+    createTitle: 'Crear Nuevo Curso',
+    listTitle: 'Lista de Cursos',
+    editTitle: 'Editar Curso',
+    loadError: 'Error al cargar el curso',
+    missingRelations:
+      'El servidor no ha devuelto la materia y el formato de este curso. Vuelve a seleccionarlos antes de guardar',
+    errors: {
+      notFound: 'Curso no encontrado',
+      missingRelations:
+        'No se puede desactivar "{nombre}": el servidor no devuelve su materia ni su formato. Edítalo y vuelve a seleccionarlos',
+    },
+    fields: {
+      nombre: 'Nombre',
+      materia: 'Materia',
+      formato: 'Formato',
+      precioBase: 'Precio Base',
+      duracionHoras: 'Duración (horas)',
+      horas: 'Horas',
+      id: 'ID',
+    },
+    form: {
+      submit: 'Guardar Curso',
+      inactiveMateria: '{nombre} (inactiva)',
+      inactiveFormato: '{nombre} (inactivo)',
+      nombreRequired: 'Nombre requerido',
+      materiaRequired: 'Materia requerida',
+      formatoRequired: 'Formato requerido',
+      precioMin: 'El precio debe ser mayor o igual a 0',
+    },
+    filters: {
+      search: 'Buscar',
+      searchPlaceholder: 'Nombre del curso',
+      all: 'Todos',
+      allFemale: 'Todas',
+      active: 'Activos',
+      inactive: 'Inactivos',
+      precioMin: 'Precio desde',
+      precioMax: 'Precio hasta',
+    },
+    list: {
+      empty: 'No hay cursos que coincidan con los filtros',
+      error: 'Error al cargar cursos',
+      deleteTitle: 'Eliminar curso',
+      deleteMessage:
+        'Se eliminará definitivamente "{nombre}". Esta acción no se puede deshacer.',
+      deactivateTitle: 'Desactivar curso',
+      deactivateMessage:
+        '"{nombre}" dejará de estar disponible para nuevas convocatorias.',
+      bulkDeleteTitle: 'Eliminar cursos',
+      bulkDeleteMessage:
+        'Se eliminarán definitivamente {count} cursos. Esta acción no se puede deshacer.',
+      bulkDeactivateTitle: 'Desactivar cursos',
+      bulkDeactivateMessage:
+        '{count} cursos dejarán de estar disponibles para nuevas convocatorias.',
+    },
+    notifications: {
+      created: 'Curso creado exitosamente',
+      updated: 'Curso actualizado exitosamente',
+      deactivated: 'Curso desactivado exitosamente',
+      deleted: 'Curso eliminado exitosamente',
+      queuedOffline:
+        'Sin conexión: el curso se creará al recuperar la conexión',
+      offlineLabel: 'Alta del curso {nombre}',
+      duplicateNombre: 'Ya existe un curso llamado "{nombre}"',
+      createError: 'Error al crear curso',
+      createForbidden:
+        'No tienes permisos para crear cursos. Contacta al administrador.',
+      updateError: 'Error al actualizar curso',
+      updateForbidden:
+        'No tienes permisos para editar cursos. Contacta al administrador.',
+      deactivateError: 'Error al desactivar curso',
+      deactivateForbidden:
+        'No tienes permisos para desactivar cursos. Contacta al administrador.',
+      deleteError: 'Error al eliminar curso',
+      deleteForbidden:
+        'No tienes permisos para eliminar cursos. Contacta al administrador.',
+      bulkDeleted: 'Cursos eliminados: {count}',
+      bulkDeactivated: 'Cursos desactivados: {count}',
+      bulkDeletedPartial:
+        'Cursos eliminados: {count}. Con error: {failed} ({detail})',
+      bulkDeactivatedPartial:
+        'Cursos desactivados: {count}. Con error: {failed} ({detail})',
+      bulkError: 'Error al procesar cursos',
+      bulkForbidden: 'No tienes permisos para modificar cursos',
+    },
+  },
+  roles: {
+    ADMIN: 'Administrador',
+    ADMINISTRATIVO: 'Administrativo',
+    PROFESOR: 'Profesor',
+    ALUMNO: 'Alumno',
+  },
+  errors: {
+    unauthenticated:
+      'Tu sesión ha expirado. Por favor, inicia sesión nuevamente.',
+    forbidden:
+      'No tienes permisos para realizar esta acción. Contacta al administrador.',
+    validation:
+      'Los datos ingresados no son válidos. Revisa los campos marcados.',
+    notFound: 'El recurso solicitado no fue encontrado.',
+    conflict:
+      'El registro entra en conflicto con otro existente. Revisa los datos.',
+    network: 'No se pudo conectar con el servidor. Verifica tu conexión.',
+    server: 'Error interno del servidor. Intenta más tarde.',
+    unknown: 'Ocurrió un error inesperado. Por favor, intenta nuevamente.',
+  },
+  forbidden: {
+    title: 'Acceso denegado',
+    message:
+      'Tu rol no tiene permiso para ver esta página. Si crees que es un error, contacta con un administrador.',
+    back: 'Volver al inicio',
+  },
+  dashboard: {
+    welcome: 'Bienvenido, {nombre}',
+    subtitle: 'Panel de control - {rol}',
+    vsLastMonth: '{trend}% vs. mes anterior',
+    admin: {
+      loadError: 'Error al cargar los indicadores',
+      alumnosActivos: 'Alumnos activos',
+      altasMes: '{count} altas este mes',
+      pendientesPago: 'Matrículas pendientes de pago',
+      porCobrar: '{importe} por cobrar',
+      ingresosMes: 'Ingresos del mes',
+      ocupacionCentros: 'Ocupación de centros',
+      centrosActivos: '{count} centros activos',
+      ingresosCobrados: 'Ingresos cobrados',
+      ingresos: 'Ingresos',
+      matriculasAltas: 'Matrículas y altas de alumnos',
+      matriculas: 'Matrículas',
+      altas: 'Altas de alumnos',
+      ocupacionPorCentro: 'Ocupación por centro',
+      noCentros: 'No hay centros activos',
+      ocupacion: 'Ocupación',
+    },
+    alumno: {
+      loadError: 'Error al cargar tus matrículas',
+      misMatriculas: 'Mis matrículas',
+      pendientePago: 'Pendiente de pago',
+      sinPagarOne: '1 matrícula sin pagar',
+      sinPagarMany: '{count} matrículas sin pagar',
+      todoPagado: 'Todo pagado',
+      notaMedia: 'Nota media',
+      calificacionesOne: '1 calificación',
+      calificacionesMany: '{count} calificaciones',
+      noMatriculas: 'Aún no tienes matrículas',
+      misCalificaciones: 'Mis calificaciones',
+      noNotas: 'Todavía no tienes notas',
+      curso: 'Curso',
+      fechas: 'Fechas',
+      importe: 'Importe',
+      pago: 'Pago',
+      materia: 'Materia',
+      fecha: 'Fecha',
+      nota: 'Nota',
+    },
+    profesor: {
+      loadError: 'Error al cargar tus convocatorias',
+      enCurso: 'Convocatorias en curso',
+      proximas: 'Próximas convocatorias',
+      sinCalificar: 'Alumnos sin calificar',
+      enConvocatoriasOne: 'En 1 convocatoria',
+      enConvocatoriasMany: 'En {count} convocatorias',
+      misConvocatorias: 'Mis convocatorias',
+      noProximas: 'No tienes convocatorias próximas',
+      curso: 'Curso',
+      centro: 'Centro',
+      fechas: 'Fechas',
+      enCursoChip: 'En curso',
+      pendienteCalificar: 'Pendiente de calificar',
+      alDia: 'Estás al día con las notas',
+      convocatoria: 'Convocatoria',
+      sinNota: 'Sin nota',
+      calificar: 'Calificar',
+    },
+    quickActions: {
+      title: 'Acciones rápidas',
+      nuevoCurso: 'Nuevo curso',
+      nuevaMatricula: 'Nueva matrícula',
+      importarAlumnos: 'Importar alumnos',
+      cobrosPendientes: 'Cobros pendientes',
+      convocatorias: 'Convocatorias',
+      cursos: 'Cursos',
+      misMatriculas: 'Mis matrículas',
+      misNotas: 'Mis notas',
+    },
+  },
+  alumnos: {
+    title: 'Gestión de Alumnos',
+    new: 'Nuevo Alumno',
+    importCsv: 'Importar CSV',
+    createTitle: 'Registrar Alumno',
+    editTitle: 'Editar Alumno',
+    backToList: 'Volver a alumnos',
+    loadError: 'Error al cargar el alumno',
+    fields: {
+      nombre: 'Nombre',
+      apellidos: 'Apellidos',
+      dni: 'DNI/NIE',
+      telefono: 'Teléfono',
+      email: 'Email',
+      direccion: 'Dirección',
+      activo: 'Activo',
+      alta: 'Alta',
+      fechaAlta: 'Fecha de alta',
+    },
+    form: {
+      personalData: 'Datos personales',
+      submit: 'Guardar Alumno',
+      invalidEmail: 'Email inválido',
+      minLength: 'Mínimo {min} caracteres',
+      invalidDni: 'DNI/NIE inválido',
+      invalidTelefono: 'Teléfono inválido',
+    },
+    detail: {
+      matriculas: 'Matrículas',
+      matriculasError: 'Error al cargar matrículas',
+      noMatriculas: 'El alumno no tiene matrículas',
+      codigo: 'Código',
+      curso: 'Curso',
+      convocatoria: 'Convocatoria',
+      fechaMatricula: 'Fecha matrícula',
+      precioFinal: 'Precio final',
+      estadoPago: 'Estado de pago',
+    },
+    list: {
+      error: 'Error al cargar alumnos',
+      searchPlaceholder: 'Buscar por nombre, email, DNI/NIE o teléfono',
+      noMatches: 'Ningún alumno coincide con la búsqueda',
+      empty: 'No hay alumnos registrados',
+      deleteTitle: 'Eliminar alumno',
+      deleteMessage:
+        'Se eliminará a {nombre}. Esta acción no se puede deshacer.',
+    },
+    notifications: {
+      created: 'Alumno registrado exitosamente',
+      createError: 'Error al registrar alumno',
+      createForbidden:
+        'No tienes permisos para registrar alumnos. Contacta al administrador.',
+      updated: 'Alumno actualizado exitosamente',
+      updateError: 'Error al actualizar alumno',
+      updateForbidden:
+        'No tienes permisos para editar alumnos. Contacta al administrador.',
+      deleted: 'Alumno eliminado exitosamente',
+      deleteError: 'Error al eliminar alumno',
+      deleteForbidden:
+        'No tienes permisos para eliminar alumnos. Contacta al administrador.',
+      imported: 'Alumnos importados: {count}',
+      importedPartial:
+        'Alumnos importados: {count}. Rechazados por el servidor: {failed}',
+    },
+    import: {
+      title: 'Importar alumnos desde CSV',
+      steps: {
+        file: 'Fichero',
+        columns: 'Columnas',
+        review: 'Revisión',
+        result: 'Resultado',
+      },
+      fileHelp:
+        'Sube un CSV con una fila de cabecera. Se aceptan separadores ";" y ",". Máximo {max} filas.',
+      selectFile: 'Seleccionar fichero',
+      emptyFile: 'El fichero no contiene filas de datos',
+      tooManyRows:
+        'El fichero tiene {count} filas; el máximo por importación es {max}',
+      readError: 'No se pudo leer el fichero',
+      mappingHelp:
+        '{fileName}: {count} filas. Indica qué columna del fichero corresponde a cada campo.',
+      notImported: 'No importar',
+      missing: 'Falta asignar: {fields}',
+      valid: 'Válidas: {count}',
+      invalid: 'Con errores: {count}',
+      onlyErrors: 'Solo filas con errores',
+      row: 'Fila',
+      errors: 'Errores',
+      reason: 'Motivo',
+      importing: 'Importando {done} de {total}...',
+      finished: 'Importación finalizada',
+      created: 'Alumnos creados: {count}',
+      createdWithRejected:
+        'Alumnos creados: {count}. Filas rechazadas: {rejected}',
+      interrupted: 'La importación se interrumpió: {message}',
+      downloadRejected: 'Descargar rechazadas',
+      rejectedFileName: 'alumnos-rechazados',
+      changeFile: 'Cambiar fichero',
+      review: 'Revisar',
+      submit: 'Importar {count} alumnos',
+      fieldError: '{field}: {message}',
+      invalidActivo: 'Activo: usa sí o no',
+      duplicateEmail: 'Email: ya existe o está repetido en el fichero',
+      duplicateDni: 'DNI/NIE: ya existe o está repetido en el fichero',
+    },
+  },
+  empresas: {
+    title: 'Gestión de Empresas',
+    new: 'Nueva Empresa',
+    editTitle: 'Editar Empresa',
+    backToList: 'Volver a empresas',
+    loadError: 'Error al cargar la empresa',
+    active: 'Activa',
+    inactive: 'Inactiva',
+    fields: {
+      cif: 'CIF',
+      nombreLegal: 'Nombre legal',
+      direccionFiscal: 'Dirección fiscal',
+    },
+    form: {
+      cifHelper: 'Ejemplo: B12345674',
+      submit: 'Guardar Empresa',
+      invalidCif: 'CIF inválido',
+      minLength: 'Mínimo {min} caracteres',
+      direccionRequired: 'Dirección fiscal requerida',
+    },
+    detail: {
+      centros: 'Centros ({count})',
+      noCentros: 'La empresa no tiene centros',
+    },
+    list: {
+      error: 'Error al cargar empresas',
+      searchPlaceholder: 'Buscar por CIF o nombre legal',
+      empty: 'No hay empresas',
+      viewCentros: 'Ver centros',
+      deleteTitle: 'Eliminar empresa',
+      deleteMessage:
+        'Se eliminará {nombre}. Si tiene centros asociados, desactívala en su lugar.',
+    },
+    notifications: {
+      created: 'Empresa creada exitosamente',
+      createError: 'Error al crear empresa',
+      createForbidden:
+        'No tienes permisos para crear empresas. Contacta al administrador.',
+      updated: 'Empresa actualizada exitosamente',
+      updateError: 'Error al actualizar empresa',
+      updateForbidden:
+        'No tienes permisos para editar empresas. Contacta al administrador.',
+      deleted: 'Empresa eliminada exitosamente',
+      deleteError: 'Error al eliminar empresa',
+      deleteForbidden:
+        'No tienes permisos para eliminar empresas. Contacta al administrador.',
+    },
+  },
+  centros: {
+    title: 'Gestión de Centros',
+    new: 'Nuevo Centro',
+    editTitle: 'Editar Centro',
+    backToList: 'Volver a centros',
+    loadError: 'Error al cargar el centro',
+    fields: {
+      codigo: 'Código',
+      codigoCentro: 'Código de centro',
+      nombre: 'Nombre',
+      empresa: 'Empresa',
+      comunidad: 'Comunidad',
+      comunidadAutonoma: 'Comunidad autónoma',
+      capacidad: 'Capacidad',
+      capacidadMaxima: 'Capacidad máxima',
+      capacidadAlumnos: 'Capacidad máxima (alumnos)',
+    },
+    form: {
+      submit: 'Guardar Centro',
+      codigoRequired: 'Código de centro requerido',
+      maxLength: 'Máximo {max} caracteres',
+      nombreRequired: 'Nombre requerido',
+      capacidadRequired: 'Capacidad requerida',
+      capacidadInt: 'La capacidad debe ser un número entero',
+      capacidadMin: 'La capacidad debe ser al menos {min}',
+      empresaRequired: 'Empresa requerida',
+      comunidadRequired: 'Comunidad requerida',
+    },
+    detail: {
+      ocupacion: 'Ocupación actual',
+      convocatorias: 'Convocatorias',
+      convocatoriasError: 'Error al cargar convocatorias',
+      noConvocatorias: 'El centro no tiene convocatorias',
+      curso: 'Curso',
+      fechas: 'Fechas',
+      alumnos: 'Alumnos',
+      enCurso: 'En curso',
+    },
+    list: {
+      error: 'Error al cargar centros',
+      searchPlaceholder: 'Buscar por código o nombre',
+      empty: 'No hay centros con estos filtros',
+      activeFilter: 'Activos',
+      inactiveFilter: 'Inactivos',
+    },
+    notifications: {
+      created: 'Centro creado exitosamente',
+      createError: 'Error al crear centro',
+      createForbidden:
+        'No tienes permisos para crear centros. Contacta al administrador.',
+      updated: 'Centro actualizado exitosamente',
+      updateError: 'Error al actualizar centro',
+      updateForbidden:
+        'No tienes permisos para editar centros. Contacta al administrador.',
+    },
+    notFound: 'Centro no encontrado',
+  },
+  convocatorias: {
+    title: 'Gestión de Convocatorias',
+    new: 'Nueva Convocatoria',
+    editTitle: 'Editar Convocatoria {codigo}',
+    backToList: 'Volver a convocatorias',
+    backToDetail: 'Volver a la convocatoria',
+    calificaciones: 'Calificaciones',
+    loadError: 'Error al cargar la convocatoria',
+    heading: 'Convocatoria {codigo}',
+    fields: {
+      codigo: 'Código',
+      curso: 'Curso',
+      profesor: 'Profesor',
+      centro: 'Centro',
+      precioBase: 'Precio base',
+      fechaInicio: 'Fecha de inicio',
+      fechaFin: 'Fecha de fin',
+      inicio: 'Inicio',
+      fin: 'Fin',
+      fechas: 'Fechas',
+      inscritos: 'Inscritos',
+    },
+    form: {
+      submit: 'Guardar Convocatoria',
+      cursoRequired: 'Curso requerido',
+      profesorRequired: 'Profesor requerido',
+      centroRequired: 'Centro requerido',
+      fechaInicioRequired: 'Fecha de inicio requerida',
+      fechaFinRequired: 'Fecha de fin requerida',
+      fechaFinAfterInicio:
+        'La fecha de fin debe ser posterior a la fecha de inicio',
+      inactiveOption: '{nombre} (inactivo)',
+    },
+    detail: {
+      matriculas: 'Matrículas ({count})',
+      noMatriculas: 'No hay alumnos matriculados',
+      alumno: 'Alumno',
+      fechaMatricula: 'Fecha matrícula',
+      precioFinal: 'Precio final',
+      estadoPago: 'Estado de pago',
+    },
+    list: {
+      error: 'Error al cargar convocatorias',
+      searchPlaceholder: 'Buscar por código, curso, centro o profesor',
+      onlyActive: 'Solo activas',
+      empty: 'No hay convocatorias',
+      viewMatriculas: 'Ver matrículas',
+      deactivateTitle: 'Desactivar convocatoria',
+      deactivateMessage:
+        'La convocatoria {codigo} dejará de admitir nuevas matrículas.',
+    },
+    notifications: {
+      created: 'Convocatoria {codigo} creada exitosamente',
+      createError: 'Error al crear convocatoria',
+      createForbidden:
+        'No tienes permisos para crear convocatorias. Contacta al administrador.',
+      updated: 'Convocatoria actualizada exitosamente',
+      updateError: 'Error al actualizar convocatoria',
+      updateForbidden:
+        'No tienes permisos para editar convocatorias. Contacta al administrador.',
+      deactivated: 'Convocatoria desactivada exitosamente',
+      deactivateError: 'Error al desactivar convocatoria',
+      deactivateForbidden:
+        'No tienes permisos para desactivar convocatorias. Contacta al administrador.',
+    },
+  },
+  matriculas: {
+    title: 'Gestión de Matrículas',
+    new: 'Nueva Matrícula',
+    estadoPago: {
+      PENDIENTE: 'Pendiente',
+      PAGADO: 'Pagado',
+      CANCELADO: 'Cancelado',
+    },
+    fields: {
+      codigo: 'Código',
+      alumno: 'Alumno',
+      curso: 'Curso',
+      convocatoria: 'Convocatoria',
+      fecha: 'Fecha',
+      precioBruto: 'Precio bruto',
+      descuento: 'Descuento',
+      motivoDescuento: 'Motivo del descuento',
+      importeSubvencionado: 'Importe subvencionado',
+      subvencion: 'Subvención',
+      bruto: 'Bruto',
+      final: 'Final',
+      precioFinal: 'Precio final',
+      estadoPago: 'Estado de pago',
+    },
+    form: {
+      submit: 'Guardar Matrícula',
+      required: '{label} requerido',
+      minZero: '{label} debe ser mayor o igual a 0',
+      alumnoRequired: 'Alumno requerido',
+      convocatoriaRequired: 'Convocatoria requerida',
+      motivoRequired: 'Indica el motivo del descuento',
+      importeExceeded:
+        'Descuento y subvención no pueden superar el precio bruto',
+    },
+    price: {
+      descuentoMotivo: 'Descuento ({motivo})',
+    },
+    list: {
+      error: 'Error al cargar matrículas',
+      empty: 'No hay matrículas con estos filtros',
+      markAs: 'Marcar como {estado}',
+      transitionTitle: 'Cambiar estado de pago',
+      transitionMessage: 'La matrícula {codigo} pasará de {from} a {to}.',
+    },
+    notifications: {
+      created: 'Matrícula {codigo} creada exitosamente',
+      createError: 'Error al crear matrícula',
+      createForbidden:
+        'No tienes permisos para crear matrículas. Contacta al administrador.',
+      queuedOffline:
+        'Sin conexión: la matrícula se creará al recuperar la conexión',
+      offlineLabel: 'Matrícula de {nombre}',
+      duplicate:
+        'El alumno ya tiene la matrícula {codigo} en esta convocatoria',
+      estadoPagoUpdated: 'Matrícula {codigo} marcada como {estado}',
+      estadoPagoError: 'Error al actualizar el estado de pago',
+      estadoPagoForbidden:
+        'No tienes permisos para modificar pagos. Contacta al administrador.',
+    },
+    errors: {
+      invalidTransition: 'No se puede pasar una matrícula de {from} a {to}',
+    },
+  },
+  facturas: {
+    title: 'Facturas',
+    backToList: 'Volver a facturas',
+    estado: {
+      EMITIDA: 'Emitida',
+      PAGADA: 'Pagada',
+      ANULADA: 'Anulada',
+    },
+    list: {
+      fechaDesde: 'Emitidas desde',
+      fechaHasta: 'Emitidas hasta',
+      centro: 'Centro',
+      error: 'Error al cargar facturas',
+      empty: 'No hay facturas',
+      numero: 'Número',
+      emision: 'Emisión',
+      alumno: 'Alumno',
+      curso: 'Curso',
+      importe: 'Importe',
+      view: 'Ver factura',
+      total: 'Total facturado (sin anuladas)',
+    },
+    detail: {
+      loadError: 'Error al cargar la factura',
+      notFound: 'Factura no encontrada',
+      unavailable:
+        'El detalle de las facturas aún no está disponible en este servidor',
+      print: 'Imprimir / PDF',
+      mismatch:
+        'El importe emitido ({emitido}) no coincide con el precio actual de la matrícula ({actual}). La factura muestra el importe emitido en un único concepto',
+      cif: 'CIF: {cif}',
+      heading: 'Factura',
+      numero: 'Nº {numero}',
+      fecha: 'Fecha: {fecha}',
+      billTo: 'Facturar a',
+      dni: 'DNI/NIE: {dni}',
+      matricula: 'Matrícula {codigo}',
+      concepto: 'Concepto',
+      importeSinIva: 'Importe sin IVA',
+      importe: 'Importe',
+      baseImponible: 'Base imponible',
+      iva: 'IVA ({tipo}%)',
+      ivaExento: 'IVA (exento)',
+      total: 'Total',
+      exencion: 'Operación exenta de IVA: {motivo}',
+      anulada: 'FACTURA ANULADA',
+    },
+    lineas: {
+      curso: '{curso} (convocatoria {codigo})',
+      descuento: 'Descuento',
+      descuentoMotivo: 'Descuento: {motivo}',
+      subvencion: 'Subvención',
+      subvencionEntidad: 'Subvención: {entidad}',
+    },
+  },
+  catalogos: {
+    fields: {
+      nombre: 'Nombre',
+      descripcion: 'Descripción',
+    },
+    form: {
+      minLength: 'Mínimo {min} caracteres',
+    },
+    list: {
+      searchPlaceholder: 'Buscar por nombre o descripción',
+      onlyActive: 'Solo activos',
+      activate: 'Activar',
+      deactivateMessage:
+        '{nombre} dejará de ofrecerse al crear o editar cursos. Los cursos existentes no se modifican.',
+    },
+    materia: {
+      title: 'Gestión de Materias',
+      new: 'Nueva Materia',
+      editTitle: 'Editar Materia',
+      submit: 'Guardar Materia',
+      loadError: 'Error al cargar materias',
+      empty: 'No hay materias',
+      deactivateTitle: 'Desactivar materia',
+      created: 'Materia creada exitosamente',
+      createError: 'Error al crear materia',
+      createForbidden:
+        'No tienes permisos para crear materias. Contacta al administrador.',
+      updated: 'Materia actualizada exitosamente',
+      updateError: 'Error al actualizar materia',
+      updateForbidden:
+        'No tienes permisos para editar materias. Contacta al administrador.',
+    },
+    formato: {
+      title: 'Gestión de Formatos',
+      new: 'Nuevo Formato',
+      editTitle: 'Editar Formato',
+      submit: 'Guardar Formato',
+      loadError: 'Error al cargar formatos',
+      empty: 'No hay formatos',
+      deactivateTitle: 'Desactivar formato',
+      created: 'Formato creado exitosamente',
+      createError: 'Error al crear formato',
+      createForbidden:
+        'No tienes permisos para crear formatos. Contacta al administrador.',
+      updated: 'Formato actualizado exitosamente',
+      updateError: 'Error al actualizar formato',
+      updateForbidden:
+        'No tienes permisos para editar formatos. Contacta al administrador.',
+    },
+  },
+  profesores: {
+    title: 'Profesores',
+    carga: 'Carga de trabajo',
+    backToList: 'Volver a profesores',
+    fields: {
+      nombre: 'Nombre',
+      email: 'Email',
+      dni: 'DNI/NIE',
+      telefono: 'Teléfono',
+      alta: 'Alta',
+      convocatoriasActivas: 'Convocatorias activas',
+    },
+    list: {
+      error: 'Error al cargar profesores',
+      searchPlaceholder: 'Buscar por nombre, email o DNI',
+      empty: 'No hay profesores',
+      viewProfile: 'Ver perfil',
+    },
+    detail: {
+      loadError: 'Error al cargar el profesor',
+      convocatoriasError: 'Error al cargar convocatorias',
+      cargaMensual: 'Carga mensual',
+      noHoras: 'Sin horas asignadas',
+      convocatorias: 'Convocatorias activas ({count})',
+      noConvocatorias: 'El profesor no tiene convocatorias activas',
+      codigo: 'Código',
+      curso: 'Curso',
+      centro: 'Centro',
+      inicio: 'Inicio',
+      fin: 'Fin',
+      horas: 'Horas',
+    },
+    cargaView: {
+      loadError: 'Error al cargar la carga de trabajo',
+      desde: 'Desde',
+      maximo: 'Máximo recomendado: {horas} h/mes',
+      overloadedOne: '1 profesor supera el máximo mensual en el periodo',
+      overloadedMany:
+        '{count} profesores superan el máximo mensual en el periodo',
+      empty: 'No hay profesores activos',
+      profesor: 'Profesor',
+      total: 'Total',
+      convocatorias: 'Convocatorias',
+      exceeds: 'Supera las {horas} h mensuales',
+    },
+  },
+  calificaciones: {
+    loadError: 'Error al cargar las calificaciones',
+    heading: '{curso} · Convocatoria {codigo}',
+    addMateria: 'Añadir materia',
+    save: 'Guardar',
+    saveCount: 'Guardar ({count})',
+    readOnly:
+      'Solo el profesor de la convocatoria o un administrador pueden modificar las notas',
+    invalidNotas: 'Las notas deben estar entre 0 y 10, con hasta dos decimales',
+    noMatriculas: 'No hay alumnos matriculados',
+    noMaterias: 'El curso no tiene materias asignadas todavía',
+    alumno: 'Alumno',
+    media: 'Media',
+    resultado: 'Resultado',
+    pendiente: 'Pendiente',
+    apto: 'Apto',
+    noApto: 'No apto',
+    notaLabel: 'Nota de {alumno} en {materia}',
+    mediaConvocatoria: 'Media de la convocatoria',
+    notifications: {
+      savedOne: 'Nota guardada exitosamente',
+      savedMany: '{count} notas guardadas exitosamente',
+      saveError: 'Error al guardar las notas',
+      saveForbidden: 'No tienes permisos para calificar esta convocatoria.',
+      partial: 'No se pudieron guardar {failed} de {total} notas',
+    },
+  },
+  meta: {
+    description:
+      'Gestión de cursos, alumnos, matrículas y facturación del centro',
+    authTitle: 'Autenticación - {appName}',
+    authDescription: 'Inicia sesión en {appName}',
+  },
+};
+
+export type Messages = typeof es;
@@ -0,0 +1,23 @@
+import { cookies, headers } from 'next/headers';
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_COOKIE,
+  matchAcceptLanguage,
+  type Locale,
+} from './config';
+
+/**
+ * Idioma de la petición: el elegido en el selector (cookie) o, si no hay,
+ * el preferido por el navegador
+ */
+export async function getRequestLocale(): Promise<Locale> {
+  const cookieStore = await cookies();
+  const fromCookie = cookieStore.get(LOCALE_COOKIE)?.value;
+  if (isLocale(fromCookie)) return fromCookie;
+
+  const headerStore = await headers();
+  return (
+    matchAcceptLanguage(headerStore.get('accept-language')) ?? DEFAULT_LOCALE
+  );
+}
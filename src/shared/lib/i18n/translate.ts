@@ -0,0 +1,38 @@
+import type { Messages } from './messages/es';
+
+type Join<K extends string, P extends string> = `${K}.${P}`;
+
+/**
+ * Rutas con punto a los textos del catálogo, p. ej. "cursos.form.submit"
+ */
+type PathsOf<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : Join<K, PathsOf<T[K]>>;
+}[keyof T & string];
+
+export type MessageKey = PathsOf<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Busca un texto en el catálogo y sustituye los parámetros {nombre}
+ * Si falta la clave devuelve la propia clave para que se vea en pantalla
+ */
+export function translate(
+  messages: Messages,
+  key: MessageKey,
+  params?: MessageParams
+): string {
+  const value = key
+    .split('.')
+    .reduce<unknown>(
+      (node, part) => (node as Record<string, unknown> | undefined)?.[part],
+      messages
+    );
+  if (typeof value !== 'string') return key;
+  if (!params) return value;
+  return value.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
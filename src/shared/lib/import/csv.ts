@@ -0,0 +1,128 @@
+export interface CsvRow {
+  /** Línea del fichero en la que empieza la fila (la cabecera es la 1) */
+  line: number;
+  /** Valores como objeto cabecera → valor */
+  values: Record<string, string>;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  /** Filas de datos, sin la fila de cabeceras */
+  rows: CsvRow[];
+  delimiter: string;
+}
+
+interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+const DELIMITERS = [';', ',', '\t'];
+
+/**
+ * Elige el separador que más aparece en la primera línea fuera de comillas
+ * Excel en español exporta con ';' y otras herramientas con ','
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  return DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length
+      ? delimiter
+      : best
+  );
+}
+
+/**
+ * Separa registros y campos; cada registro guarda la línea en la que empieza,
+ * que no coincide con su posición si hay saltos de línea entre comillas o
+ * líneas en blanco
+ */
+function splitRecords(text: string, delimiter: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ line: recordLine, cells: record });
+      record = [];
+      field = '';
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ line: recordLine, cells: record });
+  }
+
+  // Las líneas en blanco no son filas
+  return records.filter(({ cells }) =>
+    cells.some((cell) => cell.trim() !== '')
+  );
+}
+
+/**
+ * Parsea un CSV con cabecera (RFC 4180: comillas dobles y saltos de línea entre comillas)
+ * Acepta BOM y detecta el separador
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const [headerRecord, ...records] = splitRecords(content, delimiter);
+  const headerCells = headerRecord?.cells ?? [];
+
+  // Cabeceras vacías o repetidas se renombran para no perder columnas
+  const headers = headerCells.map((header, index) => {
+    const name = header.trim() || `Columna ${index + 1}`;
+    const repeated = headerCells
+      .slice(0, index)
+      .filter((previous) => previous.trim() === header.trim()).length;
+    return repeated > 0 ? `${name} (${repeated + 1})` : name;
+  });
+
+  return {
+    headers,
+    rows: records.map(({ line, cells }) => ({
+      line,
+      values: Object.fromEntries(
+        headers.map((header, index) => [header, cells[index]?.trim() ?? ''])
+      ),
+    })),
+    delimiter,
+  };
+}
+
+/**
+ * Lee un fichero de texto; los CSV antiguos de Excel pueden venir en Windows-1252
+ */
+export async function readTextFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
@@ -0,0 +1,122 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { Rol } from '@/shared/types/auth.types';
+import type {
+  AuthResponse,
+  LoginRequest,
+  RegisterRequest,
+} from '@/features/auth/types/auth.types';
+import { getMockDb, nextId } from './db';
+import type { MockUsuario } from './seed';
+import { createMockToken, getMockTokenTtl, getMockTokenUser } from './token';
+
+const ROLES_REGISTRO: Rol[] = ['PROFESOR', 'ALUMNO', 'ADMINISTRATIVO'];
+
+function toAuthResponse(usuario: MockUsuario): AuthResponse {
+  return {
+    token: createMockToken(usuario),
+    tokenType: 'Bearer',
+    expiresIn: getMockTokenTtl() * 1000,
+    email: usuario.email,
+    rol: usuario.rol,
+    nombre: `${usuario.datosPersonales.nombre} ${usuario.datosPersonales.apellidos}`,
+  };
+}
+
+function errorResponse(status: number, message: string, extra?: object) {
+  return NextResponse.json({ status, message, ...extra }, { status });
+}
+
+async function readJson<T>(request: NextRequest): Promise<Partial<T>> {
+  try {
+    return (await request.json()) as Partial<T>;
+  } catch {
+    return {};
+  }
+}
+
+export async function handleLogin(request: NextRequest) {
+  const { email, password } = await readJson<LoginRequest>(request);
+  const usuario = getMockDb().usuarios.find(
+    (item) => item.email === email?.trim().toLowerCase()
+  );
+
+  if (!usuario || usuario.password !== password) {
+    return errorResponse(401, 'Credenciales inválidas');
+  }
+  if (!usuario.activo) {
+    return errorResponse(401, 'El usuario está desactivado');
+  }
+  return NextResponse.json(toAuthResponse(usuario));
+}
+
+/**
+ * Alta con las mismas validaciones que el backend: los errores por campo
+ * se devuelven en `errors` con el formato de Spring ({ field, defaultMessage })
+ */
+export async function handleRegister(request: NextRequest) {
+  const body = await readJson<RegisterRequest>(request);
+  const db = getMockDb();
+  const email = body.email?.trim().toLowerCase() ?? '';
+
+  const errors: Array<{ field: string; defaultMessage: string }> = [];
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.push({ field: 'email', defaultMessage: 'Email inválido' });
+  }
+  if (!body.password || body.password.length < 6) {
+    errors.push({ field: 'password', defaultMessage: 'Mínimo 6 caracteres' });
+  }
+  if (!body.nombre?.trim()) {
+    errors.push({
+      field: 'nombre',
+      defaultMessage: 'El nombre es obligatorio',
+    });
+  }
+  if (!body.apellidos?.trim()) {
+    errors.push({
+      field: 'apellidos',
+      defaultMessage: 'Los apellidos son obligatorios',
+    });
+  }
+  if (body.rol && !ROLES_REGISTRO.includes(body.rol as Rol)) {
+    errors.push({ field: 'rol', defaultMessage: 'Rol no permitido' });
+  }
+  if (errors.length > 0) {
+    return errorResponse(400, 'Datos de registro no válidos', { errors });
+  }
+
+  if (db.usuarios.some((usuario) => usuario.email === email)) {
+    return errorResponse(409, 'El usuario ya existe');
+  }
+
+  const id = nextId(db.usuarios, 'idUsuario');
+  const usuario: MockUsuario = {
+    idUsuario: id,
+    email,
+    password: body.password ?? '',
+    rol: (body.rol as Rol | undefined) ?? 'ALUMNO',
+    activo: true,
+    fechaCreacion: new Date().toISOString().slice(0, 19),
+    idCentro: null,
+    datosPersonales: {
+      idDatosPersonales: id,
+      nombre: body.nombre?.trim() ?? '',
+      apellidos: body.apellidos?.trim() ?? '',
+      dni: null,
+      telefono: null,
+      direccion: null,
+    },
+  };
+  db.usuarios.push(usuario);
+  return NextResponse.json(toAuthResponse(usuario), { status: 201 });
+}
+
+export async function handleRefresh(request: NextRequest) {
+  const usuario = getMockTokenUser(
+    request.headers.get('authorization'),
+    getMockDb().usuarios
+  );
+  if (!usuario) {
+    return errorResponse(401, 'JWT validation failed');
+  }
+  return NextResponse.json(toAuthResponse(usuario));
+}
@@ -0,0 +1,97 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Errores que se pueden inyectar en las respuestas del mock
+ * - 401: token rechazado (la app cierra la sesión)
+ * - FORBIDDEN: error GraphQL con classification FORBIDDEN / HTTP 403 en REST
+ * - 500: error interno del servidor
+ */
+export type MockErrorKind = '401' | 'FORBIDDEN' | '500';
+
+export interface MockSettings {
+  /** Retardo de cada respuesta en ms */
+  latency: number;
+  error: MockErrorKind | null;
+  /** Probabilidad (0-1) de inyectar el error en cada petición */
+  errorRate: number;
+  /** Limita el error a una operación GraphQL o endpoint (p. ej. CreateCurso, login) */
+  errorTarget: string | null;
+  /** Reproduce el bug del backend: Curso.materia/formato a null */
+  nullCursoRelations: boolean;
+}
+
+const ERROR_KINDS: MockErrorKind[] = ['401', 'FORBIDDEN', '500'];
+
+/**
+ * Cookies que permiten cambiar la configuración por navegador,
+ * útil para que los tests de UI preparen cada escenario
+ */
+export const MOCK_COOKIES = {
+  latency: 'mock-latency',
+  error: 'mock-error',
+  errorRate: 'mock-error-rate',
+  errorTarget: 'mock-error-target',
+  nullCursoRelations: 'mock-null-curso-relations',
+} as const;
+
+function parseErrorKind(value: string | undefined): MockErrorKind | null {
+  const kind = value?.toUpperCase();
+  return ERROR_KINDS.includes(kind as MockErrorKind)
+    ? (kind as MockErrorKind)
+    : null;
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed)
+    ? parsed
+    : fallback;
+}
+
+/**
+ * El mock solo responde si se activa explícitamente, nunca en un despliegue normal
+ */
+export function isMockEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_USE_MOCKS === 'true';
+}
+
+/**
+ * Configuración efectiva de una petición: variables MOCK_* del servidor,
+ * sobrescritas por las cookies mock-* del navegador
+ */
+export function getMockSettings(request: NextRequest): MockSettings {
+  const cookie = (name: string) => request.cookies.get(name)?.value;
+
+  return {
+    latency: parseNumber(
+      cookie(MOCK_COOKIES.latency),
+      parseNumber(process.env.MOCK_LATENCY_MS, 300)
+    ),
+    error: parseErrorKind(cookie(MOCK_COOKIES.error) ?? process.env.MOCK_ERROR),
+    errorRate: parseNumber(
+      cookie(MOCK_COOKIES.errorRate),
+      parseNumber(process.env.MOCK_ERROR_RATE, 1)
+    ),
+    errorTarget:
+      cookie(MOCK_COOKIES.errorTarget) ?? process.env.MOCK_ERROR_TARGET ?? null,
+    nullCursoRelations:
+      (cookie(MOCK_COOKIES.nullCursoRelations) ??
+        process.env.MOCK_NULL_CURSO_RELATIONS) === 'true',
+  };
+}
+
+/**
+ * Error a inyectar en la petición actual (o null si no toca)
+ */
+export function pickInjectedError(
+  settings: MockSettings,
+  target: string | undefined
+): MockErrorKind | null {
+  if (!settings.error) return null;
+  if (settings.errorTarget && settings.errorTarget !== target) return null;
+  return Math.random() < settings.errorRate ? settings.error : null;
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
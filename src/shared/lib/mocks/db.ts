@@ -0,0 +1,32 @@
+import { createSeedData, type MockData } from './seed';
+
+const globalForMock = globalThis as typeof globalThis & {
+  __mockDb?: MockData;
+};
+
+/**
+ * Datos en memoria del mock
+ * Se guardan en globalThis para sobrevivir a la recarga en caliente de next dev
+ */
+export function getMockDb(): MockData {
+  globalForMock.__mockDb ??= createSeedData();
+  return globalForMock.__mockDb;
+}
+
+/**
+ * Vuelve a los datos sembrados (los tests lo llaman antes de cada escenario)
+ */
+export function resetMockDb(): void {
+  globalForMock.__mockDb = createSeedData();
+}
+
+/**
+ * Siguiente id numérico de una colección
+ */
+export function nextId<T>(items: readonly T[], key: keyof T): string {
+  const max = items.reduce(
+    (acc, item) => Math.max(acc, Number(item[key]) || 0),
+    0
+  );
+  return String(max + 1);
+}
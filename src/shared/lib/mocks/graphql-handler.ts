@@ -0,0 +1,421 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  buildSchema,
+  graphql,
+  GraphQLError,
+  type GraphQLSchema,
+} from 'graphql';
+import type { Rol } from '@/shared/types/auth.types';
+import { normalizeSearchText } from '@/shared/lib/utils';
+import type { MockSettings } from './config';
+import { getMockDb, nextId } from './db';
+import type { MockCurso, MockFormato, MockMateria, MockUsuario } from './seed';
+import { getMockTokenUser } from './token';
+
+interface GraphQLBody {
+  query?: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+interface MockContext {
+  usuario: MockUsuario;
+  settings: MockSettings;
+}
+
+interface CursoInputArgs {
+  nombre: string;
+  idMateria: string;
+  idFormato: string;
+  precioBase: number;
+  duracionHoras?: number | null;
+  activo?: boolean | null;
+}
+
+interface CursosPaginadosArgs {
+  filtro?: {
+    texto?: string | null;
+    activo?: boolean | null;
+    idMateria?: string | null;
+    idFormato?: string | null;
+    precioMin?: number | null;
+    precioMax?: number | null;
+  } | null;
+  orden?: {
+    campo: 'NOMBRE' | 'PRECIO_BASE' | 'DURACION_HORAS';
+    direccion: 'ASC' | 'DESC';
+  } | null;
+  pagina: number;
+  tamano: number;
+}
+
+interface CatalogoInputArgs {
+  nombre: string;
+  descripcion?: string | null;
+  activo?: boolean | null;
+}
+
+/** Roles que pueden modificar cursos y catálogos, igual que en el backend */
+const ROLES_ESCRITURA: Rol[] = ['ADMIN', 'ADMINISTRATIVO'];
+
+let schema: GraphQLSchema | null = null;
+
+/** Los mismos ficheros que lee codegen (ver codegen.yml) */
+const SCHEMA_FILES = ['schema.graphql', 'schema.extensions.graphql'];
+
+/**
+ * El mock se ejecuta contra el mismo snapshot que usa codegen,
+ * así que una operación válida para uno lo es para el otro
+ */
+function getSchema(): GraphQLSchema {
+  schema ??= buildSchema(
+    SCHEMA_FILES.map((file) =>
+      readFileSync(join(process.cwd(), file), 'utf8')
+    ).join('\n')
+  );
+  return schema;
+}
+
+function classifiedError(message: string, classification: string) {
+  return new GraphQLError(message, { extensions: { classification } });
+}
+
+function requireWriteRole(context: MockContext) {
+  if (!ROLES_ESCRITURA.includes(context.usuario.rol)) {
+    throw classifiedError('Forbidden', 'FORBIDDEN');
+  }
+}
+
+/**
+ * Valida la entrada como Bean Validation: "operacion.input.campo: mensaje"
+ */
+function validateCursoInput(operation: string, input: CursoInputArgs) {
+  const db = getMockDb();
+  const violations: string[] = [];
+  if (!input.nombre.trim()) {
+    violations.push(`${operation}.input.nombre: no debe estar vacío`);
+  }
+  if (input.precioBase < 0) {
+    violations.push(
+      `${operation}.input.precioBase: debe ser mayor o igual que 0`
+    );
+  }
+  if (input.duracionHoras != null && input.duracionHoras <= 0) {
+    violations.push(`${operation}.input.duracionHoras: debe ser mayor que 0`);
+  }
+  if (!db.materias.some((materia) => materia.idMateria === input.idMateria)) {
+    violations.push(`${operation}.input.idMateria: la materia no existe`);
+  }
+  if (!db.formatos.some((formato) => formato.idFormato === input.idFormato)) {
+    violations.push(`${operation}.input.idFormato: el formato no existe`);
+  }
+  if (violations.length > 0) {
+    throw classifiedError(violations.join(', '), 'BAD_REQUEST');
+  }
+}
+
+function assertNombreUnico(
+  cursos: MockCurso[],
+  nombre: string,
+  idCurso?: string
+) {
+  const normalized = nombre.trim().toLowerCase();
+  const duplicado = cursos.some(
+    (curso) =>
+      curso.idCurso !== idCurso &&
+      curso.nombre.trim().toLowerCase() === normalized
+  );
+  if (duplicado) {
+    throw classifiedError(
+      `Ya existe un curso con el nombre "${nombre}"`,
+      'CONFLICT'
+    );
+  }
+}
+
+function findCurso(id: string): MockCurso {
+  const curso = getMockDb().cursos.find((item) => item.idCurso === id);
+  if (!curso) {
+    throw classifiedError(`Curso no encontrado: ${id}`, 'NOT_FOUND');
+  }
+  return curso;
+}
+
+/**
+ * Curso con sus relaciones resueltas bajo demanda
+ */
+function toCursoNode(curso: MockCurso, context: MockContext) {
+  const db = getMockDb();
+  return {
+    ...curso,
+    materia: () =>
+      context.settings.nullCursoRelations
+        ? null
+        : db.materias.find((materia) => materia.idMateria === curso.idMateria),
+    formato: () =>
+      context.settings.nullCursoRelations
+        ? null
+        : db.formatos.find((formato) => formato.idFormato === curso.idFormato),
+  };
+}
+
+/**
+ * Usuario con su centro resuelto bajo demanda
+ */
+function toUsuarioNode(usuario: MockUsuario) {
+  return {
+    ...usuario,
+    centro: () =>
+      getMockDb().centros.find(
+        (centro) => centro.idCentro === usuario.idCentro
+      ) ?? null,
+  };
+}
+
+const ORDEN_CAMPOS = {
+  NOMBRE: 'nombre',
+  PRECIO_BASE: 'precioBase',
+  DURACION_HORAS: 'duracionHoras',
+} as const;
+
+/**
+ * Filtra, ordena y pagina como el backend (los valores nulos van al final)
+ */
+function paginarCursos({ filtro, orden, pagina, tamano }: CursosPaginadosArgs) {
+  const texto = normalizeSearchText(filtro?.texto?.trim() ?? '');
+  const filtrados = getMockDb().cursos.filter(
+    (curso) =>
+      (!texto || normalizeSearchText(curso.nombre).includes(texto)) &&
+      (filtro?.activo == null || curso.activo === filtro.activo) &&
+      (filtro?.idMateria == null || curso.idMateria === filtro.idMateria) &&
+      (filtro?.idFormato == null || curso.idFormato === filtro.idFormato) &&
+      (filtro?.precioMin == null || curso.precioBase >= filtro.precioMin) &&
+      (filtro?.precioMax == null || curso.precioBase <= filtro.precioMax)
+  );
+
+  const campo = ORDEN_CAMPOS[orden?.campo ?? 'NOMBRE'];
+  const signo = orden?.direccion === 'DESC' ? -1 : 1;
+  const ordenados = [...filtrados].sort((a, b) => {
+    const valorA = a[campo];
+    const valorB = b[campo];
+    if (valorA === valorB) return 0;
+    if (valorA === null) return 1;
+    if (valorB === null) return -1;
+    return (
+      signo *
+      (typeof valorA === 'string'
+        ? valorA.localeCompare(String(valorB), 'es')
+        : valorA - Number(valorB))
+    );
+  });
+
+  const size = Math.max(tamano, 1);
+  return {
+    contenido: ordenados.slice(pagina * size, (pagina + 1) * size),
+    totalElementos: filtrados.length,
+    totalPaginas: Math.ceil(filtrados.length / size),
+    pagina,
+    tamano: size,
+  };
+}
+
+function toCurso(
+  input: CursoInputArgs,
+  idCurso: string,
+  activo: boolean
+): MockCurso {
+  return {
+    idCurso,
+    nombre: input.nombre.trim(),
+    idMateria: input.idMateria,
+    idFormato: input.idFormato,
+    precioBase: input.precioBase,
+    duracionHoras: input.duracionHoras ?? null,
+    activo: input.activo ?? activo,
+  };
+}
+
+function updateCatalogo<T extends MockMateria | MockFormato>(
+  item: T | undefined,
+  input: CatalogoInputArgs,
+  label: string
+): T {
+  if (!item) {
+    throw classifiedError(`${label} no encontrado`, 'NOT_FOUND');
+  }
+  Object.assign(item, {
+    nombre: input.nombre.trim(),
+    descripcion: input.descripcion ?? null,
+    activo: input.activo ?? item.activo,
+  });
+  return item;
+}
+
+/**
+ * Resolvers de las operaciones de cursos, catálogos y usuarios
+ */
+const resolvers: Record<
+  string,
+  (args: never, context: MockContext) => unknown
+> = {
+  usuarios: ({ rol, activo }: { rol?: Rol; activo?: boolean }) =>
+    getMockDb()
+      .usuarios.filter(
+        (usuario) =>
+          (rol == null || usuario.rol === rol) &&
+          (activo == null || usuario.activo === activo)
+      )
+      .map(toUsuarioNode),
+  usuario: ({ id }: { id: string }) => {
+    const usuario = getMockDb().usuarios.find((item) => item.idUsuario === id);
+    return usuario ? toUsuarioNode(usuario) : null;
+  },
+  usuarioActual: (_: never, context) => toUsuarioNode(context.usuario),
+
+  materias: ({ activo }: { activo?: boolean }) =>
+    getMockDb().materias.filter(
+      (materia) => activo == null || materia.activo === activo
+    ),
+  formatos: () => getMockDb().formatos,
+
+  cursos: ({ activo }: { activo?: boolean }, context) =>
+    getMockDb()
+      .cursos.filter((curso) => activo == null || curso.activo === activo)
+      .map((curso) => toCursoNode(curso, context)),
+  cursosPaginados: (args: CursosPaginadosArgs, context) => {
+    const resultado = paginarCursos(args);
+    return {
+      ...resultado,
+      contenido: resultado.contenido.map((curso) =>
+        toCursoNode(curso, context)
+      ),
+    };
+  },
+  curso: ({ id }: { id: string }, context) => {
+    const curso = getMockDb().cursos.find((item) => item.idCurso === id);
+    return curso ? toCursoNode(curso, context) : null;
+  },
+
+  createCurso: ({ input }: { input: CursoInputArgs }, context) => {
+    requireWriteRole(context);
+    validateCursoInput('createCurso', input);
+    const db = getMockDb();
+    assertNombreUnico(db.cursos, input.nombre);
+    const curso = toCurso(input, nextId(db.cursos, 'idCurso'), true);
+    db.cursos.push(curso);
+    return toCursoNode(curso, context);
+  },
+  updateCurso: (
+    { id, input }: { id: string; input: CursoInputArgs },
+    context
+  ) => {
+    requireWriteRole(context);
+    const curso = findCurso(id);
+    validateCursoInput('updateCurso', input);
+    assertNombreUnico(getMockDb().cursos, input.nombre, id);
+    Object.assign(curso, toCurso(input, id, curso.activo));
+    return toCursoNode(curso, context);
+  },
+  deleteCurso: ({ id }: { id: string }, context) => {
+    requireWriteRole(context);
+    const db = getMockDb();
+    findCurso(id);
+    db.cursos = db.cursos.filter((curso) => curso.idCurso !== id);
+    return true;
+  },
+
+  createMateria: ({ input }: { input: CatalogoInputArgs }, context) => {
+    requireWriteRole(context);
+    const db = getMockDb();
+    const materia: MockMateria = {
+      idMateria: nextId(db.materias, 'idMateria'),
+      nombre: input.nombre.trim(),
+      descripcion: input.descripcion ?? null,
+      activo: input.activo ?? true,
+    };
+    db.materias.push(materia);
+    return materia;
+  },
+  updateMateria: (
+    { id, input }: { id: string; input: CatalogoInputArgs },
+    context
+  ) => {
+    requireWriteRole(context);
+    const materia = getMockDb().materias.find((item) => item.idMateria === id);
+    return updateCatalogo(materia, input, 'Materia');
+  },
+  createFormato: ({ input }: { input: CatalogoInputArgs }, context) => {
+    requireWriteRole(context);
+    const db = getMockDb();
+    const formato: MockFormato = {
+      idFormato: nextId(db.formatos, 'idFormato'),
+      nombre: input.nombre.trim(),
+      descripcion: input.descripcion ?? null,
+      activo: input.activo ?? true,
+    };
+    db.formatos.push(formato);
+    return formato;
+  },
+  updateFormato: (
+    { id, input }: { id: string; input: CatalogoInputArgs },
+    context
+  ) => {
+    requireWriteRole(context);
+    const formato = getMockDb().formatos.find((item) => item.idFormato === id);
+    return updateCatalogo(formato, input, 'Formato');
+  },
+};
+
+/**
+ * Las operaciones sin resolver responden con un error explícito en lugar de
+ * un null que GraphQL rechazaría con un mensaje confuso
+ */
+const rootValue = new Proxy(resolvers, {
+  get(target, field) {
+    if (typeof field !== 'string' || field in target) {
+      return Reflect.get(target, field);
+    }
+    return () => {
+      throw classifiedError(
+        `La operación "${field}" no está disponible en el backend mock`,
+        'INTERNAL_ERROR'
+      );
+    };
+  },
+});
+
+export async function handleGraphQL(
+  request: NextRequest,
+  settings: MockSettings
+) {
+  const usuario = getMockTokenUser(
+    request.headers.get('authorization'),
+    getMockDb().usuarios
+  );
+  if (!usuario) {
+    return NextResponse.json(
+      { status: 401, message: 'JWT validation failed' },
+      { status: 401 }
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as GraphQLBody;
+  if (!body.query) {
+    return NextResponse.json(
+      { errors: [{ message: 'Falta la consulta GraphQL' }] },
+      { status: 400 }
+    );
+  }
+
+  const result = await graphql({
+    schema: getSchema(),
+    source: body.query,
+    rootValue,
+    contextValue: { usuario, settings } satisfies MockContext,
+    variableValues: body.variables,
+    operationName: body.operationName,
+  });
+  return NextResponse.json(result);
+}
@@ -0,0 +1,115 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { handleLogin, handleRefresh, handleRegister } from './auth-handlers';
+import {
+  delay,
+  getMockSettings,
+  isMockEnabled,
+  pickInjectedError,
+  type MockErrorKind,
+} from './config';
+import { resetMockDb } from './db';
+import { handleGraphQL } from './graphql-handler';
+
+const AUTH_HANDLERS: Record<
+  string,
+  (request: NextRequest) => Promise<Response>
+> = {
+  'api/auth/login': handleLogin,
+  'api/auth/register': handleRegister,
+  'api/auth/refresh': handleRefresh,
+};
+
+/**
+ * Respuesta equivalente a la del backend para cada error inyectado
+ * En GraphQL, FORBIDDEN llega como error clasificado con HTTP 200
+ */
+function injectedErrorResponse(kind: MockErrorKind, isGraphQL: boolean) {
+  switch (kind) {
+    case '401':
+      return NextResponse.json(
+        { status: 401, message: 'JWT validation failed' },
+        { status: 401 }
+      );
+    case 'FORBIDDEN':
+      return isGraphQL
+        ? NextResponse.json({
+            data: null,
+            errors: [
+              {
+                message: 'Forbidden',
+                extensions: { classification: 'FORBIDDEN' },
+              },
+            ],
+          })
+        : NextResponse.json(
+            { status: 403, message: 'Acceso denegado' },
+            { status: 403 }
+          );
+    case '500':
+      return NextResponse.json(
+        { status: 500, message: 'Error interno del servidor (simulado)' },
+        { status: 500 }
+      );
+  }
+}
+
+/**
+ * Nombre con el que se filtra la inyección de errores: la operación GraphQL
+ * o el último segmento del endpoint REST (login, register, refresh)
+ */
+async function getErrorTarget(request: NextRequest, route: string) {
+  if (route !== 'graphql') {
+    return route.split('/').pop();
+  }
+  const body = (await request
+    .clone()
+    .json()
+    .catch(() => ({}))) as { operationName?: string; query?: string };
+  return (
+    body.operationName ??
+    body.query?.match(/^\s*(?:query|mutation)\s+(\w+)/)?.[1]
+  );
+}
+
+/**
+ * Punto de entrada del backend mock (POST /api/mock/...)
+ * - /api/mock/graphql: operaciones GraphQL
+ * - /api/mock/api/auth/{login,register,refresh}: autenticación REST
+ * - /api/mock/reset: restaura los datos sembrados
+ */
+export async function handleMockRequest(request: NextRequest, path: string[]) {
+  if (!isMockEnabled()) {
+    return NextResponse.json(
+      { message: 'Backend mock desactivado' },
+      { status: 404 }
+    );
+  }
+
+  const route = path.join('/');
+  if (route === 'reset') {
+    resetMockDb();
+    return new NextResponse(null, { status: 204 });
+  }
+
+  const isGraphQL = route === 'graphql';
+  const authHandler = AUTH_HANDLERS[route];
+  if (!isGraphQL && !authHandler) {
+    return NextResponse.json(
+      { message: `Ruta no simulada: ${route}` },
+      { status: 404 }
+    );
+  }
+
+  const settings = getMockSettings(request);
+  await delay(settings.latency);
+
+  const injected = pickInjectedError(
+    settings,
+    await getErrorTarget(request, route)
+  );
+  if (injected) {
+    return injectedErrorResponse(injected, isGraphQL);
+  }
+
+  return isGraphQL ? handleGraphQL(request, settings) : authHandler(request);
+}
@@ -0,0 +1,284 @@
+import type { Rol } from '@/shared/types/auth.types';
+
+/**
+ * Registros del mock con la misma forma que el schema GraphQL
+ * Las relaciones se guardan por id y se resuelven al consultar
+ */
+export interface MockUsuario {
+  idUsuario: string;
+  email: string;
+  password: string;
+  rol: Rol;
+  activo: boolean;
+  fechaCreacion: string;
+  /** null para el personal de la empresa */
+  idCentro: string | null;
+  datosPersonales: {
+    idDatosPersonales: string;
+    nombre: string;
+    apellidos: string;
+    dni: string | null;
+    telefono: string | null;
+    direccion: string | null;
+  };
+}
+
+/**
+ * Centro sin empresa ni comunidad: el mock solo lo usa para la marca del
+ * usuario de la sesión
+ */
+export interface MockCentro {
+  idCentro: string;
+  codigoCentro: string;
+  nombre: string;
+  capacidadMaxima: number;
+  activo: boolean;
+}
+
+export interface MockMateria {
+  idMateria: string;
+  nombre: string;
+  descripcion: string | null;
+  activo: boolean;
+}
+
+export interface MockFormato {
+  idFormato: string;
+  nombre: string;
+  descripcion: string | null;
+  activo: boolean;
+}
+
+export interface MockCurso {
+  idCurso: string;
+  nombre: string;
+  precioBase: number;
+  duracionHoras: number | null;
+  activo: boolean;
+  idMateria: string;
+  idFormato: string;
+}
+
+export interface MockData {
+  usuarios: MockUsuario[];
+  centros: MockCentro[];
+  materias: MockMateria[];
+  formatos: MockFormato[];
+  cursos: MockCurso[];
+}
+
+/** Contraseña de todos los usuarios sembrados */
+export const MOCK_PASSWORD = 'password123';
+
+function usuario(
+  id: number,
+  email: string,
+  rol: Rol,
+  nombre: string,
+  apellidos: string,
+  dni: string,
+  idCentro: string | null,
+  activo = true
+): MockUsuario {
+  return {
+    idUsuario: String(id),
+    email,
+    password: MOCK_PASSWORD,
+    rol,
+    activo,
+    fechaCreacion: '2025-09-01T09:00:00',
+    idCentro,
+    datosPersonales: {
+      idDatosPersonales: String(id),
+      nombre,
+      apellidos,
+      dni,
+      telefono: `6000000${String(id).padStart(2, '0')}`,
+      direccion: 'Calle Mayor 1, Madrid',
+    },
+  };
+}
+
+/**
+ * Datos iniciales: al menos un usuario de cada rol y un catálogo de cursos
+ * con materias/formatos activos e inactivos
+ */
+export function createSeedData(): MockData {
+  return {
+    usuarios: [
+      usuario(
+        1,
+        'admin@academia.test',
+        'ADMIN',
+        'Laura',
+        'Martín Gómez',
+        '11111111H',
+        null
+      ),
+      usuario(
+        2,
+        'administrativo@academia.test',
+        'ADMINISTRATIVO',
+        'Carlos',
+        'Ruiz Pérez',
+        '22222222J',
+        '1'
+      ),
+      usuario(
+        3,
+        'profesor@academia.test',
+        'PROFESOR',
+        'Marta',
+        'Sánchez López',
+        '33333333P',
+        '1'
+      ),
+      usuario(
+        4,
+        'profesor2@academia.test',
+        'PROFESOR',
+        'Javier',
+        'Navarro Gil',
+        '44444444A',
+        '2'
+      ),
+      usuario(
+        5,
+        'alumno@academia.test',
+        'ALUMNO',
+        'Lucía',
+        'Fernández Díaz',
+        '55555555K',
+        '1'
+      ),
+      usuario(
+        6,
+        'alumno2@academia.test',
+        'ALUMNO',
+        'Pablo',
+        'Moreno Castro',
+        '66666666Q',
+        '2'
+      ),
+      usuario(
+        7,
+        'alumno3@academia.test',
+        'ALUMNO',
+        'Ana',
+        'Romero Vidal',
+        '77777777B',
+        '1',
+        false
+      ),
+    ],
+    centros: [
+      {
+        idCentro: '1',
+        codigoCentro: 'MAD-01',
+        nombre: 'Centro Madrid',
+        capacidadMaxima: 120,
+        activo: true,
+      },
+      {
+        idCentro: '2',
+        codigoCentro: 'BCN-01',
+        nombre: 'Centro Barcelona',
+        capacidadMaxima: 80,
+        activo: true,
+      },
+    ],
+    materias: [
+      {
+        idMateria: '1',
+        nombre: 'Programación',
+        descripcion: 'Desarrollo de software',
+        activo: true,
+      },
+      {
+        idMateria: '2',
+        nombre: 'Ofimática',
+        descripcion: 'Herramientas de oficina',
+        activo: true,
+      },
+      {
+        idMateria: '3',
+        nombre: 'Idiomas',
+        descripcion: 'Inglés y otros idiomas',
+        activo: true,
+      },
+      {
+        idMateria: '4',
+        nombre: 'Contabilidad',
+        descripcion: null,
+        activo: false,
+      },
+    ],
+    formatos: [
+      {
+        idFormato: '1',
+        nombre: 'Presencial',
+        descripcion: 'Clases en el centro',
+        activo: true,
+      },
+      {
+        idFormato: '2',
+        nombre: 'Online',
+        descripcion: 'Clases por videoconferencia',
+        activo: true,
+      },
+      {
+        idFormato: '3',
+        nombre: 'Semipresencial',
+        descripcion: null,
+        activo: false,
+      },
+    ],
+    cursos: [
+      {
+        idCurso: '1',
+        nombre: 'Desarrollo web con React',
+        precioBase: 450,
+        duracionHoras: 120,
+        activo: true,
+        idMateria: '1',
+        idFormato: '1',
+      },
+      {
+        idCurso: '2',
+        nombre: 'Java y Spring Boot',
+        precioBase: 520.5,
+        duracionHoras: 150,
+        activo: true,
+        idMateria: '1',
+        idFormato: '2',
+      },
+      {
+        idCurso: '3',
+        nombre: 'Excel avanzado',
+        precioBase: 180,
+        duracionHoras: 40,
+        activo: true,
+        idMateria: '2',
+        idFormato: '2',
+      },
+      {
+        idCurso: '4',
+        nombre: 'Inglés B2',
+        precioBase: 300,
+        duracionHoras: 90,
+        activo: true,
+        idMateria: '3',
+        idFormato: '1',
+      },
+      {
+        idCurso: '5',
+        nombre: 'Contabilidad básica',
+        precioBase: 220,
+        duracionHoras: null,
+        activo: false,
+        idMateria: '4',
+        idFormato: '3',
+      },
+    ],
+  };
+}
@@ -0,0 +1,54 @@
+import type { MockUsuario } from './seed';
+import { decodeJwt, isTokenExpired } from '@/shared/lib/auth/jwt';
+
+/** Firma fija que identifica los tokens emitidos por el mock */
+const MOCK_SIGNATURE = 'mock-signature';
+
+function base64Url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Vida del token en segundos (MOCK_TOKEN_TTL_SECONDS, por defecto 1 hora)
+ * Con valores cortos se prueba el aviso de expiración de sesión
+ */
+export function getMockTokenTtl(): number {
+  const ttl = Number(process.env.MOCK_TOKEN_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : 60 * 60;
+}
+
+/**
+ * JWT con el mismo payload que el backend (sub, rol, exp) y firma simulada
+ * El middleware solo decodifica el payload, así que funciona igual que uno real
+ */
+export function createMockToken(usuario: MockUsuario): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url({ alg: 'none', typ: 'JWT' });
+  const payload = base64Url({
+    sub: usuario.email,
+    rol: usuario.rol,
+    iat: now,
+    exp: now + getMockTokenTtl(),
+  });
+  return `${header}.${payload}.${MOCK_SIGNATURE}`;
+}
+
+/**
+ * Usuario del token Bearer si es un token del mock vigente
+ */
+export function getMockTokenUser(
+  authorization: string | null,
+  usuarios: MockUsuario[]
+): MockUsuario | null {
+  const token = authorization?.replace(/^Bearer\s+/i, '');
+  if (!token || !token.endsWith(`.${MOCK_SIGNATURE}`)) return null;
+
+  const payload = decodeJwt(token);
+  if (!payload || isTokenExpired(payload)) return null;
+
+  return (
+    usuarios.find(
+      (usuario) => usuario.email === payload.sub && usuario.activo
+    ) ?? null
+  );
+}
@@ -0,0 +1,26 @@
+import { createStore, del, get, set } from 'idb-keyval';
+
+/**
+ * Almacén clave/valor en IndexedDB para los datos que deben sobrevivir a una
+ * recarga sin conexión (caché de queries y cola de mutaciones)
+ * localStorage se queda corto: es síncrono y tiene un límite de ~5 MB
+ */
+const store =
+  typeof indexedDB === 'undefined'
+    ? undefined
+    : createStore('academy-manager', 'offline');
+
+export const idbStorage = {
+  async getItem(key: string): Promise<string | null> {
+    if (!store) return null;
+    return (await get<string>(key, store)) ?? null;
+  },
+  async setItem(key: string, value: string): Promise<void> {
+    if (!store) return;
+    await set(key, value, store);
+  },
+  async removeItem(key: string): Promise<void> {
+    if (!store) return;
+    await del(key, store);
+  },
+};
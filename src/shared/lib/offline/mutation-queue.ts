@@ -0,0 +1,126 @@
+import { onlineManager, type QueryClient } from '@tanstack/react-query';
+import { getStoredSession } from '@/shared/lib/auth/session';
+import { toAppError } from '@/shared/lib/errors/error-handler';
+import { ErrorType } from '@/shared/lib/errors/error-types';
+import { getGraphQLErrorMessage } from '@/shared/lib/graphql/errors';
+import { t } from '@/shared/lib/i18n';
+import { useOfflineQueueStore } from '@/shared/stores/offline-queue-store';
+
+/**
+ * Cómo reenviar un tipo de operación encolada sin conexión
+ * Las funciones se declaran como métodos: así un handler con sus tipos se
+ * puede guardar en OfflineMutationHandlers, cuyas variables llegan de la cola
+ * sin tipo
+ */
+export interface OfflineMutationHandler<
+  TVariables = unknown,
+  TResult = unknown,
+> {
+  mutationFn(variables: TVariables): Promise<TResult>;
+  /**
+   * Comprueba antes de reenviar si la operación choca con datos cambiados
+   * mientras no había conexión; devuelve el motivo o null
+   */
+  findConflict?(variables: TVariables): Promise<string | null>;
+  onSuccess?(result: TResult, queryClient: QueryClient): void;
+  errorMessage: string;
+  forbiddenMessage: string;
+}
+
+export type OfflineMutationHandlers = Record<string, OfflineMutationHandler>;
+
+/**
+ * Handler tipado con las variables y el resultado de su operación
+ */
+export function createOfflineHandler<TVariables, TResult>(
+  handler: OfflineMutationHandler<TVariables, TResult>
+): OfflineMutationHandler<TVariables, TResult> {
+  return handler;
+}
+
+export function isOffline(): boolean {
+  return !onlineManager.isOnline();
+}
+
+/**
+ * Guarda una operación para enviarla al recuperar la conexión
+ */
+export function queueOfflineMutation(
+  type: string,
+  variables: unknown,
+  label: string
+) {
+  const session = getStoredSession();
+  if (!session) {
+    throw new Error(t('offline.loginRequired'));
+  }
+  useOfflineQueueStore
+    .getState()
+    .enqueue({ type, variables, label, userId: session.user.id });
+}
+
+export interface ReplaySummary {
+  synced: number;
+  conflicts: number;
+  errors: number;
+}
+
+/**
+ * Reenvía en orden de creación las operaciones pendientes del usuario
+ * Un conflicto o error queda marcado en su elemento y no bloquea los siguientes;
+ * si se vuelve a perder la conexión se para y el resto sigue pendiente
+ */
+export async function replayOfflineQueue(
+  queryClient: QueryClient,
+  handlers: OfflineMutationHandlers,
+  userId: string
+): Promise<ReplaySummary> {
+  const { items, setStatus, remove } = useOfflineQueueStore.getState();
+  const pending = items
+    .filter((item) => item.userId === userId && item.status === 'pending')
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const summary: ReplaySummary = { synced: 0, conflicts: 0, errors: 0 };
+
+  for (const item of pending) {
+    const handler = handlers[item.type];
+    if (!handler) {
+      setStatus(item.id, 'error', t('offline.unknownOperation'));
+      summary.errors++;
+      continue;
+    }
+
+    setStatus(item.id, 'syncing');
+    try {
+      const conflict = await handler.findConflict?.(item.variables);
+      if (conflict) {
+        setStatus(item.id, 'conflict', conflict);
+        summary.conflicts++;
+        continue;
+      }
+      const result = await handler.mutationFn(item.variables);
+      remove(item.id);
+      handler.onSuccess?.(result, queryClient);
+      summary.synced++;
+    } catch (error) {
+      const appError = toAppError(error);
+      if (appError.type === ErrorType.NETWORK) {
+        setStatus(item.id, 'pending');
+        break;
+      }
+      const message = getGraphQLErrorMessage(
+        error,
+        handler.errorMessage,
+        handler.forbiddenMessage
+      );
+      if (appError.type === ErrorType.CONFLICT) {
+        setStatus(item.id, 'conflict', message);
+        summary.conflicts++;
+      } else {
+        setStatus(item.id, 'error', message);
+        summary.errors++;
+      }
+    }
+  }
+
+  return summary;
+}
@@ -4,7 +4,9 @@ export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 5 * 60 * 1000, // 5 minutos
-      gcTime: 10 * 60 * 1000, // 10 minutos
+      // La caché se guarda en IndexedDB: se conserva tanto como PERSIST_MAX_AGE
+      // para que no se descarte antes de poder restaurarla sin conexión
+      gcTime: 24 * 60 * 60 * 1000, // 24 horas
       retry: 1,
       refetchOnWindowFocus: false,
       refetchOnReconnect: true,
@@ -0,0 +1,146 @@
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+
+/**
+ * Estado de una fila cambiada en caché mientras el servidor no confirma
+ */
+export type OptimisticState = 'creating' | 'updating' | 'deleting';
+
+export type WithOptimistic<T> = T & { optimisticState?: OptimisticState };
+
+/** Copia de las entradas de caché tocadas, para deshacer el cambio */
+export type OptimisticSnapshot = Array<[QueryKey, unknown]>;
+
+const TEMP_ID_PREFIX = 'temp-';
+
+/**
+ * Id provisional para una entidad creada en caché antes de tener el del servidor
+ */
+export function createTempId(): string {
+  return `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+export function getOptimisticState(row: object): OptimisticState | undefined {
+  return (row as WithOptimistic<object>).optimisticState;
+}
+
+/**
+ * Las listas en caché pueden ser un array o una página con `contenido`
+ * (el formato de las consultas paginadas del backend)
+ */
+interface PageData<TItem> {
+  contenido: TItem[];
+  totalElementos?: number;
+}
+
+function isPageData<TItem>(data: unknown): data is PageData<TItem> {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    Array.isArray((data as PageData<TItem>).contenido)
+  );
+}
+
+type ListUpdater<TItem> = (
+  items: WithOptimistic<TItem>[],
+  entryKey: QueryKey
+) => WithOptimistic<TItem>[];
+
+/**
+ * Aplica un cambio a todas las listas en caché bajo una clave
+ * El updater recibe también la clave de cada entrada para decidir, por ejemplo,
+ * insertar solo en la primera página de un listado paginado
+ */
+export function updateCachedLists<TItem>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  updater: ListUpdater<TItem>
+): OptimisticSnapshot {
+  const snapshot = queryClient.getQueriesData({ queryKey });
+
+  for (const [entryKey, data] of snapshot) {
+    if (Array.isArray(data)) {
+      queryClient.setQueryData(entryKey, updater(data, entryKey));
+    } else if (isPageData<WithOptimistic<TItem>>(data)) {
+      const contenido = updater(data.contenido, entryKey);
+      queryClient.setQueryData(entryKey, {
+        ...data,
+        contenido,
+        ...(data.totalElementos !== undefined && {
+          totalElementos:
+            data.totalElementos + contenido.length - data.contenido.length,
+        }),
+      });
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Cancela las consultas en vuelo y aplica el cambio optimista
+ * Devuelve la copia previa para poder revertir con rollbackOptimisticUpdate
+ */
+export async function applyOptimisticUpdate<TItem>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  updater: ListUpdater<TItem>
+): Promise<OptimisticSnapshot> {
+  // Una respuesta que llegue después pisaría el cambio optimista
+  await queryClient.cancelQueries({ queryKey });
+  return updateCachedLists(queryClient, queryKey, updater);
+}
+
+/**
+ * Restaura las entradas de caché tal y como estaban antes del cambio optimista
+ */
+export function rollbackOptimisticUpdate(
+  queryClient: QueryClient,
+  snapshot: OptimisticSnapshot | undefined
+) {
+  snapshot?.forEach(([entryKey, data]) =>
+    queryClient.setQueryData(entryKey, data)
+  );
+}
+
+/**
+ * Updaters habituales para listas de entidades identificadas por un campo id
+ */
+export function optimisticList<TItem>(getId: (item: TItem) => string) {
+  return {
+    insert:
+      (item: TItem) =>
+      (items: WithOptimistic<TItem>[]): WithOptimistic<TItem>[] => [
+        { ...item, optimisticState: 'creating' },
+        ...items,
+      ],
+    update:
+      (id: string, changes: Partial<TItem>) =>
+      (items: WithOptimistic<TItem>[]): WithOptimistic<TItem>[] =>
+        items.map((item) =>
+          getId(item) === id
+            ? { ...item, ...changes, optimisticState: 'updating' }
+            : item
+        ),
+    markDeleting:
+      (id: string) =>
+      (items: WithOptimistic<TItem>[]): WithOptimistic<TItem>[] =>
+        items.map((item) =>
+          getId(item) === id ? { ...item, optimisticState: 'deleting' } : item
+        ),
+    /** Sustituye una fila (p. ej. la temporal) por la confirmada por el servidor */
+    replace:
+      (id: string, next: TItem) =>
+      (items: WithOptimistic<TItem>[]): WithOptimistic<TItem>[] =>
+        items.map((item) =>
+          getId(item) === id ? (next as WithOptimistic<TItem>) : item
+        ),
+    remove:
+      (id: string) =>
+      (items: WithOptimistic<TItem>[]): WithOptimistic<TItem>[] =>
+        items.filter((item) => getId(item) !== id),
+  };
+}
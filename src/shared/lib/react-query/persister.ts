@@ -0,0 +1,21 @@
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import { idbStorage } from '@/shared/lib/offline/idb-storage';
+
+/** Tiempo máximo que se restaura una caché guardada */
+export const PERSIST_MAX_AGE = 24 * 60 * 60 * 1000; // 24 horas
+
+/**
+ * Cambiar este valor descarta las cachés guardadas con una versión anterior
+ * (p. ej. cuando cambia la forma de los datos de alguna query)
+ */
+export const PERSIST_BUSTER = 'v1';
+
+/**
+ * Guarda la caché de React Query en IndexedDB para poder mostrar los últimos
+ * datos al recargar sin conexión
+ */
+export const queryPersister = createAsyncStoragePersister({
+  storage: idbStorage,
+  key: 'react-query-cache',
+  throttleTime: 1000,
+});
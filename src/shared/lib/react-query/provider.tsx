@@ -1,7 +1,8 @@
 'use client';
 
-import { QueryClientProvider } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import { queryClient } from './config';
+import { PERSIST_BUSTER, PERSIST_MAX_AGE, queryPersister } from './persister';
 
 export function ReactQueryProvider({
   children,
@@ -9,8 +10,15 @@ export function ReactQueryProvider({
   children: React.ReactNode;
 }) {
   return (
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{
+        persister: queryPersister,
+        maxAge: PERSIST_MAX_AGE,
+        buster: PERSIST_BUSTER,
+      }}
+    >
       {children}
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,24 @@
+import { UI_STORAGE_KEY } from '@/shared/stores/ui-store';
+
+/**
+ * Aplica la clase light/dark al <html> antes del primer pintado, leyendo el
+ * modo guardado por useUiStore. Sin él la página se vería un instante en
+ * claro hasta hidratar. Va en el <head> del layout raíz
+ */
+export function ThemeModeScript() {
+  const script = `(function () {
+  try {
+    var saved = JSON.parse(localStorage.getItem('${UI_STORAGE_KEY}') || 'null');
+    var mode = saved && saved.state && saved.state.themeMode;
+    if (mode !== 'light' && mode !== 'dark') {
+      mode = window.matchMedia('(prefers-color-scheme: dark)').matches
+        ? 'dark'
+        : 'light';
+    }
+    document.documentElement.classList.remove('light', 'dark');
+    document.documentElement.classList.add(mode);
+  } catch (e) {}
+})();`;
+
+  return <script dangerouslySetInnerHTML={{ __html: script }} />;
+}
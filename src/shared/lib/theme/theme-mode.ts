@@ -0,0 +1,38 @@
+import type { StorageManager } from '@mui/material/styles';
+import {
+  THEME_MODES,
+  useUiStore,
+  type ThemeMode,
+} from '@/shared/stores/ui-store';
+
+/** Clave con la que MUI pide el modo a themeModeStorageManager */
+export const THEME_MODE_KEY = 'theme-mode';
+
+const isThemeMode = (value: unknown): value is ThemeMode =>
+  THEME_MODES.includes(value as ThemeMode);
+
+const noopStorage: ReturnType<StorageManager> = {
+  get: (defaultValue) => defaultValue,
+  set: () => {},
+  subscribe: () => () => {},
+};
+
+/**
+ * Hace que MUI lea y guarde el modo en useUiStore en lugar de en su propia
+ * clave de localStorage. Los esquemas claro/oscuro son siempre los mismos
+ */
+export const themeModeStorageManager: StorageManager = ({ key }) => {
+  if (key !== THEME_MODE_KEY) return noopStorage;
+  return {
+    get: () => useUiStore.getState().themeMode,
+    set: (mode) => {
+      if (isThemeMode(mode) && mode !== useUiStore.getState().themeMode) {
+        useUiStore.getState().setThemeMode(mode);
+      }
+    },
+    subscribe: (handler) =>
+      useUiStore.subscribe((state, previous) => {
+        if (state.themeMode !== previous.themeMode) handler(state.themeMode);
+      }),
+  };
+};
@@ -0,0 +1,24 @@
+import type { ThemeOptions } from '@mui/material/styles';
+import type { Branding } from '@/shared/lib/config/branding';
+
+/**
+ * Tema de Material UI con los colores del centro en modo claro y oscuro
+ * Los colores se emiten como variables CSS y el modo se elige con la clase
+ * light/dark del <html>, así el servidor no necesita saber el modo activo
+ */
+export function createThemeOptions(branding: Branding): ThemeOptions {
+  const palette = {
+    primary: { main: branding.primaryColor },
+    secondary: { main: branding.secondaryColor },
+  };
+
+  return {
+    cssVariables: {
+      colorSchemeSelector: 'class',
+    },
+    colorSchemes: {
+      light: { palette },
+      dark: { palette },
+    },
+  };
+}
@@ -1,3 +1,74 @@
+import { INTL_LOCALES, type Locale } from '@/shared/lib/i18n';
+
 export function cn(...classes: (string | undefined | null | false)[]): string {
     return classes.filter(Boolean).join(' ');
-  }
\ No newline at end of file
+  }
+
+/**
+ * Formatea un importe en euros en el idioma dado (1.234,50 € en español, €1,234.50 en inglés)
+ * El idioma es explícito porque los componentes también se renderizan en el servidor
+ */
+export function formatCurrency(
+  value: number | null | undefined,
+  locale: Locale
+): string {
+  if (value === null || value === undefined) return '-';
+  return new Intl.NumberFormat(INTL_LOCALES[locale], {
+    style: 'currency',
+    currency: 'EUR',
+  }).format(value);
+}
+
+/**
+ * Redondea importes a céntimos para evitar errores de coma flotante
+ */
+export function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Formatea una fecha ISO (YYYY-MM-DD o DateTime) como dd/mm/aaaa
+ * (el formato corto de fecha del idioma dado)
+ * Las fechas sin hora se leen como fecha local: new Date('YYYY-MM-DD') es
+ * medianoche UTC y al oeste de Greenwich se mostraría el día anterior
+ */
+export function formatDate(
+  value: string | null | undefined,
+  locale: Locale
+): string {
+  if (!value) return '-';
+  const dateOnly = DATE_ONLY.exec(value);
+  const date = dateOnly
+    ? new Date(
+        Number(dateOnly[1]),
+        Number(dateOnly[2]) - 1,
+        Number(dateOnly[3])
+      )
+    : new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString(INTL_LOCALES[locale]);
+}
+
+/**
+ * Normaliza texto para búsquedas sin distinguir mayúsculas ni acentos
+ */
+export function normalizeSearchText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Nombre completo de un usuario, o su email si aún no tiene datos personales
+ */
+export function getNombreUsuario(usuario: {
+  email: string;
+  datosPersonales?: { nombre: string; apellidos: string } | null;
+}): string {
+  return usuario.datosPersonales
+    ? `${usuario.datosPersonales.nombre} ${usuario.datosPersonales.apellidos}`
+    : usuario.email;
+}
@@ -2,24 +2,25 @@
 
 import * as React from 'react';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
+import { caES, enUS, esES, type Localization } from '@mui/material/locale';
 import CssBaseline from '@mui/material/CssBaseline';
 import { CacheProvider } from '@emotion/react';
 import createCache from '@emotion/cache';
+import { useBranding } from '@/shared/contexts/branding-context';
+import { useTranslation } from '@/shared/contexts/i18n-context';
+import type { Locale } from '@/shared/lib/i18n';
+import { createThemeOptions } from '@/shared/lib/theme/theme';
+import {
+  THEME_MODE_KEY,
+  themeModeStorageManager,
+} from '@/shared/lib/theme/theme-mode';
 
-/**
- * Tema de Material UI
- * Puedes personalizar colores, tipografía, etc. aquí
- */
-const theme = createTheme({
-  palette: {
-    primary: {
-      main: '#1976d2',
-    },
-    secondary: {
-      main: '#dc004e',
-    },
-  },
-});
+/** Textos propios de MUI (paginación, autocompletado...) en cada idioma */
+const MUI_LOCALES: Record<Locale, Localization> = {
+  es: esES,
+  en: enUS,
+  ca: caES,
+};
 
 /**
  * Crear cache de Emotion una sola vez (singleton pattern)
@@ -42,7 +43,8 @@ const clientSideEmotionCache = createEmotionCache();
  * 
  * Incluye:
  * - CacheProvider: Asegura cache consistente entre SSR y cliente
- * - ThemeProvider: Proporciona tema a todos los componentes
+ * - ThemeProvider: Proporciona tema a todos los componentes, con los colores
+ *   del centro (useBranding); el modo claro/oscuro/sistema se guarda en useUiStore
  * - CssBaseline: Normaliza estilos base
  */
 export function MaterialUIProvider({
@@ -50,10 +52,23 @@ export function MaterialUIProvider({
 }: {
   children: React.ReactNode;
 }) {
+  const { locale } = useTranslation();
+  const branding = useBranding();
+  const theme = React.useMemo(
+    () => createTheme(createThemeOptions(branding), MUI_LOCALES[locale]),
+    [branding, locale]
+  );
+
   return (
     <CacheProvider value={clientSideEmotionCache}>
-      <ThemeProvider theme={theme}>
-        <CssBaseline />
+      <ThemeProvider
+        theme={theme}
+        defaultMode="system"
+        modeStorageKey={THEME_MODE_KEY}
+        storageManager={themeModeStorageManager}
+        disableTransitionOnChange
+      >
+        <CssBaseline enableColorScheme />
         {children}
       </ThemeProvider>
     </CacheProvider>
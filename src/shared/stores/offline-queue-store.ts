@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import { t } from '@/shared/lib/i18n';
+import { idbStorage } from '@/shared/lib/offline/idb-storage';
+
+export type QueuedMutationStatus = 'pending' | 'syncing' | 'conflict' | 'error';
+
+/**
+ * Operación hecha sin conexión, pendiente de enviar al servidor
+ */
+export interface QueuedMutation {
+  id: string;
+  /** Tipo de operación; identifica el handler que la reenvía */
+  type: string;
+  variables: unknown;
+  /** Descripción para el usuario, p. ej. "Alta del curso Excel avanzado" */
+  label: string;
+  /** Usuario que la encoló: solo se reenvía con su sesión */
+  userId: string;
+  createdAt: number;
+  status: QueuedMutationStatus;
+  error?: string;
+}
+
+interface OfflineQueueStore {
+  items: QueuedMutation[];
+  enqueue: (
+    item: Pick<QueuedMutation, 'type' | 'variables' | 'label' | 'userId'>
+  ) => void;
+  setStatus: (id: string, status: QueuedMutationStatus, error?: string) => void;
+  remove: (id: string) => void;
+}
+
+/**
+ * Cola de mutaciones sin conexión, guardada en IndexedDB para sobrevivir a recargas
+ */
+export const useOfflineQueueStore = create<OfflineQueueStore>()(
+  persist(
+    (set) => ({
+      items: [],
+
+      enqueue: (item) =>
+        set((state) => ({
+          items: [
+            ...state.items,
+            {
+              ...item,
+              id: crypto.randomUUID(),
+              createdAt: Date.now(),
+              status: 'pending',
+            },
+          ],
+        })),
+
+      setStatus: (id, status, error) =>
+        set((state) => ({
+          items: state.items.map((item) =>
+            item.id === id ? { ...item, status, error } : item
+          ),
+        })),
+
+      remove: (id) =>
+        set((state) => ({
+          items: state.items.filter((item) => item.id !== id),
+        })),
+    }),
+    {
+      name: 'offline-mutation-queue',
+      storage: createJSONStorage(() => idbStorage),
+      partialize: (state) => ({ items: state.items }),
+      // Un envío cortado al cerrar la pestaña pudo llegar al servidor:
+      // no se reintenta solo para no duplicarlo
+      merge: (persisted, current) => ({
+        ...current,
+        items: (
+          (persisted as Pick<OfflineQueueStore, 'items'>)?.items ?? []
+        ).map((item) =>
+          item.status === 'syncing'
+            ? {
+                ...item,
+                status: 'error',
+                error: t('offline.interrupted'),
+              }
+            : item
+        ),
+      }),
+    }
+  )
+);
@@ -1,14 +1,36 @@
 import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+export const THEME_MODES: readonly ThemeMode[] = ['light', 'dark', 'system'];
+
+/** Clave en localStorage; el script de ThemeModeScript la lee antes de pintar */
+export const UI_STORAGE_KEY = 'ui-storage';
 
 interface UiState {
   isSidebarOpen: boolean;
+  themeMode: ThemeMode;
   toggleSidebar: () => void;
   setSidebarOpen: (open: boolean) => void;
+  setThemeMode: (mode: ThemeMode) => void;
 }
 
-export const useUiStore = create<UiState>((set) => ({
-  isSidebarOpen: true,
-  toggleSidebar: () =>
-    set((state) => ({ isSidebarOpen: !state.isSidebarOpen })),
-  setSidebarOpen: (open) => set({ isSidebarOpen: open }),
-}));
\ No newline at end of file
+export const useUiStore = create<UiState>()(
+  persist(
+    (set) => ({
+      isSidebarOpen: true,
+      themeMode: 'system',
+      toggleSidebar: () =>
+        set((state) => ({ isSidebarOpen: !state.isSidebarOpen })),
+      setSidebarOpen: (open) => set({ isSidebarOpen: open }),
+      setThemeMode: (themeMode) => set({ themeMode }),
+    }),
+    {
+      name: UI_STORAGE_KEY,
+      storage: createJSONStorage(() => localStorage),
+      // Solo la preferencia de tema; el sidebar vuelve a su estado inicial
+      partialize: (state) => ({ themeMode: state.themeMode }),
+    }
+  )
+);
@@ -10,8 +10,12 @@ export interface User {
 export interface AuthContextType {
   user: User | null;
   token: string | null;
+  /** Instante de expiración del token en ms (null si no se conoce) */
+  expiresAt: number | null;
   login: (email: string, password: string) => Promise<void>;
   logout: () => void;
+  reauthenticate: (password: string) => Promise<void>;
+  refreshSession: () => Promise<boolean>;
   isAuthenticated: boolean;
   isLoading: boolean;
 }
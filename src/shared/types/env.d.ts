@@ -3,5 +3,6 @@ declare namespace NodeJS {
       NEXT_PUBLIC_API_URL: string;
       NEXT_PUBLIC_GRAPHQL_URL: string;
       NEXT_PUBLIC_APP_NAME: string;
+      NEXT_PUBLIC_BACKEND_EXTENSIONS?: string;
     }
 }
\ No newline at end of file
@@ -0,0 +1,648 @@
+import type { TypedDocumentNode as DocumentNode } from '@graphql-typed-document-node/core';
+export type Maybe<T> = T | null;
+export type InputMaybe<T> = Maybe<T>;
+export type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+export type MakeOptional<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]?: Maybe<T[SubKey]> };
+export type MakeMaybe<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]: Maybe<T[SubKey]> };
+export type MakeEmpty<T extends { [key: string]: unknown }, K extends keyof T> = { [_ in K]?: never };
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+/** All built-in and custom scalars, mapped to their actual values */
+export type Scalars = {
+  ID: { input: string; output: string; }
+  String: { input: string; output: string; }
+  Boolean: { input: boolean; output: boolean; }
+  Int: { input: number; output: number; }
+  Float: { input: number; output: number; }
+  BigDecimal: { input: number; output: number; }
+  Date: { input: string; output: string; }
+  DateTime: { input: string; output: string; }
+};
+
+export type Calificacion = {
+  __typename?: 'Calificacion';
+  fechaCalificacion: Scalars['Date']['output'];
+  idCalificacion: Scalars['ID']['output'];
+  materia: Materia;
+  nota: Scalars['Float']['output'];
+};
+
+export type CalificacionInput = {
+  fechaCalificacion: Scalars['Date']['input'];
+  idMateria: Scalars['ID']['input'];
+  idMatricula: Scalars['ID']['input'];
+  nota: Scalars['Float']['input'];
+};
+
+export type Centro = {
+  __typename?: 'Centro';
+  activo: Scalars['Boolean']['output'];
+  capacidadMaxima: Scalars['Int']['output'];
+  codigoCentro: Scalars['String']['output'];
+  comunidad: Comunidad;
+  empresa: Empresa;
+  idCentro: Scalars['ID']['output'];
+  nombre: Scalars['String']['output'];
+};
+
+export type CentroInput = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  capacidadMaxima: Scalars['Int']['input'];
+  codigoCentro: Scalars['String']['input'];
+  codigoComunidad: Scalars['ID']['input'];
+  idEmpresa: Scalars['ID']['input'];
+  nombre: Scalars['String']['input'];
+};
+
+export type Comunidad = {
+  __typename?: 'Comunidad';
+  codigo: Scalars['ID']['output'];
+  nombre: Scalars['String']['output'];
+};
+
+export type Convocatoria = {
+  __typename?: 'Convocatoria';
+  activo: Scalars['Boolean']['output'];
+  centro: Centro;
+  codigo: Scalars['String']['output'];
+  curso: Curso;
+  fechaFin: Scalars['Date']['output'];
+  fechaInicio: Scalars['Date']['output'];
+  idConvocatoria: Scalars['ID']['output'];
+  matriculas: Array<Matricula>;
+  profesor: Usuario;
+};
+
+export type ConvocatoriaInput = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  fechaFin: Scalars['Date']['input'];
+  fechaInicio: Scalars['Date']['input'];
+  idCentro: Scalars['ID']['input'];
+  idCurso: Scalars['ID']['input'];
+  idProfesor: Scalars['ID']['input'];
+};
+
+export type Curso = {
+  __typename?: 'Curso';
+  activo: Scalars['Boolean']['output'];
+  duracionHoras?: Maybe<Scalars['Int']['output']>;
+  formato: Formato;
+  idCurso: Scalars['ID']['output'];
+  materia: Materia;
+  nombre: Scalars['String']['output'];
+  precioBase: Scalars['Float']['output'];
+};
+
+export type CursoFiltroInput = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  idFormato?: InputMaybe<Scalars['ID']['input']>;
+  idMateria?: InputMaybe<Scalars['ID']['input']>;
+  precioMax?: InputMaybe<Scalars['Float']['input']>;
+  precioMin?: InputMaybe<Scalars['Float']['input']>;
+  texto?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type CursoInput = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  duracionHoras?: InputMaybe<Scalars['Int']['input']>;
+  idFormato: Scalars['ID']['input'];
+  idMateria: Scalars['ID']['input'];
+  nombre: Scalars['String']['input'];
+  precioBase: Scalars['Float']['input'];
+};
+
+export type CursoOrdenCampo =
+  | 'DURACION_HORAS'
+  | 'NOMBRE'
+  | 'PRECIO_BASE';
+
+export type CursoOrdenInput = {
+  campo: CursoOrdenCampo;
+  direccion: DireccionOrden;
+};
+
+export type CursoPagina = {
+  __typename?: 'CursoPagina';
+  contenido: Array<Curso>;
+  pagina: Scalars['Int']['output'];
+  tamano: Scalars['Int']['output'];
+  totalElementos: Scalars['Int']['output'];
+  totalPaginas: Scalars['Int']['output'];
+};
+
+export type DatosPersonales = {
+  __typename?: 'DatosPersonales';
+  apellidos: Scalars['String']['output'];
+  direccion?: Maybe<Scalars['String']['output']>;
+  discapacidadPorcentaje?: Maybe<Scalars['BigDecimal']['output']>;
+  dni?: Maybe<Scalars['String']['output']>;
+  idDatosPersonales: Scalars['ID']['output'];
+  nombre: Scalars['String']['output'];
+  telefono?: Maybe<Scalars['String']['output']>;
+};
+
+export type DatosPersonalesInput = {
+  apellidos: Scalars['String']['input'];
+  direccion?: InputMaybe<Scalars['String']['input']>;
+  dni?: InputMaybe<Scalars['String']['input']>;
+  nombre: Scalars['String']['input'];
+  telefono?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type DireccionOrden =
+  | 'ASC'
+  | 'DESC';
+
+export type Empresa = {
+  __typename?: 'Empresa';
+  activo: Scalars['Boolean']['output'];
+  centros: Array<Centro>;
+  cif: Scalars['String']['output'];
+  direccionFiscal: Scalars['String']['output'];
+  idEmpresa: Scalars['ID']['output'];
+  nombreLegal: Scalars['String']['output'];
+};
+
+export type EmpresaInput = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  cif: Scalars['String']['input'];
+  direccionFiscal: Scalars['String']['input'];
+  nombreLegal: Scalars['String']['input'];
+};
+
+export type EntidadSubvencionadora = {
+  __typename?: 'EntidadSubvencionadora';
+  idEntidad: Scalars['ID']['output'];
+  nombre: Scalars['String']['output'];
+};
+
+export type EstadoFactura =
+  | 'ANULADA'
+  | 'EMITIDA'
+  | 'PAGADA';
+
+export type EstadoPago =
+  | 'CANCELADO'
+  | 'PAGADO'
+  | 'PENDIENTE';
+
+export type Factura = {
+  __typename?: 'Factura';
+  estado: EstadoFactura;
+  fechaEmision: Scalars['DateTime']['output'];
+  idFactura: Scalars['ID']['output'];
+  importeTotal: Scalars['Float']['output'];
+  matricula: Matricula;
+  motivoExencion?: Maybe<Scalars['String']['output']>;
+  numeroFactura: Scalars['String']['output'];
+  tipoIva: Scalars['Float']['output'];
+};
+
+export type Formato = {
+  __typename?: 'Formato';
+  activo: Scalars['Boolean']['output'];
+  descripcion?: Maybe<Scalars['String']['output']>;
+  idFormato: Scalars['ID']['output'];
+  nombre: Scalars['String']['output'];
+};
+
+export type FormatoInput = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  descripcion?: InputMaybe<Scalars['String']['input']>;
+  nombre: Scalars['String']['input'];
+};
+
+export type Materia = {
+  __typename?: 'Materia';
+  activo: Scalars['Boolean']['output'];
+  descripcion?: Maybe<Scalars['String']['output']>;
+  idMateria: Scalars['ID']['output'];
+  nombre: Scalars['String']['output'];
+};
+
+export type MateriaInput = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  descripcion?: InputMaybe<Scalars['String']['input']>;
+  nombre: Scalars['String']['input'];
+};
+
+export type Matricula = {
+  __typename?: 'Matricula';
+  alumno: Usuario;
+  calificaciones: Array<Calificacion>;
+  codigo: Scalars['String']['output'];
+  convocatoria: Convocatoria;
+  descuentoAplicado: Scalars['Float']['output'];
+  entidadSubvencionadora?: Maybe<EntidadSubvencionadora>;
+  estadoPago: EstadoPago;
+  facturas: Array<Factura>;
+  fechaMatricula: Scalars['DateTime']['output'];
+  idMatricula: Scalars['ID']['output'];
+  importeSubvencionado: Scalars['Float']['output'];
+  motivoDescuento?: Maybe<Scalars['String']['output']>;
+  precioBruto: Scalars['Float']['output'];
+  precioFinal: Scalars['Float']['output'];
+};
+
+export type MatriculaInput = {
+  descuentoAplicado: Scalars['Float']['input'];
+  estadoPago: EstadoPago;
+  idAlumno: Scalars['ID']['input'];
+  idConvocatoria: Scalars['ID']['input'];
+  importeSubvencionado: Scalars['Float']['input'];
+  motivoDescuento?: InputMaybe<Scalars['String']['input']>;
+  precioBruto: Scalars['Float']['input'];
+  precioFinal: Scalars['Float']['input'];
+};
+
+export type Mutation = {
+  __typename?: 'Mutation';
+  createCalificacion: Calificacion;
+  createCentro: Centro;
+  createConvocatoria: Convocatoria;
+  createCurso: Curso;
+  createEmpresa: Empresa;
+  createFormato: Formato;
+  createMateria: Materia;
+  createMatricula: Matricula;
+  createUsuario: Usuario;
+  deleteCurso: Scalars['Boolean']['output'];
+  deleteEmpresa: Scalars['Boolean']['output'];
+  deleteUsuario: Scalars['Boolean']['output'];
+  updateCalificacion: Calificacion;
+  updateCentro: Centro;
+  updateConvocatoria: Convocatoria;
+  updateCurso: Curso;
+  updateEmpresa: Empresa;
+  updateFormato: Formato;
+  updateMateria: Materia;
+  updateMatricula: Matricula;
+  updateUsuario: Usuario;
+};
+
+
+export type MutationCreateCalificacionArgs = {
+  input: CalificacionInput;
+};
+
+
+export type MutationCreateCentroArgs = {
+  input: CentroInput;
+};
+
+
+export type MutationCreateConvocatoriaArgs = {
+  input: ConvocatoriaInput;
+};
+
+
+export type MutationCreateCursoArgs = {
+  input: CursoInput;
+};
+
+
+export type MutationCreateEmpresaArgs = {
+  input: EmpresaInput;
+};
+
+
+export type MutationCreateFormatoArgs = {
+  input: FormatoInput;
+};
+
+
+export type MutationCreateMateriaArgs = {
+  input: MateriaInput;
+};
+
+
+export type MutationCreateMatriculaArgs = {
+  input: MatriculaInput;
+};
+
+
+export type MutationCreateUsuarioArgs = {
+  input: UsuarioInput;
+};
+
+
+export type MutationDeleteCursoArgs = {
+  id: Scalars['ID']['input'];
+};
+
+
+export type MutationDeleteEmpresaArgs = {
+  id: Scalars['ID']['input'];
+};
+
+
+export type MutationDeleteUsuarioArgs = {
+  id: Scalars['ID']['input'];
+};
+
+
+export type MutationUpdateCalificacionArgs = {
+  id: Scalars['ID']['input'];
+  input: CalificacionInput;
+};
+
+
+export type MutationUpdateCentroArgs = {
+  id: Scalars['ID']['input'];
+  input: CentroInput;
+};
+
+
+export type MutationUpdateConvocatoriaArgs = {
+  id: Scalars['ID']['input'];
+  input: ConvocatoriaInput;
+};
+
+
+export type MutationUpdateCursoArgs = {
+  id: Scalars['ID']['input'];
+  input: CursoInput;
+};
+
+
+export type MutationUpdateEmpresaArgs = {
+  id: Scalars['ID']['input'];
+  input: EmpresaInput;
+};
+
+
+export type MutationUpdateFormatoArgs = {
+  id: Scalars['ID']['input'];
+  input: FormatoInput;
+};
+
+
+export type MutationUpdateMateriaArgs = {
+  id: Scalars['ID']['input'];
+  input: MateriaInput;
+};
+
+
+export type MutationUpdateMatriculaArgs = {
+  id: Scalars['ID']['input'];
+  input: MatriculaInput;
+};
+
+
+export type MutationUpdateUsuarioArgs = {
+  id: Scalars['ID']['input'];
+  input: UsuarioInput;
+};
+
+export type Query = {
+  __typename?: 'Query';
+  centro?: Maybe<Centro>;
+  centros: Array<Centro>;
+  comunidades: Array<Comunidad>;
+  convocatoria?: Maybe<Convocatoria>;
+  convocatorias: Array<Convocatoria>;
+  curso?: Maybe<Curso>;
+  cursos: Array<Curso>;
+  cursosPaginados: CursoPagina;
+  empresa?: Maybe<Empresa>;
+  empresas: Array<Empresa>;
+  factura?: Maybe<Factura>;
+  formatos: Array<Formato>;
+  materias: Array<Materia>;
+  matriculas: Array<Matricula>;
+  misConvocatorias: Array<Convocatoria>;
+  usuario?: Maybe<Usuario>;
+  usuarioActual: Usuario;
+  usuarios: Array<Usuario>;
+};
+
+
+export type QueryCentroArgs = {
+  id: Scalars['ID']['input'];
+};
+
+
+export type QueryCentrosArgs = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+
+export type QueryConvocatoriaArgs = {
+  id: Scalars['ID']['input'];
+};
+
+
+export type QueryConvocatoriasArgs = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  idCentro?: InputMaybe<Scalars['ID']['input']>;
+};
+
+
+export type QueryCursoArgs = {
+  id: Scalars['ID']['input'];
+};
+
+
+export type QueryCursosArgs = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+
+export type QueryCursosPaginadosArgs = {
+  filtro?: InputMaybe<CursoFiltroInput>;
+  orden?: InputMaybe<CursoOrdenInput>;
+  pagina?: InputMaybe<Scalars['Int']['input']>;
+  tamano?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryEmpresaArgs = {
+  id: Scalars['ID']['input'];
+};
+
+
+export type QueryEmpresasArgs = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+
+export type QueryFacturaArgs = {
+  id: Scalars['ID']['input'];
+};
+
+
+export type QueryMateriasArgs = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+
+export type QueryMatriculasArgs = {
+  estadoPago?: InputMaybe<EstadoPago>;
+  idAlumno?: InputMaybe<Scalars['ID']['input']>;
+};
+
+
+export type QueryMisConvocatoriasArgs = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+
+export type QueryUsuarioArgs = {
+  id: Scalars['ID']['input'];
+};
+
+
+export type QueryUsuariosArgs = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  rol?: InputMaybe<Rol>;
+};
+
+export type Rol =
+  | 'ADMIN'
+  | 'ADMINISTRATIVO'
+  | 'ALUMNO'
+  | 'PROFESOR';
+
+export type Usuario = {
+  __typename?: 'Usuario';
+  activo: Scalars['Boolean']['output'];
+  centro?: Maybe<Centro>;
+  datosPersonales?: Maybe<DatosPersonales>;
+  email: Scalars['String']['output'];
+  fechaCreacion: Scalars['DateTime']['output'];
+  idUsuario: Scalars['ID']['output'];
+  rol: Rol;
+};
+
+export type UsuarioInput = {
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+  datosPersonales?: InputMaybe<DatosPersonalesInput>;
+  email: Scalars['String']['input'];
+  password?: InputMaybe<Scalars['String']['input']>;
+  rol: Rol;
+};
+
+export type CentroFieldsFragment = { __typename?: 'Centro', idCentro: string, codigoCentro: string, nombre: string, capacidadMaxima: number, activo: boolean, empresa: { __typename?: 'Empresa', idEmpresa: string, nombreLegal: string, cif: string }, comunidad: { __typename?: 'Comunidad', codigo: string, nombre: string } };
+
+export type EmpresaOptionFieldsFragment = { __typename?: 'Empresa', idEmpresa: string, nombreLegal: string, cif: string };
+
+export type ComunidadFieldsFragment = { __typename?: 'Comunidad', codigo: string, nombre: string };
+
+export type CreateCentroMutationVariables = Exact<{
+  input: CentroInput;
+}>;
+
+
+export type CreateCentroMutation = { __typename?: 'Mutation', createCentro: { __typename?: 'Centro', idCentro: string, codigoCentro: string, nombre: string, capacidadMaxima: number, activo: boolean, empresa: { __typename?: 'Empresa', idEmpresa: string, nombreLegal: string, cif: string }, comunidad: { __typename?: 'Comunidad', codigo: string, nombre: string } } };
+
+export type GetCentroConvocatoriasQueryVariables = Exact<{
+  idCentro: Scalars['ID']['input'];
+}>;
+
+
+export type GetCentroConvocatoriasQuery = { __typename?: 'Query', convocatorias: Array<{ __typename?: 'Convocatoria', idConvocatoria: string, codigo: string, fechaInicio: string, fechaFin: string, activo: boolean, curso: { __typename?: 'Curso', nombre: string }, matriculas: Array<{ __typename?: 'Matricula', idMatricula: string, estadoPago: EstadoPago }> }> };
+
+export type GetCentroQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetCentroQuery = { __typename?: 'Query', centro?: { __typename?: 'Centro', idCentro: string, codigoCentro: string, nombre: string, capacidadMaxima: number, activo: boolean, empresa: { __typename?: 'Empresa', idEmpresa: string, nombreLegal: string, cif: string }, comunidad: { __typename?: 'Comunidad', codigo: string, nombre: string } } | null };
+
+export type GetCentrosCompletosQueryVariables = Exact<{
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+}>;
+
+
+export type GetCentrosCompletosQuery = { __typename?: 'Query', centros: Array<{ __typename?: 'Centro', idCentro: string, codigoCentro: string, nombre: string, capacidadMaxima: number, activo: boolean, empresa: { __typename?: 'Empresa', idEmpresa: string, nombreLegal: string, cif: string }, comunidad: { __typename?: 'Comunidad', codigo: string, nombre: string } }> };
+
+export type GetComunidadesQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type GetComunidadesQuery = { __typename?: 'Query', comunidades: Array<{ __typename?: 'Comunidad', codigo: string, nombre: string }> };
+
+export type GetEmpresasOptionsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type GetEmpresasOptionsQuery = { __typename?: 'Query', empresas: Array<{ __typename?: 'Empresa', idEmpresa: string, nombreLegal: string, cif: string }> };
+
+export type UpdateCentroMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  input: CentroInput;
+}>;
+
+
+export type UpdateCentroMutation = { __typename?: 'Mutation', updateCentro: { __typename?: 'Centro', idCentro: string, codigoCentro: string, nombre: string, capacidadMaxima: number, activo: boolean, empresa: { __typename?: 'Empresa', idEmpresa: string, nombreLegal: string, cif: string }, comunidad: { __typename?: 'Comunidad', codigo: string, nombre: string } } };
+
+export type CreateCursoMutationVariables = Exact<{
+  input: CursoInput;
+}>;
+
+
+export type CreateCursoMutation = { __typename?: 'Mutation', createCurso: { __typename?: 'Curso', idCurso: string, nombre: string, precioBase: number, duracionHoras?: number | null, activo: boolean } };
+
+export type CursoFieldsFragment = { __typename?: 'Curso', idCurso: string, nombre: string, precioBase: number, duracionHoras?: number | null, activo: boolean };
+
+export type DeleteCursoMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type DeleteCursoMutation = { __typename?: 'Mutation', deleteCurso: boolean };
+
+export type GetCursoSinRelacionesQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetCursoSinRelacionesQuery = { __typename?: 'Query', curso?: { __typename?: 'Curso', idCurso: string, nombre: string, precioBase: number, duracionHoras?: number | null, activo: boolean } | null };
+
+export type GetCursoQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetCursoQuery = { __typename?: 'Query', curso?: { __typename?: 'Curso', idCurso: string, nombre: string, precioBase: number, duracionHoras?: number | null, activo: boolean, materia: { __typename?: 'Materia', idMateria: string, nombre: string }, formato: { __typename?: 'Formato', idFormato: string, nombre: string } } | null };
+
+export type GetCursosPaginadosQueryVariables = Exact<{
+  filtro?: InputMaybe<CursoFiltroInput>;
+  orden?: InputMaybe<CursoOrdenInput>;
+  pagina: Scalars['Int']['input'];
+  tamano: Scalars['Int']['input'];
+}>;
+
+
+export type GetCursosPaginadosQuery = { __typename?: 'Query', cursosPaginados: { __typename?: 'CursoPagina', totalElementos: number, totalPaginas: number, pagina: number, tamano: number, contenido: Array<{ __typename?: 'Curso', idCurso: string, nombre: string, precioBase: number, duracionHoras?: number | null, activo: boolean }> } };
+
+export type GetCursosQueryVariables = Exact<{
+  activo?: InputMaybe<Scalars['Boolean']['input']>;
+}>;
+
+
+export type GetCursosQuery = { __typename?: 'Query', cursos: Array<{ __typename?: 'Curso', idCurso: string, nombre: string, precioBase: number, duracionHoras?: number | null, activo: boolean }> };
+
+export type UpdateCursoMutationVariables = Exact<{
+  id: Scalars['ID']['input'];
+  input: CursoInput;
+}>;
+
+
+export type UpdateCursoMutation = { __typename?: 'Mutation', updateCurso: { __typename?: 'Curso', idCurso: string, nombre: string, precioBase: number, duracionHoras?: number | null, activo: boolean } };
+
+export const EmpresaOptionFieldsFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"EmpresaOptionFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Empresa"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idEmpresa"}},{"kind":"Field","name":{"kind":"Name","value":"nombreLegal"}},{"kind":"Field","name":{"kind":"Name","value":"cif"}}]}}]} as unknown as DocumentNode<EmpresaOptionFieldsFragment, unknown>;
+export const ComunidadFieldsFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"ComunidadFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Comunidad"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"codigo"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}}]} as unknown as DocumentNode<ComunidadFieldsFragment, unknown>;
+export const CentroFieldsFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CentroFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Centro"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCentro"}},{"kind":"Field","name":{"kind":"Name","value":"codigoCentro"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"capacidadMaxima"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}},{"kind":"Field","name":{"kind":"Name","value":"empresa"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"EmpresaOptionFields"}}]}},{"kind":"Field","name":{"kind":"Name","value":"comunidad"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"ComunidadFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"EmpresaOptionFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Empresa"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idEmpresa"}},{"kind":"Field","name":{"kind":"Name","value":"nombreLegal"}},{"kind":"Field","name":{"kind":"Name","value":"cif"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"ComunidadFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Comunidad"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"codigo"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}}]} as unknown as DocumentNode<CentroFieldsFragment, unknown>;
+export const CursoFieldsFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CursoFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Curso"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCurso"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"precioBase"}},{"kind":"Field","name":{"kind":"Name","value":"duracionHoras"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}}]}}]} as unknown as DocumentNode<CursoFieldsFragment, unknown>;
+export const CreateCentroDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"mutation","name":{"kind":"Name","value":"CreateCentro"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"input"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"CentroInput"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"createCentro"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"input"},"value":{"kind":"Variable","name":{"kind":"Name","value":"input"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CentroFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"EmpresaOptionFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Empresa"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idEmpresa"}},{"kind":"Field","name":{"kind":"Name","value":"nombreLegal"}},{"kind":"Field","name":{"kind":"Name","value":"cif"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"ComunidadFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Comunidad"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"codigo"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CentroFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Centro"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCentro"}},{"kind":"Field","name":{"kind":"Name","value":"codigoCentro"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"capacidadMaxima"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}},{"kind":"Field","name":{"kind":"Name","value":"empresa"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"EmpresaOptionFields"}}]}},{"kind":"Field","name":{"kind":"Name","value":"comunidad"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"ComunidadFields"}}]}}]}}]} as unknown as DocumentNode<CreateCentroMutation, CreateCentroMutationVariables>;
+export const GetCentroConvocatoriasDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"GetCentroConvocatorias"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"idCentro"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"convocatorias"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"idCentro"},"value":{"kind":"Variable","name":{"kind":"Name","value":"idCentro"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idConvocatoria"}},{"kind":"Field","name":{"kind":"Name","value":"codigo"}},{"kind":"Field","name":{"kind":"Name","value":"fechaInicio"}},{"kind":"Field","name":{"kind":"Name","value":"fechaFin"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}},{"kind":"Field","name":{"kind":"Name","value":"curso"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}},{"kind":"Field","name":{"kind":"Name","value":"matriculas"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idMatricula"}},{"kind":"Field","name":{"kind":"Name","value":"estadoPago"}}]}}]}}]}}]} as unknown as DocumentNode<GetCentroConvocatoriasQuery, GetCentroConvocatoriasQueryVariables>;
+export const GetCentroDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"GetCentro"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"id"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"centro"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"id"},"value":{"kind":"Variable","name":{"kind":"Name","value":"id"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CentroFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"EmpresaOptionFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Empresa"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idEmpresa"}},{"kind":"Field","name":{"kind":"Name","value":"nombreLegal"}},{"kind":"Field","name":{"kind":"Name","value":"cif"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"ComunidadFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Comunidad"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"codigo"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CentroFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Centro"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCentro"}},{"kind":"Field","name":{"kind":"Name","value":"codigoCentro"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"capacidadMaxima"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}},{"kind":"Field","name":{"kind":"Name","value":"empresa"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"EmpresaOptionFields"}}]}},{"kind":"Field","name":{"kind":"Name","value":"comunidad"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"ComunidadFields"}}]}}]}}]} as unknown as DocumentNode<GetCentroQuery, GetCentroQueryVariables>;
+export const GetCentrosCompletosDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"GetCentrosCompletos"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"activo"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"Boolean"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"centros"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"activo"},"value":{"kind":"Variable","name":{"kind":"Name","value":"activo"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CentroFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"EmpresaOptionFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Empresa"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idEmpresa"}},{"kind":"Field","name":{"kind":"Name","value":"nombreLegal"}},{"kind":"Field","name":{"kind":"Name","value":"cif"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"ComunidadFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Comunidad"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"codigo"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CentroFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Centro"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCentro"}},{"kind":"Field","name":{"kind":"Name","value":"codigoCentro"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"capacidadMaxima"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}},{"kind":"Field","name":{"kind":"Name","value":"empresa"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"EmpresaOptionFields"}}]}},{"kind":"Field","name":{"kind":"Name","value":"comunidad"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"ComunidadFields"}}]}}]}}]} as unknown as DocumentNode<GetCentrosCompletosQuery, GetCentrosCompletosQueryVariables>;
+export const GetComunidadesDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"GetComunidades"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"comunidades"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"ComunidadFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"ComunidadFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Comunidad"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"codigo"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}}]} as unknown as DocumentNode<GetComunidadesQuery, GetComunidadesQueryVariables>;
+export const GetEmpresasOptionsDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"GetEmpresasOptions"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"empresas"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"activo"},"value":{"kind":"BooleanValue","value":true}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"EmpresaOptionFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"EmpresaOptionFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Empresa"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idEmpresa"}},{"kind":"Field","name":{"kind":"Name","value":"nombreLegal"}},{"kind":"Field","name":{"kind":"Name","value":"cif"}}]}}]} as unknown as DocumentNode<GetEmpresasOptionsQuery, GetEmpresasOptionsQueryVariables>;
+export const UpdateCentroDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"mutation","name":{"kind":"Name","value":"UpdateCentro"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"id"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"input"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"CentroInput"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"updateCentro"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"id"},"value":{"kind":"Variable","name":{"kind":"Name","value":"id"}}},{"kind":"Argument","name":{"kind":"Name","value":"input"},"value":{"kind":"Variable","name":{"kind":"Name","value":"input"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CentroFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"EmpresaOptionFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Empresa"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idEmpresa"}},{"kind":"Field","name":{"kind":"Name","value":"nombreLegal"}},{"kind":"Field","name":{"kind":"Name","value":"cif"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"ComunidadFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Comunidad"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"codigo"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CentroFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Centro"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCentro"}},{"kind":"Field","name":{"kind":"Name","value":"codigoCentro"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"capacidadMaxima"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}},{"kind":"Field","name":{"kind":"Name","value":"empresa"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"EmpresaOptionFields"}}]}},{"kind":"Field","name":{"kind":"Name","value":"comunidad"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"ComunidadFields"}}]}}]}}]} as unknown as DocumentNode<UpdateCentroMutation, UpdateCentroMutationVariables>;
+export const CreateCursoDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"mutation","name":{"kind":"Name","value":"CreateCurso"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"input"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"CursoInput"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"createCurso"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"input"},"value":{"kind":"Variable","name":{"kind":"Name","value":"input"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CursoFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CursoFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Curso"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCurso"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"precioBase"}},{"kind":"Field","name":{"kind":"Name","value":"duracionHoras"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}}]}}]} as unknown as DocumentNode<CreateCursoMutation, CreateCursoMutationVariables>;
+export const DeleteCursoDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"mutation","name":{"kind":"Name","value":"DeleteCurso"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"id"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"deleteCurso"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"id"},"value":{"kind":"Variable","name":{"kind":"Name","value":"id"}}}]}]}}]} as unknown as DocumentNode<DeleteCursoMutation, DeleteCursoMutationVariables>;
+export const GetCursoSinRelacionesDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"GetCursoSinRelaciones"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"id"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"curso"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"id"},"value":{"kind":"Variable","name":{"kind":"Name","value":"id"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CursoFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CursoFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Curso"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCurso"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"precioBase"}},{"kind":"Field","name":{"kind":"Name","value":"duracionHoras"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}}]}}]} as unknown as DocumentNode<GetCursoSinRelacionesQuery, GetCursoSinRelacionesQueryVariables>;
+export const GetCursoDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"GetCurso"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"id"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"curso"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"id"},"value":{"kind":"Variable","name":{"kind":"Name","value":"id"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CursoFields"}},{"kind":"Field","name":{"kind":"Name","value":"materia"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idMateria"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}},{"kind":"Field","name":{"kind":"Name","value":"formato"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idFormato"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CursoFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Curso"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCurso"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"precioBase"}},{"kind":"Field","name":{"kind":"Name","value":"duracionHoras"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}}]}}]} as unknown as DocumentNode<GetCursoQuery, GetCursoQueryVariables>;
+export const GetCursosPaginadosDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"GetCursosPaginados"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"filtro"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"CursoFiltroInput"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"orden"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"CursoOrdenInput"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"pagina"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"Int"}}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"tamano"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"Int"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"cursosPaginados"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"filtro"},"value":{"kind":"Variable","name":{"kind":"Name","value":"filtro"}}},{"kind":"Argument","name":{"kind":"Name","value":"orden"},"value":{"kind":"Variable","name":{"kind":"Name","value":"orden"}}},{"kind":"Argument","name":{"kind":"Name","value":"pagina"},"value":{"kind":"Variable","name":{"kind":"Name","value":"pagina"}}},{"kind":"Argument","name":{"kind":"Name","value":"tamano"},"value":{"kind":"Variable","name":{"kind":"Name","value":"tamano"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"contenido"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CursoFields"}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalElementos"}},{"kind":"Field","name":{"kind":"Name","value":"totalPaginas"}},{"kind":"Field","name":{"kind":"Name","value":"pagina"}},{"kind":"Field","name":{"kind":"Name","value":"tamano"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CursoFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Curso"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCurso"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"precioBase"}},{"kind":"Field","name":{"kind":"Name","value":"duracionHoras"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}}]}}]} as unknown as DocumentNode<GetCursosPaginadosQuery, GetCursosPaginadosQueryVariables>;
+export const GetCursosDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"GetCursos"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"activo"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"Boolean"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"cursos"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"activo"},"value":{"kind":"Variable","name":{"kind":"Name","value":"activo"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CursoFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CursoFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Curso"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCurso"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"precioBase"}},{"kind":"Field","name":{"kind":"Name","value":"duracionHoras"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}}]}}]} as unknown as DocumentNode<GetCursosQuery, GetCursosQueryVariables>;
+export const UpdateCursoDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"mutation","name":{"kind":"Name","value":"UpdateCurso"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"id"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"input"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"CursoInput"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"updateCurso"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"id"},"value":{"kind":"Variable","name":{"kind":"Name","value":"id"}}},{"kind":"Argument","name":{"kind":"Name","value":"input"},"value":{"kind":"Variable","name":{"kind":"Name","value":"input"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CursoFields"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CursoFields"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Curso"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"idCurso"}},{"kind":"Field","name":{"kind":"Name","value":"nombre"}},{"kind":"Field","name":{"kind":"Name","value":"precioBase"}},{"kind":"Field","name":{"kind":"Name","value":"duracionHoras"}},{"kind":"Field","name":{"kind":"Name","value":"activo"}}]}}]} as unknown as DocumentNode<UpdateCursoMutation, UpdateCursoMutationVariables>;
\ No newline at end of file